@@ -1,13 +1,18 @@
 import { Navigate, Route, Routes } from 'react-router-dom'
+import { AdminUsagePage } from './pages/AdminUsagePage'
 import { HomePage } from './pages/HomePage'
 import { JobPage } from './pages/JobPage'
+import { AuthGate } from './ui/AuthGate'
 
 export default function App() {
   return (
-    <Routes>
-      <Route path="/" element={<HomePage />} />
-      <Route path="/jobs/:id" element={<JobPage />} />
-      <Route path="*" element={<Navigate to="/" replace />} />
-    </Routes>
+    <AuthGate>
+      <Routes>
+        <Route path="/" element={<HomePage />} />
+        <Route path="/jobs/:id" element={<JobPage />} />
+        <Route path="/admin/usage" element={<AdminUsagePage />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+    </AuthGate>
   )
 }
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { getSupabase } from './supabaseClient'
+
+/** Edge Functions 호출에 쓸 access token (로그인 전이면 null) */
+export async function getAccessToken(): Promise<string | null> {
+  try {
+    const { data } = await getSupabase().auth.getSession()
+    return data.session?.access_token ?? null
+  } catch {
+    return null
+  }
+}
+
+function getInitError(): string | null {
+  try {
+    getSupabase()
+    return null
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+export function useSession(): { session: Session | null; loading: boolean; error: string | null } {
+  // 환경변수 누락 등으로 클라이언트를 만들 수 없으면 화면에 에러를 표시합니다.
+  const [error] = useState(getInitError)
+  const [session, setSession] = useState<Session | null>(null)
+  const [loading, setLoading] = useState(!error)
+
+  useEffect(() => {
+    if (error) return
+    const auth = getSupabase().auth
+    auth
+      .getSession()
+      .then(({ data }) => setSession(data.session))
+      .finally(() => setLoading(false))
+    const sub = auth.onAuthStateChange((_event, next) => setSession(next))
+    return () => sub.data.subscription.unsubscribe()
+  }, [error])
+
+  return { session, loading, error }
+}
+
+export async function signInWithPassword(email: string, password: string) {
+  const { error } = await getSupabase().auth.signInWithPassword({ email, password })
+  if (error) throw error
+}
+
+/** 반환값: 이메일 확인이 필요하면 true (프로젝트 Auth 설정에 따라 세션이 바로 생기지 않음) */
+export async function signUpWithPassword(email: string, password: string): Promise<boolean> {
+  const { data, error } = await getSupabase().auth.signUp({ email, password })
+  if (error) throw error
+  return !data.session
+}
+
+export async function signOut() {
+  await getSupabase().auth.signOut()
+}
@@ -17,16 +17,30 @@ export function downloadJson(filename: string, data: unknown) {
   downloadBlob(filename, blob)
 }
 
-export async function downloadFileFromUrl(url: string, filename: string) {
+// 비공개 버킷의 signed URL이 만료되면 Storage가 400/403을 돌려줍니다.
+function isExpiredUrlStatus(status: number) {
+  return status === 400 || status === 401 || status === 403
+}
+
+// refreshUrl: 만료된 signed URL 대신 새 URL을 받아오는 함수 (한 번만 재시도)
+export async function downloadFileFromUrl(url: string, filename: string, refreshUrl?: () => Promise<string | null>) {
+  let target = url
   try {
-    const res = await fetch(url, { mode: 'cors' })
+    let res = await fetch(target, { mode: 'cors' })
+    if (!res.ok && refreshUrl && isExpiredUrlStatus(res.status)) {
+      const next = await refreshUrl()
+      if (next) {
+        target = next
+        res = await fetch(target, { mode: 'cors' })
+      }
+    }
     if (!res.ok) throw new Error(`HTTP ${res.status}`)
     const blob = await res.blob()
     downloadBlob(filename, blob)
   } catch {
     // fallback: open direct (CORS 정책/네트워크 이슈 등)
     const a = document.createElement('a')
-    a.href = url
+    a.href = target
     a.download = filename
     a.target = '_blank'
     a.rel = 'noreferrer'
@@ -47,18 +61,26 @@ function guessExtFromContentType(ct: string | null) {
   return 'png'
 }
 
+// refreshUrls: 다운로드 도중 signed URL이 만료되면 새 URL 목록을 받아오는 함수 (한 번만 호출)
 export async function downloadScenesImagesZip(
   scenes: Array<{ scene_id: number; image_url: string }>,
   zipFilename: string,
   onProgress?: (done: number, total: number) => void,
+  refreshUrls?: () => Promise<Array<{ scene_id: number; image_url: string }>>,
 ) {
   const { default: JSZip } = await import('jszip')
   const zip = new JSZip()
   const total = scenes.length
   let done = 0
+  let refreshed: Map<number, string> | null = null
 
   for (const s of scenes) {
-    const res = await fetch(s.image_url, { mode: 'cors' })
+    let res = await fetch(refreshed?.get(s.scene_id) ?? s.image_url, { mode: 'cors' })
+    if (!res.ok && refreshUrls && !refreshed && isExpiredUrlStatus(res.status)) {
+      refreshed = new Map((await refreshUrls()).map((x) => [x.scene_id, x.image_url]))
+      const next = refreshed.get(s.scene_id)
+      if (next) res = await fetch(next, { mode: 'cors' })
+    }
     if (!res.ok) throw new Error(`scene ${s.scene_id} download failed: HTTP ${res.status}`)
     const ct = res.headers.get('content-type')
     const ext = guessExtFromContentType(ct)
@@ -72,4 +94,8 @@ export async function downloadScenesImagesZip(
   downloadBlob(zipFilename, blob)
 }
 
-
+// 추정 비용 표시용 (소액이 많아 $0.01 미만은 소수 4자리까지)
+export function formatUsd(v: number) {
+  if (v === 0) return '$0'
+  return v < 0.01 ? `$${v.toFixed(4)}` : `$${v.toFixed(2)}`
+}
@@ -1,3 +1,4 @@
+import { getAccessToken } from './auth'
 import { getEnv } from './env'
 
 type JsonValue = null | boolean | number | string | JsonValue[] | { [k: string]: JsonValue }
@@ -45,12 +46,13 @@ export async function functionsPost<TResponse, TBody extends JsonValue>(
 ): Promise<TResponse> {
   const env = getEnv()
   const url = `${env.functionsBase.replace(/\/$/, '')}/${path.replace(/^\//, '')}`
+  const token = (await getAccessToken()) ?? env.supabaseAnonKey
   const res = await fetch(url, {
     method: 'POST',
     headers: {
       'content-type': 'application/json',
       apikey: env.supabaseAnonKey,
-      authorization: `Bearer ${env.supabaseAnonKey}`,
+      authorization: `Bearer ${token}`,
       ...(init?.headers ?? {}),
     },
     body: JSON.stringify(body),
@@ -75,11 +77,13 @@ export async function functionsPost<TResponse, TBody extends JsonValue>(
 export async function functionsGet<TResponse>(pathWithQuery: string, init?: RequestInit): Promise<TResponse> {
   const env = getEnv()
   const url = `${env.functionsBase.replace(/\/$/, '')}/${pathWithQuery.replace(/^\//, '')}`
+  // 로그인 세션이 있으면 사용자 JWT로 호출 (Edge Functions가 job 소유자를 확인)
+  const token = (await getAccessToken()) ?? env.supabaseAnonKey
   const res = await fetch(url, {
     method: 'GET',
     headers: {
       apikey: env.supabaseAnonKey,
-      authorization: `Bearer ${env.supabaseAnonKey}`,
+      authorization: `Bearer ${token}`,
       ...(init?.headers ?? {}),
     },
     signal: init?.signal,
@@ -0,0 +1,114 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabase } from './supabaseClient'
+import type { DbJobEventRow, DbTaskRow, JobEvent, RuntimeLogLine, TrendStoryStatusResponse } from './types'
+
+export type JobEventsState = 'connecting' | 'live' | 'off'
+
+/**
+ * ytg_job_events INSERT를 구독합니다. (2025-12-25_add_job_events_realtime.sql 필요)
+ * - 연결되면 onState('live'), 끊기거나 실패하면 onState('off') → 호출 측은 폴링으로 폴백
+ * - 반환값: 구독 해제 함수
+ */
+export function subscribeJobEvents(
+  jobId: string,
+  handlers: { onEvent: (ev: DbJobEventRow) => void; onState: (state: JobEventsState) => void },
+): () => void {
+  let supabase: SupabaseClient
+  try {
+    // 로그인 세션의 JWT로 구독 → RLS가 본인 job 이벤트만 전달
+    supabase = getSupabase()
+  } catch {
+    handlers.onState('off')
+    return () => {}
+  }
+
+  handlers.onState('connecting')
+  const channel = supabase
+    .channel(`ytg-job-${jobId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'ytg_job_events', filter: `job_id=eq.${jobId}` },
+      (msg) => handlers.onEvent(msg.new as DbJobEventRow),
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') handlers.onState('live')
+      else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') handlers.onState('off')
+    })
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+function getLogs(packager: unknown): RuntimeLogLine[] {
+  const pk = packager as { _runtime?: { logs?: RuntimeLogLine[] } } | null
+  return Array.isArray(pk?._runtime?.logs) ? pk._runtime.logs : []
+}
+
+function upsertTask(tasks: DbTaskRow[], task: DbTaskRow) {
+  const idx = tasks.findIndex((t) => t.id === task.id)
+  if (idx < 0) return [...tasks, task]
+  const next = tasks.slice()
+  next[idx] = { ...next[idx], ...task }
+  return next
+}
+
+/**
+ * 변경분만으로 화면을 재구성할 수 없는 이벤트인지 여부
+ * - 단계 완료: autoconfig/packager/씬 목록이 바뀜
+ * - 종료 상태: final_package 등 결과물이 채워짐
+ * - 비공개 버킷 모드의 새 이미지/오디오: DB에는 경로만 있어 signed URL을 status에서 받아야 함
+ */
+export function jobEventNeedsRefresh(ev: JobEvent): boolean {
+  if (ev.kind === 'stage') return true
+  if (ev.kind === 'status') return ev.payload.status !== 'QUEUED' && ev.payload.status !== 'RUNNING'
+  if (ev.kind === 'scene_image') return ev.payload.image_gen_status === 'SUCCEEDED' && !ev.payload.image_url && Boolean(ev.payload.image_path)
+  if (ev.kind === 'scene_audio') return !ev.payload.url && Boolean(ev.payload.path)
+  return false
+}
+
+/** 이벤트 1개를 현재 상태에 반영합니다. (이벤트가 왔다는 것은 job이 살아있다는 뜻이므로 stalled도 해제) */
+export function applyJobEvent(prev: TrendStoryStatusResponse, ev: JobEvent): TrendStoryStatusResponse {
+  const data: TrendStoryStatusResponse = prev.stalled ? { ...prev, stalled: false, stalled_reason: null } : prev
+  if (ev.kind === 'status') {
+    const { status, error } = ev.payload
+    return { ...data, status, job: { ...data.job, status, error } }
+  }
+  if (ev.kind === 'stage') {
+    const checkpoints = { ...(data.job.checkpoints ?? {}), [ev.payload.stage]: ev.payload.checkpoint }
+    return { ...data, job: { ...data.job, checkpoints } }
+  }
+  if (ev.kind === 'log') {
+    const pk = (data.job.packager ?? {}) as { _runtime?: Record<string, unknown> }
+    const packager = { ...pk, _runtime: { ...(pk._runtime ?? {}), logs: [...getLogs(pk), ev.payload] } }
+    return { ...data, job: { ...data.job, packager } }
+  }
+  if (ev.kind === 'scene_image') {
+    // 비공개 버킷 모드에서는 이벤트에 URL이 없으므로, 같은 파일이면 받아 둔 signed URL을 유지합니다.
+    const scenes = (data.scenes ?? []).map((s) => {
+      if (s.scene_id !== ev.payload.scene_id) return s
+      const keepUrl = !ev.payload.image_url && Boolean(ev.payload.image_path) && ev.payload.image_path === s.image_path
+      // 새 이미지가 저장되면 서버가 image_stale을 해제합니다.
+      const imageStale = ev.payload.image_gen_status === 'SUCCEEDED' ? false : s.image_stale
+      return { ...s, ...ev.payload, image_url: keepUrl ? s.image_url : ev.payload.image_url, image_stale: imageStale }
+    })
+    return { ...data, scenes }
+  }
+  if (ev.kind === 'scene_audio') {
+    const assets = (data.assets ?? []).filter((a) => a.id !== ev.payload.id)
+    // 씬 오디오가 새로 저장되면 서버가 audio_stale을 해제합니다.
+    const sceneId = Number((ev.payload.meta as { scene_id?: unknown } | null)?.scene_id)
+    const scenes = Number.isFinite(sceneId)
+      ? (data.scenes ?? []).map((s) => (s.scene_id === sceneId ? { ...s, audio_stale: false } : s))
+      : data.scenes
+    return { ...data, assets: [...assets, ev.payload], scenes }
+  }
+  if (ev.kind === 'task') {
+    return { ...data, tasks: upsertTask(data.tasks ?? [], ev.payload) }
+  }
+  return data
+}
+
+export function getRuntimeLogs(data: TrendStoryStatusResponse | null): RuntimeLogLine[] {
+  return getLogs(data?.job.packager ?? null)
+}
@@ -0,0 +1,55 @@
+import type { SceneAudioRef, TrendStoryStatusResponse } from './types'
+
+// 만료 이 시간 전부터는 새 URL로 교체합니다.
+export const SIGNED_URL_REFRESH_MARGIN_MS = 60_000
+
+function getSceneAudios(data: TrendStoryStatusResponse): SceneAudioRef[] | null {
+  const fp = data.job.final_package as { audio?: { scene_audios?: SceneAudioRef[] } } | null
+  return Array.isArray(fp?.audio?.scene_audios) ? fp.audio.scene_audios : null
+}
+
+/**
+ * 비공개 버킷 모드에서는 status를 조회할 때마다 signed URL이 새로 발급됩니다.
+ * 폴링마다 <img>/<audio>의 src가 바뀌면 다시 내려받거나 재생이 끊기므로,
+ * 이전 URL이 아직 충분히 유효하면 같은 파일(경로/생성 요청이 같은 것)은 이전 URL을 유지합니다.
+ */
+export function keepSignedUrls(prev: TrendStoryStatusResponse | null, next: TrendStoryStatusResponse): TrendStoryStatusResponse {
+  if (!prev?.signed_url_expires_at || !next.signed_url_expires_at || prev.job.id !== next.job.id) return next
+  if (Date.parse(prev.signed_url_expires_at) - Date.now() < SIGNED_URL_REFRESH_MARGIN_MS) return next
+
+  const prevScenes = new Map((prev.scenes ?? []).map((s) => [s.scene_id, s]))
+  const scenes = next.scenes?.map((s) => {
+    const p = prevScenes.get(s.scene_id)
+    const same = p?.image_url && p.image_path === s.image_path && p.image_gen_request_id === s.image_gen_request_id
+    return same ? { ...s, image_url: p.image_url } : s
+  })
+
+  const prevAssets = new Map((prev.assets ?? []).map((a) => [a.id, a]))
+  const assets = next.assets?.map((a) => {
+    const p = prevAssets.get(a.id)
+    return p?.url && p.path === a.path ? { ...a, url: p.url } : a
+  })
+
+  let job = next.job
+  const nextAudios = getSceneAudios(next)
+  if (nextAudios) {
+    const prevAudios = new Map((getSceneAudios(prev) ?? []).map((a) => [a.scene_id, a]))
+    const sceneAudios = nextAudios.map((a) => {
+      const p = prevAudios.get(a.scene_id)
+      return p?.audio_url && p.audio_path && p.audio_path === a.audio_path ? { ...a, audio_url: p.audio_url } : a
+    })
+    const fp = job.final_package as { audio?: Record<string, unknown> }
+    job = { ...job, final_package: { ...fp, audio: { ...fp.audio, scene_audios: sceneAudios } } }
+  }
+
+  // 유지한 URL 중 가장 먼저 만료되는 시각 = 이전 응답의 만료 시각
+  return { ...next, job, scenes, assets, signed_url_expires_at: prev.signed_url_expires_at }
+}
+
+/** 다음 URL 갱신까지 남은 시간(ms). signed URL이 없으면 null */
+export function signedUrlRefreshDelayMs(expiresAt: string | null | undefined): number | null {
+  if (!expiresAt) return null
+  const at = Date.parse(expiresAt)
+  if (!Number.isFinite(at)) return null
+  return Math.max(5_000, at - Date.now() - SIGNED_URL_REFRESH_MARGIN_MS)
+}
@@ -0,0 +1,16 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { getEnv } from './env'
+
+let client: SupabaseClient | null = null
+
+/**
+ * 브라우저용 Supabase 클라이언트 (Auth 세션 + Realtime 구독)
+ * - getEnv와 같이 필요할 때 생성합니다. (환경변수 누락 시 호출 측에서 에러를 표시)
+ * - DB/Storage 쓰기는 하지 않습니다. 생성/수정은 모두 Edge Functions를 통해 수행됩니다.
+ */
+export function getSupabase(): SupabaseClient {
+  if (client) return client
+  const env = getEnv()
+  client = createClient(env.supabaseUrl, env.supabaseAnonKey)
+  return client
+}
@@ -1,17 +1,75 @@
-export type TrendStoryStartRequest = {
+export type ProviderId = 'openai' | 'openai_compatible' | 'fake'
+
+// 파이프라인 단계 (체크포인트 단위, 실행 순서대로)
+export type PipelineStage = 'autoconfig' | 'packager' | 'scenes' | 'tts' | 'image_requests' | 'final_package'
+
+export type JobCheckpoints = Partial<Record<PipelineStage, { done_at: string; [key: string]: unknown }>>
+
+export type PlatformTarget = 'youtube_16_9' | 'shorts_9_16' | 'square_1_1'
+
+// 생성 옵션: 지정한 값은 AutoConfig가 반드시 지키는 고정 조건 (비우면 AutoConfig가 정함)
+export type GenerationOptions = {
+  tone?: string
+  visual_style?: string
+  main_character_hint?: string
+  platform_target?: PlatformTarget
+  scene_count_min?: number // 1~12
+  scene_count_max?: number // 1~12
+  duration_min?: number // 1~60
+  tts_voice?: string // 예: alloy, nova (fixture provider는 무시)
+  extra_prompt?: string // 추가 프롬프트 앞에 붙는 지시사항
+}
+
+export type SafetyLevel = 'strict' | 'standard'
+
+// 고급 옵션: 이번 생성에만 적용되며 프리셋/options와 AutoConfig 결과보다 우선
+export type AdvancedStartOptions = {
+  scene_count?: number // 1~12 (정확히 이 개수)
+  duration_min?: number // 1~60
+  platform_target?: PlatformTarget
+  tone?: string
+  visual_style?: string
+  main_character_hint?: string
+  safety_level?: SafetyLevel
+}
+
+export type TrendStoryStartRequest = AdvancedStartOptions & {
   topic_domain: string
   language: string
   audience: string
   input_as_text?: string
+  provider?: ProviderId // 없으면 서버 기본값(YTG_PROVIDER)
   job_id?: string // 기존 job 재사용 시 (재시작)
+  workspace_id?: string // 새 job을 만들 워크스페이스 (없으면 개인 job)
+  resume_from?: 'auto' | PipelineStage // job_id와 함께: 체크포인트부터 재개
+  preset_id?: string // 저장된 프리셋
+  options?: GenerationOptions // 프리셋 위에 덮어쓰는 옵션
 }
 
 export type TrendStoryStartResponse = {
   job_id: string
   trace_id?: string
+  resumed_from?: PipelineStage
 }
 
-export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+// packager._runtime.validation (서버 스키마 검증 & 리페어 리포트)
+export type ValidationIssue = {
+  path: string
+  message: string
+}
+
+export type ValidationReport = {
+  valid: boolean
+  attempts: Array<{
+    attempt: number
+    at: string
+    parse_path?: 'json_schema' | 'heuristic' | 'fixture' // 서버가 JSON을 얻은 경로
+    issue_count: number
+    issues: ValidationIssue[]
+  }>
+}
 
 export type DbJobRow = {
   id: string
@@ -21,6 +79,14 @@ export type DbJobRow = {
   autoconfig: unknown | null
   packager: unknown | null
   final_package: unknown | null
+  checkpoints?: JobCheckpoints | null
+  heartbeat_at?: string | null
+  recovery_count?: number
+  workspace_id?: string | null
+  deleted_at?: string | null // 휴지통에 있으면 옮긴 시각
+  tags?: string[]
+  pinned?: boolean // 즐겨찾기 (목록 맨 위)
+  notes?: string | null
   error: string | null
 }
 
@@ -33,13 +99,18 @@ export type DbSceneRow = {
   visual_brief: string | null
   mood: string | null
   duration_sec: number | null
-  image_prompt: string | null
+  image_prompt: string | null // 마지막으로 이미지를 만든 프롬프트 (visual_brief를 고치면 비워짐)
+  image_negative_prompt?: string | null // 피할 요소(avoid 목록). 다음 생성에도 그대로 쓰임
+  effective_image_prompt?: string // 다음 생성에 실제로 쓰일 프롬프트 (status가 계산)
   image_path: string | null
   image_url: string | null
   image_gen_status?: string | null
   image_gen_request_id?: string | null
   image_gen_started_at?: string | null
   image_gen_error?: string | null
+  updated_at?: string | null // 마지막 직접 수정 시각
+  audio_stale?: boolean // narration이 바뀌어 씬 오디오 재생성 필요
+  image_stale?: boolean // visual_brief가 바뀌어 씬 이미지 재생성 필요
 }
 
 export type DbAssetRow = {
@@ -51,12 +122,100 @@ export type DbAssetRow = {
   meta: unknown | null
 }
 
+// ytg_usage: 유료 호출 1회당 1행 (cost_usd는 가격표 기반 추정치, 단가 미등록 모델이면 null)
+export type DbUsageRow = {
+  id: string
+  job_id: string
+  created_at: string
+  kind: 'text' | 'image' | 'tts'
+  op: string // autoconfig | packager | scene_image | scene_tts | scene_draft | scene_rewrite
+  provider: string
+  model: string
+  scene_id: number | null
+  input_tokens: number | null
+  output_tokens: number | null
+  image_count: number | null
+  image_size: string | null
+  tts_chars: number | null
+  cost_usd: number | null
+}
+
+// ytg_tasks: 작업 큐 (파이프라인 단계 / 씬 이미지 / 씬 TTS 단위, trendstory-worker가 실행)
+export type TaskKind = 'pipeline_stage' | 'scene_image' | 'scene_tts'
+export type TaskStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+export type DbTaskRow = {
+  id: string
+  created_at: string
+  kind: TaskKind
+  payload: { stage?: PipelineStage; scene_id?: number; source?: string; [key: string]: unknown }
+  status: TaskStatus
+  attempts: number
+  max_attempts: number
+  next_run_at: string
+  heartbeat_at: string | null
+  finished_at: string | null
+  last_error: string | null
+}
+
+// packager._runtime.logs 한 줄
+export type RuntimeLogLine = {
+  ts: string
+  level: 'info' | 'warn' | 'error'
+  msg: string
+  data?: unknown
+}
+
+// ytg_job_events: DB 트리거가 기록하는 진행 이벤트 (Supabase Realtime으로 구독)
+export type JobEvent =
+  | { kind: 'status'; payload: { status: JobStatus; error: string | null } }
+  | { kind: 'stage'; payload: { stage: PipelineStage; checkpoint: { done_at: string; [key: string]: unknown } } }
+  | { kind: 'log'; payload: RuntimeLogLine }
+  | {
+      kind: 'scene_image'
+      payload: Pick<
+        DbSceneRow,
+        | 'scene_id'
+        | 'image_url'
+        | 'image_path'
+        | 'image_prompt'
+        | 'image_gen_status'
+        | 'image_gen_request_id'
+        | 'image_gen_started_at'
+        | 'image_gen_error'
+      >
+    }
+  | { kind: 'scene_audio'; payload: DbAssetRow }
+  | { kind: 'task'; payload: DbTaskRow }
+
+export type DbJobEventRow = JobEvent & {
+  id: number
+  created_at: string
+  job_id: string
+}
+
 export type TrendStoryStatusResponse = {
   trace_id?: string
   status: JobStatus
   job: DbJobRow
   scenes?: DbSceneRow[]
   assets?: DbAssetRow[]
+  usage?: DbUsageRow[]
+  tasks?: DbTaskRow[]
+  // heartbeat가 끊긴 진행 중 job (폴링 중단 대상)
+  stalled?: boolean
+  stalled_reason?: 'no_heartbeat' | 'queue_idle' | null
+  stale_after_sec?: number
+  access?: { role: WorkspaceRole; workspace_id: string | null } // viewer면 조회/다운로드만 가능
+  // 비공개 버킷 모드: 응답의 이미지/오디오 URL(signed URL)이 만료되는 시각 (public 모드면 null)
+  signed_url_expires_at?: string | null
+}
+
+// final_package.audio.scene_audios 항목 (비공개 버킷 모드에서는 audio_path만 저장되고 status가 audio_url을 채움)
+export type SceneAudioRef = {
+  scene_id: number
+  audio_url: string | null
+  audio_path?: string | null
 }
 
 export type TrendStoryJobsItem = {
@@ -66,10 +225,192 @@ export type TrendStoryJobsItem = {
   trace_id: string
   input: unknown
   error: string | null
+  cost_usd?: number | null // 추정 비용 합계 (기록 없으면 null)
+  unpriced_calls?: number
+  deleted_at?: string | null // 휴지통 목록에서만
+  purge_after?: string | null // 이 시각 이후 완전히 삭제됨
+  tags?: string[]
+  pinned?: boolean
+  notes?: string | null
 }
 
 export type TrendStoryJobsResponse = {
   jobs: TrendStoryJobsItem[]
+  workspace_id?: string | null // null이면 개인 job 목록
+  role?: WorkspaceRole
+  trash?: boolean
+  trash_retention_days?: number
+  next_cursor?: string | null // 다음 페이지 커서 (없으면 마지막 페이지)
+}
+
+// newest/oldest: 생성 시각 기준 (휴지통은 삭제 시각 기준)
+export type JobListSort = 'newest' | 'oldest'
+
+// trendstory-jobs 목록 필터 (빈 값은 조건 없음)
+export type JobListFilters = {
+  q: string // topic_domain / 추가 프롬프트 / 생성된 제목 부분 일치
+  status: JobStatus | ''
+  language: string
+  audience: string
+  from: string // YYYY-MM-DD
+  to: string // YYYY-MM-DD (그날 포함)
+  tag: string // 쉼표로 여러 개 (모두 가진 job)
+  pinned: boolean // 즐겨찾기만
+  sort: JobListSort
+}
+
+// trendstory-update-job: 생략한 필드는 그대로 (notes는 빈 문자열/null이면 삭제)
+export type TrendStoryUpdateJobRequest = {
+  job_id: string
+  tags?: string[]
+  pinned?: boolean
+  notes?: string | null
+}
+
+export type TrendStoryUpdateJobResponse = {
+  job_id: string
+  tags: string[]
+  pinned: boolean
+  notes: string | null
+}
+
+// 워크스페이스 (owner: 멤버 관리 / editor: 생성·수정·삭제 / viewer: 조회·다운로드)
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export type WorkspaceListItem = {
+  id: string
+  name: string
+  created_at: string
+  role: WorkspaceRole
+  member_count: number
+}
+
+export type WorkspaceMember = {
+  user_id: string
+  email: string | null
+  role: WorkspaceRole
+  created_at: string
+}
+
+export type TrendStoryWorkspacesResponse = {
+  workspaces: WorkspaceListItem[]
+}
+
+export type TrendStoryWorkspaceMembersResponse = {
+  workspace_id: string
+  role: WorkspaceRole
+  members: WorkspaceMember[]
+}
+
+export type TrendStoryWorkspacesRequest =
+  | { action: 'create'; name: string }
+  | { action: 'add_member'; workspace_id: string; email: string; role: WorkspaceRole }
+  | { action: 'remove_member'; workspace_id: string; user_id: string }
+
+// ytg_presets: 개인 프리셋(workspace_id null) 또는 워크스페이스 공유 프리셋
+export type Preset = {
+  id: string
+  name: string
+  workspace_id: string | null
+  owner_id: string
+  options: GenerationOptions
+  created_at: string
+  updated_at: string
+  can_edit: boolean // 워크스페이스 프리셋은 owner/editor만
+}
+
+export type TrendStoryPresetsResponse = {
+  presets: Preset[]
+}
+
+export type TrendStoryPresetsRequest =
+  | { action: 'create'; name: string; options: GenerationOptions; workspace_id?: string | null }
+  | { action: 'update'; preset_id: string; name?: string; options?: GenerationOptions }
+  | { action: 'delete'; preset_id: string }
+
+export type TrendStoryPresetResponse = { preset: Preset } | { deleted: string }
+
+// trendstory-update-scene: 생략한 필드는 그대로 (on_screen_text/visual_brief/mood는 null이면 비움)
+export type SceneEditField = 'narration' | 'on_screen_text' | 'visual_brief' | 'mood' | 'duration_sec'
+
+export type TrendStoryUpdateSceneRequest = {
+  job_id: string
+  scene_id: number
+  narration?: string
+  on_screen_text?: string | null
+  visual_brief?: string | null
+  mood?: string | null
+  duration_sec?: number
+  source?: 'manual' | 'rewrite' // 수정 이력의 출처 (rewrite: AI 다시 쓰기 제안을 적용)
+}
+
+export type TrendStoryUpdateSceneResponse = {
+  job_id: string
+  scene_id: number
+  changed: SceneEditField[] // 실제로 바뀐 필드 (없으면 저장하지 않음)
+  scene: DbSceneRow
+  audio_stale: boolean
+  image_stale: boolean
+}
+
+// ytg_scene_edits: 바뀐 필드만 before/after로 기록
+export type DbSceneEditRow = {
+  id: string
+  created_at: string
+  job_id: string
+  scene_id: number
+  user_id: string | null
+  source: string // manual | rewrite | insert | draft | split | merge | select_image
+  before: Partial<Record<SceneEditField, string | number | null>>
+  after: Partial<Record<SceneEditField, string | number | null>>
+}
+
+export type TrendStorySceneEditsResponse = {
+  job_id: string
+  edits: DbSceneEditRow[]
+}
+
+// trendstory-scene-ops: 씬 추가/삭제/분할/병합/순서 변경 (씬 번호는 항상 1..N으로 다시 매김)
+export type SceneOpsAction = 'insert' | 'delete' | 'split' | 'merge' | 'reorder'
+
+export type SceneInput = Omit<TrendStoryUpdateSceneRequest, 'job_id' | 'scene_id' | 'source'>
+
+export type TrendStorySceneOpsRequest =
+  // after_scene_id=0이면 맨 앞. draft=true면 앞뒤 씬을 보고 LLM이 초안 작성 (scene에 적은 값이 우선)
+  | { job_id: string; action: 'insert'; after_scene_id: number; scene?: SceneInput; draft?: boolean; hint?: string }
+  | { job_id: string; action: 'delete'; scene_id: number }
+  // split_at 생략 시 narration 가운데에 가장 가까운 문장 경계에서 나눔
+  | { job_id: string; action: 'split'; scene_id: number; split_at?: number }
+  // 다음 씬을 이 씬에 합침
+  | { job_id: string; action: 'merge'; scene_id: number }
+  | { job_id: string; action: 'reorder'; order: number[] }
+
+export type TrendStorySceneOpsResponse = {
+  job_id: string
+  action: SceneOpsAction
+  mapping: Record<string, number | null> // 이전 scene_id → 새 scene_id (없어진 씬은 null)
+  scene_id: number | null // 추가/분할로 생긴 씬, 병합 결과 씬
+  scenes: DbSceneRow[]
+  storage_errors: string[]
+}
+
+// trendstory-rewrite-scene: 지시대로 다시 쓴 제안만 반환 (저장은 trendstory-update-scene에 source: 'rewrite'로)
+export type RewriteSceneField = 'narration' | 'on_screen_text' | 'visual_brief'
+
+export type TrendStoryRewriteSceneRequest = {
+  job_id: string
+  scene_id: number
+  instruction: string
+}
+
+export type TrendStoryRewriteSceneResponse = {
+  job_id: string
+  scene_id: number
+  instruction: string
+  current: Record<RewriteSceneField, string | null>
+  proposal: Record<RewriteSceneField, string | null>
+  changed: RewriteSceneField[]
+  note: string | null
 }
 
 export type TrendStoryRetryImagesRequest = {
@@ -86,12 +427,45 @@ export type TrendStoryRetryImagesResponse = {
   skipped: number
   accepted?: boolean
   message?: string
+  queued_scene_ids?: number[]
 }
 
 export type TrendStoryGenerateSceneImageRequest = {
   job_id: string
   scene_id: number
   force?: boolean
+  prompt?: string // 직접 고친 프롬프트 (없으면 저장된 image_prompt / 자동 생성)
+  negative_prompt?: string | null // 생략하면 저장된 값 유지, null/''이면 비움
+}
+
+// ytg_assets(type: image).meta: 이미지 1장마다 어떤 프롬프트로 만들었는지 남깁니다.
+export type ImageAssetMeta = {
+  kind?: string
+  scene_id?: number
+  prompt?: string
+  negative_prompt?: string | null
+  prompt_source?: 'custom' | 'stored' | 'auto'
+  provider?: string
+  generated_at?: string
+  request_id?: string
+  user_id?: string | null
+}
+
+// 이전에 만든 이미지(take) 중 하나를 씬의 현재 이미지로 고릅니다.
+export type TrendStorySelectSceneImageRequest = {
+  job_id: string
+  scene_id: number
+  asset_id: string
+}
+
+export type TrendStorySelectSceneImageResponse = {
+  job_id: string
+  scene_id: number
+  asset_id: string
+  image_path: string
+  image_url: string | null
+  image_prompt: string | null
+  image_negative_prompt: string | null
 }
 
 export type TrendStoryGenerateSceneImageResponse = {
@@ -113,16 +487,97 @@ export type TrendStoryRetryAudioResponse = {
   job_id: string
   accepted: boolean
   message: string
+  queued_scene_ids?: number[]
 }
 
+// trash: 휴지통으로 이동(기본) / restore: 복원 / purge: 휴지통의 job을 즉시 완전 삭제
+export type DeleteJobAction = 'trash' | 'restore' | 'purge'
+
 export type TrendStoryDeleteJobRequest = {
   job_id: string
+  action?: DeleteJobAction
+  wait?: boolean // purge: true면 삭제가 끝난 뒤 storage 정리 결과를 함께 반환
+}
+
+// 삭제 시 Storage 정리 결과 (remaining: 삭제 후 다시 조회했을 때 남은 파일)
+export type StorageCleanupReport = {
+  prefix: string
+  listed: number
+  referenced: number
+  removed: number
+  remaining: string[]
+  errors: string[]
 }
 
 export type TrendStoryDeleteJobResponse = {
   job_id: string
+  action: DeleteJobAction
   accepted: boolean
   message: string
+  deleted_at?: string | null
+  purge_after?: string | null
+  storage?: StorageCleanupReport | null
 }
 
+export type TrendStoryCancelJobRequest = {
+  job_id: string
+}
 
+export type TrendStoryCancelJobResponse = {
+  job_id: string
+  status: JobStatus
+  cancelled: boolean
+  released_image_locks: number
+  cancelled_tasks: number
+  message: string
+}
+
+
+export type QuotaKind = 'jobs' | 'images' | 'tts_chars' | 'requests'
+
+// 0/미설정 한도는 null (제한 없음)
+export type QuotaLimits = {
+  jobs: number | null
+  images: number | null
+  tts_chars: number | null
+  requests_per_minute: number | null
+}
+
+export type QuotaUsage = {
+  jobs: number
+  images: number
+  tts_chars: number
+}
+
+export type TrendStoryQuotaResponse = {
+  day: string // YYYY-MM-DD (UTC)
+  reset_at: string
+  is_admin: boolean
+  limits: QuotaLimits
+  usage: QuotaUsage
+}
+
+export type QuotaUserUsage = QuotaUsage & {
+  user_id: string
+  email: string | null
+  updated_at: string | null
+}
+
+export type TrendStoryQuotaAdminResponse = {
+  day: string
+  reset_at: string
+  limits: QuotaLimits
+  users: QuotaUserUsage[]
+}
+
+// 한도 초과 시 429 응답 바디
+export type QuotaExceededBody = {
+  error: 'quota_exceeded'
+  kind: QuotaKind
+  limit: number
+  used: number
+  requested: number
+  reset_at: string
+  retry_after_sec: number
+  hint: string
+}
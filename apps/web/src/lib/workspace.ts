@@ -0,0 +1,26 @@
+// 현재 선택한 워크스페이스 (브라우저별로 기억, null이면 개인 작업)
+const STORAGE_KEY = 'ytg.active_workspace_id'
+
+export function getActiveWorkspaceId(): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) || null
+  } catch {
+    return null
+  }
+}
+
+export function setActiveWorkspaceId(id: string | null) {
+  try {
+    if (id) window.localStorage.setItem(STORAGE_KEY, id)
+    else window.localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // ignore (private mode 등)
+  }
+}
+
+export function formatWorkspaceRole(role: string) {
+  if (role === 'owner') return '소유자'
+  if (role === 'editor') return '편집자'
+  if (role === 'viewer') return '보기 전용'
+  return role
+}
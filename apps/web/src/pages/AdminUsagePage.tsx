@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { ApiError, extractErrorHint, functionsGet } from '../lib/functionsClient'
+import type { QuotaLimits, TrendStoryQuotaAdminResponse } from '../lib/types'
+import { Shell } from '../ui/Shell'
+
+function formatLimit(v: number | null) {
+  return v == null ? '제한 없음' : v.toLocaleString()
+}
+
+function cell(used: number, limit: number | null) {
+  const over = limit != null && used >= limit
+  return <span className={over ? 'text-amber-300' : undefined}>{used ? used.toLocaleString() : '-'}</span>
+}
+
+// 관리자용: 하루(UTC) 기준 사용자별 quota 사용량
+export function AdminUsagePage() {
+  const [day, setDay] = useState(() => new Date().toISOString().slice(0, 10))
+  const [data, setData] = useState<TrendStoryQuotaAdminResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    functionsGet<TrendStoryQuotaAdminResponse>(`trendstory-quota?scope=all&day=${encodeURIComponent(day)}`)
+      .then((res) => {
+        if (cancelled) return
+        setData(res)
+        setError(null)
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return
+        let msg = err instanceof Error ? err.message : '사용량을 불러오지 못했습니다.'
+        const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : undefined
+        if (hint) msg = `${msg}\n${hint}`
+        setData(null)
+        setError(msg)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [day, version])
+
+  const limits: QuotaLimits | null = data?.limits ?? null
+
+  return (
+    <Shell title="사용자별 사용량">
+      <div className="grid gap-6">
+        <section className="card p-5">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-base font-semibold">사용자별 사용량</h2>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+                value={day}
+                onChange={(e) => setDay(e.target.value)}
+              />
+              <button onClick={() => setVersion((v) => v + 1)} className="btn-dark h-9 px-3 text-xs">
+                새로고침
+              </button>
+            </div>
+          </div>
+          {limits ? (
+            <div className="mt-2 text-xs text-zinc-500">
+              하루 한도: job {formatLimit(limits.jobs)} · 이미지 {formatLimit(limits.images)} · TTS {formatLimit(limits.tts_chars)}자 · 분당
+              요청 {formatLimit(limits.requests_per_minute)} (UTC 기준)
+            </div>
+          ) : null}
+          {error ? <div className="mt-3 whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+          {data ? (
+            data.users.length > 0 ? (
+              <table className="mt-3 w-full text-left text-xs text-zinc-300">
+                <thead className="text-zinc-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">사용자</th>
+                    <th className="py-1 pr-3 font-medium">job</th>
+                    <th className="py-1 pr-3 font-medium">이미지</th>
+                    <th className="py-1 pr-3 font-medium">TTS 글자수</th>
+                    <th className="py-1 font-medium">마지막 사용</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.users.map((u) => (
+                    <tr key={u.user_id} className="border-t border-white/5">
+                      <td className="py-1 pr-3">{u.email ?? u.user_id}</td>
+                      <td className="py-1 pr-3">{cell(u.jobs, data.limits.jobs)}</td>
+                      <td className="py-1 pr-3">{cell(u.images, data.limits.images)}</td>
+                      <td className="py-1 pr-3">{cell(u.tts_chars, data.limits.tts_chars)}</td>
+                      <td className="py-1 text-zinc-500">{u.updated_at ? new Date(u.updated_at).toLocaleString() : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="mt-3 text-sm text-zinc-400">이 날짜에 사용 기록이 없습니다.</div>
+            )
+          ) : null}
+        </section>
+      </div>
+    </Shell>
+  )
+}
@@ -1,15 +1,59 @@
 import { useEffect, useMemo, useState } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
-import { ApiError, functionsGet, functionsPost } from '../lib/functionsClient'
+import { ApiError, extractErrorHint, functionsGet, functionsPost } from '../lib/functionsClient'
+import { formatUsd } from '../lib/clientUtils'
 import type {
+  AdvancedStartOptions,
+  DeleteJobAction,
+  GenerationOptions,
+  JobListFilters,
+  ProviderId,
   TrendStoryDeleteJobRequest,
   TrendStoryDeleteJobResponse,
   TrendStoryJobsResponse,
   TrendStoryStartRequest,
   TrendStoryStartResponse,
+  TrendStoryUpdateJobRequest,
+  TrendStoryUpdateJobResponse,
+  WorkspaceRole,
 } from '../lib/types'
+import { getActiveWorkspaceId, setActiveWorkspaceId } from '../lib/workspace'
 import { Shell } from '../ui/Shell'
+import { AdvancedOptionsPanel } from '../ui/AdvancedOptionsPanel'
 import { ConfirmModal } from '../ui/ConfirmModal'
+import { PresetPicker } from '../ui/PresetPicker'
+import { QuotaSummary } from '../ui/QuotaSummary'
+import { WorkspaceSwitcher } from '../ui/WorkspaceSwitcher'
+
+const EMPTY_JOB_FILTERS: JobListFilters = {
+  q: '',
+  status: '',
+  language: '',
+  audience: '',
+  from: '',
+  to: '',
+  tag: '',
+  pinned: false,
+  sort: 'newest',
+}
+
+function jobsQueryString(params: { workspaceId: string | null; trash: boolean; filters: JobListFilters; cursor?: string | null }) {
+  const qs = new URLSearchParams({ limit: '20' })
+  if (params.workspaceId) qs.set('workspace_id', params.workspaceId)
+  if (params.trash) qs.set('trash', '1')
+  const f = params.filters
+  if (f.q.trim()) qs.set('q', f.q.trim())
+  if (f.status) qs.set('status', f.status)
+  if (f.language) qs.set('language', f.language)
+  if (f.audience.trim()) qs.set('audience', f.audience.trim())
+  if (f.from) qs.set('from', f.from)
+  if (f.to) qs.set('to', f.to)
+  if (f.tag.trim()) qs.set('tag', f.tag.trim())
+  if (f.pinned) qs.set('pinned', '1')
+  if (f.sort !== 'newest') qs.set('sort', f.sort)
+  if (params.cursor) qs.set('cursor', params.cursor)
+  return qs.toString()
+}
 
 export function HomePage() {
   const nav = useNavigate()
@@ -17,6 +61,12 @@ export function HomePage() {
   const [language, setLanguage] = useState('ko')
   const [audience, setAudience] = useState('')
   const [inputAsText, setInputAsText] = useState('')
+  const [provider, setProvider] = useState<ProviderId | ''>('')
+  const [presetSelection, setPresetSelection] = useState<{ presetId: string; options: GenerationOptions }>({
+    presetId: '',
+    options: {},
+  })
+  const [advancedOptions, setAdvancedOptions] = useState<AdvancedStartOptions>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [jobs, setJobs] = useState<TrendStoryJobsResponse['jobs']>([])
@@ -24,39 +74,128 @@ export function HomePage() {
   const [jobsLoading, setJobsLoading] = useState(false)
   const [deletingJobId, setDeletingJobId] = useState<string | null>(null)
   const [deleteModalJobId, setDeleteModalJobId] = useState<string | null>(null)
+  const [purgeModalJobId, setPurgeModalJobId] = useState<string | null>(null)
+  const [showTrash, setShowTrash] = useState(false)
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30)
+  // 휴지통으로 옮긴 직후 되돌리기 안내
+  const [trashNotice, setTrashNotice] = useState<{ jobId: string; message: string } | null>(null)
+  // 목록 필터: draft는 입력 중인 값, filters는 적용된 값 (적용 시 첫 페이지부터 다시 조회)
+  const [filters, setFilters] = useState<JobListFilters>(EMPTY_JOB_FILTERS)
+  const [draftFilters, setDraftFilters] = useState<JobListFilters>(EMPTY_JOB_FILTERS)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [workspaceId, setWorkspaceId] = useState<string | null>(() => getActiveWorkspaceId())
+  const [workspaceRole, setWorkspaceRole] = useState<WorkspaceRole>('owner')
+  const [quotaVersion, setQuotaVersion] = useState(0)
 
-  const canSubmit = useMemo(() => topicDomain.trim().length > 0 && !isSubmitting, [topicDomain, isSubmitting])
+  // viewer는 조회/다운로드만 가능 (생성/삭제 버튼 숨김)
+  const canEdit = workspaceRole !== 'viewer'
+  const canSubmit = useMemo(
+    () => topicDomain.trim().length > 0 && !isSubmitting && canEdit,
+    [topicDomain, isSubmitting, canEdit],
+  )
+  const jobsCostTotal = useMemo(() => jobs.reduce((sum, j) => sum + (j.cost_usd ?? 0), 0), [jobs])
+
+  const hasActiveFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_JOB_FILTERS)
 
   async function refreshJobs() {
     setJobsLoading(true)
     setJobsError(null)
     try {
-      const res = await functionsGet<TrendStoryJobsResponse>('trendstory-jobs?limit=20')
+      const query = jobsQueryString({ workspaceId, trash: showTrash, filters })
+      const res = await functionsGet<TrendStoryJobsResponse>(`trendstory-jobs?${query}`)
       setJobs(res.jobs ?? [])
+      setNextCursor(res.next_cursor ?? null)
+      setWorkspaceRole(res.role ?? 'owner')
+      if (res.trash_retention_days) setTrashRetentionDays(res.trash_retention_days)
     } catch (err: any) {
+      // 멤버에서 제외된 워크스페이스가 저장되어 있으면 개인 작업으로 되돌립니다.
+      if (err instanceof ApiError && err.status === 404 && workspaceId) {
+        changeWorkspace(null)
+        return
+      }
       setJobsError(err?.message ?? '목록을 불러오지 못했습니다.')
     } finally {
       setJobsLoading(false)
     }
   }
 
-  async function deleteJob(jobId: string) {
+  async function loadMoreJobs() {
+    if (!nextCursor) return
+    setLoadingMore(true)
+    setJobsError(null)
+    try {
+      const query = jobsQueryString({ workspaceId, trash: showTrash, filters, cursor: nextCursor })
+      const res = await functionsGet<TrendStoryJobsResponse>(`trendstory-jobs?${query}`)
+      setJobs((prev) => [...prev, ...(res.jobs ?? []).filter((j) => !prev.some((p) => p.id === j.id))])
+      setNextCursor(res.next_cursor ?? null)
+    } catch (err: unknown) {
+      setJobsError(err instanceof Error ? err.message : '목록을 불러오지 못했습니다.')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  // 즐겨찾기 토글 (정렬 순서가 바뀌므로 목록을 다시 조회)
+  async function togglePinned(jobId: string, pinned: boolean) {
+    try {
+      const body: TrendStoryUpdateJobRequest = { job_id: jobId, pinned }
+      await functionsPost<TrendStoryUpdateJobResponse, TrendStoryUpdateJobRequest>('trendstory-update-job', body)
+      await refreshJobs()
+    } catch (err: unknown) {
+      const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : null
+      setJobsError(hint ?? (err instanceof Error ? err.message : '즐겨찾기를 바꾸지 못했습니다.'))
+    }
+  }
+
+  // 목록의 태그를 누르면 그 태그로 필터
+  function filterByTag(tag: string) {
+    const next = { ...filters, tag }
+    setDraftFilters(next)
+    setFilters(next)
+  }
+
+  function applyFilters(e?: React.FormEvent) {
+    e?.preventDefault()
+    setFilters(draftFilters)
+  }
+
+  function resetFilters() {
+    setDraftFilters(EMPTY_JOB_FILTERS)
+    setFilters(EMPTY_JOB_FILTERS)
+  }
+
+  // trash: 휴지통으로 이동 / restore: 복원 / purge: 완전 삭제 (휴지통에 있는 job만)
+  async function deleteJob(jobId: string, action: DeleteJobAction = 'trash') {
     setDeletingJobId(jobId)
+    setTrashNotice(null)
     try {
-      const body: TrendStoryDeleteJobRequest = { job_id: jobId }
-      await functionsPost<TrendStoryDeleteJobResponse, any>('trendstory-delete-job', body as any)
+      const body: TrendStoryDeleteJobRequest = { job_id: jobId, action }
+      const res = await functionsPost<TrendStoryDeleteJobResponse, any>('trendstory-delete-job', body as any)
+      if (action === 'trash') setTrashNotice({ jobId, message: res.message })
       await refreshJobs()
     } catch (err: any) {
-      setJobsError(err?.message ?? '삭제 중 오류가 발생했습니다.')
+      const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : null
+      setJobsError(hint ?? err?.message ?? '삭제 중 오류가 발생했습니다.')
     } finally {
       setDeletingJobId(null)
     }
   }
 
+  function changeWorkspace(id: string | null) {
+    setActiveWorkspaceId(id)
+    setWorkspaceId(id)
+  }
+
+  function toggleTrash() {
+    setTrashNotice(null)
+    setShowTrash((v) => !v)
+  }
+
   useEffect(() => {
     refreshJobs()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+  }, [workspaceId, showTrash, filters])
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault()
@@ -68,10 +207,15 @@ export function HomePage() {
     const t = window.setTimeout(() => controller.abort(), timeoutMs)
     try {
       const payload: TrendStoryStartRequest = {
+        ...advancedOptions,
         topic_domain: topicDomain.trim(),
         language: language.trim() || 'ko',
         audience: audience.trim() || '중학생',
         input_as_text: inputAsText.trim() || undefined,
+        provider: provider || undefined,
+        workspace_id: workspaceId ?? undefined,
+        preset_id: presetSelection.presetId || undefined,
+        options: Object.keys(presetSelection.options).length > 0 ? presetSelection.options : undefined,
       }
       const res = await functionsPost<TrendStoryStartResponse, any>('trendstory-start', payload as any, {
         signal: controller.signal,
@@ -82,7 +226,11 @@ export function HomePage() {
         setError(`요청 시간이 초과되었습니다. (${Math.round(timeoutMs / 1000)}초)`)
         return
       }
-      if (err instanceof ApiError) {
+      if (err instanceof ApiError && err.status === 429) {
+        // 한도 초과: 서버 hint(초기화 시각 등)만 보여주고 사용량 표시를 갱신합니다.
+        setError(extractErrorHint(err.bodyJson) ?? err.message)
+        setQuotaVersion((v) => v + 1)
+      } else if (err instanceof ApiError) {
         setError(err.bodyText ? `${err.message}\n${err.bodyText}` : err.message)
       } else {
         setError(err?.message ?? '요청 중 오류가 발생했습니다.')
@@ -104,6 +252,9 @@ export function HomePage() {
           </p>
         </div>
 
+        <WorkspaceSwitcher value={workspaceId} onChange={changeWorkspace} />
+        <QuotaSummary version={quotaVersion} />
+
         <form onSubmit={onSubmit} className="card p-5">
           <div className="grid gap-4 md:grid-cols-3">
             <label className="grid gap-1">
@@ -149,6 +300,30 @@ export function HomePage() {
             />
           </label>
 
+          <PresetPicker
+            workspaceId={workspaceId}
+            canEdit={canEdit}
+            presetId={presetSelection.presetId}
+            options={presetSelection.options}
+            onChange={setPresetSelection}
+          />
+
+          <AdvancedOptionsPanel value={advancedOptions} onChange={setAdvancedOptions} />
+
+          <label className="mt-4 grid gap-1 md:max-w-xs">
+            <span className="text-xs font-medium text-zinc-300">provider</span>
+            <select
+              className="h-10 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as ProviderId | '')}
+            >
+              <option value="">서버 기본값</option>
+              <option value="openai">OpenAI</option>
+              <option value="openai_compatible">OpenAI 호환 엔드포인트</option>
+              <option value="fake">fixture (오프라인 데모, API 비용 없음)</option>
+            </select>
+          </label>
+
           <div className="mt-4 flex items-center justify-between gap-3">
             <button
               type="submit"
@@ -157,7 +332,9 @@ export function HomePage() {
             >
               {isSubmitting ? '시작 중...' : '생성 시작'}
             </button>
-            <div className="text-xs text-zinc-500">완료까지 수십 초~수 분 소요될 수 있어요 (job 폴링)</div>
+            <div className="text-xs text-zinc-500">
+              {canEdit ? '완료까지 수십 초~수 분 소요될 수 있어요 (job 폴링)' : '보기 전용 권한으로는 새 job을 만들 수 없습니다.'}
+            </div>
           </div>
 
           {error ? <div className="mt-4 text-sm text-red-300">오류: {error}</div> : null}
@@ -165,14 +342,128 @@ export function HomePage() {
 
         <section className="card p-5">
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <h2 className="text-base font-semibold">최근 생성된 컨텐츠</h2>
-            <button
-              onClick={() => refreshJobs()}
-              className="btn-dark h-9 px-3 text-xs"
-            >
-              새로고침
-            </button>
+            <div className="flex flex-wrap items-baseline gap-3">
+              <h2 className="text-base font-semibold">{showTrash ? '휴지통' : '최근 생성된 컨텐츠'}</h2>
+              {jobs.length > 0 ? (
+                <span className="text-xs text-zinc-400" title="ytg_usage 기준 추정치 (단가 미등록 모델 제외)">
+                  목록 합계(추정): {formatUsd(jobsCostTotal)}
+                </span>
+              ) : null}
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => toggleTrash()} className="btn-ghost h-9 px-3 text-xs">
+                {showTrash ? '목록으로' : '휴지통'}
+              </button>
+              <button
+                onClick={() => refreshJobs()}
+                className="btn-dark h-9 px-3 text-xs"
+              >
+                새로고침
+              </button>
+            </div>
           </div>
+          <form onSubmit={applyFilters} className="mt-3 grid gap-2 md:grid-cols-4">
+            <input
+              className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20 md:col-span-2"
+              placeholder="검색: 주제, 추가 프롬프트, 제목"
+              value={draftFilters.q}
+              onChange={(e) => setDraftFilters((f) => ({ ...f, q: e.target.value }))}
+            />
+            <select
+              className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+              value={draftFilters.status}
+              onChange={(e) => setDraftFilters((f) => ({ ...f, status: e.target.value as JobListFilters['status'] }))}
+            >
+              <option value="">상태: 전체</option>
+              <option value="QUEUED">QUEUED</option>
+              <option value="RUNNING">RUNNING</option>
+              <option value="SUCCEEDED">SUCCEEDED</option>
+              <option value="FAILED">FAILED</option>
+              <option value="CANCELLED">CANCELLED</option>
+            </select>
+            <select
+              className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+              value={draftFilters.sort}
+              onChange={(e) => setDraftFilters((f) => ({ ...f, sort: e.target.value as JobListFilters['sort'] }))}
+            >
+              <option value="newest">최신순</option>
+              <option value="oldest">오래된순</option>
+            </select>
+            <select
+              className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+              value={draftFilters.language}
+              onChange={(e) => setDraftFilters((f) => ({ ...f, language: e.target.value }))}
+            >
+              <option value="">언어: 전체</option>
+              <option value="ko">한국어</option>
+              <option value="en">영어</option>
+              <option value="ja">일본어</option>
+            </select>
+            <input
+              className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+              placeholder="audience (부분 일치)"
+              value={draftFilters.audience}
+              onChange={(e) => setDraftFilters((f) => ({ ...f, audience: e.target.value }))}
+            />
+            <div className="flex items-center gap-2 md:col-span-2">
+              <input
+                type="date"
+                className="h-9 min-w-0 flex-1 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+                title="생성일 시작"
+                value={draftFilters.from}
+                onChange={(e) => setDraftFilters((f) => ({ ...f, from: e.target.value }))}
+              />
+              <span className="text-xs text-zinc-500">~</span>
+              <input
+                type="date"
+                className="h-9 min-w-0 flex-1 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+                title="생성일 끝 (포함)"
+                value={draftFilters.to}
+                onChange={(e) => setDraftFilters((f) => ({ ...f, to: e.target.value }))}
+              />
+            </div>
+            <input
+              className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20 md:col-span-2"
+              placeholder="태그 (쉼표로 여러 개, 모두 포함)"
+              value={draftFilters.tag}
+              onChange={(e) => setDraftFilters((f) => ({ ...f, tag: e.target.value }))}
+            />
+            <label className="flex items-center gap-2 text-xs text-zinc-300">
+              <input
+                type="checkbox"
+                checked={draftFilters.pinned}
+                onChange={(e) => setDraftFilters((f) => ({ ...f, pinned: e.target.checked }))}
+              />
+              즐겨찾기만
+            </label>
+            <div className="flex items-center gap-2 md:col-span-4">
+              <button type="submit" className="btn-dark h-9 px-3 text-xs">
+                검색
+              </button>
+              {hasActiveFilters ? (
+                <button type="button" onClick={() => resetFilters()} className="btn-ghost h-9 px-3 text-xs">
+                  필터 초기화
+                </button>
+              ) : null}
+            </div>
+          </form>
+          {showTrash ? (
+            <div className="mt-2 text-xs text-zinc-500">
+              휴지통의 작업은 {trashRetentionDays}일 뒤 스토리지 파일과 함께 완전히 삭제됩니다.
+            </div>
+          ) : null}
+          {trashNotice ? (
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-zinc-300">
+              <span>{trashNotice.message}</span>
+              <button
+                onClick={() => deleteJob(trashNotice.jobId, 'restore')}
+                disabled={deletingJobId === trashNotice.jobId}
+                className="btn-ghost h-8 px-3 text-xs"
+              >
+                되돌리기
+              </button>
+            </div>
+          ) : null}
           {jobsLoading ? <div className="mt-3 text-sm text-zinc-400">불러오는 중...</div> : null}
           {jobsError ? <div className="mt-3 text-sm text-red-300">오류: {jobsError}</div> : null}
           {!jobsLoading && !jobsError ? (
@@ -183,17 +474,62 @@ export function HomePage() {
                   className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 bg-zinc-950/60 px-3 py-2 text-sm"
                 >
                   <div className="flex min-w-0 flex-1 flex-wrap items-center gap-3">
+                    {canEdit && !showTrash ? (
+                      <button
+                        type="button"
+                        onClick={() => togglePinned(j.id, !j.pinned)}
+                        className={j.pinned ? 'text-amber-300' : 'text-zinc-600 hover:text-zinc-300'}
+                        title={j.pinned ? '즐겨찾기 해제' : '즐겨찾기 (목록 맨 위에 고정)'}
+                      >
+                        {j.pinned ? '★' : '☆'}
+                      </button>
+                    ) : j.pinned ? (
+                      <span className="text-amber-300">★</span>
+                    ) : null}
                     <Link to={`/jobs/${j.id}`} className="font-semibold hover:underline">
                       {j.id.slice(0, 8)}…
                     </Link>
                     <span className="text-xs text-zinc-500">{new Date(j.created_at).toLocaleString()}</span>
+                    {j.deleted_at ? (
+                      <span
+                        className="text-xs text-amber-300/80"
+                        title={j.purge_after ? `완전 삭제 예정: ${new Date(j.purge_after).toLocaleString()}` : undefined}
+                      >
+                        삭제: {new Date(j.deleted_at).toLocaleString()}
+                      </span>
+                    ) : null}
                     <span className="text-xs text-zinc-400">상태: {j.status}</span>
                     <span className="text-xs text-zinc-600">trace: {j.trace_id.slice(0, 8)}…</span>
+                    {j.cost_usd != null ? (
+                      <span
+                        className="text-xs text-emerald-300/80"
+                        title={j.unpriced_calls ? `단가 미등록 호출 ${j.unpriced_calls}건 제외` : '추정 비용'}
+                      >
+                        {formatUsd(j.cost_usd)}
+                        {j.unpriced_calls ? '+' : ''}
+                      </span>
+                    ) : null}
                     <span className="text-xs text-zinc-300">
                       {(j.input as any)?.topic_domain ? `topic: ${(j.input as any).topic_domain}` : ''}
                       {(j.input as any)?.language ? ` / lang: ${(j.input as any).language}` : ''}
                       {(j.input as any)?.audience ? ` / audience: ${(j.input as any).audience}` : ''}
                     </span>
+                    {(j.tags ?? []).map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => filterByTag(tag)}
+                        className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-xs text-zinc-300 hover:border-white/20"
+                        title="이 태그로 필터"
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                    {j.notes ? (
+                      <span className="text-xs text-zinc-500" title={j.notes}>
+                        메모
+                      </span>
+                    ) : null}
                   </div>
                   <div className="flex flex-wrap items-center gap-2">
                     <Link
@@ -202,17 +538,46 @@ export function HomePage() {
                     >
                       열기
                     </Link>
-                    <button
-                      onClick={() => setDeleteModalJobId(j.id)}
-                      disabled={deletingJobId === j.id}
-                      className="btn-danger h-8 px-3 text-xs"
-                    >
-                      {deletingJobId === j.id ? '삭제 중...' : '삭제'}
-                    </button>
+                    {canEdit && showTrash ? (
+                      <>
+                        <button
+                          onClick={() => deleteJob(j.id, 'restore')}
+                          disabled={deletingJobId === j.id}
+                          className="btn-ghost h-8 px-3 text-xs"
+                        >
+                          복원
+                        </button>
+                        <button
+                          onClick={() => setPurgeModalJobId(j.id)}
+                          disabled={deletingJobId === j.id}
+                          className="btn-danger h-8 px-3 text-xs"
+                        >
+                          {deletingJobId === j.id ? '처리 중...' : '완전 삭제'}
+                        </button>
+                      </>
+                    ) : null}
+                    {canEdit && !showTrash ? (
+                      <button
+                        onClick={() => setDeleteModalJobId(j.id)}
+                        disabled={deletingJobId === j.id}
+                        className="btn-danger h-8 px-3 text-xs"
+                      >
+                        {deletingJobId === j.id ? '삭제 중...' : '삭제'}
+                      </button>
+                    ) : null}
                   </div>
                 </div>
               ))}
-              {jobs.length === 0 ? <div className="text-sm text-zinc-400">아직 생성된 job이 없습니다.</div> : null}
+              {jobs.length === 0 ? (
+                <div className="text-sm text-zinc-400">
+                  {hasActiveFilters ? '조건에 맞는 job이 없습니다.' : showTrash ? '휴지통이 비어 있습니다.' : '아직 생성된 job이 없습니다.'}
+                </div>
+              ) : null}
+              {nextCursor ? (
+                <button onClick={() => loadMoreJobs()} disabled={loadingMore} className="btn-ghost h-9 px-3 text-xs">
+                  {loadingMore ? '불러오는 중...' : '더 보기'}
+                </button>
+              ) : null}
             </div>
           ) : null}
         </section>
@@ -221,7 +586,7 @@ export function HomePage() {
       <ConfirmModal
         open={Boolean(deleteModalJobId)}
         title="컨텐츠 삭제"
-        description="이 job을 삭제할까요? (씬/에셋/스토리지 파일도 함께 정리됩니다)"
+        description={`이 job을 휴지통으로 옮길까요? ${trashRetentionDays}일 안에는 휴지통에서 복원할 수 있습니다.`}
         confirmText="삭제"
         cancelText="취소"
         danger
@@ -230,7 +595,23 @@ export function HomePage() {
           if (!deleteModalJobId) return
           const id = deleteModalJobId
           setDeleteModalJobId(null)
-          await deleteJob(id)
+          await deleteJob(id, 'trash')
+        }}
+      />
+
+      <ConfirmModal
+        open={Boolean(purgeModalJobId)}
+        title="완전 삭제"
+        description="이 job을 완전히 삭제할까요? 씬/에셋/스토리지 파일이 모두 지워지며 되돌릴 수 없습니다."
+        confirmText="완전 삭제"
+        cancelText="취소"
+        danger
+        onClose={() => setPurgeModalJobId(null)}
+        onConfirm={async () => {
+          if (!purgeModalJobId) return
+          const id = purgeModalJobId
+          setPurgeModalJobId(null)
+          await deleteJob(id, 'purge')
         }}
       />
     </Shell>
@@ -1,23 +1,41 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Link, useParams } from 'react-router-dom'
 import { ApiError, extractErrorHint, functionsGet, functionsPost } from '../lib/functionsClient'
-import { copyText, downloadFileFromUrl, downloadJson, downloadScenesImagesZip } from '../lib/clientUtils'
+import { copyText, downloadFileFromUrl, downloadJson, downloadScenesImagesZip, formatUsd } from '../lib/clientUtils'
+import { applyJobEvent, getRuntimeLogs, jobEventNeedsRefresh, subscribeJobEvents, type JobEventsState } from '../lib/jobEvents'
+import { keepSignedUrls, signedUrlRefreshDelayMs } from '../lib/signedUrls'
 import type {
+  PipelineStage,
+  TrendStoryCancelJobRequest,
+  TrendStoryCancelJobResponse,
+  TrendStoryDeleteJobRequest,
+  TrendStoryDeleteJobResponse,
   TrendStoryGenerateSceneImageRequest,
   TrendStoryGenerateSceneImageResponse,
   TrendStoryRetryAudioRequest,
   TrendStoryRetryAudioResponse,
+  TrendStorySceneOpsRequest,
+  TrendStorySceneOpsResponse,
   TrendStoryStartRequest,
   TrendStoryStartResponse,
   TrendStoryStatusResponse,
+  ValidationReport,
 } from '../lib/types'
+import { ConfirmModal } from '../ui/ConfirmModal'
+import { JobMetaEditor } from '../ui/JobMetaEditor'
+import { SceneEditor } from '../ui/SceneEditor'
+import { ScenePromptEditor } from '../ui/ScenePromptEditor'
+import { SceneOpsBar } from '../ui/SceneOpsBar'
 import { Shell } from '../ui/Shell'
 
+const PIPELINE_STAGES: PipelineStage[] = ['autoconfig', 'packager', 'scenes', 'tts', 'image_requests', 'final_package']
+
 function formatStatus(status: string) {
   if (status === 'QUEUED') return '대기 중'
   if (status === 'RUNNING') return '생성 중'
   if (status === 'SUCCEEDED') return '완료'
   if (status === 'FAILED') return '실패'
+  if (status === 'CANCELLED') return '취소됨'
   return status
 }
 
@@ -35,6 +53,13 @@ export function JobPage() {
   const [selectedAudioSceneIds, setSelectedAudioSceneIds] = useState<Set<number>>(new Set())
   const [showAudioRetryModal, setShowAudioRetryModal] = useState(false)
   const [isRestarting, setIsRestarting] = useState(false)
+  const [isResuming, setIsResuming] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [showCancelModal, setShowCancelModal] = useState(false)
+  const [liveState, setLiveState] = useState<JobEventsState>('off')
+  const [dragSceneId, setDragSceneId] = useState<number | null>(null)
+  const [dropSceneId, setDropSceneId] = useState<number | null>(null)
+  const [isReordering, setIsReordering] = useState(false)
 
   const status = data?.status
   const isAnySceneGenerating = useMemo(
@@ -45,8 +70,23 @@ export function JobPage() {
   // NOTE:
   // - 이미지는 자동 생성되지 않습니다. (씬별로 "생성" 클릭 시 1장씩 생성)
   // - 생성 클릭 후에는 완료까지 화면이 갱신되도록, 로컬 생성 상태 동안은 폴링을 유지합니다.
+  // - 큐(ytg_tasks)에 대기/실행 중인 작업(이미지/오디오 재생성 등)이 있으면 완료된 job이어도 폴링합니다.
+  // - 서버가 stalled(heartbeat 끊김)로 판단하면 폴링을 멈춥니다. (sweeper 복구 후 수동 새로고침)
+  // - Realtime(ytg_job_events) 구독이 연결되면 변경분은 이벤트로 받고, 폴링은 30초 간격 안전망으로만 유지합니다.
+  const hasActiveTasks = (data?.tasks ?? []).some((t) => t.status === 'QUEUED' || t.status === 'RUNNING')
+  const isStalled = Boolean(data?.stalled)
+  // 워크스페이스 viewer는 조회/다운로드만 가능 (서버도 403으로 거부)
+  // 휴지통에 있는 job도 복원 전까지는 조회만 가능 (서버는 409로 거부)
+  const isViewer = data?.access?.role === 'viewer'
+  const isTrashed = Boolean(data?.job?.deleted_at)
+  const canEdit = !isViewer && !isTrashed
+  // 씬 구성(추가/삭제/분할/병합/순서)은 씬 번호를 바꾸므로 파이프라인이나 씬 작업이 끝난 뒤에만 허용 (서버도 409로 거부)
+  const canEditSceneList =
+    canEdit && status !== 'QUEUED' && status !== 'RUNNING' && !hasActiveTasks && !isAnySceneGenerating && !isReordering
   const isPolling =
-    !pollingBlocked && (status === 'QUEUED' || status === 'RUNNING' || !status || isAnySceneGenerating)
+    !pollingBlocked &&
+    !isStalled &&
+    (status === 'QUEUED' || status === 'RUNNING' || !status || isAnySceneGenerating || hasActiveTasks)
 
   async function refresh(showLoading = false) {
     if (!jobId) return
@@ -54,7 +94,7 @@ export function JobPage() {
     if (showLoading) setIsLoading(true)
     try {
       const res = await functionsGet<TrendStoryStatusResponse>(`trendstory-status?job_id=${encodeURIComponent(jobId)}`)
-      setData(res)
+      setData((prev) => keepSignedUrls(prev, res))
     } catch (err: any) {
       const msg =
         err instanceof ApiError
@@ -69,7 +109,37 @@ export function JobPage() {
     }
   }
 
-  async function generateSceneImage(sceneId: number, force = false) {
+  // 비공개 버킷 모드: 만료된(또는 곧 만료될) signed URL을 모두 새로 받습니다. 실패하면 null
+  const lastUrlRefreshAt = useRef(0)
+  async function refreshSignedUrls(): Promise<TrendStoryStatusResponse | null> {
+    if (!jobId) return null
+    lastUrlRefreshAt.current = Date.now()
+    try {
+      const res = await functionsGet<TrendStoryStatusResponse>(`trendstory-status?job_id=${encodeURIComponent(jobId)}`)
+      setData(res)
+      return res
+    } catch {
+      return null
+    }
+  }
+
+  // <img>/<audio> 로드 실패 시: signed URL 만료로 보고 새로 받음 (여러 요소가 동시에 실패해도 10초에 한 번)
+  function onMediaError() {
+    if (!data?.signed_url_expires_at || Date.now() - lastUrlRefreshAt.current < 10_000) return
+    refreshSignedUrls()
+  }
+
+  async function sceneImageUrlsFresh() {
+    const res = await refreshSignedUrls()
+    return (res?.scenes ?? []).filter((s) => Boolean(s.image_url)).map((s) => ({ scene_id: s.scene_id, image_url: s.image_url! }))
+  }
+
+  // overrides: 씬 카드에서 고친 프롬프트/피할 요소 (생략하면 서버에 저장된 값 사용)
+  async function generateSceneImage(
+    sceneId: number,
+    force = false,
+    overrides?: Pick<TrendStoryGenerateSceneImageRequest, 'prompt' | 'negative_prompt'>,
+  ) {
     if (!jobId) return
     setRetryMsg(null)
     setGeneratingSceneIds((m) => ({ ...m, [sceneId]: true }))
@@ -78,6 +148,7 @@ export function JobPage() {
         job_id: jobId,
         scene_id: sceneId,
         force,
+        ...overrides,
       }
       const res = await functionsPost<TrendStoryGenerateSceneImageResponse, any>('trendstory-generate-scene-image', body as any)
       if (res.status === 'IN_PROGRESS') setRetryMsg(`Scene ${sceneId}: 이미 생성 중입니다.`)
@@ -111,6 +182,34 @@ export function JobPage() {
     }
   }
 
+  function onSceneOpDone(res: TrendStorySceneOpsResponse) {
+    if (res.storage_errors.length > 0) {
+      setRetryMsg(`씬 구성은 바뀌었지만 일부 파일 이름을 바꾸지 못했습니다.\n${res.storage_errors.join('\n')}`)
+    }
+    // 응답의 scenes에는 signed URL이 없으므로 status를 다시 불러옵니다.
+    refresh()
+  }
+
+  // 드래그한 씬을 놓은 씬 자리로 옮깁니다. (scene_id는 서버가 1..N으로 다시 매김)
+  async function moveScene(fromSceneId: number, toSceneId: number) {
+    if (!jobId || fromSceneId === toSceneId) return
+    const order = (data?.scenes ?? []).map((s) => s.scene_id).filter((id) => id !== fromSceneId)
+    const to = order.indexOf(toSceneId)
+    order.splice(fromSceneId < toSceneId ? to + 1 : to, 0, fromSceneId)
+    setRetryMsg(null)
+    setIsReordering(true)
+    try {
+      const body: TrendStorySceneOpsRequest = { job_id: jobId, action: 'reorder', order }
+      onSceneOpDone(await functionsPost<TrendStorySceneOpsResponse, TrendStorySceneOpsRequest>('trendstory-scene-ops', body))
+    } catch (err: unknown) {
+      const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : null
+      const msg = err instanceof Error ? err.message : '알 수 없는 오류'
+      setRetryMsg(`씬 순서 변경 실패: ${msg}${hint ? `\n${hint}` : ''}`)
+    } finally {
+      setIsReordering(false)
+    }
+  }
+
   // NOTE: "전체 컨텐츠 다시 생성" 버튼은 제거했습니다.
 
   // NOTE: "전체 이미지 다시 생성" 버튼은 제거했습니다.
@@ -168,6 +267,7 @@ export function JobPage() {
         scenes.map((s) => ({ scene_id: s.scene_id, image_url: s.image_url! })),
         `job_${jobId}_images.zip`,
         (done, total) => setRetryMsg(`ZIP 생성 중... ${done}/${total}`),
+        sceneImageUrlsFresh,
       )
       setRetryMsg('ZIP 다운로드를 시작했습니다.')
     } catch (err: any) {
@@ -183,14 +283,54 @@ export function JobPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [jobId])
 
+  // 비공개 버킷 모드: signed URL이 만료되기 전에 새로 받아 둡니다. (폴링이 멈춘 완료 job에서도 미리보기/플레이어 유지)
+  const signedUrlExpiresAt = data?.signed_url_expires_at ?? null
+  useEffect(() => {
+    const delay = signedUrlRefreshDelayMs(signedUrlExpiresAt)
+    if (delay == null) return
+    const t = window.setTimeout(() => refreshSignedUrls(), delay)
+    return () => window.clearTimeout(t)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signedUrlExpiresAt])
+
   useEffect(() => {
     if (!isPolling) return
-    const t = window.setInterval(() => {
-      refresh()
-    }, 2500)
+    const t = window.setInterval(
+      () => {
+        refresh()
+      },
+      liveState === 'live' ? 30000 : 2500,
+    )
     return () => window.clearInterval(t)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [jobId, isPolling])
+  }, [jobId, isPolling, liveState])
+
+  useEffect(() => {
+    if (!jobId) return
+    let refreshTimer: number | undefined
+    const scheduleRefresh = () => {
+      // 단계 완료 직후에는 이벤트가 몰려 오므로 한 번만 조회
+      window.clearTimeout(refreshTimer)
+      refreshTimer = window.setTimeout(() => refresh(), 300)
+    }
+    const unsubscribe = subscribeJobEvents(jobId, {
+      onState: (state) => {
+        setLiveState(state)
+        // 구독 전(초기 조회 ~ 연결 사이)에 놓친 변경분이 있을 수 있어 연결 직후 한 번 전체 조회
+        if (state === 'live') scheduleRefresh()
+      },
+      onEvent: (ev) => {
+        setData((prev) => (prev ? applyJobEvent(prev, ev) : prev))
+        if (jobEventNeedsRefresh(ev)) scheduleRefresh()
+      },
+    })
+    return () => {
+      window.clearTimeout(refreshTimer)
+      unsubscribe()
+      setLiveState('off')
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jobId])
 
   const audioUrl = useMemo(() => {
     const audios = (data?.assets ?? []).filter((a) => a.type === 'audio')
@@ -200,6 +340,9 @@ export function JobPage() {
     return fp?.audio?.audio_url ?? null
   }, [data])
 
+  // 씬 카드 "이미지 기록"용 (ytg_assets.meta에 이미지마다 프롬프트가 남음)
+  const imageAssets = useMemo(() => (data?.assets ?? []).filter((a) => a.type === 'image'), [data])
+
   const sceneAudios = useMemo(() => {
     const fromAssets = (data?.assets ?? [])
       .filter((a) => a.type === 'audio' && (a as any)?.meta?.kind === 'scene')
@@ -244,6 +387,67 @@ export function JobPage() {
   const finalPackage = useMemo(() => data?.job?.final_package ?? null, [data])
   const autoconfig = useMemo(() => data?.job?.autoconfig ?? null, [data])
   const packager = useMemo(() => data?.job?.packager ?? null, [data])
+  const validation = useMemo(() => {
+    const pk = packager as { _runtime?: { validation?: { autoconfig?: ValidationReport; packager?: ValidationReport } } } | null
+    const v = pk?._runtime?.validation
+    if (!v) return null
+    return (['autoconfig', 'packager'] as const)
+      .map((kind) => ({ kind, report: v[kind] }))
+      .filter((x): x is { kind: 'autoconfig' | 'packager'; report: ValidationReport } => Boolean(x.report))
+      .map(({ kind, report }) => ({
+        kind,
+        valid: report.valid,
+        repairs: Math.max(0, report.attempts.length - 1),
+        issues: report.attempts[report.attempts.length - 1]?.issues ?? [],
+        parsePath: report.attempts[report.attempts.length - 1]?.parse_path ?? null,
+      }))
+  }, [packager])
+  // op(autoconfig/packager/scene_tts/scene_image)별 사용량/비용 합계
+  const usageBreakdown = useMemo(() => {
+    const rows = data?.usage ?? []
+    if (rows.length === 0) return null
+    const byOp = new Map<
+      string,
+      { op: string; calls: number; inputTokens: number; outputTokens: number; images: number; ttsChars: number; cost: number; unpriced: number }
+    >()
+    for (const u of rows) {
+      const agg = byOp.get(u.op) ?? { op: u.op, calls: 0, inputTokens: 0, outputTokens: 0, images: 0, ttsChars: 0, cost: 0, unpriced: 0 }
+      agg.calls++
+      agg.inputTokens += u.input_tokens ?? 0
+      agg.outputTokens += u.output_tokens ?? 0
+      agg.images += u.image_count ?? 0
+      agg.ttsChars += u.tts_chars ?? 0
+      if (u.cost_usd == null) agg.unpriced++
+      else agg.cost += u.cost_usd
+      byOp.set(u.op, agg)
+    }
+    const items = Array.from(byOp.values())
+    return {
+      items,
+      total: items.reduce((sum, x) => sum + x.cost, 0),
+      unpriced: items.reduce((sum, x) => sum + x.unpriced, 0),
+      models: Array.from(new Set(rows.map((u) => u.model))),
+    }
+  }, [data])
+  // 진행 패널에 보여줄 최근 런타임 로그 (Realtime 이벤트로도 한 줄씩 추가됨)
+  const recentLogs = useMemo(() => getRuntimeLogs(data).slice(-8), [data])
+  // 작업 큐 요약 (대기/실행/실패 수, 마지막 실패 task)
+  const taskSummary = useMemo(() => {
+    const tasks = data?.tasks ?? []
+    if (tasks.length === 0) return null
+    const count = (st: string) => tasks.filter((t) => t.status === st).length
+    const label = (t: (typeof tasks)[number]) =>
+      t.kind === 'pipeline_stage' ? `단계 ${t.payload.stage ?? '?'}` : `${t.kind === 'scene_tts' ? 'TTS' : '이미지'} scene ${t.payload.scene_id ?? '?'}`
+    return {
+      queued: count('QUEUED'),
+      running: count('RUNNING'),
+      failed: count('FAILED'),
+      retrying: tasks.filter((t) => t.status === 'QUEUED' && t.attempts > 0).length,
+      failures: tasks
+        .filter((t) => t.status === 'FAILED' || (t.status === 'QUEUED' && t.attempts > 0 && t.last_error))
+        .map((t) => ({ id: t.id, label: label(t), status: t.status, attempts: `${t.attempts}/${t.max_attempts}`, error: t.last_error })),
+    }
+  }, [data])
   const youtubeMeta = useMemo(() => {
     const fp: any = data?.job?.final_package
     if (fp?.youtube_meta) return fp.youtube_meta
@@ -285,18 +489,94 @@ export function JobPage() {
     if (Array.isArray(tags)) await copyText(tags.join(' '))
   }
 
+  async function resumeJob() {
+    if (!jobId || !data?.job?.input) return
+    setIsResuming(true)
+    setRetryMsg(null)
+    setError(null)
+    try {
+      const input = data.job.input as TrendStoryStartRequest
+      const payload: TrendStoryStartRequest = {
+        topic_domain: input.topic_domain,
+        language: input.language,
+        audience: input.audience,
+        job_id: jobId,
+        resume_from: 'auto',
+      }
+      const res = await functionsPost<TrendStoryStartResponse, TrendStoryStartRequest>('trendstory-start', payload)
+      setRetryMsg(`${res.resumed_from ?? '마지막 완료 단계 다음'} 단계부터 재개했습니다. 잠시 후 새로고침됩니다...`)
+      setTimeout(() => {
+        refresh()
+      }, 1500)
+    } catch (err: unknown) {
+      let msg = err instanceof ApiError ? err.message : err instanceof Error ? err.message : '재개 중 오류가 발생했습니다.'
+      const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : undefined
+      if (hint) msg = `${msg}\n\n💡 해결 방법:\n${hint}`
+      setError(msg)
+    } finally {
+      setIsResuming(false)
+    }
+  }
+
+  async function cancelJob() {
+    if (!jobId) return
+    setIsCancelling(true)
+    setRetryMsg(null)
+    setError(null)
+    try {
+      const body: TrendStoryCancelJobRequest = { job_id: jobId }
+      const res = await functionsPost<TrendStoryCancelJobResponse, TrendStoryCancelJobRequest>('trendstory-cancel-job', body)
+      setRetryMsg(res.message)
+      await refresh(true)
+    } catch (err: unknown) {
+      let msg = err instanceof ApiError ? err.message : err instanceof Error ? err.message : '취소 중 오류가 발생했습니다.'
+      const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : undefined
+      if (hint) msg = `${msg}\n\n💡 해결 방법:\n${hint}`
+      setError(msg)
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  async function restoreJob() {
+    if (!jobId) return
+    setRetryMsg(null)
+    setError(null)
+    try {
+      const body: TrendStoryDeleteJobRequest = { job_id: jobId, action: 'restore' }
+      const res = await functionsPost<TrendStoryDeleteJobResponse, TrendStoryDeleteJobRequest>('trendstory-delete-job', body)
+      setRetryMsg(res.message)
+      await refresh(true)
+    } catch (err: unknown) {
+      let msg = err instanceof ApiError ? err.message : err instanceof Error ? err.message : '복원 중 오류가 발생했습니다.'
+      const hint = err instanceof ApiError ? extractErrorHint(err.bodyJson) : undefined
+      if (hint) msg = `${msg}\n\n💡 해결 방법:\n${hint}`
+      setError(msg)
+    }
+  }
+
   async function restartJob() {
     if (!jobId || !data?.job?.input) return
     setIsRestarting(true)
     setRetryMsg(null)
     setError(null)
     try {
-      const input = data.job.input as any
+      // 저장된 입력을 그대로 다시 보냅니다. 서버가 job 입력을 이 요청으로 덮어쓰므로
+      // 고급 옵션(scene_count, tone 등)/프리셋/options를 빠뜨리면 제약 없이 다시 만들어집니다.
+      // preset_name은 서버가 기록하는 값이고, job_id/workspace_id/resume_from은 이번 요청에서 정합니다.
+      const stored = { ...(data.job.input as TrendStoryStartRequest & { preset_name?: string }) }
+      delete stored.preset_name
+      delete stored.job_id
+      delete stored.workspace_id
+      delete stored.resume_from
       const payload: TrendStoryStartRequest = {
-        topic_domain: String(input?.topic_domain ?? '').trim(),
-        language: String(input?.language ?? 'ko').trim(),
-        audience: String(input?.audience ?? '중학생').trim(),
-        input_as_text: input?.input_as_text ? String(input.input_as_text).trim() : undefined,
+        ...stored,
+        topic_domain: String(stored.topic_domain ?? '').trim(),
+        language: String(stored.language ?? 'ko').trim(),
+        audience: String(stored.audience ?? '중학생').trim(),
+        input_as_text: stored.input_as_text ? String(stored.input_as_text).trim() : undefined,
+        provider: stored.provider || undefined,
+        preset_id: stored.preset_id || undefined,
         job_id: jobId, // 기존 job 재사용
       }
       if (!payload.topic_domain) {
@@ -332,7 +612,14 @@ export function JobPage() {
                 홈으로
               </Link>
             </div>
-            <div className="text-lg font-semibold">상태: {formatStatus(data?.status ?? '...')}</div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="text-lg font-semibold">상태: {formatStatus(data?.status ?? '...')}</div>
+              {(data?.job?.input as TrendStoryStartRequest | undefined)?.provider === 'fake' ? (
+                <span className="rounded-md border border-amber-400/30 bg-amber-400/10 px-2 py-0.5 text-xs text-amber-200">
+                  fixture 모드
+                </span>
+              ) : null}
+            </div>
             {data?.trace_id ? <div className="text-xs text-zinc-500">trace_id: {data.trace_id}</div> : null}
           </div>
 
@@ -345,18 +632,61 @@ export function JobPage() {
             >
               {isLoading ? '새로고침 중...' : '새로고침'}
             </button>
-            <button
-              onClick={() => restartJob()}
-              disabled={isRestarting || !data?.job?.input}
-              className="btn-dark h-10 px-4"
-              title="기존 입력으로 새 작업을 시작합니다"
-            >
-              {isRestarting ? '재시작 중...' : '전체 새로만들기'}
-            </button>
+            {canEdit && (data?.status === 'QUEUED' || data?.status === 'RUNNING') ? (
+              <button
+                onClick={() => setShowCancelModal(true)}
+                disabled={isCancelling}
+                className="btn-danger h-10 px-4"
+                title="진행 중인 생성 작업을 멈춥니다 (현재 단계가 끝나는 즉시 중단)"
+              >
+                {isCancelling ? '취소 중...' : '작업 취소'}
+              </button>
+            ) : null}
+            {canEdit && (data?.status === 'FAILED' || data?.status === 'CANCELLED') ? (
+              <button
+                onClick={() => resumeJob()}
+                disabled={isResuming || isRestarting || !data?.job?.input}
+                className="btn-primary h-10 px-4"
+                title="완료된 단계(체크포인트)는 건너뛰고 실패한 단계부터 다시 실행합니다"
+              >
+                {isResuming ? '재개 중...' : data?.status === 'CANCELLED' ? '중단 지점부터 재개' : '실패 지점부터 재개'}
+              </button>
+            ) : null}
+            {canEdit ? (
+              <button
+                onClick={() => restartJob()}
+                disabled={isRestarting || !data?.job?.input || status === 'QUEUED' || status === 'RUNNING'}
+                className="btn-dark h-10 px-4"
+                title={
+                  status === 'QUEUED' || status === 'RUNNING'
+                    ? '실행 중에는 새로만들 수 없습니다. 먼저 작업을 취소하세요.'
+                    : '기존 입력으로 새 작업을 시작합니다'
+                }
+              >
+                {isRestarting ? '재시작 중...' : '전체 새로만들기'}
+              </button>
+            ) : null}
           </div>
         </div>
 
         {isLoading ? <div className="text-sm text-zinc-400">불러오는 중...</div> : null}
+        {isTrashed ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-amber-400/20 bg-amber-500/5 p-3 text-xs text-amber-200/90">
+            <span>
+              휴지통에 있는 작업입니다. ({new Date(data!.job.deleted_at!).toLocaleString()} 삭제) 복원하기 전까지는 조회와 다운로드만 할 수
+              있습니다.
+            </span>
+            {!isViewer ? (
+              <button type="button" className="btn-ghost h-8 px-3 text-xs" onClick={() => restoreJob()}>
+                복원
+              </button>
+            ) : null}
+          </div>
+        ) : isViewer ? (
+          <div className="rounded-xl border border-white/10 bg-zinc-950/60 p-3 text-xs text-zinc-400">
+            보기 전용 권한입니다. 결과 조회와 다운로드만 할 수 있습니다.
+          </div>
+        ) : null}
         {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
         {retryMsg ? (
           <div className={`whitespace-pre-wrap text-sm ${retryMsg.includes('실패') || retryMsg.includes('오류') ? 'text-red-300' : 'text-zinc-300'}`}>
@@ -366,23 +696,197 @@ export function JobPage() {
         {data?.status === 'FAILED' ? (
           <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-sm text-red-200">
             실패: {data.job.error ?? '알 수 없는 오류'}
+            {data.job.checkpoints ? (
+              <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                {PIPELINE_STAGES.map((st) => (
+                  <span key={st} className={data.job.checkpoints?.[st] ? 'text-emerald-300' : 'text-red-200/60'}>
+                    {data.job.checkpoints?.[st] ? '✓' : '·'} {st}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+            {validation?.some((v) => !v.valid) ? (
+              <div className="mt-2 grid gap-1 text-xs text-red-200/80">
+                {validation
+                  .filter((v) => !v.valid)
+                  .map((v) => (
+                    <div key={v.kind}>
+                      <div className="font-medium">
+                        {v.kind} 스키마 검증 실패 (리페어 {v.repairs}회 시도)
+                      </div>
+                      {v.issues.map((i, idx) => (
+                        <div key={idx} className="font-mono">
+                          {i.path}: {i.message}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        {data?.status === 'CANCELLED' ? (
+          <div className="rounded-xl border border-amber-400/30 bg-amber-400/10 p-4 text-sm text-amber-200">
+            취소됨: {data.job.error ?? '사용자가 작업을 취소했습니다.'}
+            {data.job.checkpoints ? (
+              <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                {PIPELINE_STAGES.map((st) => (
+                  <span key={st} className={data.job.checkpoints?.[st] ? 'text-emerald-300' : 'text-amber-200/60'}>
+                    {data.job.checkpoints?.[st] ? '✓' : '·'} {st}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        {isStalled ? (
+          <div className="rounded-xl border border-amber-400/20 bg-amber-400/5 p-4 text-sm text-amber-200/90">
+            <div className="font-medium">작업이 멈춘 것 같습니다</div>
+            <div className="mt-1 text-xs text-amber-200/80">
+              {data?.stalled_reason === 'queue_idle'
+                ? '큐에 작업이 남아 있지만 워커가 처리하지 않고 있습니다. (워커 cron 설정을 확인하세요)'
+                : `${Math.round((data?.stale_after_sec ?? 600) / 60)}분 이상 진행 신호(heartbeat)가 없습니다.`}{' '}
+              자동 갱신을 멈췄습니다. sweeper가 주기적으로 체크포인트부터 다시 시도하거나 실패로 마감합니다.
+              기다리지 않으려면 작업을 취소한 뒤 &quot;중단 지점부터 재개&quot;를 눌러주세요.
+            </div>
+            {data?.job.heartbeat_at ? (
+              <div className="mt-1 font-mono text-xs text-amber-200/60">
+                마지막 heartbeat: {new Date(data.job.heartbeat_at).toLocaleString()}
+                {data.job.recovery_count ? ` · 자동 복구 ${data.job.recovery_count}회` : ''}
+              </div>
+            ) : null}
+            <button type="button" className="btn-ghost mt-3" onClick={() => refresh(true)}>
+              상태 다시 확인
+            </button>
           </div>
         ) : null}
 
         {data?.status === 'RUNNING' || data?.status === 'QUEUED' ? (
           <div className="rounded-xl border border-white/10 bg-white/5 p-4 text-sm text-zinc-300">
-            생성 작업이 진행 중입니다. 2~3초 간격으로 자동 갱신합니다.
+            {isStalled
+              ? '생성 작업이 응답하지 않습니다.'
+              : liveState === 'live'
+                ? '생성 작업이 진행 중입니다. 실시간으로 갱신합니다.'
+                : '생성 작업이 진행 중입니다. 2~3초 간격으로 자동 갱신합니다.'}
             <div className="mt-2 grid gap-1 text-xs text-zinc-400">
               <div>autoconfig: {formatStepStatus(progress.autoconfigStatus)}</div>
               <div>packager: {formatStepStatus(progress.packagerStatus)}</div>
+              {validation?.some((v) => v.parsePath) ? (
+                <div>JSON 파싱: {validation.map((v) => `${v.kind} ${v.parsePath ?? '-'}`).join(', ')}</div>
+              ) : null}
+              {validation?.some((v) => v.repairs > 0) ? (
+                <div>
+                  스키마 리페어: {validation.map((v) => `${v.kind} ${v.repairs}회`).join(', ')}
+                </div>
+              ) : null}
               <div>scenes: {progress.scenesCount}개</div>
               <div>images: {progress.imagesDone}/{progress.scenesCount}</div>
               <div>audio: {progress.audioDone ? '완료' : '대기'}</div>
               <div>scene audio: {progress.sceneAudiosDone}/{progress.scenesCount}</div>
+              {taskSummary ? (
+                <div>
+                  작업 큐: 대기 {taskSummary.queued} · 실행 {taskSummary.running}
+                  {taskSummary.retrying > 0 ? ` · 재시도 대기 ${taskSummary.retrying}` : ''}
+                  {taskSummary.failed > 0 ? ` · 실패 ${taskSummary.failed}` : ''}
+                </div>
+              ) : null}
             </div>
+            {recentLogs.length > 0 ? (
+              <div className="mt-3 grid gap-0.5 rounded-lg bg-black/30 p-2 font-mono text-[11px] text-zinc-400">
+                {recentLogs.map((l, i) => (
+                  <div
+                    key={`${l.ts}-${i}`}
+                    className={l.level === 'error' ? 'text-red-300' : l.level === 'warn' ? 'text-amber-200/90' : undefined}
+                  >
+                    {l.ts.slice(11, 19)} {l.msg}
+                  </div>
+                ))}
+              </div>
+            ) : null}
           </div>
         ) : null}
 
+        {status !== 'RUNNING' && status !== 'QUEUED' && taskSummary && (taskSummary.queued > 0 || taskSummary.running > 0) ? (
+          <div className="rounded-xl border border-white/10 bg-white/5 p-4 text-sm text-zinc-300">
+            백그라운드 작업 {taskSummary.queued + taskSummary.running}개 진행 중 (이미지/오디오 재생성). 완료되면 자동으로 갱신됩니다.
+          </div>
+        ) : null}
+
+        {taskSummary && taskSummary.failures.length > 0 ? (
+          <div className="rounded-xl border border-amber-400/20 bg-amber-400/5 p-4 text-xs text-amber-200/90">
+            <div className="mb-1 font-medium">작업 큐 오류</div>
+            <div className="grid gap-1">
+              {taskSummary.failures.map((f) => (
+                <div key={f.id} className="font-mono">
+                  [{f.status === 'FAILED' ? '실패' : '재시도 대기'} {f.attempts}] {f.label}: {f.error ?? '-'}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {data?.job ? (
+          <JobMetaEditor
+            key={data.job.id}
+            jobId={data.job.id}
+            tags={data.job.tags ?? []}
+            pinned={Boolean(data.job.pinned)}
+            notes={data.job.notes ?? null}
+            canEdit={canEdit}
+            onSaved={(meta) =>
+              setData((prev) => (prev ? { ...prev, job: { ...prev.job, tags: meta.tags, pinned: meta.pinned, notes: meta.notes } } : prev))
+            }
+          />
+        ) : null}
+
+        {usageBreakdown ? (
+          <section className="card p-5">
+            <div className="flex flex-wrap items-baseline justify-between gap-3">
+              <h2 className="text-base font-semibold">비용/사용량 (추정)</h2>
+              <div className="text-sm text-zinc-300">
+                합계: <span className="font-semibold text-emerald-300">{formatUsd(usageBreakdown.total)}</span>
+                {usageBreakdown.unpriced > 0 ? (
+                  <span className="ml-2 text-xs text-amber-300">단가 미등록 호출 {usageBreakdown.unpriced}건 제외</span>
+                ) : null}
+              </div>
+            </div>
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-left text-xs text-zinc-300">
+                <thead className="text-zinc-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">단계</th>
+                    <th className="py-1 pr-3 font-medium">호출</th>
+                    <th className="py-1 pr-3 font-medium">입력 토큰</th>
+                    <th className="py-1 pr-3 font-medium">출력 토큰</th>
+                    <th className="py-1 pr-3 font-medium">이미지</th>
+                    <th className="py-1 pr-3 font-medium">TTS 글자수</th>
+                    <th className="py-1 font-medium">비용</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usageBreakdown.items.map((x) => (
+                    <tr key={x.op} className="border-t border-white/5">
+                      <td className="py-1 pr-3">{x.op}</td>
+                      <td className="py-1 pr-3">{x.calls}</td>
+                      <td className="py-1 pr-3">{x.inputTokens ? x.inputTokens.toLocaleString() : '-'}</td>
+                      <td className="py-1 pr-3">{x.outputTokens ? x.outputTokens.toLocaleString() : '-'}</td>
+                      <td className="py-1 pr-3">{x.images || '-'}</td>
+                      <td className="py-1 pr-3">{x.ttsChars ? x.ttsChars.toLocaleString() : '-'}</td>
+                      <td className="py-1">
+                        {formatUsd(x.cost)}
+                        {x.unpriced > 0 ? <span className="text-amber-300"> +?</span> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="mt-2 text-xs text-zinc-500">모델: {usageBreakdown.models.join(', ')}</div>
+          </section>
+        ) : null}
+
         {(autoconfig || packager) && data?.status !== 'FAILED' ? (
           <section className="card p-5">
             <div className="flex flex-wrap items-center justify-between gap-3">
@@ -430,7 +934,7 @@ export function JobPage() {
               <div className="flex flex-wrap items-center justify-between gap-3">
                 <h2 className="text-base font-semibold">오디오 내레이션</h2>
                 <div className="flex flex-wrap items-center gap-3">
-                  {sceneAudios.length > 0 ? (
+                  {!canEdit ? null : sceneAudios.length > 0 ? (
                     <button
                       onClick={() => setShowAudioRetryModal(true)}
                       disabled={isRetryingAudio}
@@ -459,7 +963,7 @@ export function JobPage() {
                   ) : null}
                 </div>
               </div>
-              {showAudioRetryModal ? (
+              {canEdit && showAudioRetryModal ? (
                 <div className="mt-3 rounded-xl border border-white/10 bg-zinc-950/60 p-4">
                   <div className="mb-3 text-sm font-semibold">재생성할 오디오 선택</div>
                   <div className="mb-2 text-xs text-zinc-400">
@@ -565,6 +1069,7 @@ export function JobPage() {
                     className="w-full"
                     controls
                     src={sceneAudios[Math.min(sceneAudioIdx, sceneAudios.length - 1)]?.audio_url}
+                    onError={onMediaError}
                     onEnded={() => {
                       if (!autoPlayScenes) return
                       setSceneAudioIdx((i) => Math.min(i + 1, sceneAudios.length - 1))
@@ -589,7 +1094,7 @@ export function JobPage() {
                   </div>
                 </div>
               ) : audioUrl ? (
-                <audio className="mt-3 w-full" controls src={audioUrl} />
+                <audio className="mt-3 w-full" controls src={audioUrl} onError={onMediaError} />
               ) : (
                 <div className="mt-3 text-sm text-zinc-400">오디오를 찾지 못했습니다. (TTS 로그를 확인해보세요)</div>
               )}
@@ -681,9 +1186,81 @@ export function JobPage() {
                   </button>
                 </div>
               </div>
+              {canEditSceneList && (data.scenes ?? []).length > 1 ? (
+                <div className="mt-2 text-xs text-zinc-500">⠿ 손잡이를 끌어 씬 순서를 바꿀 수 있습니다.</div>
+              ) : null}
               <div className="mt-4 grid gap-4">
-                {(data.scenes ?? []).map((s) => (
-                  <div key={s.id} className="overflow-hidden rounded-2xl border border-white/10 bg-zinc-950">
+                {(data.scenes ?? []).map((s, idx, scenes) => (
+                  <div
+                    key={s.id}
+                    className={`overflow-hidden rounded-2xl border bg-zinc-950 ${
+                      dropSceneId === s.scene_id && dragSceneId !== s.scene_id ? 'border-white/40' : 'border-white/10'
+                    } ${dragSceneId === s.scene_id ? 'opacity-50' : ''}`}
+                    onDragOver={(e) => {
+                      if (dragSceneId == null) return
+                      e.preventDefault()
+                      setDropSceneId(s.scene_id)
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault()
+                      const from = dragSceneId
+                      setDragSceneId(null)
+                      setDropSceneId(null)
+                      if (from != null) moveScene(from, s.scene_id)
+                    }}
+                  >
+                    {canEdit ? (
+                      <div className="flex flex-wrap items-center gap-3 border-b border-white/10 px-4 py-2">
+                        <div className="flex items-center gap-1">
+                          <span
+                            draggable={canEditSceneList}
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move'
+                              e.dataTransfer.setData('text/plain', String(s.scene_id))
+                              const card = e.currentTarget.closest('.rounded-2xl')
+                              if (card) e.dataTransfer.setDragImage(card, 20, 20)
+                              setDragSceneId(s.scene_id)
+                            }}
+                            onDragEnd={() => {
+                              setDragSceneId(null)
+                              setDropSceneId(null)
+                            }}
+                            className={`select-none px-1 text-lg leading-none text-zinc-500 ${
+                              canEditSceneList ? 'cursor-grab hover:text-zinc-200' : 'opacity-40'
+                            }`}
+                            title="끌어서 순서 변경"
+                          >
+                            ⠿
+                          </span>
+                          <button
+                            type="button"
+                            disabled={!canEditSceneList || idx === 0}
+                            onClick={() => moveScene(s.scene_id, scenes[idx - 1].scene_id)}
+                            className="btn-ghost h-7 px-2 text-xs"
+                            title="위로"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            type="button"
+                            disabled={!canEditSceneList || idx === scenes.length - 1}
+                            onClick={() => moveScene(s.scene_id, scenes[idx + 1].scene_id)}
+                            className="btn-ghost h-7 px-2 text-xs"
+                            title="아래로"
+                          >
+                            ▼
+                          </button>
+                        </div>
+                        <SceneOpsBar
+                          jobId={data.job.id}
+                          scene={s}
+                          sceneCount={scenes.length}
+                          isLast={idx === scenes.length - 1}
+                          disabled={!canEditSceneList}
+                          onDone={onSceneOpDone}
+                        />
+                      </div>
+                    ) : null}
                     <div className="grid gap-4 p-4 md:grid-cols-[240px_1fr]">
                       <div className="relative aspect-video w-full overflow-hidden rounded-xl border border-white/10 bg-black/40">
                         {Boolean(generatingSceneIds[s.scene_id]) ? (
@@ -693,20 +1270,32 @@ export function JobPage() {
                         ) : null}
                         {s.image_url ? (
                           <>
-                            <img src={s.image_url} alt={`scene ${s.scene_id}`} className="h-full w-full object-cover" />
-                            <button
-                              onClick={() => generateSceneImage(s.scene_id, true)}
-                              disabled={Boolean(generatingSceneIds[s.scene_id])}
-                              className="absolute left-2 top-2 grid h-9 w-9 place-items-center rounded-lg border border-white/10 bg-black/60 text-white hover:bg-black/80 disabled:opacity-50"
-                              title="이미지 재생성"
-                            >
-                              <svg viewBox="0 0 24 24" className="h-5 w-5" fill="none" stroke="currentColor" strokeWidth="2">
-                                <path d="M21 12a9 9 0 1 1-2.64-6.36" />
-                                <path d="M21 3v6h-6" />
-                              </svg>
-                            </button>
+                            <img
+                              src={s.image_url}
+                              alt={`scene ${s.scene_id}`}
+                              className="h-full w-full object-cover"
+                              onError={onMediaError}
+                            />
+                            {canEdit ? (
+                              <button
+                                onClick={() => generateSceneImage(s.scene_id, true)}
+                                disabled={Boolean(generatingSceneIds[s.scene_id])}
+                                className="absolute left-2 top-2 grid h-9 w-9 place-items-center rounded-lg border border-white/10 bg-black/60 text-white hover:bg-black/80 disabled:opacity-50"
+                                title="이미지 재생성"
+                              >
+                                <svg viewBox="0 0 24 24" className="h-5 w-5" fill="none" stroke="currentColor" strokeWidth="2">
+                                  <path d="M21 12a9 9 0 1 1-2.64-6.36" />
+                                  <path d="M21 3v6h-6" />
+                                </svg>
+                              </button>
+                            ) : null}
                             <button
-                              onClick={() => downloadFileFromUrl(s.image_url!, `scene-${String(s.scene_id).padStart(2, '0')}.png`)}
+                              onClick={() =>
+                                downloadFileFromUrl(s.image_url!, `scene-${String(s.scene_id).padStart(2, '0')}.png`, async () => {
+                                  const fresh = await sceneImageUrlsFresh()
+                                  return fresh.find((x) => x.scene_id === s.scene_id)?.image_url ?? null
+                                })
+                              }
                               className="absolute right-2 top-2 grid h-9 w-9 place-items-center rounded-lg border border-white/10 bg-black/60 text-white hover:bg-black/80"
                               title="이미지 다운로드"
                             >
@@ -720,30 +1309,51 @@ export function JobPage() {
                         ) : (
                           <div className="grid h-full place-items-center gap-2 p-3 text-xs text-zinc-500">
                             <div>이미지 없음</div>
-                            <button
-                              onClick={() => generateSceneImage(s.scene_id, false)}
-                              disabled={Boolean(generatingSceneIds[s.scene_id])}
-                              className="grid h-10 w-10 place-items-center rounded-xl border border-white/10 bg-zinc-900 text-zinc-200 hover:bg-zinc-800 disabled:opacity-50"
-                              title="이미지 생성"
-                            >
-                              <svg viewBox="0 0 24 24" className="h-5 w-5" fill="none" stroke="currentColor" strokeWidth="2">
-                                <path d="M12 2l1.5 5.5L19 9l-5.5 1.5L12 16l-1.5-5.5L5 9l5.5-1.5L12 2z" />
-                                <path d="M19 13l.8 3 3 .8-3 .8-.8 3-.8-3-3-.8 3-.8.8-3z" />
-                              </svg>
-                            </button>
+                            {canEdit ? (
+                              <button
+                                onClick={() => generateSceneImage(s.scene_id, false)}
+                                disabled={Boolean(generatingSceneIds[s.scene_id])}
+                                className="grid h-10 w-10 place-items-center rounded-xl border border-white/10 bg-zinc-900 text-zinc-200 hover:bg-zinc-800 disabled:opacity-50"
+                                title="이미지 생성"
+                              >
+                                <svg viewBox="0 0 24 24" className="h-5 w-5" fill="none" stroke="currentColor" strokeWidth="2">
+                                  <path d="M12 2l1.5 5.5L19 9l-5.5 1.5L12 16l-1.5-5.5L5 9l5.5-1.5L12 2z" />
+                                  <path d="M19 13l.8 3 3 .8-3 .8-.8 3-.8-3-3-.8 3-.8.8-3z" />
+                                </svg>
+                              </button>
+                            ) : null}
                           </div>
                         )}
                       </div>
-                      <div className="grid gap-2">
-                        <div className="flex items-center justify-between gap-3">
-                          <div className="text-sm font-semibold">Scene {s.scene_id}</div>
-                          <div className="text-xs text-zinc-500">{s.duration_sec ? `${s.duration_sec}s` : ''}</div>
-                        </div>
-                        <div className="text-xs text-zinc-500">on_screen_text</div>
-                        <div className="text-sm text-zinc-200">{s.on_screen_text ?? '—'}</div>
-                        <div className="text-xs text-zinc-500">narration</div>
-                        <div className="whitespace-pre-wrap text-sm text-zinc-200">{s.narration ?? '—'}</div>
-                      </div>
+                      <SceneEditor
+                        jobId={data.job.id}
+                        scene={s}
+                        canEdit={canEdit}
+                        onSaved={(scene) =>
+                          setData((prev) =>
+                            prev ? { ...prev, scenes: (prev.scenes ?? []).map((x) => (x.id === scene.id ? scene : x)) } : prev,
+                          )
+                        }
+                        onRegenerateAudio={(sceneId) => retryAudio([sceneId])}
+                        onRegenerateImage={(sceneId) => generateSceneImage(sceneId, true)}
+                      />
+                    </div>
+                    <div className="border-t border-white/10 px-4 py-3">
+                      <ScenePromptEditor
+                        jobId={data.job.id}
+                        scene={s}
+                        assets={imageAssets}
+                        canEdit={canEdit}
+                        busy={Boolean(generatingSceneIds[s.scene_id])}
+                        onGenerate={(prompt, negativePrompt) =>
+                          generateSceneImage(s.scene_id, true, { prompt, negative_prompt: negativePrompt })
+                        }
+                        onSelected={(res) => {
+                          setRetryMsg(`Scene ${res.scene_id}: 선택한 이미지로 바꿨습니다.`)
+                          refresh()
+                        }}
+                        onMediaError={onMediaError}
+                      />
                     </div>
                   </div>
                 ))}
@@ -755,6 +1365,20 @@ export function JobPage() {
           </div>
         ) : null}
       </div>
+
+      <ConfirmModal
+        open={showCancelModal}
+        title="작업 취소"
+        description="진행 중인 생성 작업을 취소할까요? 이미 완료된 단계는 남아 있어 나중에 이어서 재개할 수 있습니다."
+        confirmText="작업 취소"
+        cancelText="닫기"
+        danger
+        onClose={() => setShowCancelModal(false)}
+        onConfirm={async () => {
+          setShowCancelModal(false)
+          await cancelJob()
+        }}
+      />
     </Shell>
   )
 }
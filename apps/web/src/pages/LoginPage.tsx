@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { signInWithPassword, signUpWithPassword } from '../lib/auth'
+import { Shell } from '../ui/Shell'
+
+export function LoginPage() {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setNotice(null)
+    setIsSubmitting(true)
+    try {
+      if (mode === 'signin') {
+        await signInWithPassword(email.trim(), password)
+      } else {
+        const needsConfirm = await signUpWithPassword(email.trim(), password)
+        if (needsConfirm) setNotice('확인 메일을 보냈습니다. 메일의 링크로 인증한 뒤 로그인하세요.')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '로그인 중 오류가 발생했습니다.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Shell title={mode === 'signin' ? '로그인' : '회원가입'}>
+      <form onSubmit={onSubmit} className="card mx-auto grid max-w-sm gap-4 p-5">
+        <div>
+          <h1 className="text-lg font-semibold tracking-tight">{mode === 'signin' ? '로그인' : '회원가입'}</h1>
+          <p className="mt-1 text-xs text-zinc-400">생성한 작업은 본인 계정에서만 조회/수정할 수 있습니다.</p>
+        </div>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">이메일</span>
+          <input
+            type="email"
+            autoComplete="email"
+            className="h-10 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">비밀번호</span>
+          <input
+            type="password"
+            autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+            className="h-10 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            minLength={6}
+            required
+          />
+        </label>
+        <button type="submit" disabled={isSubmitting} className="btn-primary h-10">
+          {isSubmitting ? '처리 중...' : mode === 'signin' ? '로그인' : '가입하기'}
+        </button>
+        <button
+          type="button"
+          className="text-xs text-zinc-400 underline-offset-2 hover:underline"
+          onClick={() => {
+            setMode(mode === 'signin' ? 'signup' : 'signin')
+            setError(null)
+            setNotice(null)
+          }}
+        >
+          {mode === 'signin' ? '계정이 없나요? 회원가입' : '이미 계정이 있나요? 로그인'}
+        </button>
+        {notice ? <div className="text-sm text-emerald-300">{notice}</div> : null}
+        {error ? <div className="text-sm text-red-300">오류: {error}</div> : null}
+      </form>
+    </Shell>
+  )
+}
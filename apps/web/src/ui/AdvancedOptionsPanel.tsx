@@ -0,0 +1,119 @@
+import type { AdvancedStartOptions, PlatformTarget, SafetyLevel } from '../lib/types'
+
+const INPUT_CLASS = 'h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20'
+
+function toNumber(value: string) {
+  return value.trim() ? Number(value) : undefined
+}
+
+// HomePage 생성 폼의 "고급 옵션": 이번 생성에만 적용되며 프리셋과 AutoConfig 결과보다 우선합니다.
+export function AdvancedOptionsPanel(props: { value: AdvancedStartOptions; onChange: (next: AdvancedStartOptions) => void }) {
+  const value = props.value
+  const activeCount = Object.keys(value).length
+
+  function set<K extends keyof AdvancedStartOptions>(key: K, next: AdvancedStartOptions[K]) {
+    const out = { ...value }
+    if (next === undefined || next === '') delete out[key]
+    else out[key] = next
+    props.onChange(out)
+  }
+
+  return (
+    <details className="mt-4 rounded-lg border border-white/10 p-4">
+      <summary className="cursor-pointer text-xs font-medium text-zinc-300">
+        고급 옵션 {activeCount > 0 ? <span className="text-zinc-500">({activeCount}개 지정)</span> : null}
+      </summary>
+
+      <div className="mt-3 grid gap-3 md:grid-cols-4">
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">scene_count (정확히)</span>
+          <input
+            type="number"
+            min={1}
+            max={12}
+            className={INPUT_CLASS}
+            placeholder="자동 (6~12)"
+            value={value.scene_count ?? ''}
+            onChange={(e) => set('scene_count', toNumber(e.target.value))}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">duration_min</span>
+          <input
+            type="number"
+            min={1}
+            max={60}
+            className={INPUT_CLASS}
+            placeholder="자동"
+            value={value.duration_min ?? ''}
+            onChange={(e) => set('duration_min', toNumber(e.target.value))}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">platform_target</span>
+          <select
+            className={INPUT_CLASS}
+            value={value.platform_target ?? ''}
+            onChange={(e) => set('platform_target', (e.target.value || undefined) as PlatformTarget | undefined)}
+          >
+            <option value="">자동</option>
+            <option value="youtube_16_9">YouTube 16:9</option>
+            <option value="shorts_9_16">Shorts 9:16</option>
+            <option value="square_1_1">정사각형 1:1</option>
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">safety_level</span>
+          <select
+            className={INPUT_CLASS}
+            value={value.safety_level ?? ''}
+            onChange={(e) => set('safety_level', (e.target.value || undefined) as SafetyLevel | undefined)}
+          >
+            <option value="">자동 (strict)</option>
+            <option value="strict">strict (아동·청소년)</option>
+            <option value="standard">standard</option>
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">tone</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="자동"
+            maxLength={40}
+            value={value.tone ?? ''}
+            onChange={(e) => set('tone', e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 md:col-span-3">
+          <span className="text-xs font-medium text-zinc-300">visual_style</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="자동"
+            maxLength={200}
+            value={value.visual_style ?? ''}
+            onChange={(e) => set('visual_style', e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 md:col-span-4">
+          <span className="text-xs font-medium text-zinc-300">main_character_hint</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="자동"
+            maxLength={200}
+            value={value.main_character_hint ?? ''}
+            onChange={(e) => set('main_character_hint', e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <div className="text-xs text-zinc-500">비워 둔 항목은 프리셋 또는 AutoConfig가 정합니다.</div>
+        {activeCount > 0 ? (
+          <button type="button" onClick={() => props.onChange({})} className="btn-ghost h-8 px-3 text-xs">
+            초기화
+          </button>
+        ) : null}
+      </div>
+    </details>
+  )
+}
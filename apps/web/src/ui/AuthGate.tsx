@@ -0,0 +1,26 @@
+import type { ReactNode } from 'react'
+import { useSession } from '../lib/auth'
+import { LoginPage } from '../pages/LoginPage'
+import { Shell } from './Shell'
+
+// 로그인하지 않았으면 로그인 화면을 보여줍니다. (Edge Functions가 사용자 JWT로 job 소유자를 확인)
+export function AuthGate(props: { children: ReactNode }) {
+  const { session, loading, error } = useSession()
+
+  if (error) {
+    return (
+      <Shell>
+        <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div>
+      </Shell>
+    )
+  }
+  if (loading) {
+    return (
+      <Shell>
+        <div className="text-sm text-zinc-400">로그인 상태 확인 중...</div>
+      </Shell>
+    )
+  }
+  if (!session) return <LoginPage />
+  return <>{props.children}</>
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { ApiError, extractErrorHint, functionsPost } from '../lib/functionsClient'
+import type { TrendStoryUpdateJobRequest, TrendStoryUpdateJobResponse } from '../lib/types'
+
+function toMessage(err: unknown, fallback: string) {
+  if (err instanceof ApiError) {
+    const hint = extractErrorHint(err.bodyJson)
+    return hint ? `${err.message}\n${hint}` : err.message
+  }
+  return err instanceof Error ? err.message : fallback
+}
+
+// "게시완료, 초안, #시리즈A" → ['게시완료', '초안', '시리즈A'] (정규화는 서버가 다시 함)
+function parseTagsInput(text: string) {
+  return text
+    .split(',')
+    .map((t) => t.trim().replace(/^#+/, ''))
+    .filter(Boolean)
+}
+
+// JobPage: 태그 / 즐겨찾기 / 메모 편집 (부모가 job id를 key로 넘겨 job이 바뀌면 초기화)
+export function JobMetaEditor(props: {
+  jobId: string
+  tags: string[]
+  pinned: boolean
+  notes: string | null
+  canEdit: boolean
+  onSaved: (meta: TrendStoryUpdateJobResponse) => void
+}) {
+  const [tagsText, setTagsText] = useState(() => props.tags.join(', '))
+  const [notes, setNotes] = useState(() => props.notes ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+
+  const dirty = tagsText !== props.tags.join(', ') || notes.trim() !== (props.notes ?? '')
+
+  async function save(patch: Omit<TrendStoryUpdateJobRequest, 'job_id'>) {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const body: TrendStoryUpdateJobRequest = { job_id: props.jobId, ...patch }
+      const res = await functionsPost<TrendStoryUpdateJobResponse, TrendStoryUpdateJobRequest>('trendstory-update-job', body)
+      if (patch.tags) setTagsText(res.tags.join(', '))
+      if (patch.notes !== undefined) setNotes(res.notes ?? '')
+      setSavedAt(new Date().toLocaleTimeString())
+      props.onSaved(res)
+    } catch (err) {
+      setError(toMessage(err, '저장하지 못했습니다.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <section className="card p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-base font-semibold">태그 / 메모</h2>
+        <button
+          type="button"
+          disabled={!props.canEdit || isSaving}
+          onClick={() => save({ pinned: !props.pinned })}
+          className={`btn-ghost h-8 px-3 text-xs ${props.pinned ? 'text-amber-300' : ''}`}
+          title="즐겨찾기한 job은 목록 맨 위에 표시됩니다."
+        >
+          {props.pinned ? '★ 즐겨찾기' : '☆ 즐겨찾기'}
+        </button>
+      </div>
+
+      <div className="mt-3 grid gap-3">
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">태그 (쉼표로 구분)</span>
+          <input
+            className="h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20"
+            placeholder="예: 게시완료, 초안, 우주 시리즈"
+            value={tagsText}
+            disabled={!props.canEdit}
+            onChange={(e) => setTagsText(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">메모</span>
+          <textarea
+            className="min-h-20 rounded-lg border border-white/10 bg-zinc-950 p-3 text-sm outline-none focus:border-white/20"
+            placeholder="게시 일정, 수정할 점 등"
+            value={notes}
+            maxLength={5000}
+            disabled={!props.canEdit}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </label>
+        {props.canEdit ? (
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              disabled={!dirty || isSaving}
+              onClick={() => save({ tags: parseTagsInput(tagsText), notes: notes.trim() || null })}
+              className="btn-dark h-9 px-3 text-xs"
+            >
+              {isSaving ? '저장 중...' : '저장'}
+            </button>
+            {savedAt && !dirty ? <span className="text-xs text-zinc-500">저장됨 ({savedAt})</span> : null}
+          </div>
+        ) : null}
+        {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+      </div>
+    </section>
+  )
+}
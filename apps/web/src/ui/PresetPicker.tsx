@@ -0,0 +1,284 @@
+import { useEffect, useState } from 'react'
+import { ApiError, extractErrorHint, functionsGet, functionsPost } from '../lib/functionsClient'
+import type {
+  GenerationOptions,
+  PlatformTarget,
+  Preset,
+  TrendStoryPresetResponse,
+  TrendStoryPresetsRequest,
+  TrendStoryPresetsResponse,
+} from '../lib/types'
+import { ConfirmModal } from './ConfirmModal'
+
+const INPUT_CLASS = 'h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20'
+
+function toMessage(err: unknown, fallback: string) {
+  if (err instanceof ApiError) {
+    const hint = extractErrorHint(err.bodyJson)
+    return hint ? `${err.message}\n${hint}` : err.message
+  }
+  return err instanceof Error ? err.message : fallback
+}
+
+function toNumber(value: string) {
+  return value.trim() ? Number(value) : undefined
+}
+
+// HomePage 생성 폼: 프리셋 선택 + 생성 옵션(고정 조건) 편집 + 프리셋 저장/수정/삭제
+// 선택한 프리셋의 옵션을 폼에 채우고, 고친 값은 시작 요청의 options로 프리셋 위에 덮어씁니다.
+export function PresetPicker(props: {
+  workspaceId: string | null
+  canEdit: boolean
+  presetId: string
+  options: GenerationOptions
+  onChange: (next: { presetId: string; options: GenerationOptions }) => void
+}) {
+  const [presets, setPresets] = useState<Preset[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [shareWithWorkspace, setShareWithWorkspace] = useState(false)
+  const [deleteOpen, setDeleteOpen] = useState(false)
+
+  const { workspaceId, onChange } = props
+  const selected = presets.find((p) => p.id === props.presetId) ?? null
+  const options = props.options
+
+  useEffect(() => {
+    let cancelled = false
+    const qs = workspaceId ? `?workspace_id=${encodeURIComponent(workspaceId)}` : ''
+    functionsGet<TrendStoryPresetsResponse>(`trendstory-presets${qs}`)
+      .then((res) => {
+        if (cancelled) return
+        setPresets(res.presets)
+        setError(null)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(toMessage(err, '프리셋을 불러오지 못했습니다.'))
+      })
+    // 워크스페이스를 바꾸면 다른 워크스페이스의 프리셋 선택은 풀어 둡니다.
+    onChange({ presetId: '', options: {} })
+    return () => {
+      cancelled = true
+    }
+  }, [workspaceId, onChange])
+
+  function setOption<K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) {
+    const next = { ...options }
+    if (value === undefined || value === '') delete next[key]
+    else next[key] = value
+    props.onChange({ presetId: props.presetId, options: next })
+  }
+
+  function selectPreset(id: string) {
+    const preset = presets.find((p) => p.id === id)
+    props.onChange({ presetId: id, options: preset ? { ...preset.options } : {} })
+  }
+
+  async function runAction(body: TrendStoryPresetsRequest) {
+    setIsSaving(true)
+    setError(null)
+    try {
+      return await functionsPost<TrendStoryPresetResponse, TrendStoryPresetsRequest>('trendstory-presets', body)
+    } catch (err: unknown) {
+      setError(toMessage(err, '프리셋을 저장하지 못했습니다.'))
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function createPreset() {
+    const name = newName.trim()
+    if (!name) return
+    const res = await runAction({
+      action: 'create',
+      name,
+      options,
+      workspace_id: shareWithWorkspace ? workspaceId : null,
+    })
+    if (!res || !('preset' in res)) return
+    setPresets((prev) => [...prev, res.preset].sort((a, b) => a.name.localeCompare(b.name)))
+    setNewName('')
+    props.onChange({ presetId: res.preset.id, options: res.preset.options })
+  }
+
+  async function updatePreset() {
+    if (!selected) return
+    const res = await runAction({ action: 'update', preset_id: selected.id, options })
+    if (!res || !('preset' in res)) return
+    const updated = res.preset
+    setPresets((prev) => prev.map((p) => (p.id === updated.id ? updated : p)))
+  }
+
+  async function deletePreset() {
+    if (!selected) return
+    setDeleteOpen(false)
+    const res = await runAction({ action: 'delete', preset_id: selected.id })
+    if (!res) return
+    setPresets((prev) => prev.filter((p) => p.id !== selected.id))
+    props.onChange({ presetId: '', options: {} })
+  }
+
+  const dirty = selected ? JSON.stringify(selected.options) !== JSON.stringify(options) : false
+
+  return (
+    <div className="mt-4 grid gap-3 rounded-lg border border-white/10 p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">프리셋</span>
+          <select className={INPUT_CLASS} value={props.presetId} onChange={(e) => selectPreset(e.target.value)}>
+            <option value="">선택 안 함</option>
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.workspace_id ? `[공유] ${p.name}` : p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {selected?.can_edit ? (
+          <>
+            <button type="button" disabled={!dirty || isSaving} onClick={() => updatePreset()} className="btn-dark h-9 px-3 text-xs">
+              현재 옵션으로 덮어쓰기
+            </button>
+            <button type="button" disabled={isSaving} onClick={() => setDeleteOpen(true)} className="btn-danger h-9 px-3 text-xs">
+              프리셋 삭제
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-4">
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">tone</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="예: 모험, 차분한 다큐"
+            maxLength={40}
+            value={options.tone ?? ''}
+            onChange={(e) => setOption('tone', e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 md:col-span-2">
+          <span className="text-xs font-medium text-zinc-300">visual_style</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="예: 수채화 일러스트, 3D 픽사풍"
+            maxLength={200}
+            value={options.visual_style ?? ''}
+            onChange={(e) => setOption('visual_style', e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">platform_target</span>
+          <select
+            className={INPUT_CLASS}
+            value={options.platform_target ?? ''}
+            onChange={(e) => setOption('platform_target', (e.target.value || undefined) as PlatformTarget | undefined)}
+          >
+            <option value="">자동</option>
+            <option value="youtube_16_9">YouTube 16:9</option>
+            <option value="shorts_9_16">Shorts 9:16</option>
+            <option value="square_1_1">정사각형 1:1</option>
+          </select>
+        </label>
+        <label className="grid gap-1 md:col-span-2">
+          <span className="text-xs font-medium text-zinc-300">main_character_hint</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="예: 호기심 많은 고양이 탐정"
+            maxLength={200}
+            value={options.main_character_hint ?? ''}
+            onChange={(e) => setOption('main_character_hint', e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">씬 수 (최소~최대)</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={12}
+              className={`${INPUT_CLASS} w-full`}
+              value={options.scene_count_min ?? ''}
+              onChange={(e) => setOption('scene_count_min', toNumber(e.target.value))}
+            />
+            <span className="text-xs text-zinc-500">~</span>
+            <input
+              type="number"
+              min={1}
+              max={12}
+              className={`${INPUT_CLASS} w-full`}
+              value={options.scene_count_max ?? ''}
+              onChange={(e) => setOption('scene_count_max', toNumber(e.target.value))}
+            />
+          </div>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">길이 (분)</span>
+          <input
+            type="number"
+            min={1}
+            max={60}
+            className={INPUT_CLASS}
+            value={options.duration_min ?? ''}
+            onChange={(e) => setOption('duration_min', toNumber(e.target.value))}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium text-zinc-300">TTS voice</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="서버 기본값 (예: alloy, nova)"
+            maxLength={40}
+            value={options.tts_voice ?? ''}
+            onChange={(e) => setOption('tts_voice', e.target.value.trim())}
+          />
+        </label>
+        <label className="grid gap-1 md:col-span-3">
+          <span className="text-xs font-medium text-zinc-300">프리셋 지시사항 (추가 프롬프트 앞에 붙음)</span>
+          <input
+            className={INPUT_CLASS}
+            placeholder="예: 매 씬 마지막에 퀴즈 한 줄"
+            maxLength={2000}
+            value={options.extra_prompt ?? ''}
+            onChange={(e) => setOption('extra_prompt', e.target.value)}
+          />
+        </label>
+      </div>
+
+      {props.canEdit ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            className={`${INPUT_CLASS} w-56`}
+            placeholder="새 프리셋 이름"
+            maxLength={60}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          {workspaceId ? (
+            <label className="flex items-center gap-2 text-xs text-zinc-300">
+              <input type="checkbox" checked={shareWithWorkspace} onChange={(e) => setShareWithWorkspace(e.target.checked)} />
+              워크스페이스에 공유
+            </label>
+          ) : null}
+          <button type="button" disabled={!newName.trim() || isSaving} onClick={() => createPreset()} className="btn-ghost h-9 px-3 text-xs">
+            {isSaving ? '저장 중...' : '현재 옵션을 프리셋으로 저장'}
+          </button>
+        </div>
+      ) : null}
+      <div className="text-xs text-zinc-500">입력한 값은 AutoConfig가 반드시 지키는 고정 조건이 됩니다. 비워 두면 자동으로 정합니다.</div>
+      {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+
+      <ConfirmModal
+        open={deleteOpen}
+        title="프리셋을 삭제할까요?"
+        description={selected ? `"${selected.name}" 프리셋을 삭제합니다. 이미 만든 job에는 영향이 없습니다.` : undefined}
+        confirmText="삭제"
+        danger
+        onConfirm={() => deletePreset()}
+        onClose={() => setDeleteOpen(false)}
+      />
+    </div>
+  )
+}
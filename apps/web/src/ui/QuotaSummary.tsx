@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { functionsGet } from '../lib/functionsClient'
+import type { QuotaUsage, TrendStoryQuotaResponse } from '../lib/types'
+
+const LABELS: Array<{ key: keyof QuotaUsage; label: string; unit: string }> = [
+  { key: 'jobs', label: 'job', unit: '개' },
+  { key: 'images', label: '이미지', unit: '장' },
+  { key: 'tts_chars', label: 'TTS', unit: '자' },
+]
+
+// 오늘(UTC) 사용량 / 한도. version이 바뀌면 다시 조회합니다.
+export function QuotaSummary(props: { version?: number }) {
+  const [data, setData] = useState<TrendStoryQuotaResponse | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    functionsGet<TrendStoryQuotaResponse>('trendstory-quota')
+      .then((res) => {
+        if (!cancelled) setData(res)
+      })
+      // 사용량 표시는 부가 정보라 실패해도 화면을 막지 않습니다. (마이그레이션 전 등)
+      .catch(() => {
+        if (!cancelled) setData(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [props.version])
+
+  if (!data) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-zinc-400">
+      <span className="text-zinc-500">오늘 사용량</span>
+      {LABELS.map(({ key, label, unit }) => {
+        const used = data.usage[key]
+        const limit = data.limits[key]
+        const over = limit != null && used >= limit
+        return (
+          <span key={key} className={over ? 'text-amber-300' : undefined}>
+            {label} {used.toLocaleString()}
+            {limit != null ? ` / ${limit.toLocaleString()}` : ''}
+            {unit}
+          </span>
+        )
+      })}
+      <span className="text-zinc-500">(UTC 자정 초기화)</span>
+      {data.is_admin ? (
+        <Link to="/admin/usage" className="text-zinc-300 underline decoration-white/20 underline-offset-4">
+          사용자별 사용량
+        </Link>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,388 @@
+import { useState } from 'react'
+import { ApiError, extractErrorHint, functionsGet, functionsPost } from '../lib/functionsClient'
+import type {
+  DbSceneEditRow,
+  DbSceneRow,
+  SceneEditField,
+  TrendStoryRewriteSceneRequest,
+  TrendStoryRewriteSceneResponse,
+  TrendStorySceneEditsResponse,
+  TrendStoryUpdateSceneRequest,
+  TrendStoryUpdateSceneResponse,
+} from '../lib/types'
+
+const INPUT_CLASS = 'h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20'
+const TEXTAREA_CLASS = 'rounded-lg border border-white/10 bg-zinc-950 p-3 text-sm outline-none focus:border-white/20'
+
+const FIELD_LABELS: Record<SceneEditField, string> = {
+  narration: 'narration',
+  on_screen_text: 'on_screen_text',
+  visual_brief: 'visual_brief',
+  mood: 'mood',
+  duration_sec: 'duration_sec',
+}
+
+// 자주 쓰는 다시 쓰기 지시 (누르면 입력칸에 채움)
+const REWRITE_SUGGESTIONS = ['더 짧고 강렬하게', '초등학생도 이해하게 쉽게', '긴장감 있게', '유머를 살짝 더해서']
+
+function toMessage(err: unknown, fallback: string) {
+  if (err instanceof ApiError) {
+    const hint = extractErrorHint(err.bodyJson)
+    return hint ? `${err.message}\n${hint}` : err.message
+  }
+  return err instanceof Error ? err.message : fallback
+}
+
+type Draft = {
+  narration: string
+  on_screen_text: string
+  visual_brief: string
+  mood: string
+  duration_sec: string
+}
+
+function toDraft(scene: DbSceneRow): Draft {
+  return {
+    narration: scene.narration ?? '',
+    on_screen_text: scene.on_screen_text ?? '',
+    visual_brief: scene.visual_brief ?? '',
+    mood: scene.mood ?? '',
+    duration_sec: scene.duration_sec != null ? String(scene.duration_sec) : '',
+  }
+}
+
+// JobPage 씬 카드의 텍스트 영역: 보기 / 직접 수정 / AI로 다시 쓰기 / 수정 이력
+// narration이 바뀌면 오디오, visual_brief가 바뀌면 이미지가 stale로 표시되고 해당 씬만 다시 만들 수 있습니다.
+// AI 다시 쓰기는 제안만 받아 보여 주고, 적용을 눌러야 저장됩니다. (수정 이력 source: rewrite)
+export function SceneEditor(props: {
+  jobId: string
+  scene: DbSceneRow
+  canEdit: boolean
+  onSaved: (scene: DbSceneRow) => void
+  onRegenerateAudio: (sceneId: number) => void
+  onRegenerateImage: (sceneId: number) => void
+}) {
+  const s = props.scene
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState<Draft>(() => toDraft(s))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [history, setHistory] = useState<DbSceneEditRow[] | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [rewriteOpen, setRewriteOpen] = useState(false)
+  const [instruction, setInstruction] = useState('')
+  const [isRewriting, setIsRewriting] = useState(false)
+  const [proposal, setProposal] = useState<TrendStoryRewriteSceneResponse | null>(null)
+
+  function startEdit() {
+    setDraft(toDraft(s))
+    setError(null)
+    setEditing(true)
+  }
+
+  async function save() {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const body: TrendStoryUpdateSceneRequest = {
+        job_id: props.jobId,
+        scene_id: s.scene_id,
+        narration: draft.narration,
+        on_screen_text: draft.on_screen_text.trim() || null,
+        visual_brief: draft.visual_brief.trim() || null,
+        mood: draft.mood.trim() || null,
+        duration_sec: draft.duration_sec.trim() ? Number(draft.duration_sec) : undefined,
+      }
+      const res = await functionsPost<TrendStoryUpdateSceneResponse, TrendStoryUpdateSceneRequest>('trendstory-update-scene', body)
+      // 이미지 URL(signed URL 포함)은 화면에 있던 값을 유지합니다.
+      props.onSaved({ ...s, ...res.scene, image_url: s.image_url })
+      setEditing(false)
+      if (historyOpen && res.changed.length > 0) await loadHistory()
+    } catch (err: unknown) {
+      setError(toMessage(err, '씬을 저장하지 못했습니다.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function requestRewrite() {
+    setIsRewriting(true)
+    setError(null)
+    setProposal(null)
+    try {
+      const res = await functionsPost<TrendStoryRewriteSceneResponse, TrendStoryRewriteSceneRequest>('trendstory-rewrite-scene', {
+        job_id: props.jobId,
+        scene_id: s.scene_id,
+        instruction: instruction.trim(),
+      })
+      setProposal(res)
+    } catch (err: unknown) {
+      setError(toMessage(err, '다시 쓰기 제안을 받지 못했습니다.'))
+    } finally {
+      setIsRewriting(false)
+    }
+  }
+
+  async function applyRewrite() {
+    if (!proposal || proposal.changed.length === 0) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      const body: TrendStoryUpdateSceneRequest = { job_id: props.jobId, scene_id: s.scene_id, source: 'rewrite' }
+      for (const field of proposal.changed) {
+        if (field === 'narration') body.narration = proposal.proposal.narration ?? ''
+        else body[field] = proposal.proposal[field]
+      }
+      const res = await functionsPost<TrendStoryUpdateSceneResponse, TrendStoryUpdateSceneRequest>('trendstory-update-scene', body)
+      props.onSaved({ ...s, ...res.scene, image_url: s.image_url })
+      setProposal(null)
+      setInstruction('')
+      setRewriteOpen(false)
+      if (historyOpen && res.changed.length > 0) await loadHistory()
+    } catch (err: unknown) {
+      setError(toMessage(err, '제안을 적용하지 못했습니다.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function loadHistory() {
+    try {
+      const res = await functionsGet<TrendStorySceneEditsResponse>(
+        `trendstory-update-scene?job_id=${encodeURIComponent(props.jobId)}&scene_id=${s.scene_id}`,
+      )
+      setHistory(res.edits)
+    } catch (err: unknown) {
+      setError(toMessage(err, '수정 이력을 불러오지 못했습니다.'))
+    }
+  }
+
+  async function toggleHistory() {
+    const next = !historyOpen
+    setHistoryOpen(next)
+    if (next && history == null) await loadHistory()
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <div className="text-sm font-semibold">Scene {s.scene_id}</div>
+          {s.audio_stale ? (
+            <span className="rounded-md border border-amber-400/30 bg-amber-400/10 px-1.5 py-0.5 text-[11px] text-amber-200">
+              오디오 갱신 필요
+            </span>
+          ) : null}
+          {s.image_stale ? (
+            <span className="rounded-md border border-amber-400/30 bg-amber-400/10 px-1.5 py-0.5 text-[11px] text-amber-200">
+              이미지 갱신 필요
+            </span>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="text-xs text-zinc-500">{s.duration_sec ? `${s.duration_sec}s` : ''}</div>
+          {props.canEdit && !editing ? (
+            <>
+              <button type="button" onClick={() => startEdit()} className="btn-ghost h-8 px-3 text-xs">
+                수정
+              </button>
+              <button type="button" onClick={() => setRewriteOpen((v) => !v)} className="btn-ghost h-8 px-3 text-xs">
+                {rewriteOpen ? 'AI 닫기' : 'AI로 다시 쓰기'}
+              </button>
+            </>
+          ) : null}
+          <button type="button" onClick={() => toggleHistory()} className="btn-ghost h-8 px-3 text-xs">
+            {historyOpen ? '이력 닫기' : '수정 이력'}
+          </button>
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="grid gap-2">
+          <label className="grid gap-1">
+            <span className="text-xs text-zinc-500">on_screen_text</span>
+            <input
+              className={INPUT_CLASS}
+              maxLength={200}
+              value={draft.on_screen_text}
+              onChange={(e) => setDraft((d) => ({ ...d, on_screen_text: e.target.value }))}
+            />
+          </label>
+          <label className="grid gap-1">
+            <span className="text-xs text-zinc-500">narration (바꾸면 오디오 갱신 필요)</span>
+            <textarea
+              className={`${TEXTAREA_CLASS} min-h-24`}
+              maxLength={2000}
+              value={draft.narration}
+              onChange={(e) => setDraft((d) => ({ ...d, narration: e.target.value }))}
+            />
+          </label>
+          <label className="grid gap-1">
+            <span className="text-xs text-zinc-500">visual_brief (바꾸면 이미지 갱신 필요)</span>
+            <textarea
+              className={`${TEXTAREA_CLASS} min-h-16`}
+              maxLength={1000}
+              value={draft.visual_brief}
+              onChange={(e) => setDraft((d) => ({ ...d, visual_brief: e.target.value }))}
+            />
+          </label>
+          <div className="grid gap-2 md:grid-cols-2">
+            <label className="grid gap-1">
+              <span className="text-xs text-zinc-500">mood</span>
+              <input
+                className={INPUT_CLASS}
+                maxLength={100}
+                value={draft.mood}
+                onChange={(e) => setDraft((d) => ({ ...d, mood: e.target.value }))}
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-xs text-zinc-500">duration_sec</span>
+              <input
+                type="number"
+                min={1}
+                max={120}
+                className={INPUT_CLASS}
+                value={draft.duration_sec}
+                onChange={(e) => setDraft((d) => ({ ...d, duration_sec: e.target.value }))}
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={isSaving || !draft.narration.trim()}
+              onClick={() => save()}
+              className="btn-dark h-9 px-3 text-xs"
+            >
+              {isSaving ? '저장 중...' : '저장'}
+            </button>
+            <button type="button" disabled={isSaving} onClick={() => setEditing(false)} className="btn-ghost h-9 px-3 text-xs">
+              취소
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="text-xs text-zinc-500">on_screen_text</div>
+          <div className="text-sm text-zinc-200">{s.on_screen_text ?? '—'}</div>
+          <div className="text-xs text-zinc-500">narration</div>
+          <div className="whitespace-pre-wrap text-sm text-zinc-200">{s.narration ?? '—'}</div>
+          {s.visual_brief ? (
+            <>
+              <div className="text-xs text-zinc-500">visual_brief</div>
+              <div className="whitespace-pre-wrap text-xs text-zinc-400">{s.visual_brief}</div>
+            </>
+          ) : null}
+        </>
+      )}
+
+      {props.canEdit && !editing && rewriteOpen ? (
+        <div className="grid gap-2 rounded-lg border border-white/10 p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              className={`${INPUT_CLASS} min-w-0 flex-1`}
+              maxLength={500}
+              placeholder="어떻게 바꿀까요? 예: 더 짧고 강렬하게"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && instruction.trim() && !isRewriting) requestRewrite()
+              }}
+            />
+            <button
+              type="button"
+              disabled={isRewriting || isSaving || !instruction.trim()}
+              onClick={() => requestRewrite()}
+              className="btn-dark h-9 px-3 text-xs"
+            >
+              {isRewriting ? '작성 중...' : proposal ? '다시 제안' : '제안 받기'}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {REWRITE_SUGGESTIONS.map((text) => (
+              <button key={text} type="button" onClick={() => setInstruction(text)} className="btn-ghost h-7 px-2 text-[11px]">
+                {text}
+              </button>
+            ))}
+          </div>
+
+          {proposal ? (
+            <div className="grid gap-2">
+              {proposal.note ? <div className="text-xs text-zinc-400">{proposal.note}</div> : null}
+              {proposal.changed.length === 0 ? (
+                <div className="text-xs text-zinc-500">바꿀 내용이 없다는 제안입니다. 지시를 바꿔 다시 시도해 보세요.</div>
+              ) : (
+                proposal.changed.map((field) => (
+                  <div key={field} className="grid gap-0.5 text-xs">
+                    <span className="text-zinc-400">
+                      {FIELD_LABELS[field]}
+                      {field === 'narration' ? ' (적용하면 오디오 갱신 필요)' : field === 'visual_brief' ? ' (적용하면 이미지 갱신 필요)' : ''}
+                    </span>
+                    <span className="whitespace-pre-wrap text-red-300/80 line-through">{proposal.current[field] ?? '—'}</span>
+                    <span className="whitespace-pre-wrap text-emerald-300/90">{proposal.proposal[field] ?? '—'}</span>
+                  </div>
+                ))
+              )}
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  disabled={isSaving || proposal.changed.length === 0}
+                  onClick={() => applyRewrite()}
+                  className="btn-primary h-9 px-3 text-xs"
+                >
+                  {isSaving ? '적용 중...' : '적용'}
+                </button>
+                <button type="button" disabled={isSaving} onClick={() => setProposal(null)} className="btn-ghost h-9 px-3 text-xs">
+                  버리기
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {props.canEdit && !editing && (s.audio_stale || s.image_stale) ? (
+        <div className="flex flex-wrap items-center gap-2">
+          {s.audio_stale ? (
+            <button type="button" onClick={() => props.onRegenerateAudio(s.scene_id)} className="btn-dark h-8 px-3 text-xs">
+              이 씬 오디오 재생성
+            </button>
+          ) : null}
+          {s.image_stale ? (
+            <button type="button" onClick={() => props.onRegenerateImage(s.scene_id)} className="btn-dark h-8 px-3 text-xs">
+              이 씬 이미지 재생성
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {historyOpen ? (
+        <div className="grid gap-2 rounded-lg border border-white/10 p-3">
+          {history == null ? (
+            <div className="text-xs text-zinc-500">불러오는 중...</div>
+          ) : history.length === 0 ? (
+            <div className="text-xs text-zinc-500">수정 이력이 없습니다.</div>
+          ) : (
+            history.map((h) => (
+              <div key={h.id} className="grid gap-1 text-xs">
+                <div className="text-zinc-500">
+                  {new Date(h.created_at).toLocaleString()} · {h.source}
+                </div>
+                {(Object.keys(h.after) as SceneEditField[]).map((field) => (
+                  <div key={field} className="grid gap-0.5">
+                    <span className="text-zinc-400">{FIELD_LABELS[field] ?? field}</span>
+                    <span className="whitespace-pre-wrap text-red-300/80 line-through">{String(h.before[field] ?? '—')}</span>
+                    <span className="whitespace-pre-wrap text-emerald-300/90">{String(h.after[field] ?? '—')}</span>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+
+      {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { ApiError, extractErrorHint, functionsPost } from '../lib/functionsClient'
+import type { DbSceneRow, TrendStorySceneOpsRequest, TrendStorySceneOpsResponse } from '../lib/types'
+import { ConfirmModal } from './ConfirmModal'
+
+const INPUT_CLASS = 'h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20'
+const TEXTAREA_CLASS = 'rounded-lg border border-white/10 bg-zinc-950 p-3 text-sm outline-none focus:border-white/20'
+
+const MAX_SCENES = 12
+
+function toMessage(err: unknown, fallback: string) {
+  if (err instanceof ApiError) {
+    const hint = extractErrorHint(err.bodyJson)
+    return hint ? `${err.message}\n${hint}` : err.message
+  }
+  return err instanceof Error ? err.message : fallback
+}
+
+// JobPage 씬 카드 상단: 아래에 씬 추가(직접 입력 / AI 초안) · 분할 · 다음 씬과 병합 · 삭제
+// 씬 번호가 바뀌므로 완료되면 onDone에서 status를 다시 불러옵니다.
+export function SceneOpsBar(props: {
+  jobId: string
+  scene: DbSceneRow
+  sceneCount: number
+  isLast: boolean
+  disabled: boolean
+  onDone: (res: TrendStorySceneOpsResponse) => void
+}) {
+  const s = props.scene
+  const [insertOpen, setInsertOpen] = useState(false)
+  const [narration, setNarration] = useState('')
+  const [hint, setHint] = useState('')
+  const [deleteOpen, setDeleteOpen] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const busy = props.disabled || isRunning
+  const isFull = props.sceneCount >= MAX_SCENES
+
+  async function run(body: TrendStorySceneOpsRequest) {
+    setIsRunning(true)
+    setError(null)
+    try {
+      const res = await functionsPost<TrendStorySceneOpsResponse, TrendStorySceneOpsRequest>('trendstory-scene-ops', body)
+      props.onDone(res)
+      return true
+    } catch (err: unknown) {
+      setError(toMessage(err, '씬 구성을 바꾸지 못했습니다.'))
+      return false
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  async function insert(draft: boolean) {
+    const text = narration.trim()
+    const ok = await run({
+      job_id: props.jobId,
+      action: 'insert',
+      after_scene_id: s.scene_id,
+      scene: text ? { narration: text } : undefined,
+      draft,
+      hint: draft && hint.trim() ? hint.trim() : undefined,
+    })
+    if (!ok) return
+    setInsertOpen(false)
+    setNarration('')
+    setHint('')
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={busy || isFull}
+          onClick={() => setInsertOpen((v) => !v)}
+          className="btn-ghost h-8 px-3 text-xs"
+          title={isFull ? `씬은 최대 ${MAX_SCENES}개까지 만들 수 있습니다.` : undefined}
+        >
+          {insertOpen ? '추가 닫기' : '아래에 씬 추가'}
+        </button>
+        <button
+          type="button"
+          disabled={busy || isFull}
+          onClick={() => run({ job_id: props.jobId, action: 'split', scene_id: s.scene_id })}
+          className="btn-ghost h-8 px-3 text-xs"
+          title="narration을 가운데 문장 경계에서 두 씬으로 나눕니다."
+        >
+          분할
+        </button>
+        <button
+          type="button"
+          disabled={busy || props.isLast}
+          onClick={() => run({ job_id: props.jobId, action: 'merge', scene_id: s.scene_id })}
+          className="btn-ghost h-8 px-3 text-xs"
+          title="다음 씬의 narration을 이 씬에 이어 붙이고 다음 씬을 지웁니다."
+        >
+          다음 씬과 병합
+        </button>
+        <button
+          type="button"
+          disabled={busy || props.sceneCount <= 1}
+          onClick={() => setDeleteOpen(true)}
+          className="btn-danger h-8 px-3 text-xs"
+        >
+          삭제
+        </button>
+        {isRunning ? <span className="text-xs text-zinc-500">처리 중...</span> : null}
+      </div>
+
+      {insertOpen ? (
+        <div className="grid gap-2 rounded-lg border border-white/10 p-3">
+          <label className="grid gap-1">
+            <span className="text-xs text-zinc-500">narration (비워 두고 AI 초안을 누르면 앞뒤 씬을 보고 작성)</span>
+            <textarea
+              className={`${TEXTAREA_CLASS} min-h-20`}
+              maxLength={2000}
+              value={narration}
+              onChange={(e) => setNarration(e.target.value)}
+            />
+          </label>
+          <label className="grid gap-1">
+            <span className="text-xs text-zinc-500">AI 초안 지시 (선택)</span>
+            <input
+              className={INPUT_CLASS}
+              maxLength={500}
+              placeholder="예: 주인공이 길을 잃는 장면"
+              value={hint}
+              onChange={(e) => setHint(e.target.value)}
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" disabled={busy || !narration.trim()} onClick={() => insert(false)} className="btn-dark h-9 px-3 text-xs">
+              추가
+            </button>
+            <button type="button" disabled={busy} onClick={() => insert(true)} className="btn-ghost h-9 px-3 text-xs">
+              AI 초안으로 추가
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+
+      <ConfirmModal
+        open={deleteOpen}
+        title={`Scene ${s.scene_id}을(를) 삭제할까요?`}
+        description="이 씬의 이미지/오디오 파일과 수정 이력도 함께 지워지고, 뒤의 씬 번호가 하나씩 당겨집니다."
+        confirmText="삭제"
+        danger
+        onConfirm={() => {
+          setDeleteOpen(false)
+          run({ job_id: props.jobId, action: 'delete', scene_id: s.scene_id })
+        }}
+        onClose={() => setDeleteOpen(false)}
+      />
+    </div>
+  )
+}
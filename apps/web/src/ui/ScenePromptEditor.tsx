@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react'
+import { ApiError, extractErrorHint, functionsPost } from '../lib/functionsClient'
+import type {
+  DbAssetRow,
+  DbSceneRow,
+  ImageAssetMeta,
+  TrendStorySelectSceneImageRequest,
+  TrendStorySelectSceneImageResponse,
+} from '../lib/types'
+
+const TEXTAREA_CLASS = 'rounded-lg border border-white/10 bg-zinc-950 p-3 text-sm outline-none focus:border-white/20'
+
+const MAX_PROMPT_LENGTH = 4000
+const MAX_NEGATIVE_PROMPT_LENGTH = 1000
+
+const PROMPT_SOURCE_LABEL: Record<NonNullable<ImageAssetMeta['prompt_source']>, string> = {
+  custom: '직접 수정',
+  stored: '저장된 프롬프트',
+  auto: '자동 생성',
+}
+
+function toMessage(err: unknown, fallback: string) {
+  if (err instanceof ApiError) {
+    const hint = extractErrorHint(err.bodyJson)
+    return hint ? `${err.message}\n${hint}` : err.message
+  }
+  return err instanceof Error ? err.message : fallback
+}
+
+function formatTime(iso: string | undefined) {
+  if (!iso) return ''
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString()
+}
+
+// JobPage 씬 카드 하단: 다음 생성에 쓰일 프롬프트 확인/수정 + 피할 요소(avoid) + 이미지 기록(take 갤러리)
+// 기록은 ytg_assets(type: image).meta에 이미지가 저장될 때마다 남고, 마음에 드는 take를 현재 이미지로 고를 수 있습니다.
+export function ScenePromptEditor(props: {
+  jobId: string
+  scene: DbSceneRow
+  assets: DbAssetRow[]
+  canEdit: boolean
+  busy: boolean
+  onGenerate: (prompt: string, negativePrompt: string | null) => void
+  onSelected: (res: TrendStorySelectSceneImageResponse) => void
+  onMediaError?: () => void
+}) {
+  const s = props.scene
+  const effective = s.effective_image_prompt ?? s.image_prompt ?? ''
+  const negative = s.image_negative_prompt ?? ''
+
+  const [open, setOpen] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [prompt, setPrompt] = useState('')
+  const [avoid, setAvoid] = useState('')
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [selectingId, setSelectingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // 최신순. take별 경로 저장 이전의 이미지는 같은 경로를 덮어썼으므로, 더 최근 take와 경로가 같으면 파일이 남아 있지 않습니다.
+  const history = useMemo(() => {
+    const seen = new Set<string>()
+    return props.assets
+      .map((a) => ({ asset: a, meta: (a.meta ?? {}) as ImageAssetMeta }))
+      .filter((x) => x.meta.scene_id === s.scene_id && typeof x.meta.prompt === 'string')
+      .sort((a, b) => String(b.meta.generated_at ?? '').localeCompare(String(a.meta.generated_at ?? '')))
+      .map((x) => {
+        const overwritten = Boolean(x.asset.path) && seen.has(x.asset.path!)
+        if (x.asset.path) seen.add(x.asset.path)
+        return { ...x, overwritten }
+      })
+  }, [props.assets, s.scene_id])
+
+  async function selectTake(assetId: string) {
+    setSelectingId(assetId)
+    setError(null)
+    try {
+      const res = await functionsPost<TrendStorySelectSceneImageResponse, TrendStorySelectSceneImageRequest>(
+        'trendstory-select-scene-image',
+        { job_id: props.jobId, scene_id: s.scene_id, asset_id: assetId },
+      )
+      props.onSelected(res)
+    } catch (err: unknown) {
+      setError(toMessage(err, '이미지를 선택하지 못했습니다.'))
+    } finally {
+      setSelectingId(null)
+    }
+  }
+
+  function startEdit(nextPrompt = effective, nextAvoid = negative) {
+    setPrompt(nextPrompt)
+    setAvoid(nextAvoid)
+    setIsEditing(true)
+    setOpen(true)
+  }
+
+  const trimmed = prompt.trim()
+  const dirty = isEditing && (trimmed !== effective.trim() || avoid.trim() !== negative.trim())
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => setOpen((v) => !v)} className="btn-ghost h-8 px-3 text-xs">
+          {open ? '프롬프트 닫기' : '이미지 프롬프트'}
+        </button>
+        {history.length > 0 ? (
+          <button type="button" onClick={() => setHistoryOpen((v) => !v)} className="btn-ghost h-8 px-3 text-xs">
+            {historyOpen ? '기록 닫기' : `이미지 기록 (${history.length})`}
+          </button>
+        ) : null}
+        {!open && negative ? <span className="truncate text-xs text-zinc-500">피할 요소: {negative}</span> : null}
+      </div>
+
+      {open ? (
+        isEditing ? (
+          <div className="grid gap-2 rounded-lg border border-white/10 p-3">
+            <label className="grid gap-1">
+              <span className="text-xs text-zinc-500">프롬프트</span>
+              <textarea
+                className={`${TEXTAREA_CLASS} min-h-28`}
+                maxLength={MAX_PROMPT_LENGTH}
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-xs text-zinc-500">피할 요소 (쉼표로 구분, 예: 글자, 워터마크, 흐릿한 얼굴)</span>
+              <textarea
+                className={`${TEXTAREA_CLASS} min-h-16`}
+                maxLength={MAX_NEGATIVE_PROMPT_LENGTH}
+                value={avoid}
+                onChange={(e) => setAvoid(e.target.value)}
+              />
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                disabled={props.busy || !trimmed}
+                onClick={() => {
+                  props.onGenerate(trimmed, avoid.trim() || null)
+                  setIsEditing(false)
+                }}
+                className="btn-primary h-9 px-3 text-xs"
+              >
+                이 프롬프트로 생성
+              </button>
+              <button type="button" disabled={!dirty} onClick={() => startEdit()} className="btn-ghost h-9 px-3 text-xs">
+                되돌리기
+              </button>
+              <button type="button" onClick={() => setIsEditing(false)} className="btn-ghost h-9 px-3 text-xs">
+                취소
+              </button>
+              {props.busy ? <span className="text-xs text-zinc-500">생성 중...</span> : null}
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-2 rounded-lg border border-white/10 p-3">
+            <div className="whitespace-pre-wrap text-xs text-zinc-300">{effective || '(다음 생성 때 visual_brief/mood/스타일로 자동 생성)'}</div>
+            {negative ? <div className="whitespace-pre-wrap text-xs text-zinc-500">피할 요소: {negative}</div> : null}
+            {!s.image_prompt && effective ? (
+              <div className="text-xs text-zinc-500">visual_brief/mood/스타일로 만든 자동 프롬프트입니다.</div>
+            ) : null}
+            {props.canEdit ? (
+              <div>
+                <button type="button" disabled={props.busy} onClick={() => startEdit()} className="btn-dark h-8 px-3 text-xs">
+                  수정
+                </button>
+              </div>
+            ) : null}
+          </div>
+        )
+      ) : null}
+
+      {historyOpen ? (
+        <div className="grid gap-2">
+          {history.map(({ asset, meta, overwritten }) => {
+            const isCurrent = Boolean(meta.request_id) && meta.request_id === s.image_gen_request_id
+            return (
+              <div key={asset.id} className="grid gap-3 rounded-lg border border-white/10 p-3 sm:grid-cols-[160px_1fr]">
+                <div className="aspect-video w-full overflow-hidden rounded-lg border border-white/10 bg-black/40">
+                  {asset.url && !overwritten ? (
+                    <img
+                      src={asset.url}
+                      alt={`scene ${s.scene_id} take`}
+                      loading="lazy"
+                      className="h-full w-full object-cover"
+                      onError={props.onMediaError}
+                    />
+                  ) : (
+                    <div className="grid h-full place-items-center p-2 text-center text-xs text-zinc-500">
+                      {overwritten ? '이후 생성으로 덮어씀' : '미리보기 없음'}
+                    </div>
+                  )}
+                </div>
+                <div className="grid content-start gap-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+                    <span>{formatTime(meta.generated_at)}</span>
+                    {meta.prompt_source ? <span>· {PROMPT_SOURCE_LABEL[meta.prompt_source] ?? meta.prompt_source}</span> : null}
+                    {meta.provider ? <span>· {meta.provider}</span> : null}
+                    {isCurrent ? (
+                      <span className="rounded-full border border-emerald-400/30 px-2 py-0.5 text-emerald-300">현재 이미지</span>
+                    ) : null}
+                    {props.canEdit ? (
+                      <span className="ml-auto flex gap-2">
+                        <button
+                          type="button"
+                          disabled={props.busy || selectingId != null || isCurrent || overwritten}
+                          onClick={() => selectTake(asset.id)}
+                          className="btn-dark h-7 px-2 text-xs"
+                        >
+                          {selectingId === asset.id ? '선택 중...' : '이 이미지 선택'}
+                        </button>
+                        <button
+                          type="button"
+                          disabled={props.busy}
+                          onClick={() => startEdit(meta.prompt ?? '', meta.negative_prompt ?? '')}
+                          className="btn-ghost h-7 px-2 text-xs"
+                        >
+                          이 프롬프트 불러오기
+                        </button>
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="whitespace-pre-wrap text-xs text-zinc-300">{meta.prompt}</div>
+                  {meta.negative_prompt ? (
+                    <div className="whitespace-pre-wrap text-xs text-zinc-500">피할 요소: {meta.negative_prompt}</div>
+                  ) : null}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : null}
+
+      {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+    </div>
+  )
+}
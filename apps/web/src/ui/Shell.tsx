@@ -1,7 +1,9 @@
 import type { ReactNode } from 'react'
 import { Link } from 'react-router-dom'
+import { signOut, useSession } from '../lib/auth'
 
 export function Shell(props: { title?: string; children: ReactNode }) {
+  const { session } = useSession()
   return (
     <div className="min-h-full">
       <header className="border-b border-white/10 bg-zinc-950/50 backdrop-blur">
@@ -9,17 +11,27 @@ export function Shell(props: { title?: string; children: ReactNode }) {
           <Link to="/" className="text-sm font-semibold tracking-tight text-white">
             YouTube 컨텐츠 자동생성 (MVP)
           </Link>
-          {props.title ? (
-            <div className="text-sm text-zinc-300">
-              <span className="text-zinc-500">/</span> {props.title}
-            </div>
-          ) : null}
+          <div className="flex items-center gap-4">
+            {props.title ? (
+              <div className="text-sm text-zinc-300">
+                <span className="text-zinc-500">/</span> {props.title}
+              </div>
+            ) : null}
+            {session ? (
+              <div className="flex items-center gap-2 text-xs text-zinc-400">
+                <span>{session.user.email}</span>
+                <button type="button" className="btn-ghost h-8 px-3 text-xs" onClick={() => signOut()}>
+                  로그아웃
+                </button>
+              </div>
+            ) : null}
+          </div>
         </div>
       </header>
       <main className="mx-auto max-w-5xl px-4 py-8">{props.children}</main>
       <footer className="border-t border-white/10 bg-black/10 py-6">
         <div className="mx-auto max-w-5xl px-4 text-xs text-zinc-500">
-          로그인 없이 동작합니다. 모든 생성/조회는 Supabase Edge Function을 통해 수행됩니다.
+          본인 작업과 참여한 워크스페이스의 작업만 보입니다. 모든 생성/조회는 Supabase Edge Function을 통해 수행됩니다.
         </div>
       </footer>
     </div>
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react'
+import { ApiError, extractErrorHint, functionsGet, functionsPost } from '../lib/functionsClient'
+import type {
+  TrendStoryWorkspaceMembersResponse,
+  TrendStoryWorkspacesRequest,
+  TrendStoryWorkspacesResponse,
+  WorkspaceListItem,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '../lib/types'
+import { formatWorkspaceRole } from '../lib/workspace'
+
+function toMessage(err: unknown, fallback: string) {
+  if (err instanceof ApiError) {
+    const hint = extractErrorHint(err.bodyJson)
+    return hint ? `${err.message}\n${hint}` : err.message
+  }
+  return err instanceof Error ? err.message : fallback
+}
+
+const inputClass = 'h-9 rounded-lg border border-white/10 bg-zinc-950 px-3 text-sm outline-none focus:border-white/20'
+
+// 개인 작업 / 워크스페이스 전환 + (owner면) 멤버 관리
+export function WorkspaceSwitcher(props: { value: string | null; onChange: (id: string | null) => void }) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceListItem[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [showMembers, setShowMembers] = useState(false)
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const active = workspaces.find((w) => w.id === props.value) ?? null
+
+  async function loadWorkspaces() {
+    try {
+      const res = await functionsGet<TrendStoryWorkspacesResponse>('trendstory-workspaces')
+      setWorkspaces(res.workspaces ?? [])
+    } catch (err) {
+      setError(toMessage(err, '워크스페이스 목록을 불러오지 못했습니다.'))
+    }
+  }
+
+  async function loadMembers(workspaceId: string) {
+    try {
+      const res = await functionsGet<TrendStoryWorkspaceMembersResponse>(
+        `trendstory-workspaces?workspace_id=${encodeURIComponent(workspaceId)}`,
+      )
+      setMembers(res.members ?? [])
+    } catch (err) {
+      setError(toMessage(err, '멤버 목록을 불러오지 못했습니다.'))
+    }
+  }
+
+  async function post(body: TrendStoryWorkspacesRequest) {
+    return functionsPost<{ workspace?: WorkspaceListItem; members?: WorkspaceMember[] }, TrendStoryWorkspacesRequest>(
+      'trendstory-workspaces',
+      body,
+    )
+  }
+
+  async function createWorkspace() {
+    const name = newName.trim()
+    if (!name) return
+    setIsCreating(true)
+    setError(null)
+    try {
+      const res = await post({ action: 'create', name })
+      setNewName('')
+      await loadWorkspaces()
+      if (res.workspace) props.onChange(res.workspace.id)
+    } catch (err) {
+      setError(toMessage(err, '워크스페이스를 만들지 못했습니다.'))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  async function addMember() {
+    if (!active || !inviteEmail.trim()) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      const res = await post({ action: 'add_member', workspace_id: active.id, email: inviteEmail.trim(), role: inviteRole })
+      setMembers(res.members ?? [])
+      setInviteEmail('')
+      await loadWorkspaces()
+    } catch (err) {
+      setError(toMessage(err, '멤버를 추가하지 못했습니다.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function removeMember(userId: string) {
+    if (!active) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      const res = await post({ action: 'remove_member', workspace_id: active.id, user_id: userId })
+      setMembers(res.members ?? [])
+      await loadWorkspaces()
+    } catch (err) {
+      setError(toMessage(err, '멤버를 제거하지 못했습니다.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  useEffect(() => {
+    loadWorkspaces()
+  }, [])
+
+  useEffect(() => {
+    if (showMembers && props.value) loadMembers(props.value)
+  }, [showMembers, props.value])
+
+  return (
+    <div className="card grid gap-3 p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-medium text-zinc-300">작업 공간</span>
+        <select
+          className={inputClass}
+          value={props.value ?? ''}
+          onChange={(e) => {
+            setShowMembers(false)
+            props.onChange(e.target.value || null)
+          }}
+        >
+          <option value="">개인 작업</option>
+          {workspaces.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name} ({formatWorkspaceRole(w.role)} · {w.member_count}명)
+            </option>
+          ))}
+        </select>
+        {active?.role === 'owner' ? (
+          <button type="button" className="btn-ghost h-9 px-3 text-xs" onClick={() => setShowMembers((v) => !v)}>
+            {showMembers ? '멤버 관리 닫기' : '멤버 관리'}
+          </button>
+        ) : null}
+        {active && active.role === 'viewer' ? (
+          <span className="text-xs text-amber-200/80">보기 전용: 조회/다운로드만 할 수 있습니다.</span>
+        ) : null}
+        <div className="ml-auto flex items-center gap-2">
+          <input
+            className={inputClass}
+            placeholder="새 워크스페이스 이름"
+            value={newName}
+            maxLength={80}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <button
+            type="button"
+            className="btn-dark h-9 px-3 text-xs"
+            onClick={() => createWorkspace()}
+            disabled={isCreating || !newName.trim()}
+          >
+            {isCreating ? '만드는 중...' : '만들기'}
+          </button>
+        </div>
+      </div>
+
+      {showMembers && active ? (
+        <div className="grid gap-2 rounded-xl border border-white/10 bg-zinc-950/60 p-3 text-sm">
+          {members.map((m) => (
+            <div key={m.user_id} className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-zinc-200">{m.email ?? m.user_id}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-zinc-400">{formatWorkspaceRole(m.role)}</span>
+                <button
+                  type="button"
+                  className="btn-danger h-7 px-2 text-xs"
+                  onClick={() => removeMember(m.user_id)}
+                  disabled={isSaving}
+                >
+                  제거
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="mt-1 flex flex-wrap items-center gap-2">
+            <input
+              type="email"
+              className={inputClass}
+              placeholder="초대할 이메일 (가입한 사용자)"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+            <select className={inputClass} value={inviteRole} onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}>
+              <option value="editor">편집자</option>
+              <option value="viewer">보기 전용</option>
+              <option value="owner">소유자</option>
+            </select>
+            <button
+              type="button"
+              className="btn-dark h-9 px-3 text-xs"
+              onClick={() => addMember()}
+              disabled={isSaving || !inviteEmail.trim()}
+            >
+              추가/변경
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <div className="whitespace-pre-wrap text-sm text-red-300">오류: {error}</div> : null}
+    </div>
+  )
+}
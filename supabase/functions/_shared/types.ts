@@ -1,4 +1,4 @@
-export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
 
 export type DbJobRow = {
   id: string
@@ -9,6 +9,7 @@ export type DbJobRow = {
   packager: unknown | null
   final_package: unknown | null
   error: string | null
+  owner_id?: string | null
 }
 
 export type DbSceneRow = {
@@ -0,0 +1,203 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('workspace_id') ? WORKSPACE_MIGRATION_HINT : msg.includes('owner_id') ? OWNERSHIP_MIGRATION_HINT : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  return null
+}
+
+type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+type CancelJobRequest = {
+  job_id: string
+}
+
+type CancelJobResponse = {
+  job_id: string
+  status: JobStatus
+  cancelled: boolean // QUEUED/RUNNING → CANCELLED 전환 여부
+  released_image_locks: number
+  cancelled_tasks: number // 대기 중이던 ytg_tasks 취소 수
+  message: string
+}
+
+// NOTE: 백그라운드 작업(EdgeRuntime.waitUntil)은 외부에서 강제로 멈출 수 없습니다.
+// 이 함수는 취소 플래그(cancel_requested_at, status=CANCELLED)만 기록하고,
+// trendstory-start / retry-images / retry-audio가 단계·씬 사이마다 플래그를 확인해 스스로 멈춥니다(협조적 취소).
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  let payload: CancelJobRequest
+  try {
+    payload = (await req.json()) as CancelJobRequest
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const jobId = String(payload?.job_id ?? '').trim()
+  if (!jobId) return json({ error: 'job_id is required' }, 400)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    const supabase = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+
+    const jobRes = await supabase.from('ytg_jobs').select('id, status').eq('id', jobId).single()
+    if (jobRes.error) {
+      const statusCode = jobRes.error.code === 'PGRST116' ? 404 : 500
+      return json({ error: jobRes.error.message }, statusCode)
+    }
+
+    const prevStatus = jobRes.data.status as JobStatus
+    const active = prevStatus === 'QUEUED' || prevStatus === 'RUNNING'
+
+    // 1) 취소 플래그 기록 (완료된 job도 이미지/오디오 재시도가 돌고 있을 수 있으므로 항상 기록)
+    const upd = await supabase
+      .from('ytg_jobs')
+      .update(
+        active
+          ? { status: 'CANCELLED' satisfies JobStatus, cancel_requested_at: nowIso(), error: '사용자가 작업을 취소했습니다.' }
+          : { cancel_requested_at: nowIso() },
+      )
+      .eq('id', jobId)
+    if (upd.error) throw new Error(upd.error.message)
+
+    // 2) 진행 중인 씬 이미지 생성 lock 해제
+    // request_id를 비우면, 진행 중이던 생성 요청의 완료 업데이트(.eq('image_gen_request_id', ...))가 무시됩니다.
+    const unlock = await supabase
+      .from('ytg_scenes')
+      .update({ image_gen_status: 'CANCELLED', image_gen_request_id: null, image_gen_error: 'cancelled' })
+      .eq('job_id', jobId)
+      .eq('image_gen_status', 'GENERATING')
+      .select('id')
+    if (unlock.error) console.warn('[ytg] 이미지 lock 해제 실패(무시)', { jobId, error: unlock.error.message })
+    const released = Array.isArray(unlock.data) ? unlock.data.length : 0
+
+    // 3) 아직 시작하지 않은 큐 task 취소 (실행 중인 task는 위 플래그를 보고 스스로 멈춤)
+    const tasks = await supabase
+      .from('ytg_tasks')
+      .update({ status: 'CANCELLED', finished_at: nowIso(), updated_at: nowIso(), last_error: 'cancelled by user' })
+      .eq('job_id', jobId)
+      .eq('status', 'QUEUED')
+      .select('id')
+    if (tasks.error) console.warn('[ytg] 큐 task 취소 실패(무시)', { jobId, error: tasks.error.message })
+    const cancelledTasks = Array.isArray(tasks.data) ? tasks.data.length : 0
+
+    console.log('[ytg] job 취소 요청', { jobId, prevStatus, released_image_locks: released, cancelled_tasks: cancelledTasks })
+
+    const out: CancelJobResponse = {
+      job_id: jobId,
+      status: active ? 'CANCELLED' : prevStatus,
+      cancelled: active,
+      released_image_locks: released,
+      cancelled_tasks: cancelledTasks,
+      message: active
+        ? '작업을 취소했습니다. 진행 중인 단계가 끝나는 즉시 멈춥니다.'
+        : '진행 중인 재시도 작업(이미지/오디오)에 취소를 요청했습니다.',
+    }
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    const hint =
+      msg.includes('cancel_requested_at') || msg.includes('CANCELLED') || msg.includes('check constraint')
+        ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-22_add_job_cancellation.sql 을 실행하세요.'
+        : undefined
+    console.error('[ytg] trendstory-cancel-job error', { jobId, msg })
+    return json({ error: msg, hint }, 500)
+  }
+})
@@ -31,53 +31,222 @@ function getSupabaseServiceClient() {
   return createClient(url, serviceRoleKey)
 }
 
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  return null
+}
+
+// ---- Storage 정리 (단일 파일 배포를 위해 index.ts에 포함) ----
+const STORAGE_LIST_PAGE = 1000
+const STORAGE_REMOVE_BATCH = 100
+
+type StorageCleanupReport = {
+  prefix: string
+  listed: number // prefix 아래에서 찾은 객체 수 (하위 폴더 포함)
+  referenced: number // DB(ytg_assets.path 등)가 가리키는 경로 중 목록에 없던 것
+  removed: number
+  remaining: string[] // 삭제 후 다시 조회했을 때 남아 있는 객체 (검증)
+  errors: string[]
+}
+
+// prefix 아래의 모든 객체 경로. list()는 한 단계만 보여주므로 폴더를 따라 내려가며 페이지 끝까지 읽습니다.
+async function listStorageObjects(supabase: any, bucket: string, prefix: string): Promise<string[]> {
+  const out: string[] = []
+  const folders = [prefix.replace(/\/+$/, '')]
+  while (folders.length > 0) {
+    const dir = folders.shift() as string
+    for (let offset = 0; ; offset += STORAGE_LIST_PAGE) {
+      const res = await supabase.storage
+        .from(bucket)
+        .list(dir, { limit: STORAGE_LIST_PAGE, offset, sortBy: { column: 'name', order: 'asc' } })
+      if (res.error) throw new Error(`storage list 실패 (${dir}): ${res.error.message}`)
+      const items = res.data ?? []
+      for (const obj of items) {
+        if (!obj?.name) continue
+        const path = `${dir}/${obj.name}`
+        // id가 없는 항목은 폴더(prefix)
+        if (obj.id == null) folders.push(path)
+        else out.push(path)
+      }
+      if (items.length < STORAGE_LIST_PAGE) break
+    }
+  }
+  return out
+}
+
+async function removeStorageObjects(supabase: any, bucket: string, paths: string[]) {
+  let removed = 0
+  const errors: string[] = []
+  for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH) {
+    const batch = paths.slice(i, i + STORAGE_REMOVE_BATCH)
+    const res = await supabase.storage.from(bucket).remove(batch)
+    if (res.error) errors.push(res.error.message)
+    else removed += (res.data ?? []).length
+  }
+  return { removed, errors }
+}
+
+// prefix 아래 전체 + 참조 경로를 지우고, 다시 조회해 남은 객체를 보고합니다.
+async function cleanupStoragePrefix(
+  supabase: any,
+  bucket: string,
+  prefix: string,
+  referencedPaths: string[] = [],
+): Promise<StorageCleanupReport> {
+  const report: StorageCleanupReport = { prefix, listed: 0, referenced: 0, removed: 0, remaining: [], errors: [] }
+
+  let listed: string[] = []
+  try {
+    listed = await listStorageObjects(supabase, bucket, prefix)
+  } catch (e: any) {
+    report.errors.push(e?.message ?? String(e))
+  }
+  const listedSet = new Set(listed)
+  const extra = Array.from(new Set(referencedPaths.filter((p) => p && !listedSet.has(p))))
+  report.listed = listed.length
+  report.referenced = extra.length
+
+  const targets = [...listed, ...extra]
+  if (targets.length > 0) {
+    const res = await removeStorageObjects(supabase, bucket, targets)
+    report.removed = res.removed
+    report.errors.push(...res.errors)
+  }
+
+  try {
+    report.remaining = await listStorageObjects(supabase, bucket, prefix)
+  } catch (e: any) {
+    report.errors.push(`검증 실패: ${e?.message ?? String(e)}`)
+  }
+  return report
+}
+
+// trash: 휴지통으로 이동(기본, deleted_at 기록) / restore: 휴지통에서 복원 / purge: 휴지통의 job을 즉시 완전 삭제
+type DeleteJobAction = 'trash' | 'restore' | 'purge'
+
 type DeleteJobRequest = {
   job_id: string
+  action?: DeleteJobAction
+  wait?: boolean // purge: true면 삭제가 끝날 때까지 기다렸다가 storage 정리 결과를 반환
 }
 
 type DeleteJobResponse = {
   job_id: string
+  action: DeleteJobAction
   accepted: boolean
   message: string
+  deleted_at?: string | null
+  purge_after?: string | null // 이 시각 이후 sweeper가 완전히 삭제
+  storage?: StorageCleanupReport | null // purge + wait=true일 때만
 }
 
-async function deleteStoragePrefix(bucket: string, prefix: string) {
-  const supabase = getSupabaseServiceClient()
-
-  // list is not recursive; we delete common known files under jobs/<job_id> plus best-effort list
-  const toRemove: string[] = []
-
-  // best-effort listing (single level)
-  const listRes = await supabase.storage.from(bucket).list(prefix, { limit: 100, offset: 0 })
-  if (!listRes.error) {
-    for (const obj of listRes.data ?? []) {
-      if (obj?.name) toRemove.push(`${prefix}/${obj.name}`.replace(/\/{2,}/g, '/'))
-    }
-  }
-
-  // also attempt known paths
-  toRemove.push(`${prefix}/narration.mp3`)
+// 휴지통 보관 기간 (지나면 sweeper가 storage + row를 완전히 삭제)
+function getTrashRetentionDays() {
+  const n = Number(Deno.env.get('YTG_TRASH_RETENTION_DAYS') ?? '30')
+  return Number.isFinite(n) ? Math.max(1, Math.min(Math.floor(n), 365)) : 30
+}
 
-  // de-dup
-  const unique = Array.from(new Set(toRemove))
-  if (unique.length === 0) return
+function purgeAfterIso(deletedAt: string) {
+  return new Date(Date.parse(deletedAt) + getTrashRetentionDays() * 86400_000).toISOString()
+}
 
-  await supabase.storage.from(bucket).remove(unique)
+// job이 참조하는 Storage 경로 (이미지 이력/TTS 등 jobs/<id> 밖에 저장된 예전 파일도 함께 지우기 위해)
+async function collectReferencedPaths(supabase: any, jobId: string): Promise<string[]> {
+  const paths: string[] = []
+  const assets = await supabase.from('ytg_assets').select('path').eq('job_id', jobId)
+  if (!assets.error) for (const a of assets.data ?? []) if (a?.path) paths.push(String(a.path))
+  const scenes = await supabase.from('ytg_scenes').select('image_path').eq('job_id', jobId)
+  if (!scenes.error) for (const sc of scenes.data ?? []) if (sc?.image_path) paths.push(String(sc.image_path))
+  return paths
 }
 
-async function runDeleteJob(jobId: string) {
+async function runDeleteJob(jobId: string): Promise<StorageCleanupReport | null> {
   const supabase = getSupabaseServiceClient()
   const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
 
-  // 1) delete storage objects (best-effort)
+  // 1) delete storage objects (best-effort: 실패해도 job 삭제는 진행, 남은 파일은 sweeper가 정리)
+  let report: StorageCleanupReport | null = null
   try {
-    await deleteStoragePrefix(bucket, `jobs/${jobId}`)
-  } catch {
-    // ignore (do not block job deletion)
+    const referenced = await collectReferencedPaths(supabase, jobId)
+    report = await cleanupStoragePrefix(supabase, bucket, `jobs/${jobId}`, referenced)
+  } catch (e: any) {
+    console.warn('[ytg] storage 정리 실패(무시)', { job_id: jobId, error: e?.message ?? String(e) })
   }
 
   // 2) delete DB row (cascades scenes/assets)
-  await supabase.from('ytg_jobs').delete().eq('id', jobId)
+  const del = await supabase.from('ytg_jobs').delete().eq('id', jobId)
+  if (del.error) console.error('[ytg] job 삭제 실패', { job_id: jobId, error: del.error.message })
+
+  if (report && (report.remaining.length > 0 || report.errors.length > 0)) {
+    console.warn('[ytg] job 삭제: storage에 남은 파일이 있습니다. (sweeper가 다시 정리)', { job_id: jobId, storage: report })
+  } else {
+    console.log('[ytg] job 삭제 완료', { job_id: jobId, storage: report })
+  }
+  return report
 }
 
 Deno.serve(async (req) => {
@@ -96,6 +265,92 @@ Deno.serve(async (req) => {
   const jobId = String(payload?.job_id ?? '').trim()
   if (!jobId) return json({ error: 'job_id is required' }, 400)
 
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+  try {
+    const denied = await requireJobWriteAccess(getSupabaseServiceClient(), jobId, user.id)
+    if (denied) return denied
+  } catch (e: any) {
+    return json({ error: e?.message ?? String(e) }, 500)
+  }
+
+  const action: DeleteJobAction = payload?.action ?? 'trash'
+  if (!['trash', 'restore', 'purge'].includes(action)) return json({ error: 'action must be one of: trash, restore, purge' }, 400)
+
+  const supabase = getSupabaseServiceClient()
+  const jobRes = await supabase.from('ytg_jobs').select('id, status, deleted_at').eq('id', jobId).maybeSingle()
+  if (jobRes.error) return json({ error: jobRes.error.message, hint: TRASH_MIGRATION_HINT }, 500)
+  const job = jobRes.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  if (action === 'trash') {
+    if (job.deleted_at) {
+      const out: DeleteJobResponse = {
+        job_id: jobId,
+        action,
+        accepted: true,
+        message: '이미 휴지통에 있습니다.',
+        deleted_at: job.deleted_at,
+        purge_after: purgeAfterIso(job.deleted_at),
+      }
+      return json(out, 200)
+    }
+    if (job.status === 'QUEUED' || job.status === 'RUNNING') {
+      return json({ error: '실행 중인 job입니다.', hint: '실행 중인 작업은 먼저 취소한 뒤 휴지통으로 옮기세요.' }, 409)
+    }
+    const deletedAt = new Date().toISOString()
+    const upd = await supabase
+      .from('ytg_jobs')
+      .update({ deleted_at: deletedAt, deleted_by: user.id })
+      .eq('id', jobId)
+      .is('deleted_at', null)
+    if (upd.error) return json({ error: upd.error.message, hint: TRASH_MIGRATION_HINT }, 500)
+    console.log('[ytg] job 휴지통 이동', { job_id: jobId, user_id: user.id })
+    const out: DeleteJobResponse = {
+      job_id: jobId,
+      action,
+      accepted: true,
+      message: `휴지통으로 옮겼습니다. ${getTrashRetentionDays()}일 동안 복원할 수 있습니다.`,
+      deleted_at: deletedAt,
+      purge_after: purgeAfterIso(deletedAt),
+    }
+    return json(out, 200)
+  }
+
+  if (action === 'restore') {
+    if (job.deleted_at) {
+      const upd = await supabase.from('ytg_jobs').update({ deleted_at: null, deleted_by: null }).eq('id', jobId)
+      if (upd.error) return json({ error: upd.error.message, hint: TRASH_MIGRATION_HINT }, 500)
+      console.log('[ytg] job 복원', { job_id: jobId, user_id: user.id })
+    }
+    const out: DeleteJobResponse = {
+      job_id: jobId,
+      action,
+      accepted: true,
+      message: job.deleted_at ? '복원했습니다.' : '휴지통에 있는 job이 아닙니다.',
+      deleted_at: null,
+      purge_after: null,
+    }
+    return json(out, 200)
+  }
+
+  // purge: 실수로 바로 지우지 않도록 휴지통에 있는 job만
+  if (!job.deleted_at) {
+    return json({ error: '휴지통에 없는 job입니다.', hint: '먼저 휴지통으로 옮긴 뒤 완전 삭제하세요.' }, 409)
+  }
+
+  if (payload?.wait === true) {
+    const report = await runDeleteJob(jobId)
+    const out: DeleteJobResponse = {
+      job_id: jobId,
+      action,
+      accepted: true,
+      message: report && report.remaining.length === 0 ? '완전히 삭제했습니다.' : '삭제했습니다. 일부 파일은 sweeper가 다시 정리합니다.',
+      storage: report,
+    }
+    return json(out, 200)
+  }
+
   const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
   if (typeof waitUntil === 'function') {
     waitUntil(runDeleteJob(jobId))
@@ -105,11 +360,9 @@ Deno.serve(async (req) => {
 
   const out: DeleteJobResponse = {
     job_id: jobId,
+    action,
     accepted: true,
-    message: '삭제를 백그라운드로 시작했습니다. 잠시 후 목록에서 사라집니다.',
+    message: '완전 삭제를 백그라운드로 시작했습니다. 잠시 후 휴지통에서 사라집니다.',
   }
   return json(out, 202)
 })
-
-
-
@@ -51,9 +51,386 @@ function sleepMs(ms: number) {
   return new Promise((r) => setTimeout(r, ms))
 }
 
-async function openaiImagePng(prompt: string): Promise<Uint8Array> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const imageModel = (Deno.env.get('OPENAI_IMAGE_MODEL') ?? 'gpt-image-1-mini').trim() || 'gpt-image-1-mini'
+// ---- 이미지 provider (trendstory-start의 provider 레이어와 동일한 규칙, 단일 파일 배포를 위해 index.ts에 포함) ----
+type ProviderId = 'openai' | 'openai_compatible' | 'fake'
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'openai_compatible', 'fake']
+
+// fake(= fixture 모드)는 hint로 씬 번호/설명을 그린 placeholder PNG를 만듭니다.
+type ImageHint = {
+  scene_id?: number
+  caption?: string
+  platform_target?: string | null
+}
+
+type ImageProvider = {
+  id: ProviderId
+  imagePng(prompt: string, hint?: ImageHint): Promise<Uint8Array>
+}
+
+type ImageEndpointConfig = {
+  baseUrl: string
+  apiKey: string
+  imageModel: string
+}
+
+function isFixtureMode() {
+  const v = (Deno.env.get('YTG_FIXTURE_MODE') ?? '').trim().toLowerCase()
+  return v === '1' || v === 'true' || v === 'yes'
+}
+
+function resolveProviderId(requested?: string | null): ProviderId {
+  if (isFixtureMode()) return 'fake'
+  const fromJob = (requested ?? '').trim()
+  if ((PROVIDER_IDS as string[]).includes(fromJob)) return fromJob as ProviderId
+  const fromEnv = (Deno.env.get('YTG_PROVIDER') ?? '').trim()
+  if ((PROVIDER_IDS as string[]).includes(fromEnv)) return fromEnv as ProviderId
+  return 'openai'
+}
+
+// ---- 사용량/비용 집계 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 유료 호출(텍스트/이미지/TTS) 1회당 ytg_usage에 1행을 기록합니다.
+// 비용은 가격표 기반 추정치(USD)이며, YTG_PRICE_TABLE(JSON)로 모델별 단가를 덮어쓸 수 있습니다.
+type UsageKind = 'text' | 'image' | 'tts'
+
+// openai* 함수가 측정하는 값 (호출 1회 기준)
+type UsageMeasure = {
+  model: string
+  input_tokens?: number
+  output_tokens?: number
+  image_count?: number
+  image_size?: string | null
+  tts_chars?: number
+}
+
+type UsageMeter = (m: UsageMeasure) => void
+
+type UsageEvent = UsageMeasure & {
+  kind: UsageKind
+  op: string // autoconfig | packager | scene_image | scene_tts
+  provider: ProviderId
+  scene_id?: number | null
+}
+
+type UsageSink = (e: UsageEvent) => void
+
+type PriceTable = {
+  text: Record<string, { input_per_1m: number; output_per_1m: number }>
+  image: Record<string, Record<string, number>> // size별 장당 단가, 'default'는 size 미등록 시 사용
+  tts: Record<string, { per_1m_chars: number }>
+}
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  text: {
+    'gpt-5.2': { input_per_1m: 1.75, output_per_1m: 14 },
+    'gpt-4o-mini': { input_per_1m: 0.15, output_per_1m: 0.6 },
+    'gpt-4o': { input_per_1m: 2.5, output_per_1m: 10 },
+  },
+  image: {
+    'gpt-image-1-mini': { default: 0.011, '1024x1024': 0.011, '1536x1024': 0.015, '1024x1536': 0.015 },
+    'gpt-image-1': { default: 0.042, '1024x1024': 0.042, '1536x1024': 0.063, '1024x1536': 0.063 },
+    'dall-e-3': { default: 0.04, '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+  },
+  tts: {
+    'gpt-4o-mini-tts': { per_1m_chars: 15 },
+    'tts-1': { per_1m_chars: 15 },
+    'tts-1-hd': { per_1m_chars: 30 },
+  },
+}
+
+function getPriceTable(): PriceTable {
+  const raw = Deno.env.get('YTG_PRICE_TABLE')?.trim()
+  if (!raw) return DEFAULT_PRICE_TABLE
+  try {
+    const j = JSON.parse(raw)
+    return {
+      text: { ...DEFAULT_PRICE_TABLE.text, ...(j?.text ?? {}) },
+      image: { ...DEFAULT_PRICE_TABLE.image, ...(j?.image ?? {}) },
+      tts: { ...DEFAULT_PRICE_TABLE.tts, ...(j?.tts ?? {}) },
+    }
+  } catch (e: any) {
+    console.warn('[ytg] YTG_PRICE_TABLE 파싱 실패, 기본 단가 사용', { error: e?.message ?? String(e) })
+    return DEFAULT_PRICE_TABLE
+  }
+}
+
+// 가격표에 없는 모델이면 null (UI에서 "단가 미등록"으로 표시)
+function estimateCostUsd(e: UsageEvent, prices: PriceTable): number | null {
+  if (e.provider === 'fake') return 0
+  if (e.kind === 'text') {
+    const p = prices.text[e.model]
+    if (!p) return null
+    return ((e.input_tokens ?? 0) * p.input_per_1m + (e.output_tokens ?? 0) * p.output_per_1m) / 1_000_000
+  }
+  if (e.kind === 'image') {
+    const p = prices.image[e.model]
+    const unit = p ? (p[e.image_size ?? ''] ?? p.default) : undefined
+    if (unit == null) return null
+    return unit * (e.image_count ?? 1)
+  }
+  const p = prices.tts[e.model]
+  if (!p) return null
+  return ((e.tts_chars ?? 0) * p.per_1m_chars) / 1_000_000
+}
+
+// best-effort 기록: 사용량 기록 실패가 생성 작업을 실패시키지 않도록 합니다.
+function createUsageRecorder(supabase: ReturnType<typeof createClient>, jobId: string) {
+  const prices = getPriceTable()
+  const pending: Array<Promise<unknown>> = []
+  const sink: UsageSink = (e) => {
+    const row = {
+      job_id: jobId,
+      kind: e.kind,
+      op: e.op,
+      provider: e.provider,
+      model: e.model,
+      scene_id: e.scene_id ?? null,
+      input_tokens: e.input_tokens ?? null,
+      output_tokens: e.output_tokens ?? null,
+      image_count: e.image_count ?? null,
+      image_size: e.image_size ?? null,
+      tts_chars: e.tts_chars ?? null,
+      cost_usd: estimateCostUsd(e, prices),
+    }
+    pending.push(
+      Promise.resolve(supabase.from('ytg_usage').insert(row)).then((r: any) => {
+        if (r?.error) console.warn('[ytg] ytg_usage 기록 실패(무시)', { jobId, error: r.error.message, row })
+      }),
+    )
+  }
+  return { sink, flush: () => Promise.allSettled(pending.splice(0)) }
+}
+
+function usageMeter(onUsage: UsageSink | undefined, kind: UsageKind, op: string, provider: ProviderId, sceneId?: number): UsageMeter | undefined {
+  if (!onUsage) return undefined
+  return (m) => onUsage({ ...m, kind, op, provider, scene_id: sceneId ?? null })
+}
+
+function getImageProvider(id: ProviderId, onUsage?: UsageSink): ImageProvider {
+  if (id === 'fake') {
+    return {
+      id,
+      imagePng: async (prompt: string, hint?: ImageHint) => {
+        const png = await renderFixturePng({ sceneId: hint?.scene_id, caption: hint?.caption || prompt, platformTarget: hint?.platform_target })
+        usageMeter(onUsage, 'image', 'scene_image', id, hint?.scene_id)?.({ model: 'fixture', image_count: 1 })
+        return png
+      },
+    }
+  }
+  const cfg: ImageEndpointConfig =
+    id === 'openai_compatible'
+      ? {
+          baseUrl: requireEnv('YTG_LLM_BASE_URL').trim().replace(/\/$/, ''),
+          apiKey: Deno.env.get('YTG_LLM_API_KEY')?.trim() ?? '',
+          imageModel: Deno.env.get('YTG_LLM_IMAGE_MODEL')?.trim() || 'gpt-image-1-mini',
+        }
+      : {
+          baseUrl: 'https://api.openai.com/v1',
+          apiKey: requireEnv('OPENAI_API_KEY'),
+          imageModel: (Deno.env.get('OPENAI_IMAGE_MODEL') ?? 'gpt-image-1-mini').trim() || 'gpt-image-1-mini',
+        }
+  return {
+    id,
+    imagePng: (prompt: string, hint?: ImageHint) => openaiImagePng(cfg, prompt, usageMeter(onUsage, 'image', 'scene_image', id, hint?.scene_id)),
+  }
+}
+
+// ---- fixture 이미지: 씬 번호 + visual_brief를 글자로 그린 placeholder PNG ----
+// 5x7 비트맵 폰트 (행마다 하위 5비트 사용). 영문 대문자/숫자/일부 기호만 지원하고 나머지는 '?'로 그립니다.
+const FIXTURE_FONT_5X7: Record<string, string> = {
+  'A': '0e11111f111111',
+  'B': '1e11111e11111e',
+  'C': '0e11101010110e',
+  'D': '1c12111111121c',
+  'E': '1f10101e10101f',
+  'F': '1f10101e101010',
+  'G': '0e11101711110f',
+  'H': '1111111f111111',
+  'I': '0e04040404040e',
+  'J': '0702020202120c',
+  'K': '11121418141211',
+  'L': '1010101010101f',
+  'M': '111b1515111111',
+  'N': '11111915131111',
+  'O': '0e11111111110e',
+  'P': '1e11111e101010',
+  'Q': '0e11111115120d',
+  'R': '1e11111e141211',
+  'S': '0f10100e01011e',
+  'T': '1f040404040404',
+  'U': '1111111111110e',
+  'V': '11111111110a04',
+  'W': '1111111515150a',
+  'X': '11110a040a1111',
+  'Y': '1111110a040404',
+  'Z': '1f01020408101f',
+  '0': '0e11131519110e',
+  '1': '040c040404040e',
+  '2': '0e11010204081f',
+  '3': '1f02040201110e',
+  '4': '02060a121f0202',
+  '5': '1f101e0101110e',
+  '6': '0608101e11110e',
+  '7': '1f010204080808',
+  '8': '0e11110e11110e',
+  '9': '0e11110f01020c',
+  '.': '00000000000c0c',
+  ',': '000000000c0408',
+  '-': '0000001f000000',
+  ':': '000c0c000c0c00',
+  '!': '04040404040004',
+  '?': '0e110102040004',
+  '\'': '0c040800000000',
+  '/': '00010204081000',
+  '#': '0a0a1f0a1f0a0a',
+  '(': '02040808080402',
+  ')': '08040202020408',
+  '&': '0c12140815120d',
+}
+
+const FIXTURE_PALETTES: Array<[number, number, number]> = [
+  [30, 41, 59],
+  [49, 46, 129],
+  [20, 83, 45],
+  [124, 45, 18],
+  [88, 28, 135],
+  [22, 78, 99],
+]
+
+function fixtureDrawText(pix: Uint8Array, width: number, height: number, x: number, y: number, text: string, scale: number, color: number) {
+  let cx = x
+  for (const raw of text.toUpperCase()) {
+    const glyph = raw === ' ' ? null : FIXTURE_FONT_5X7[raw] ?? FIXTURE_FONT_5X7['?']
+    if (glyph) {
+      for (let row = 0; row < 7; row++) {
+        const bits = parseInt(glyph.slice(row * 2, row * 2 + 2), 16)
+        for (let col = 0; col < 5; col++) {
+          if (!(bits & (1 << (4 - col)))) continue
+          for (let dy = 0; dy < scale; dy++) {
+            const py = y + row * scale + dy
+            if (py < 0 || py >= height) continue
+            for (let dx = 0; dx < scale; dx++) {
+              const px = cx + col * scale + dx
+              if (px >= 0 && px < width) pix[py * width + px] = color
+            }
+          }
+        }
+      }
+    }
+    cx += 6 * scale
+  }
+}
+
+function fixtureWrap(text: string, maxChars: number, maxLines: number) {
+  const lines: string[] = []
+  let cur = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = cur ? `${cur} ${word}` : word
+    if (next.length <= maxChars) {
+      cur = next
+      continue
+    }
+    if (cur) lines.push(cur)
+    cur = word.slice(0, maxChars)
+    if (lines.length >= maxLines) break
+  }
+  if (cur && lines.length < maxLines) lines.push(cur)
+  return lines
+}
+
+const CRC32_TABLE = (() => {
+  const t = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    t[n] = c >>> 0
+  }
+  return t
+})()
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC32_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+async function zlibDeflate(data: Uint8Array) {
+  const stream = new Blob([toArrayBuffer(data)]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function renderFixturePng(args: { sceneId?: number | null; caption: string; platformTarget?: string | null }) {
+  const portrait = args.platformTarget === 'shorts_9_16'
+  const width = portrait ? 360 : 640
+  const height = portrait ? 640 : 360
+  const sceneId = Number(args.sceneId ?? 0) || 0
+  const bg = FIXTURE_PALETTES[sceneId % FIXTURE_PALETTES.length]
+
+  // palette index: 0=배경, 1=테두리, 2=글자
+  const pix = new Uint8Array(width * height)
+  for (let x = 0; x < width; x++) {
+    for (let t = 0; t < 6; t++) {
+      pix[t * width + x] = 1
+      pix[(height - 1 - t) * width + x] = 1
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let t = 0; t < 6; t++) {
+      pix[y * width + t] = 1
+      pix[y * width + (width - 1 - t)] = 1
+    }
+  }
+  fixtureDrawText(pix, width, height, 24, 28, sceneId ? `SCENE ${sceneId}` : 'FIXTURE', 6, 2)
+  const maxChars = Math.floor((width - 48) / 18)
+  const lines = fixtureWrap(args.caption, maxChars, portrait ? 14 : 7)
+  lines.forEach((line, i) => fixtureDrawText(pix, width, height, 24, 100 + i * 30, line, 3, 2))
+
+  const raw = new Uint8Array((width + 1) * height)
+  for (let y = 0; y < height; y++) raw.set(pix.subarray(y * width, (y + 1) * width), y * (width + 1) + 1)
+
+  const ihdr = new Uint8Array(13)
+  const ihdrView = new DataView(ihdr.buffer)
+  ihdrView.setUint32(0, width)
+  ihdrView.setUint32(4, height)
+  ihdr[8] = 8 // bit depth
+  ihdr[9] = 3 // color type: palette
+  const plte = new Uint8Array([...bg, 250, 204, 21, 244, 244, 245])
+  const idat = await zlibDeflate(raw)
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('PLTE', plte),
+    pngChunk('IDAT', idat),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+function base64ToBytes(b64: string) {
+  const bin = atob(b64)
+  const bytes = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
+  return bytes
+}
+
+async function openaiImagePng(cfg: ImageEndpointConfig, prompt: string, meter?: UsageMeter): Promise<Uint8Array> {
   const envSize = Deno.env.get('OPENAI_IMAGE_SIZE')?.trim()
   const sizes = Array.from(new Set([envSize, '1792x1024', '1024x1024'].filter(Boolean))) as string[]
   const timeoutMs = Number(Deno.env.get('OPENAI_IMAGE_TIMEOUT_MS') ?? '120000') || 120000
@@ -66,11 +443,14 @@ async function openaiImagePng(prompt: string): Promise<Uint8Array> {
       let text: string
       try {
         res = await fetchWithTimeout(
-          'https://api.openai.com/v1/images/generations',
+          `${cfg.baseUrl}/images/generations`,
           {
             method: 'POST',
-            headers: { authorization: `Bearer ${apiKey}`, 'content-type': 'application/json' },
-            body: JSON.stringify({ model: imageModel, prompt, size }),
+            headers: {
+              'content-type': 'application/json',
+              ...(cfg.apiKey ? { authorization: `Bearer ${cfg.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model: cfg.imageModel, prompt, size }),
           },
           timeoutMs,
         )
@@ -94,13 +474,9 @@ async function openaiImagePng(prompt: string): Promise<Uint8Array> {
 
       const json = JSON.parse(text)
       const first = json?.data?.[0]
+      if (first?.b64_json || first?.url) meter?.({ model: cfg.imageModel, image_count: 1, image_size: size })
       const b64: string | undefined = first?.b64_json
-      if (b64) {
-        const bin = atob(b64)
-        const bytes = new Uint8Array(bin.length)
-        for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
-        return bytes
-      }
+      if (b64) return base64ToBytes(b64)
       const url: string | undefined = first?.url
       if (url) {
         const imgRes = await fetchWithTimeout(url, { method: 'GET' }, timeoutMs)
@@ -120,6 +496,11 @@ function safeFilename(s: string) {
   return s.replace(/[^a-zA-Z0-9._-]+/g, '-')
 }
 
+// YTG_STORAGE_PRIVATE=true면 버킷이 비공개이므로 URL은 저장하지 않고 경로만 남깁니다. (trendstory-status가 signed URL을 만듦)
+function isPrivateStorage() {
+  return (Deno.env.get('YTG_STORAGE_PRIVATE') ?? '').trim().toLowerCase() === 'true'
+}
+
 function nowIso() {
   return new Date().toISOString()
 }
@@ -128,6 +509,167 @@ type GenerateSceneImageRequest = {
   job_id: string
   scene_id: number
   force?: boolean
+  // 사용자가 고친 프롬프트 (생략하면 저장된 image_prompt → visual_brief/mood/style 순으로 만듦)
+  // trendstory-worker의 scene_image task 실행도 task에 저장된 prompt를 여기로 보냅니다.
+  prompt?: string
+  // 제외할 요소 목록. 생략하면 저장된 image_negative_prompt를 쓰고, null/빈 문자열이면 비움
+  negative_prompt?: string | null
+  _task?: { id: string; job_id: string; kind: string; attempt?: number }
+}
+
+const MAX_PROMPT_LENGTH = 4000
+const MAX_NEGATIVE_PROMPT_LENGTH = 1000
+
+// 이미지 API에는 negative prompt 파라미터가 없으므로 프롬프트 끝에 붙여 보냅니다.
+function withNegativePrompt(prompt: string, negative: string | null) {
+  return negative ? `${prompt}\n\nAvoid: ${negative}` : prompt
+}
+
+// task 실행 요청(_task)은 워커(service role)만 보낼 수 있습니다.
+function isServiceRoleRequest(req: Request) {
+  const key = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '').trim()
+  if (!key) return false
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  const apikey = (req.headers.get('apikey') ?? '').trim()
+  return bearer === key || apikey === key
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+// ---- Quota (단일 파일 배포를 위해 index.ts에 포함) ----
+// 사용자별 일일 한도(UTC 자정 초기화) + 분당 요청 수 제한. 카운터는 ytg_consume_quota RPC로 원자적으로 증가시킵니다.
+type QuotaKind = 'jobs' | 'images' | 'tts_chars' | 'requests'
+
+const QUOTA_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-28_add_usage_quotas.sql 을 실행하세요.'
+
+const QUOTA_ENV: Record<QuotaKind, { env: string; fallback: number; label: string; unit: string }> = {
+  jobs: { env: 'YTG_QUOTA_JOBS_PER_DAY', fallback: 20, label: '오늘 job 생성', unit: '개' },
+  images: { env: 'YTG_QUOTA_IMAGES_PER_DAY', fallback: 100, label: '오늘 이미지 생성', unit: '장' },
+  tts_chars: { env: 'YTG_QUOTA_TTS_CHARS_PER_DAY', fallback: 50000, label: '오늘 TTS', unit: '자' },
+  requests: { env: 'YTG_RATE_LIMIT_PER_MINUTE', fallback: 30, label: '분당 생성 요청', unit: '회' },
+}
+
+// 0이면 제한 없음
+function getQuotaLimit(kind: QuotaKind): number | null {
+  const cfg = QUOTA_ENV[kind]
+  const raw = Number(Deno.env.get(cfg.env) ?? cfg.fallback)
+  const n = Number.isFinite(raw) ? Math.floor(raw) : cfg.fallback
+  return n > 0 ? n : null
+}
+
+function quotaExceeded(kind: QuotaKind, limit: number, used: number, requested: number, resetAt: string) {
+  const cfg = QUOTA_ENV[kind]
+  const retryAfterSec = Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000))
+  const remaining = Math.max(0, limit - used)
+  const when = kind === 'requests' ? `${retryAfterSec}초 후 다시 시도하세요.` : `UTC 자정(한국 시간 09:00)에 초기화됩니다.`
+  const hint =
+    `${cfg.label} 한도(${limit.toLocaleString()}${cfg.unit})를 초과했습니다. ` +
+    (remaining > 0 && requested > 1 ? `남은 양은 ${remaining.toLocaleString()}${cfg.unit}입니다. ` : '') +
+    when
+  return new Response(
+    JSON.stringify({ error: 'quota_exceeded', kind, limit, used, requested, reset_at: resetAt, retry_after_sec: retryAfterSec, hint }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8', 'retry-after': String(retryAfterSec) },
+    },
+  )
+}
+
+// amount만큼 사용량을 차감합니다. 한도를 넘으면 아무것도 기록하지 않고 429 응답을 돌려줍니다.
+// (amount = 0이면 남은 양이 있는지만 확인)
+async function consumeQuota(supabase: any, userId: string, kind: QuotaKind, amount: number): Promise<Response | null> {
+  const limit = getQuotaLimit(kind)
+  if (limit == null) return null
+  const res = await supabase.rpc('ytg_consume_quota', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_amount: amount,
+    p_limit: limit,
+    p_window: kind === 'requests' ? 'minute' : 'day',
+  })
+  if (res.error) return json({ error: res.error.message, hint: QUOTA_MIGRATION_HINT }, 500)
+  const row = Array.isArray(res.data) ? res.data[0] : res.data
+  if (row?.allowed) return null
+  console.warn('[ytg] quota 초과', { userId, kind, limit, used: row?.used, requested: amount })
+  return quotaExceeded(kind, limit, Number(row?.used ?? 0), amount, String(row?.window_end ?? nowIso()))
+}
+
+// 실제로 쓰지 않은 양을 되돌리거나(음수), 이미 시작된 작업의 사용량을 한도와 무관하게 기록합니다. (best-effort)
+async function recordQuota(supabase: any, userId: string, kind: QuotaKind, amount: number) {
+  if (!amount) return
+  const res = await supabase.rpc('ytg_consume_quota', { p_user_id: userId, p_kind: kind, p_amount: amount, p_limit: null, p_window: 'day' })
+  if (res.error) console.warn('[ytg] quota 기록 실패 (ignored)', { userId, kind, amount, msg: res.error.message })
 }
 
 type GenerateSceneImageResponse = {
@@ -186,7 +728,17 @@ async function claimSceneImageGeneration(args: { supabase: any; jobId: string; s
   return Array.isArray(upd.data) && upd.data.length > 0
 }
 
-async function runGenerate(jobId: string, sceneId: number, force: boolean) {
+// 프롬프트 출처: custom(요청에 담긴 값) | stored(저장된 image_prompt) | auto(visual_brief/mood/style로 만든 값)
+type PromptSource = 'custom' | 'stored' | 'auto'
+
+async function runGenerate(
+  jobId: string,
+  sceneId: number,
+  force: boolean,
+  promptOverride?: string,
+  negativeOverride?: string | null,
+  userId?: string | null,
+) {
   const supabase = getSupabaseServiceClient()
   const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
 
@@ -195,14 +747,17 @@ async function runGenerate(jobId: string, sceneId: number, force: boolean) {
 
   const sceneRes = await supabase
     .from('ytg_scenes')
-    .select('id, scene_id, image_url, image_prompt, visual_brief, mood, on_screen_text, image_gen_status, image_gen_started_at')
+    .select(
+      'id, scene_id, image_url, image_path, image_prompt, image_negative_prompt, visual_brief, mood, on_screen_text, image_gen_status, image_gen_started_at',
+    )
     .eq('job_id', jobId)
     .eq('scene_id', sceneId)
     .single()
   if (sceneRes.error) throw new Error(sceneRes.error.message)
 
+  // 비공개 버킷 모드에서는 image_url 없이 image_path만 저장됩니다.
   const existingUrl = sceneRes.data?.image_url ?? null
-  if (!force && existingUrl) {
+  if (!force && (existingUrl || sceneRes.data?.image_path)) {
     const out: GenerateSceneImageResponse = {
       job_id: jobId,
       scene_id: sceneId,
@@ -235,8 +790,12 @@ async function runGenerate(jobId: string, sceneId: number, force: boolean) {
     const style = (packager as any)?.style_guide ?? {}
     const topic = String((jobRes.data.input as any)?.topic_domain ?? 'topic').trim()
 
+    const customPrompt = String(promptOverride ?? '').trim()
+    const storedPrompt = String(sceneRes.data?.image_prompt ?? '').trim()
+    const promptSource: PromptSource = customPrompt ? 'custom' : storedPrompt ? 'stored' : 'auto'
     const prompt =
-      String(sceneRes.data?.image_prompt ?? '').trim() ||
+      customPrompt ||
+      storedPrompt ||
       [
         String(sceneRes.data?.visual_brief ?? '').trim() ||
           String(sceneRes.data?.on_screen_text ?? '').trim() ||
@@ -251,9 +810,26 @@ async function runGenerate(jobId: string, sceneId: number, force: boolean) {
         .trim()
 
     if (!prompt) throw new Error('이미지 프롬프트가 비어있습니다.')
+    const negative =
+      (negativeOverride !== undefined ? String(negativeOverride ?? '') : String(sceneRes.data?.image_negative_prompt ?? '')).trim() || null
+
+    const usage = createUsageRecorder(supabase, jobId)
+    const provider = getImageProvider(resolveProviderId((jobRes.data.input as any)?.provider), usage.sink)
+    const png = await provider.imagePng(withNegativePrompt(prompt, negative), {
+      scene_id: sceneId,
+      caption: String(sceneRes.data?.visual_brief ?? '').trim() || prompt,
+      platform_target: style.platform_target ?? null,
+    })
+    await usage.flush()
+
+    // 생성 도중 job이 취소되면(trendstory-cancel-job이 lock을 해제) 기존 이미지를 덮어쓰지 않습니다.
+    const lock = await supabase.from('ytg_scenes').select('image_gen_request_id').eq('job_id', jobId).eq('scene_id', sceneId).maybeSingle()
+    if (!lock.error && lock.data && lock.data.image_gen_request_id !== requestId) {
+      throw new Error('cancelled: 이미지 생성 lock이 해제되어 결과를 저장하지 않습니다.')
+    }
 
-    const png = await openaiImagePng(prompt)
-    const path = `jobs/${jobId}/scene-${String(sceneId).padStart(2, '0')}-${safeFilename(topic).slice(0, 48)}.png`
+    // take마다 다른 경로에 저장합니다. (덮어쓰지 않으므로 trendstory-select-scene-image로 예전 이미지를 다시 고를 수 있음)
+    const path = `jobs/${jobId}/scene-${String(sceneId).padStart(2, '0')}-${safeFilename(topic).slice(0, 48)}-${requestId.slice(0, 8)}.png`
 
     const up = await supabase.storage.from(bucket).upload(path, new Blob([toArrayBuffer(png)], { type: 'image/png' }), {
       contentType: 'image/png',
@@ -261,7 +837,7 @@ async function runGenerate(jobId: string, sceneId: number, force: boolean) {
     })
     if (up.error) throw new Error(up.error.message)
 
-    const publicUrl = supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+    const publicUrl = isPrivateStorage() ? null : supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
 
     const upd = await supabase
       .from('ytg_scenes')
@@ -269,6 +845,7 @@ async function runGenerate(jobId: string, sceneId: number, force: boolean) {
         image_path: path,
         image_url: publicUrl,
         image_prompt: prompt,
+        image_negative_prompt: negative,
         image_gen_status: 'SUCCEEDED',
         image_gen_error: null,
       })
@@ -276,13 +853,27 @@ async function runGenerate(jobId: string, sceneId: number, force: boolean) {
       .eq('scene_id', sceneId)
       .eq('image_gen_request_id', requestId)
     if (upd.error) throw new Error(upd.error.message)
+    // 씬 수정(trendstory-update-scene)으로 표시된 stale 플래그 해제 (best-effort, 마이그레이션 미적용이면 무시)
+    await supabase.from('ytg_scenes').update({ image_stale: false }).eq('job_id', jobId).eq('scene_id', sceneId).eq('image_gen_request_id', requestId)
 
     const insAsset = await supabase.from('ytg_assets').insert({
       job_id: jobId,
       type: 'image',
       path,
       url: publicUrl,
-      meta: { kind: 'scene', scene_id: sceneId, prompt, generated_at: nowIso(), request_id: requestId, force },
+      // 프롬프트 이력: 어떤 프롬프트로 이 이미지가 나왔는지 (JobPage 씬 카드의 "프롬프트 이력")
+      meta: {
+        kind: 'scene',
+        scene_id: sceneId,
+        prompt,
+        negative_prompt: negative,
+        prompt_source: promptSource,
+        user_id: userId ?? null,
+        provider: provider.id,
+        generated_at: nowIso(),
+        request_id: requestId,
+        force,
+      },
     })
     if (insAsset.error) {
       // best-effort
@@ -338,8 +929,45 @@ Deno.serve(async (req) => {
   if (!jobId) return json({ error: 'job_id is required' }, 400)
   if (!Number.isFinite(sceneId) || sceneId <= 0) return json({ error: 'scene_id is required' }, 400)
 
+  let promptOverride: string | undefined
+  let negativeOverride: string | null | undefined
+  // 직접 호출한 사용자 (워커의 task 실행은 retry-images가 큐에 넣을 때 이미 한도를 차감함)
+  let quotaUserId: string | null = null
+  if (payload._task) {
+    if (!isServiceRoleRequest(req)) {
+      return json({ error: 'forbidden', hint: 'task 실행은 trendstory-worker(service role)만 호출할 수 있습니다.' }, 403)
+    }
+    promptOverride = String(payload.prompt ?? '').trim() || undefined
+  } else {
+    const user = await getRequestUser(req)
+    if (!user) return unauthorized()
+    if (payload.prompt != null) {
+      if (typeof payload.prompt !== 'string') return json({ error: 'prompt must be a string' }, 400)
+      if (payload.prompt.trim().length > MAX_PROMPT_LENGTH) return json({ error: `prompt는 ${MAX_PROMPT_LENGTH}자 이하여야 합니다.` }, 400)
+      promptOverride = payload.prompt.trim() || undefined
+    }
+    if (payload.negative_prompt !== undefined) {
+      if (payload.negative_prompt !== null && typeof payload.negative_prompt !== 'string') {
+        return json({ error: 'negative_prompt must be a string' }, 400)
+      }
+      const v = (payload.negative_prompt ?? '').trim()
+      if (v.length > MAX_NEGATIVE_PROMPT_LENGTH) {
+        return json({ error: `negative_prompt는 ${MAX_NEGATIVE_PROMPT_LENGTH}자 이하여야 합니다.` }, 400)
+      }
+      negativeOverride = v || null
+    }
+    const service = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(service, jobId, user.id)
+    if (denied) return denied
+    const limited = (await consumeQuota(service, user.id, 'requests', 1)) ?? (await consumeQuota(service, user.id, 'images', 1))
+    if (limited) return limited
+    quotaUserId = user.id
+  }
+
   try {
-    const out = await runGenerate(jobId, sceneId, force)
+    const out = await runGenerate(jobId, sceneId, force, promptOverride, negativeOverride, quotaUserId)
+    // 실제로 이미지를 만들지 않은 경우(이미 있음/생성 중/실패)는 차감한 한도를 되돌립니다.
+    if (quotaUserId && out.status !== 'SUCCEEDED') await recordQuota(getSupabaseServiceClient(), quotaUserId, 'images', -1)
     // IN_PROGRESS는 UI에서 "이미 생성 중"으로 처리하면 되므로 202로 돌려줍니다.
     if (out.status === 'IN_PROGRESS') return json(out, 202)
     return json(out, 200)
@@ -350,10 +978,13 @@ Deno.serve(async (req) => {
         ? 'Supabase Dashboard → Edge Functions → Secrets 에서 OPENAI_API_KEY / SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY 등을 설정했는지 확인하세요.'
         : msg.includes('column') && msg.includes('image_gen_')
           ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-19_add_scene_image_generation_lock.sql 을 실행하세요.'
-          : msg.includes('relation') && msg.includes('ytg_')
-            ? 'DB 테이블/마이그레이션이 적용되었는지 확인하세요.'
-            : undefined
+          : msg.includes('image_negative_prompt')
+            ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-05_add_image_negative_prompt.sql 을 실행하세요.'
+            : msg.includes('relation') && msg.includes('ytg_')
+              ? 'DB 테이블/마이그레이션이 적용되었는지 확인하세요.'
+              : undefined
 
+    if (quotaUserId) await recordQuota(getSupabaseServiceClient(), quotaUserId, 'images', -1)
     console.error('[ytg] trendstory-generate-scene-image error', { jobId, sceneId, msg })
     return json({ error: msg, hint }, 500)
   }
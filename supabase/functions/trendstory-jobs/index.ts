@@ -39,7 +39,27 @@ function json(body: unknown, status = 200) {
   })
 }
 
-type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
 
 type JobListItem = {
   id: string
@@ -48,10 +68,86 @@ type JobListItem = {
   trace_id: string
   input: unknown
   error: string | null
+  cost_usd: number | null // ytg_usage 합계 (추정치, 기록 없으면 null)
+  unpriced_calls: number // 단가 미등록 모델 호출 수 (cost_usd 합계에서 빠짐)
+  deleted_at?: string | null // 휴지통 목록에서만
+  purge_after?: string | null // 이 시각 이후 sweeper가 완전히 삭제
+  tags: string[]
+  pinned: boolean
+  notes: string | null
 }
 
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
 type TrendStoryJobsResponse = {
   jobs: JobListItem[]
+  workspace_id: string | null // null이면 개인 job 목록
+  role: WorkspaceRole // 목록 기준 현재 사용자 역할 (개인 목록은 항상 owner)
+  trash: boolean // true면 휴지통 목록
+  trash_retention_days: number
+  next_cursor: string | null // 다음 페이지 (없으면 null)
+}
+
+// newest/oldest: 생성 시각 기준 (휴지통 목록은 삭제 시각 기준)
+type JobListSort = 'newest' | 'oldest'
+
+const JOB_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED']
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+const TAGS_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-01_add_job_tags_notes.sql 을 실행하세요.'
+
+const SEARCH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-31_add_job_search.sql 을 실행하세요.'
+
+// ---- 커서 / 필터 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 커서는 마지막 행의 (고정 여부, 정렬 컬럼 값, id)를 base64로 감싼 값입니다. 클라이언트는 그대로 돌려보내기만 합니다.
+type ListCursor = { p: boolean; v: string; id: string }
+
+function encodeCursor(c: ListCursor) {
+  return btoa(JSON.stringify(c))
+}
+
+function decodeCursor(raw: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(atob(raw))
+    if (typeof parsed?.v !== 'string' || typeof parsed?.id !== 'string') return null
+    if (Number.isNaN(Date.parse(parsed.v)) || !/^[0-9a-f-]{36}$/i.test(parsed.id)) return null
+    return { p: parsed.p === true, v: parsed.v, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
+// tags @> {...} 배열 리터럴 (공백/따옴표가 든 태그도 그대로 비교되도록 따옴표로 감쌈)
+function pgTextArrayLiteral(values: string[]) {
+  return `{${values.map((v) => `"${v.replace(/["\\]/g, (m) => `\\${m}`)}"`).join(',')}}`
+}
+
+// ILIKE 패턴의 와일드카드(% _ \)를 글자 그대로 찾도록 이스케이프
+function escapeLike(s: string) {
+  return s.replace(/[\\%_]/g, (m) => `\\${m}`)
+}
+
+// YYYY-MM-DD 또는 ISO 시각. to가 날짜만이면 그날 끝까지 포함하도록 다음 날 0시로 바꿉니다.
+function parseDateParam(raw: string | null, endOfDay: boolean): string | null | undefined {
+  const t = (raw ?? '').trim()
+  if (!t) return null
+  const ms = Date.parse(t)
+  if (Number.isNaN(ms)) return undefined
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(t)
+  return new Date(dateOnly && endOfDay ? ms + 86400_000 : ms).toISOString()
+}
+
+// 휴지통 보관 기간 (trendstory-delete-job / sweeper와 같은 env)
+function getTrashRetentionDays() {
+  const n = Number(Deno.env.get('YTG_TRASH_RETENTION_DAYS') ?? '30')
+  return Number.isFinite(n) ? Math.max(1, Math.min(Math.floor(n), 365)) : 30
 }
 
 Deno.serve(async (req) => {
@@ -63,17 +159,147 @@ Deno.serve(async (req) => {
   const url = new URL(req.url)
   const limitRaw = url.searchParams.get('limit') ?? '20'
   const limit = Math.max(1, Math.min(Number(limitRaw) || 20, 50))
+  const workspaceId = (url.searchParams.get('workspace_id') ?? '').trim() || null
+  const trash = ['1', 'true'].includes(url.searchParams.get('trash') ?? '')
+
+  // 필터 / 정렬 / 커서
+  const sortRaw = (url.searchParams.get('sort') ?? 'newest').trim()
+  if (sortRaw !== 'newest' && sortRaw !== 'oldest') return json({ error: 'sort must be one of: newest, oldest' }, 400)
+  const sort: JobListSort = sortRaw
+  const statuses = (url.searchParams.get('status') ?? '')
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean)
+  if (statuses.some((s) => !(JOB_STATUSES as string[]).includes(s))) {
+    return json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` }, 400)
+  }
+  const language = (url.searchParams.get('language') ?? '').trim()
+  const audience = (url.searchParams.get('audience') ?? '').trim()
+  const from = parseDateParam(url.searchParams.get('from'), false)
+  const to = parseDateParam(url.searchParams.get('to'), true)
+  if (from === undefined || to === undefined) return json({ error: 'from/to must be YYYY-MM-DD or ISO datetime' }, 400)
+  // 검색어는 공백으로 나눠 모두 포함(AND)하는 job만
+  const terms = (url.searchParams.get('q') ?? '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 5)
+  // 태그: 쉼표로 여러 개, 모두 가진 job만 (대소문자 구분)
+  const tags = (url.searchParams.get('tag') ?? '')
+    .split(',')
+    .map((t) => t.trim().replace(/^#+/, ''))
+    .filter(Boolean)
+    .slice(0, 10)
+  const pinnedOnly = ['1', 'true'].includes(url.searchParams.get('pinned') ?? '')
+  const cursorRaw = (url.searchParams.get('cursor') ?? '').trim()
+  const cursor = cursorRaw ? decodeCursor(cursorRaw) : null
+  if (cursorRaw && !cursor) return json({ error: 'Invalid cursor', hint: '목록을 처음부터 다시 불러오세요.' }, 400)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
 
+  // 사용자 JWT로 조회하므로 RLS가 볼 수 있는 job만 돌려주지만, 정책 누락에 대비해 조건도 명시합니다.
+  // - workspace_id 있음: 그 워크스페이스의 job (멤버만)
+  // - 없음: 워크스페이스에 속하지 않은 본인 job
   const supabase = getSupabaseAnonClient(req)
-  const res = await supabase
-    .from('ytg_jobs')
-    .select('id, created_at, status, trace_id, input, error')
-    .order('created_at', { ascending: false })
-    .limit(limit)
+  let role: WorkspaceRole = 'owner'
+  if (workspaceId) {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    if (!member.data) return json({ error: 'Workspace not found' }, 404)
+    role = member.data.role as WorkspaceRole
+  }
+
+  let query = supabase.from('ytg_jobs').select('id, created_at, status, trace_id, input, error, deleted_at, tags, pinned, notes')
+  query = workspaceId ? query.eq('workspace_id', workspaceId) : query.eq('owner_id', user.id).is('workspace_id', null)
+  // 휴지통: 삭제 시각 기준 / 기본 목록: 휴지통 제외, 생성 시각 기준
+  query = trash ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null)
+  if (statuses.length > 0) query = query.in('status', statuses)
+  if (language) query = query.eq('input->>language', language)
+  if (audience) query = query.ilike('input->>audience', `%${escapeLike(audience)}%`)
+  if (from) query = query.gte('created_at', from)
+  if (to) query = query.lt('created_at', to)
+  for (const term of terms) query = query.ilike('search_text', `%${escapeLike(term)}%`)
+  if (tags.length > 0) query = query.filter('tags', 'cs', pgTextArrayLiteral(tags))
+  if (pinnedOnly) query = query.eq('pinned', true)
+
+  // 커서 페이지네이션: (고정 여부, 정렬 컬럼, id) 기준으로 마지막 행 다음부터
+  // 기본 목록은 즐겨찾기(pinned)를 정렬과 상관없이 맨 위에 둡니다. 휴지통은 삭제 시각 순서만.
+  const sortColumn = trash ? 'deleted_at' : 'created_at'
+  const ascending = sort === 'oldest'
+  const pinFirst = !trash
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt'
+    const after = `${sortColumn}.${op}."${cursor.v}",and(${sortColumn}.eq."${cursor.v}",id.${op}.${cursor.id})`
+    if (!pinFirst) query = query.or(after)
+    else if (cursor.p) query = query.or(`pinned.eq.false,and(pinned.eq.true,or(${after}))`)
+    else query = query.eq('pinned', false).or(after)
+  }
+  if (pinFirst) query = query.order('pinned', { ascending: false })
+  // 다음 페이지 유무를 알기 위해 1개 더 조회
+  const res = await query.order(sortColumn, { ascending }).order('id', { ascending }).limit(limit + 1)
+
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('search_text')
+      ? SEARCH_MIGRATION_HINT
+      : msg.includes('tags') || msg.includes('pinned') || msg.includes('notes')
+        ? TAGS_MIGRATION_HINT
+        : msg.includes('deleted_at')
+          ? TRASH_MIGRATION_HINT
+          : msg.includes('workspace_id')
+            ? WORKSPACE_MIGRATION_HINT
+            : msg.includes('owner_id')
+              ? OWNERSHIP_MIGRATION_HINT
+              : undefined
+    return json({ error: msg, hint }, 500)
+  }
+
+  const hasMore = (res.data ?? []).length > limit
+  const rows = (res.data ?? []).slice(0, limit)
+  const last = rows[rows.length - 1]
+  const nextCursor = hasMore && last ? encodeCursor({ p: Boolean(last.pinned), v: String(last[sortColumn]), id: String(last.id) }) : null
 
-  if (res.error) return json({ error: res.error.message }, 500)
+  // job별 비용 합계 (best-effort: ytg_usage 조회 실패 시 null)
+  const costByJob = new Map<string, { cost: number; unpriced: number }>()
+  if (rows.length > 0) {
+    const usageRes = await supabase
+      .from('ytg_usage')
+      .select('job_id, cost_usd')
+      .in('job_id', rows.map((r: any) => r.id))
+    if (usageRes.error) {
+      console.warn('[ytg] ytg_usage 조회 실패(무시)', { error: usageRes.error.message })
+    } else {
+      for (const u of usageRes.data ?? []) {
+        const agg = costByJob.get(u.job_id) ?? { cost: 0, unpriced: 0 }
+        if (u.cost_usd == null) agg.unpriced++
+        else agg.cost += Number(u.cost_usd) || 0
+        costByJob.set(u.job_id, agg)
+      }
+    }
+  }
 
-  const body: TrendStoryJobsResponse = { jobs: (res.data ?? []) as JobListItem[] }
+  const retentionDays = getTrashRetentionDays()
+  const body: TrendStoryJobsResponse = {
+    jobs: rows.map((r: any) => ({
+      ...r,
+      cost_usd: costByJob.has(r.id) ? costByJob.get(r.id)!.cost : null,
+      unpriced_calls: costByJob.get(r.id)?.unpriced ?? 0,
+      tags: r.tags ?? [],
+      pinned: Boolean(r.pinned),
+      purge_after: r.deleted_at ? new Date(Date.parse(r.deleted_at) + retentionDays * 86400_000).toISOString() : null,
+    })) as JobListItem[],
+    workspace_id: workspaceId,
+    role,
+    trash,
+    trash_retention_days: retentionDays,
+    next_cursor: nextCursor,
+  }
   return json(body, 200)
 })
 
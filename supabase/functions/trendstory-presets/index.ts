@@ -0,0 +1,285 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'GET, POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const PRESET_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-02_add_generation_presets.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// ---- 생성 옵션 / 프리셋 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 지정한 값은 AutoConfig가 반드시 지켜야 하는 조건입니다. (비워 두면 AutoConfig가 정함)
+type PlatformTarget = 'youtube_16_9' | 'shorts_9_16' | 'square_1_1'
+
+const PLATFORM_TARGETS: PlatformTarget[] = ['youtube_16_9', 'shorts_9_16', 'square_1_1']
+
+type GenerationOptions = {
+  tone?: string
+  visual_style?: string
+  main_character_hint?: string
+  platform_target?: PlatformTarget
+  scene_count_min?: number // 1~12
+  scene_count_max?: number // 1~12
+  duration_min?: number // 영상 길이(분), 1~60
+  tts_voice?: string // TTS voice (예: alloy, nova). fixture provider는 무시
+  extra_prompt?: string // input_as_text 앞에 붙는 추가 지시사항
+}
+
+const OPTION_TEXT_LIMITS = { tone: 40, visual_style: 200, main_character_hint: 200, extra_prompt: 2000 } as const
+
+// 빈 값은 빼고, 범위를 벗어나면 오류 메시지를 돌려줍니다.
+function normalizeGenerationOptions(raw: unknown): { options: GenerationOptions } | { error: string } {
+  if (raw == null) return { options: {} }
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'options must be an object' }
+  const o = raw as Record<string, unknown>
+  const out: GenerationOptions = {}
+
+  for (const key of Object.keys(OPTION_TEXT_LIMITS) as Array<keyof typeof OPTION_TEXT_LIMITS>) {
+    if (o[key] == null) continue
+    if (typeof o[key] !== 'string') return { error: `options.${key} must be a string` }
+    const v = (o[key] as string).trim()
+    if (v.length > OPTION_TEXT_LIMITS[key]) return { error: `options.${key}는 ${OPTION_TEXT_LIMITS[key]}자 이하여야 합니다.` }
+    if (v) out[key] = v
+  }
+
+  if (o.platform_target != null && o.platform_target !== '') {
+    if (!PLATFORM_TARGETS.includes(o.platform_target as PlatformTarget)) {
+      return { error: `options.platform_target must be one of: ${PLATFORM_TARGETS.join(', ')}` }
+    }
+    out.platform_target = o.platform_target as PlatformTarget
+  }
+
+  for (const key of ['scene_count_min', 'scene_count_max'] as const) {
+    if (o[key] == null || o[key] === '') continue
+    const n = Number(o[key])
+    if (!Number.isInteger(n) || n < 1 || n > 12) return { error: `options.${key} must be an integer between 1 and 12` }
+    out[key] = n
+  }
+  if (out.scene_count_min != null && out.scene_count_max != null && out.scene_count_min > out.scene_count_max) {
+    return { error: 'options.scene_count_min must be <= scene_count_max' }
+  }
+
+  if (o.duration_min != null && o.duration_min !== '') {
+    const n = Number(o.duration_min)
+    if (!Number.isFinite(n) || n < 1 || n > 60) return { error: 'options.duration_min must be between 1 and 60' }
+    out.duration_min = n
+  }
+
+  if (o.tts_voice != null && o.tts_voice !== '') {
+    const v = String(o.tts_voice).trim()
+    if (!/^[a-zA-Z0-9_-]{1,40}$/.test(v)) return { error: 'options.tts_voice must be a voice name (영문/숫자/-/_)' }
+    out.tts_voice = v
+  }
+  return { options: out }
+}
+
+type Preset = {
+  id: string
+  name: string
+  workspace_id: string | null // null이면 개인 프리셋
+  owner_id: string
+  options: GenerationOptions
+  created_at: string
+  updated_at: string
+  can_edit: boolean
+}
+
+type PresetsRequest =
+  | { action: 'create'; name: string; options: GenerationOptions; workspace_id?: string | null }
+  | { action: 'update'; preset_id: string; name?: string; options?: GenerationOptions }
+  | { action: 'delete'; preset_id: string }
+
+class HttpError extends Error {
+  status: number
+  hint?: string
+  constructor(status: number, message: string, hint?: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.hint = hint
+  }
+}
+
+const PRESET_COLUMNS = 'id, name, workspace_id, owner_id, options, created_at, updated_at'
+
+async function getMemberRole(supabase: any, workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const res = await supabase
+    .from('ytg_workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (res.error) throw new Error(res.error.message)
+  return (res.data?.role as WorkspaceRole | undefined) ?? null
+}
+
+// 개인 프리셋은 만든 사람만, 워크스페이스 프리셋은 owner/editor만 수정합니다.
+function canEditPreset(row: any, userId: string, role: WorkspaceRole | null) {
+  return row.workspace_id ? role === 'owner' || role === 'editor' : row.owner_id === userId
+}
+
+function normalizeName(raw: unknown) {
+  const name = String(raw ?? '').trim()
+  if (!name || name.length > 60) throw new HttpError(400, 'name is required (1~60자)')
+  return name
+}
+
+function parseOptions(raw: unknown): GenerationOptions {
+  const normalized = normalizeGenerationOptions(raw)
+  if ('error' in normalized) throw new HttpError(400, normalized.error)
+  return normalized.options
+}
+
+// 개인 프리셋 + (workspace_id가 있으면) 그 워크스페이스의 프리셋
+async function listPresets(supabase: any, userId: string, workspaceId: string | null): Promise<Preset[]> {
+  let role: WorkspaceRole | null = null
+  if (workspaceId) {
+    role = await getMemberRole(supabase, workspaceId, userId)
+    if (!role) throw new HttpError(404, 'Workspace not found')
+  }
+  const filter = workspaceId
+    ? `and(workspace_id.is.null,owner_id.eq.${userId}),workspace_id.eq.${workspaceId}`
+    : `and(workspace_id.is.null,owner_id.eq.${userId})`
+  const res = await supabase.from('ytg_presets').select(PRESET_COLUMNS).or(filter).order('name', { ascending: true })
+  if (res.error) throw new Error(res.error.message)
+  return (res.data ?? []).map((r: any) => ({ ...r, can_edit: canEditPreset(r, userId, r.workspace_id ? role : null) }))
+}
+
+async function loadEditablePreset(supabase: any, presetId: string, userId: string) {
+  const res = await supabase.from('ytg_presets').select(PRESET_COLUMNS).eq('id', presetId).maybeSingle()
+  if (res.error) throw new Error(res.error.message)
+  const row = res.data
+  const role = row?.workspace_id ? await getMemberRole(supabase, row.workspace_id, userId) : null
+  // 볼 수 없는 프리셋은 존재 여부도 드러내지 않도록 404
+  if (!row || (row.workspace_id ? !role : row.owner_id !== userId)) throw new HttpError(404, 'Preset not found')
+  if (!canEditPreset(row, userId, role)) {
+    throw new HttpError(403, 'forbidden', '워크스페이스 프리셋은 owner/editor만 수정할 수 있습니다.')
+  }
+  return row
+}
+
+async function handleAction(supabase: any, userId: string, payload: PresetsRequest) {
+  if (payload?.action === 'create') {
+    const name = normalizeName(payload.name)
+    const options = parseOptions(payload.options)
+    const workspaceId = String(payload.workspace_id ?? '').trim() || null
+    if (workspaceId) {
+      const role = await getMemberRole(supabase, workspaceId, userId)
+      if (!role) throw new HttpError(404, 'Workspace not found')
+      if (role === 'viewer') throw new HttpError(403, 'forbidden', 'viewer 권한으로는 워크스페이스 프리셋을 만들 수 없습니다.')
+    }
+    const ins = await supabase
+      .from('ytg_presets')
+      .insert({ name, options, owner_id: userId, workspace_id: workspaceId })
+      .select(PRESET_COLUMNS)
+      .single()
+    if (ins.error) throw new Error(ins.error.message)
+    console.log('[ytg] 프리셋 생성', { preset_id: ins.data.id, workspace_id: workspaceId, userId })
+    return { preset: { ...ins.data, can_edit: true } }
+  }
+
+  if (payload?.action === 'update') {
+    const presetId = String(payload.preset_id ?? '').trim()
+    if (!presetId) throw new HttpError(400, 'preset_id is required')
+    await loadEditablePreset(supabase, presetId, userId)
+    const patch: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (payload.name != null) patch.name = normalizeName(payload.name)
+    if (payload.options != null) patch.options = parseOptions(payload.options)
+    const upd = await supabase.from('ytg_presets').update(patch).eq('id', presetId).select(PRESET_COLUMNS).single()
+    if (upd.error) throw new Error(upd.error.message)
+    return { preset: { ...upd.data, can_edit: true } }
+  }
+
+  if (payload?.action === 'delete') {
+    const presetId = String(payload.preset_id ?? '').trim()
+    if (!presetId) throw new HttpError(400, 'preset_id is required')
+    await loadEditablePreset(supabase, presetId, userId)
+    const del = await supabase.from('ytg_presets').delete().eq('id', presetId)
+    if (del.error) throw new Error(del.error.message)
+    console.log('[ytg] 프리셋 삭제', { preset_id: presetId, userId })
+    return { deleted: presetId }
+  }
+
+  throw new HttpError(400, 'action must be one of: create, update, delete')
+}
+
+// GET: 내 프리셋 목록 (?workspace_id=... 이면 그 워크스페이스 프리셋도 함께)
+// POST: { action: 'create' | 'update' | 'delete', ... }
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'GET' && req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    const supabase = getSupabaseServiceClient()
+
+    if (req.method === 'GET') {
+      const workspaceId = (new URL(req.url).searchParams.get('workspace_id') ?? '').trim() || null
+      return json({ presets: await listPresets(supabase, user.id, workspaceId) }, 200)
+    }
+
+    let payload: PresetsRequest
+    try {
+      payload = (await req.json()) as PresetsRequest
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400)
+    }
+    return json(await handleAction(supabase, user.id, payload), 200)
+  } catch (e: any) {
+    if (e instanceof HttpError) return json({ error: e.message, hint: e.hint }, e.status)
+    const msg = e?.message ?? String(e)
+    const hint = msg.includes('ytg_presets') ? PRESET_MIGRATION_HINT : undefined
+    console.error('[ytg] trendstory-presets error', { msg })
+    return json({ error: msg, hint }, 500)
+  }
+})
@@ -0,0 +1,158 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'GET, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+// 관리자: YTG_ADMIN_EMAILS(쉼표 구분)에 등록된 이메일
+function isAdmin(email: string | null) {
+  if (!email) return false
+  const admins = (Deno.env.get('YTG_ADMIN_EMAILS') ?? '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+  return admins.includes(email.toLowerCase())
+}
+
+const QUOTA_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-28_add_usage_quotas.sql 을 실행하세요.'
+
+type DailyQuotaKind = 'jobs' | 'images' | 'tts_chars'
+
+const DAILY_KINDS: DailyQuotaKind[] = ['jobs', 'images', 'tts_chars']
+
+// trendstory-start 등과 같은 기본값 (0이면 제한 없음 → null)
+function getQuotaLimits() {
+  const read = (name: string, fallback: number) => {
+    const raw = Number(Deno.env.get(name) ?? fallback)
+    const n = Number.isFinite(raw) ? Math.floor(raw) : fallback
+    return n > 0 ? n : null
+  }
+  return {
+    jobs: read('YTG_QUOTA_JOBS_PER_DAY', 20),
+    images: read('YTG_QUOTA_IMAGES_PER_DAY', 100),
+    tts_chars: read('YTG_QUOTA_TTS_CHARS_PER_DAY', 50000),
+    requests_per_minute: read('YTG_RATE_LIMIT_PER_MINUTE', 30),
+  }
+}
+
+type QuotaUsage = Record<DailyQuotaKind, number>
+
+type QuotaUserRow = QuotaUsage & {
+  user_id: string
+  email: string | null
+  updated_at: string | null
+}
+
+// ?day=YYYY-MM-DD (UTC). 없으면 오늘
+function resolveDay(raw: string | null) {
+  const today = new Date().toISOString().slice(0, 10)
+  const day = raw && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? raw : today
+  const start = new Date(`${day}T00:00:00.000Z`)
+  return { day, startIso: start.toISOString(), resetAt: new Date(start.getTime() + 86400_000).toISOString() }
+}
+
+// GET: 내 오늘 사용량과 한도
+// GET ?scope=all[&day=YYYY-MM-DD]: (관리자) 사용자별 사용량
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'GET') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    const supabase = getSupabaseServiceClient()
+    const url = new URL(req.url)
+    const scope = url.searchParams.get('scope') === 'all' ? 'all' : 'me'
+    const admin = isAdmin(user.email)
+    const { day, startIso, resetAt } = resolveDay(url.searchParams.get('day'))
+    const limits = getQuotaLimits()
+
+    if (scope === 'all' && !admin) {
+      return json({ error: 'forbidden', hint: '관리자만 볼 수 있습니다. (Secrets의 YTG_ADMIN_EMAILS에 이메일을 추가하세요)' }, 403)
+    }
+
+    let q = supabase
+      .from('ytg_quota_counters')
+      .select('user_id, kind, amount, updated_at')
+      .eq('window_start', startIso)
+      .in('kind', DAILY_KINDS)
+    if (scope === 'me') q = q.eq('user_id', user.id)
+    const res = await q
+    if (res.error) return json({ error: res.error.message, hint: QUOTA_MIGRATION_HINT }, 500)
+
+    const byUser = new Map<string, QuotaUserRow>()
+    for (const r of res.data ?? []) {
+      const row = byUser.get(r.user_id) ?? { user_id: r.user_id, email: null, jobs: 0, images: 0, tts_chars: 0, updated_at: null }
+      row[r.kind as DailyQuotaKind] = Number(r.amount ?? 0)
+      if (!row.updated_at || String(r.updated_at) > row.updated_at) row.updated_at = r.updated_at
+      byUser.set(r.user_id, row)
+    }
+
+    if (scope === 'me') {
+      const mine = byUser.get(user.id)
+      const usage: QuotaUsage = { jobs: mine?.jobs ?? 0, images: mine?.images ?? 0, tts_chars: mine?.tts_chars ?? 0 }
+      return json({ day, reset_at: resetAt, is_admin: admin, limits, usage }, 200)
+    }
+
+    const users = Array.from(byUser.values())
+    // 이메일은 auth.users에만 있으므로 admin API로 조회 (하루 사용자 수가 적다는 가정)
+    for (const u of users) {
+      const r = await supabase.auth.admin.getUserById(u.user_id)
+      u.email = r.data?.user?.email ?? null
+    }
+    users.sort((a, b) => b.jobs - a.jobs || b.images - a.images || b.tts_chars - a.tts_chars)
+    return json({ day, reset_at: resetAt, limits, users }, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    console.error('[ytg] trendstory-quota error', { msg })
+    return json({ error: msg }, 500)
+  }
+})
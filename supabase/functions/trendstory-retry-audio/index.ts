@@ -39,6 +39,11 @@ function nowIso() {
   return new Date().toISOString()
 }
 
+// YTG_STORAGE_PRIVATE=true면 버킷이 비공개이므로 URL은 저장하지 않고 경로만 남깁니다. (trendstory-status가 signed URL을 만듦)
+function isPrivateStorage() {
+  return (Deno.env.get('YTG_STORAGE_PRIVATE') ?? '').trim().toLowerCase() === 'true'
+}
+
 function ensureRuntime(packager: any) {
   if (!packager) return null
   if (!packager._runtime) packager._runtime = {}
@@ -55,40 +60,538 @@ function pushRuntimeLog(packager: any, level: 'info' | 'warn' | 'error', msg: st
   else console.log('[ytg]', payload)
 }
 
-async function openaiTtsMp3(input: string): Promise<Uint8Array> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const model = Deno.env.get('OPENAI_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts'
-  const voice = Deno.env.get('OPENAI_TTS_VOICE')?.trim() || 'alloy'
-  const res = await fetch('https://api.openai.com/v1/audio/speech', {
+// ---- TTS provider (trendstory-start의 provider 레이어와 동일한 규칙, 단일 파일 배포를 위해 index.ts에 포함) ----
+type ProviderId = 'openai' | 'openai_compatible' | 'fake'
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'openai_compatible', 'fake']
+
+type TtsAudio = {
+  bytes: Uint8Array
+  contentType: string
+  ext: string
+}
+
+// fake(= fixture 모드)는 hint의 duration_sec 길이만큼 톤 WAV를 만듭니다.
+type TtsHint = {
+  scene_id?: number
+  duration_sec?: number | null
+}
+
+type TtsProvider = {
+  id: ProviderId
+  ttsModel: string
+  ttsVoice: string
+  tts(input: string, hint?: TtsHint): Promise<TtsAudio>
+}
+
+type TtsEndpointConfig = {
+  baseUrl: string
+  apiKey: string
+  ttsModel: string
+  ttsVoice: string
+}
+
+function isFixtureMode() {
+  const v = (Deno.env.get('YTG_FIXTURE_MODE') ?? '').trim().toLowerCase()
+  return v === '1' || v === 'true' || v === 'yes'
+}
+
+function resolveProviderId(requested?: string | null): ProviderId {
+  if (isFixtureMode()) return 'fake'
+  const fromJob = (requested ?? '').trim()
+  if ((PROVIDER_IDS as string[]).includes(fromJob)) return fromJob as ProviderId
+  const fromEnv = (Deno.env.get('YTG_PROVIDER') ?? '').trim()
+  if ((PROVIDER_IDS as string[]).includes(fromEnv)) return fromEnv as ProviderId
+  return 'openai'
+}
+
+// ---- 사용량/비용 집계 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 유료 호출(텍스트/이미지/TTS) 1회당 ytg_usage에 1행을 기록합니다.
+// 비용은 가격표 기반 추정치(USD)이며, YTG_PRICE_TABLE(JSON)로 모델별 단가를 덮어쓸 수 있습니다.
+type UsageKind = 'text' | 'image' | 'tts'
+
+// openai* 함수가 측정하는 값 (호출 1회 기준)
+type UsageMeasure = {
+  model: string
+  input_tokens?: number
+  output_tokens?: number
+  image_count?: number
+  image_size?: string | null
+  tts_chars?: number
+}
+
+type UsageMeter = (m: UsageMeasure) => void
+
+type UsageEvent = UsageMeasure & {
+  kind: UsageKind
+  op: string // autoconfig | packager | scene_image | scene_tts
+  provider: ProviderId
+  scene_id?: number | null
+}
+
+type UsageSink = (e: UsageEvent) => void
+
+type PriceTable = {
+  text: Record<string, { input_per_1m: number; output_per_1m: number }>
+  image: Record<string, Record<string, number>> // size별 장당 단가, 'default'는 size 미등록 시 사용
+  tts: Record<string, { per_1m_chars: number }>
+}
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  text: {
+    'gpt-5.2': { input_per_1m: 1.75, output_per_1m: 14 },
+    'gpt-4o-mini': { input_per_1m: 0.15, output_per_1m: 0.6 },
+    'gpt-4o': { input_per_1m: 2.5, output_per_1m: 10 },
+  },
+  image: {
+    'gpt-image-1-mini': { default: 0.011, '1024x1024': 0.011, '1536x1024': 0.015, '1024x1536': 0.015 },
+    'gpt-image-1': { default: 0.042, '1024x1024': 0.042, '1536x1024': 0.063, '1024x1536': 0.063 },
+    'dall-e-3': { default: 0.04, '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+  },
+  tts: {
+    'gpt-4o-mini-tts': { per_1m_chars: 15 },
+    'tts-1': { per_1m_chars: 15 },
+    'tts-1-hd': { per_1m_chars: 30 },
+  },
+}
+
+function getPriceTable(): PriceTable {
+  const raw = Deno.env.get('YTG_PRICE_TABLE')?.trim()
+  if (!raw) return DEFAULT_PRICE_TABLE
+  try {
+    const j = JSON.parse(raw)
+    return {
+      text: { ...DEFAULT_PRICE_TABLE.text, ...(j?.text ?? {}) },
+      image: { ...DEFAULT_PRICE_TABLE.image, ...(j?.image ?? {}) },
+      tts: { ...DEFAULT_PRICE_TABLE.tts, ...(j?.tts ?? {}) },
+    }
+  } catch (e: any) {
+    console.warn('[ytg] YTG_PRICE_TABLE 파싱 실패, 기본 단가 사용', { error: e?.message ?? String(e) })
+    return DEFAULT_PRICE_TABLE
+  }
+}
+
+// 가격표에 없는 모델이면 null (UI에서 "단가 미등록"으로 표시)
+function estimateCostUsd(e: UsageEvent, prices: PriceTable): number | null {
+  if (e.provider === 'fake') return 0
+  if (e.kind === 'text') {
+    const p = prices.text[e.model]
+    if (!p) return null
+    return ((e.input_tokens ?? 0) * p.input_per_1m + (e.output_tokens ?? 0) * p.output_per_1m) / 1_000_000
+  }
+  if (e.kind === 'image') {
+    const p = prices.image[e.model]
+    const unit = p ? (p[e.image_size ?? ''] ?? p.default) : undefined
+    if (unit == null) return null
+    return unit * (e.image_count ?? 1)
+  }
+  const p = prices.tts[e.model]
+  if (!p) return null
+  return ((e.tts_chars ?? 0) * p.per_1m_chars) / 1_000_000
+}
+
+// best-effort 기록: 사용량 기록 실패가 생성 작업을 실패시키지 않도록 합니다.
+function createUsageRecorder(supabase: ReturnType<typeof createClient>, jobId: string) {
+  const prices = getPriceTable()
+  const pending: Array<Promise<unknown>> = []
+  const sink: UsageSink = (e) => {
+    const row = {
+      job_id: jobId,
+      kind: e.kind,
+      op: e.op,
+      provider: e.provider,
+      model: e.model,
+      scene_id: e.scene_id ?? null,
+      input_tokens: e.input_tokens ?? null,
+      output_tokens: e.output_tokens ?? null,
+      image_count: e.image_count ?? null,
+      image_size: e.image_size ?? null,
+      tts_chars: e.tts_chars ?? null,
+      cost_usd: estimateCostUsd(e, prices),
+    }
+    pending.push(
+      Promise.resolve(supabase.from('ytg_usage').insert(row)).then((r: any) => {
+        if (r?.error) console.warn('[ytg] ytg_usage 기록 실패(무시)', { jobId, error: r.error.message, row })
+      }),
+    )
+  }
+  return { sink, flush: () => Promise.allSettled(pending.splice(0)) }
+}
+
+function usageMeter(onUsage: UsageSink | undefined, kind: UsageKind, op: string, provider: ProviderId, sceneId?: number): UsageMeter | undefined {
+  if (!onUsage) return undefined
+  return (m) => onUsage({ ...m, kind, op, provider, scene_id: sceneId ?? null })
+}
+
+// voiceOverride: job 입력의 options.tts_voice (프리셋). fixture provider는 무시합니다.
+function getTtsProvider(id: ProviderId, onUsage?: UsageSink, voiceOverride?: string): TtsProvider {
+  if (id === 'fake') {
+    return {
+      id,
+      ttsModel: 'fixture-tone',
+      ttsVoice: 'sine',
+      tts: async (input: string, hint?: TtsHint) => {
+        const audio = fixtureTts(input, hint)
+        usageMeter(onUsage, 'tts', 'scene_tts', id, hint?.scene_id)?.({ model: 'fixture-tone', tts_chars: input.length })
+        return audio
+      },
+    }
+  }
+  const cfg: TtsEndpointConfig =
+    id === 'openai_compatible'
+      ? {
+          baseUrl: requireEnv('YTG_LLM_BASE_URL').trim().replace(/\/$/, ''),
+          apiKey: Deno.env.get('YTG_LLM_API_KEY')?.trim() ?? '',
+          ttsModel: Deno.env.get('YTG_LLM_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts',
+          ttsVoice: Deno.env.get('YTG_LLM_TTS_VOICE')?.trim() || 'alloy',
+        }
+      : {
+          baseUrl: 'https://api.openai.com/v1',
+          apiKey: requireEnv('OPENAI_API_KEY'),
+          ttsModel: Deno.env.get('OPENAI_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts',
+          ttsVoice: Deno.env.get('OPENAI_TTS_VOICE')?.trim() || 'alloy',
+        }
+  if (voiceOverride) cfg.ttsVoice = voiceOverride
+  return {
+    id,
+    ttsModel: cfg.ttsModel,
+    ttsVoice: cfg.ttsVoice,
+    tts: async (input: string, hint?: TtsHint) => ({
+      bytes: await openaiTtsMp3(cfg, input, usageMeter(onUsage, 'tts', 'scene_tts', id, hint?.scene_id)),
+      contentType: 'audio/mpeg',
+      ext: 'mp3',
+    }),
+  }
+}
+
+async function openaiTtsMp3(cfg: TtsEndpointConfig, input: string, meter?: UsageMeter): Promise<Uint8Array> {
+  const res = await fetch(`${cfg.baseUrl}/audio/speech`, {
     method: 'POST',
-    headers: { authorization: `Bearer ${apiKey}`, 'content-type': 'application/json' },
-    body: JSON.stringify({ model, voice, format: 'mp3', input }),
+    headers: {
+      'content-type': 'application/json',
+      ...(cfg.apiKey ? { authorization: `Bearer ${cfg.apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model: cfg.ttsModel, voice: cfg.ttsVoice, format: 'mp3', input }),
   })
   if (!res.ok) throw new Error(`OpenAI TTS error (${res.status}): ${await res.text()}`)
   const ab = await res.arrayBuffer()
+  meter?.({ model: cfg.ttsModel, tts_chars: input.length })
   return new Uint8Array(ab)
 }
 
+// ---- fixture 오디오: 씬 길이만큼의 사인파 톤 WAV ----
+function toneWav(seconds: number, frequency: number, sampleRate = 8000) {
+  // 8-bit mono PCM, 앞뒤 50ms 페이드로 클릭 노이즈 방지
+  const samples = Math.max(1, Math.round(seconds * sampleRate))
+  const fade = Math.min(Math.round(sampleRate * 0.05), Math.floor(samples / 2))
+  const buf = new Uint8Array(44 + samples)
+  const view = new DataView(buf.buffer)
+  const ascii = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) buf[offset + i] = s.charCodeAt(i)
+  }
+  ascii(0, 'RIFF')
+  view.setUint32(4, 36 + samples, true)
+  ascii(8, 'WAVE')
+  ascii(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate, true)
+  view.setUint16(32, 1, true)
+  view.setUint16(34, 8, true)
+  ascii(36, 'data')
+  view.setUint32(40, samples, true)
+  for (let i = 0; i < samples; i++) {
+    const env = fade > 0 ? Math.min(1, i / fade, (samples - 1 - i) / fade) : 1
+    buf[44 + i] = 128 + Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 48 * env)
+  }
+  return buf
+}
+
+function fixtureTts(input: string, hint?: TtsHint): TtsAudio {
+  // duration_sec가 있으면 그 길이, 없으면 글자 수로 추정(대략 초당 8자)
+  const seconds = Number(hint?.duration_sec) > 0 ? Number(hint!.duration_sec) : Math.ceil(input.length / 8)
+  const sceneId = Number(hint?.scene_id ?? 0) || 0
+  return {
+    bytes: toneWav(Math.max(1, Math.min(seconds, 120)), 220 + (sceneId % 8) * 55),
+    contentType: 'audio/wav',
+    ext: 'wav',
+  }
+}
+
+function pickJwtKey(keys: Array<string | null | undefined>) {
+  for (const k of keys) {
+    const t = (k ?? '').trim()
+    if (!t) continue
+    if (t.split('.').length >= 3) return t
+  }
+  for (const k of keys) {
+    const t = (k ?? '').trim()
+    if (t) return t
+  }
+  return ''
+}
+
+function buildEdgeFunctionAuthHeaders(key: string) {
+  const t = (key ?? '').trim()
+  if (!t) return { ok: false, headers: { 'content-type': 'application/json' } as Record<string, string>, jwtLike: false }
+  const jwtLike = t.split('.').length >= 3
+  const headers: Record<string, string> = { apikey: t, 'content-type': 'application/json' }
+  if (jwtLike) headers.Authorization = `Bearer ${t}`
+  return { ok: true, headers, jwtLike }
+}
+
+
+// ---- 작업 큐 (ytg_tasks) ----
+// 파이프라인 단계/씬 이미지/씬 TTS는 모두 ytg_tasks에 넣고, trendstory-worker가 lease를 잡아 실행합니다.
+type TaskKind = 'pipeline_stage' | 'scene_image' | 'scene_tts'
+
+type EnqueueTaskInput = {
+  job_id: string
+  kind: TaskKind
+  payload?: Record<string, unknown>
+  dedupe_key?: string // 같은 job에서 대기/실행 중인 같은 키가 있으면 새로 넣지 않음
+  max_attempts?: number
+  next_run_at?: string
+}
+
+function getTaskMaxAttempts() {
+  const n = Number(Deno.env.get('YTG_TASK_MAX_ATTEMPTS') ?? '3')
+  return Number.isFinite(n) ? Math.max(1, Math.min(Math.floor(n), 10)) : 3
+}
+
+async function enqueueTask(supabase: any, t: EnqueueTaskInput): Promise<{ id: string; deduped: boolean }> {
+  if (t.dedupe_key) {
+    const existing = await supabase
+      .from('ytg_tasks')
+      .select('id')
+      .eq('job_id', t.job_id)
+      .eq('dedupe_key', t.dedupe_key)
+      .in('status', ['QUEUED', 'RUNNING'])
+      .limit(1)
+    if (existing.error) throw new Error(`ytg_tasks 조회 실패: ${existing.error.message}`)
+    if ((existing.data ?? []).length > 0) return { id: existing.data[0].id as string, deduped: true }
+  }
+  const ins = await supabase
+    .from('ytg_tasks')
+    .insert({
+      job_id: t.job_id,
+      kind: t.kind,
+      payload: t.payload ?? {},
+      dedupe_key: t.dedupe_key ?? null,
+      max_attempts: t.max_attempts ?? getTaskMaxAttempts(),
+      next_run_at: t.next_run_at ?? nowIso(),
+    })
+    .select('id')
+    .single()
+  if (ins.error) throw new Error(`ytg_tasks enqueue 실패: ${ins.error.message}`)
+  return { id: ins.data.id as string, deduped: false }
+}
+
+// 워커를 즉시 한 번 깨웁니다(best-effort). 호출이 유실돼도 cron 주기 실행이 task를 다시 처리합니다.
+function kickWorker(reason: string) {
+  const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
+  const authKey = pickJwtKey([Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('SUPABASE_ANON_KEY')])
+  const auth = buildEdgeFunctionAuthHeaders(authKey)
+  if (!auth.ok) {
+    console.warn('[ytg] worker kick 생략: 인증키가 비어있습니다.', { reason })
+    return
+  }
+  const kick = fetch(`${supabaseUrl}/functions/v1/trendstory-worker`, {
+    method: 'POST',
+    headers: auth.headers,
+    body: JSON.stringify({ reason }),
+  })
+    .then(async (r) => {
+      await r.text().catch(() => '')
+      if (!r.ok) console.warn('[ytg] worker kick 응답 오류(무시)', { reason, status: r.status })
+    })
+    .catch((e: any) => console.warn('[ytg] worker kick 실패(무시)', { reason, error: e?.message ?? String(e) }))
+
+  const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
+  if (typeof waitUntil === 'function') waitUntil(kick)
+}
+
+// task 실행 요청(_task)은 워커(service role)만 보낼 수 있습니다.
+function isServiceRoleRequest(req: Request) {
+  const key = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '').trim()
+  if (!key) return false
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  const apikey = (req.headers.get('apikey') ?? '').trim()
+  return bearer === key || apikey === key
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+// ---- Quota (단일 파일 배포를 위해 index.ts에 포함) ----
+// 사용자별 일일 한도(UTC 자정 초기화) + 분당 요청 수 제한. 카운터는 ytg_consume_quota RPC로 원자적으로 증가시킵니다.
+type QuotaKind = 'jobs' | 'images' | 'tts_chars' | 'requests'
+
+const QUOTA_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-28_add_usage_quotas.sql 을 실행하세요.'
+
+const QUOTA_ENV: Record<QuotaKind, { env: string; fallback: number; label: string; unit: string }> = {
+  jobs: { env: 'YTG_QUOTA_JOBS_PER_DAY', fallback: 20, label: '오늘 job 생성', unit: '개' },
+  images: { env: 'YTG_QUOTA_IMAGES_PER_DAY', fallback: 100, label: '오늘 이미지 생성', unit: '장' },
+  tts_chars: { env: 'YTG_QUOTA_TTS_CHARS_PER_DAY', fallback: 50000, label: '오늘 TTS', unit: '자' },
+  requests: { env: 'YTG_RATE_LIMIT_PER_MINUTE', fallback: 30, label: '분당 생성 요청', unit: '회' },
+}
+
+// 0이면 제한 없음
+function getQuotaLimit(kind: QuotaKind): number | null {
+  const cfg = QUOTA_ENV[kind]
+  const raw = Number(Deno.env.get(cfg.env) ?? cfg.fallback)
+  const n = Number.isFinite(raw) ? Math.floor(raw) : cfg.fallback
+  return n > 0 ? n : null
+}
+
+function quotaExceeded(kind: QuotaKind, limit: number, used: number, requested: number, resetAt: string) {
+  const cfg = QUOTA_ENV[kind]
+  const retryAfterSec = Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000))
+  const remaining = Math.max(0, limit - used)
+  const when = kind === 'requests' ? `${retryAfterSec}초 후 다시 시도하세요.` : `UTC 자정(한국 시간 09:00)에 초기화됩니다.`
+  const hint =
+    `${cfg.label} 한도(${limit.toLocaleString()}${cfg.unit})를 초과했습니다. ` +
+    (remaining > 0 && requested > 1 ? `남은 양은 ${remaining.toLocaleString()}${cfg.unit}입니다. ` : '') +
+    when
+  return new Response(
+    JSON.stringify({ error: 'quota_exceeded', kind, limit, used, requested, reset_at: resetAt, retry_after_sec: retryAfterSec, hint }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8', 'retry-after': String(retryAfterSec) },
+    },
+  )
+}
+
+// amount만큼 사용량을 차감합니다. 한도를 넘으면 아무것도 기록하지 않고 429 응답을 돌려줍니다.
+// (amount = 0이면 남은 양이 있는지만 확인)
+async function consumeQuota(supabase: any, userId: string, kind: QuotaKind, amount: number): Promise<Response | null> {
+  const limit = getQuotaLimit(kind)
+  if (limit == null) return null
+  const res = await supabase.rpc('ytg_consume_quota', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_amount: amount,
+    p_limit: limit,
+    p_window: kind === 'requests' ? 'minute' : 'day',
+  })
+  if (res.error) return json({ error: res.error.message, hint: QUOTA_MIGRATION_HINT }, 500)
+  const row = Array.isArray(res.data) ? res.data[0] : res.data
+  if (row?.allowed) return null
+  console.warn('[ytg] quota 초과', { userId, kind, limit, used: row?.used, requested: amount })
+  return quotaExceeded(kind, limit, Number(row?.used ?? 0), amount, String(row?.window_end ?? nowIso()))
+}
+
+// 실제로 쓰지 않은 양을 되돌리거나(음수), 이미 시작된 작업의 사용량을 한도와 무관하게 기록합니다. (best-effort)
+async function recordQuota(supabase: any, userId: string, kind: QuotaKind, amount: number) {
+  if (!amount) return
+  const res = await supabase.rpc('ytg_consume_quota', { p_user_id: userId, p_kind: kind, p_amount: amount, p_limit: null, p_window: 'day' })
+  if (res.error) console.warn('[ytg] quota 기록 실패 (ignored)', { userId, kind, amount, msg: res.error.message })
+}
+
 type RetryAudioRequest = {
   job_id: string
   force?: boolean
   scene_ids?: number[] // 선택된 씬만 재생성 (없으면 전체)
+  // 내부용: trendstory-worker의 scene_tts task 실행
+  _task?: { id: string; job_id: string; kind: TaskKind; attempt?: number }
 }
 
 type RetryAudioResponse = {
   job_id: string
   accepted: boolean
   message: string
+  queued_scene_ids?: number[]
 }
 
-async function runRetryAudio(jobId: string, sceneIds?: number[]) {
+// 재시도 작업은 완료/실패한 job에서도 돌기 때문에 status 대신 "작업 시작 이후의 취소 요청"만 봅니다.
+async function isCancelRequested(supabase: any, jobId: string, sinceIso: string) {
+  const res = await supabase.from('ytg_jobs').select('cancel_requested_at').eq('id', jobId).maybeSingle()
+  if (res.error || !res.data?.cancel_requested_at) return false
+  const at = Date.parse(res.data.cancel_requested_at)
+  return Number.isFinite(at) && at >= Date.parse(sinceIso)
+}
+
+async function runRetryAudio(jobId: string, sceneIds?: number[]): Promise<{ done: number; failed: number; cancelled: boolean; error?: string }> {
   const supabase = getSupabaseServiceClient()
+  const startedAt = nowIso()
   const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
 
-  const jobRes = await supabase.from('ytg_jobs').select('id, packager, final_package').eq('id', jobId).single()
+  const jobRes = await supabase.from('ytg_jobs').select('id, input, packager, final_package').eq('id', jobId).single()
   if (jobRes.error) throw new Error(jobRes.error.message)
 
-  let scenesQuery = supabase.from('ytg_scenes').select('scene_id, narration').eq('job_id', jobId)
+  let scenesQuery = supabase.from('ytg_scenes').select('scene_id, narration, duration_sec').eq('job_id', jobId)
   if (sceneIds && sceneIds.length > 0) {
     scenesQuery = scenesQuery.in('scene_id', sceneIds)
   }
@@ -98,61 +601,97 @@ async function runRetryAudio(jobId: string, sceneIds?: number[]) {
   const packager = jobRes.data.packager ?? null
   const fp = jobRes.data.final_package ?? null
 
-  const ttsModel = Deno.env.get('OPENAI_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts'
-  const ttsVoice = Deno.env.get('OPENAI_TTS_VOICE')?.trim() || 'alloy'
+  const usage = createUsageRecorder(supabase, jobId)
+  const jobInput = (jobRes.data.input ?? {}) as any
+  const voiceOverride = typeof jobInput?.options?.tts_voice === 'string' ? jobInput.options.tts_voice : undefined
+  const provider = getTtsProvider(resolveProviderId(jobInput?.provider), usage.sink, voiceOverride)
 
   const sceneRows = (scenesRes.data ?? [])
-    .map((s: any) => ({ scene_id: Number(s?.scene_id), narration: String(s?.narration ?? '').trim() }))
+    .map((s: any) => ({
+      scene_id: Number(s?.scene_id),
+      narration: String(s?.narration ?? '').trim(),
+      raw_narration: String(s?.narration ?? ''),
+      duration_sec: Number(s?.duration_sec) || null,
+    }))
     .filter((s: any) => Number.isFinite(s.scene_id) && s.narration)
     .sort((a: any, b: any) => a.scene_id - b.scene_id)
 
-  const sceneAudioUrls: Array<{ scene_id: number; audio_url: string }> = []
+  const sceneAudioUrls: Array<{ scene_id: number; audio_url: string | null; audio_path: string }> = []
+  let cancelled = false
+  let failed = 0
+  let lastError: string | undefined
 
   if (sceneRows.length === 0) {
     pushRuntimeLog(packager, 'error', '오디오 재생성 실패: narration이 있는 scene이 없습니다.')
   } else {
     for (const s of sceneRows) {
+      if (await isCancelRequested(supabase, jobId, startedAt)) {
+        cancelled = true
+        pushRuntimeLog(packager, 'warn', '오디오 재생성 취소됨', { done: sceneAudioUrls.length, remaining: sceneRows.length - sceneAudioUrls.length })
+        break
+      }
       try {
         pushRuntimeLog(packager, 'info', '오디오(씬) 재생성 시작', { scene_id: s.scene_id, chars: s.narration.length })
-        const mp3 = await openaiTtsMp3(s.narration)
-        const audioPath = `jobs/${jobId}/tts/scene-${String(s.scene_id).padStart(2, '0')}.mp3`
-        const up = await supabase.storage.from(bucket).upload(audioPath, new Blob([toArrayBuffer(mp3)], { type: 'audio/mpeg' }), {
-          contentType: 'audio/mpeg',
+        const audio = await provider.tts(s.narration, { scene_id: s.scene_id, duration_sec: s.duration_sec })
+        const audioPath = `jobs/${jobId}/tts/scene-${String(s.scene_id).padStart(2, '0')}.${audio.ext}`
+        const up = await supabase.storage.from(bucket).upload(audioPath, new Blob([toArrayBuffer(audio.bytes)], { type: audio.contentType }), {
+          contentType: audio.contentType,
           upsert: true,
         })
         if (up.error) throw new Error(up.error.message)
-        const url = supabase.storage.from(bucket).getPublicUrl(audioPath).data.publicUrl
-        sceneAudioUrls.push({ scene_id: s.scene_id, audio_url: url })
-        pushRuntimeLog(packager, 'info', '오디오(씬) 재생성 완료', { scene_id: s.scene_id, audio_url: url })
+        const url = isPrivateStorage() ? null : supabase.storage.from(bucket).getPublicUrl(audioPath).data.publicUrl
+        sceneAudioUrls.push({ scene_id: s.scene_id, audio_url: url, audio_path: audioPath })
+        pushRuntimeLog(packager, 'info', '오디오(씬) 재생성 완료', { scene_id: s.scene_id, audio_path: audioPath })
 
         const insAsset = await supabase.from('ytg_assets').insert({
           job_id: jobId,
           type: 'audio',
           path: audioPath,
           url,
-          meta: { kind: 'scene', scene_id: s.scene_id, provider: 'openai', model: ttsModel, voice: ttsVoice, retried_at: nowIso() },
+          meta: { kind: 'scene', scene_id: s.scene_id, provider: provider.id, model: provider.ttsModel, voice: provider.ttsVoice, retried_at: nowIso() },
         })
         if (insAsset.error) pushRuntimeLog(packager, 'warn', 'ytg_assets 씬 오디오 기록 실패(무시)', { error: insAsset.error.message })
+        // 씬 수정(trendstory-update-scene)으로 표시된 stale 플래그 해제 (best-effort, 마이그레이션 미적용이면 무시)
+        // 생성 도중 narration이 다시 바뀌었다면 이번 오디오도 낡았으므로 플래그를 그대로 둡니다.
+        await supabase
+          .from('ytg_scenes')
+          .update({ audio_stale: false })
+          .eq('job_id', jobId)
+          .eq('scene_id', s.scene_id)
+          .eq('narration', s.raw_narration)
       } catch (e: any) {
-        pushRuntimeLog(packager, 'error', '오디오(씬) 재생성 실패', { scene_id: s.scene_id, error: e?.message ?? String(e) })
+        failed++
+        lastError = e?.message ?? String(e)
+        pushRuntimeLog(packager, 'error', '오디오(씬) 재생성 실패', { scene_id: s.scene_id, error: lastError })
       }
       await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
     }
   }
 
+  await usage.flush()
+
   // NOTE: full 트랙(전체 TTS)은 생성하지 않습니다(자원 낭비 방지). 씬별만 생성합니다.
   const fullAudioUrl: string | null = null
 
-  // best-effort: patch final_package if present
-  if (fp && typeof fp === 'object') {
+  // best-effort: patch final_package if present (씬 단위 task로 실행되므로 기존 목록에 scene_id 기준으로 병합)
+  if (sceneAudioUrls.length > 0 && fp && typeof fp === 'object') {
     const next = { ...(fp as any) }
     next.audio = next.audio ?? {}
-    next.audio.scene_audios = sceneAudioUrls
-    next.audio.tts = { provider: 'openai', model: ttsModel, voice: ttsVoice }
+    const merged = new Map<number, { scene_id: number; audio_url: string | null; audio_path: string | null }>()
+    for (const a of Array.isArray(next.audio.scene_audios) ? next.audio.scene_audios : []) {
+      if (!Number.isFinite(Number(a?.scene_id)) || !(a?.audio_url || a?.audio_path)) continue
+      merged.set(Number(a.scene_id), { scene_id: Number(a.scene_id), audio_url: a.audio_url ?? null, audio_path: a.audio_path ?? null })
+    }
+    for (const a of sceneAudioUrls) merged.set(a.scene_id, a)
+    next.audio.scene_audios = Array.from(merged.values()).sort((a, b) => a.scene_id - b.scene_id)
+    next.audio.tts = { provider: provider.id, model: provider.ttsModel, voice: provider.ttsVoice }
     await supabase.from('ytg_jobs').update({ final_package: next, packager }).eq('id', jobId)
   } else {
     await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
   }
+
+  if (sceneRows.length === 0) return { done: 0, failed: 0, cancelled, error: 'narration이 있는 scene이 없습니다.' }
+  return { done: sceneAudioUrls.length, failed, cancelled, error: lastError }
 }
 
 Deno.serve(async (req) => {
@@ -173,20 +712,69 @@ Deno.serve(async (req) => {
 
   const sceneIds = Array.isArray(payload.scene_ids) ? payload.scene_ids.map((n) => Number(n)).filter((n) => Number.isFinite(n)) : undefined
 
-  // 즉시 응답 후 백그라운드 실행 (CORS/timeout 방지)
-  const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
-  if (typeof waitUntil === 'function') {
-    waitUntil(runRetryAudio(jobId, sceneIds))
-  } else {
-    runRetryAudio(jobId, sceneIds)
+  // 워커의 scene_tts task 실행 (씬 1개를 동기로 생성하고 결과를 돌려줌)
+  if (payload._task) {
+    if (!isServiceRoleRequest(req)) {
+      return json({ error: 'forbidden', hint: 'task 실행은 trendstory-worker(service role)만 호출할 수 있습니다.' }, 403)
+    }
+    try {
+      const r = await runRetryAudio(jobId, sceneIds)
+      if (r.failed > 0 || (r.done === 0 && !r.cancelled)) return json({ error: r.error ?? 'TTS 생성 실패', ...r }, 500)
+      return json(r, 200)
+    } catch (e: any) {
+      return json({ error: e?.message ?? String(e) }, 500)
+    }
   }
 
-  const out: RetryAudioResponse = {
-    job_id: jobId,
-    accepted: true,
-    message: '오디오 재생성을 백그라운드로 시작했습니다. 잠시 후 새로고침하면 오디오가 표시됩니다.',
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  // 씬마다 scene_tts task를 넣고 워커를 깨웁니다. (워커가 죽어도 task가 남아 재시도됨)
+  try {
+    const supabase = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+    let scenesQuery = supabase.from('ytg_scenes').select('scene_id, narration').eq('job_id', jobId)
+    if (sceneIds && sceneIds.length > 0) scenesQuery = scenesQuery.in('scene_id', sceneIds)
+    const scenesRes = await scenesQuery.order('scene_id', { ascending: true })
+    if (scenesRes.error) return json({ error: scenesRes.error.message }, 500)
+
+    const targetScenes = (scenesRes.data ?? []).filter(
+      (s: any) => String(s?.narration ?? '').trim() && Number.isFinite(Number(s?.scene_id)),
+    )
+    const targetIds = targetScenes.map((s: any) => Number(s.scene_id))
+    if (targetIds.length === 0) return json({ error: 'narration이 있는 scene이 없습니다.' }, 400)
+
+    // TTS 한도는 요청 시점의 narration 글자 수로 차감합니다.
+    const ttsChars = targetScenes.reduce((sum: number, s: any) => sum + String(s.narration).trim().length, 0)
+    const limited = (await consumeQuota(supabase, user.id, 'requests', 1)) ?? (await consumeQuota(supabase, user.id, 'tts_chars', ttsChars))
+    if (limited) return limited
+
+    for (const sid of targetIds) {
+      await enqueueTask(supabase, {
+        job_id: jobId,
+        kind: 'scene_tts',
+        payload: { scene_id: sid, source: 'retry' },
+        dedupe_key: `scene_tts:${sid}`,
+      })
+    }
+    kickWorker(`retry-audio:${jobId}`)
+
+    const out: RetryAudioResponse = {
+      job_id: jobId,
+      accepted: true,
+      message: `오디오 재생성 작업 ${targetIds.length}개를 큐에 넣었습니다. 잠시 후 새로고침하면 오디오가 표시됩니다.`,
+      queued_scene_ids: targetIds,
+    }
+    return json(out, 202)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    const hint = msg.includes('ytg_tasks')
+      ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-23_add_task_queue.sql 을 실행하세요.'
+      : undefined
+    console.error('[ytg] trendstory-retry-audio enqueue error', { jobId, msg })
+    return json({ error: msg, hint }, 500)
   }
-  return json(out, 202)
 })
 
 
@@ -57,94 +57,6 @@ function getSupabaseServiceClient() {
   return createClient(url, serviceRoleKey)
 }
 
-function toArrayBuffer(u8: Uint8Array): ArrayBuffer {
-  return u8.buffer.slice(u8.byteOffset, u8.byteOffset + u8.byteLength) as ArrayBuffer
-}
-
-async function fetchWithTimeout(input: string, init: RequestInit, timeoutMs: number): Promise<Response> {
-  const controller = new AbortController()
-  const t = setTimeout(() => controller.abort(), timeoutMs)
-  try {
-    return await fetch(input, { ...init, signal: controller.signal })
-  } finally {
-    clearTimeout(t)
-  }
-}
-
-function sleepMs(ms: number) {
-  return new Promise((r) => setTimeout(r, ms))
-}
-
-async function openaiImagePng(prompt: string): Promise<Uint8Array> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const imageModel = (Deno.env.get('OPENAI_IMAGE_MODEL') ?? 'gpt-image-1-mini').trim() || 'gpt-image-1-mini'
-  const envSize = Deno.env.get('OPENAI_IMAGE_SIZE')?.trim()
-  const sizes = Array.from(new Set([envSize, '1792x1024', '1024x1024'].filter(Boolean))) as string[]
-  // "2분 무응답이면 재시도" 요구사항: 기본 타임아웃을 120초로 둡니다(환경변수로 override 가능).
-  const timeoutMs = Number(Deno.env.get('OPENAI_IMAGE_TIMEOUT_MS') ?? '120000') || 120000
-  const maxAttemptsPerSize = Math.max(1, Math.min(Number(Deno.env.get('OPENAI_IMAGE_MAX_ATTEMPTS') ?? '2') || 2, 5))
-
-  let lastErr: unknown = null
-  for (const size of sizes) {
-    for (let attempt = 1; attempt <= maxAttemptsPerSize; attempt++) {
-      let res: Response
-      let text: string
-      try {
-        res = await fetchWithTimeout(
-          'https://api.openai.com/v1/images/generations',
-          {
-            method: 'POST',
-            headers: { authorization: `Bearer ${apiKey}`, 'content-type': 'application/json' },
-            body: JSON.stringify({ model: imageModel, prompt, size }),
-          },
-          timeoutMs,
-        )
-        text = await res.text()
-      } catch (e: any) {
-        const msg = e?.name === 'AbortError' ? `timeout after ${timeoutMs}ms` : e?.message ?? String(e)
-        lastErr = new Error(`OpenAI image request failed (${size}, attempt ${attempt}): ${msg}`)
-        await sleepMs(600 * attempt)
-        continue
-      }
-
-      if (!res.ok) {
-        lastErr = new Error(`OpenAI image error (${res.status}, size=${size}, attempt=${attempt}): ${text}`)
-        if (res.status === 400) break
-        if (res.status === 429 || res.status >= 500) {
-          await sleepMs(800 * attempt)
-          continue
-        }
-        throw lastErr
-      }
-
-      const json = JSON.parse(text)
-      const first = json?.data?.[0]
-      const b64: string | undefined = first?.b64_json
-      if (b64) {
-        const bin = atob(b64)
-        const bytes = new Uint8Array(bin.length)
-        for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
-        return bytes
-      }
-      const url: string | undefined = first?.url
-      if (url) {
-        const imgRes = await fetchWithTimeout(url, { method: 'GET' }, timeoutMs)
-        if (!imgRes.ok) throw new Error(`Failed to fetch image URL (${imgRes.status})`)
-        const ab = await imgRes.arrayBuffer()
-        return new Uint8Array(ab)
-      }
-      lastErr = new Error('OpenAI image returned neither b64_json nor url')
-      await sleepMs(400 * attempt)
-    }
-  }
-
-  throw lastErr ?? new Error('OpenAI image error: no valid size worked')
-}
-
-function safeFilename(s: string) {
-  return s.replace(/[^a-zA-Z0-9._-]+/g, '-')
-}
-
 function nowIso() {
   return new Date().toISOString()
 }
@@ -165,171 +77,233 @@ function pushRuntimeLog(packager: any, level: 'info' | 'warn' | 'error', msg: st
   else console.log('[ytg]', payload)
 }
 
+// ---- 작업 큐 (ytg_tasks) ----
+// 파이프라인 단계/씬 이미지/씬 TTS는 모두 ytg_tasks에 넣고, trendstory-worker가 lease를 잡아 실행합니다.
+type TaskKind = 'pipeline_stage' | 'scene_image' | 'scene_tts'
+
+type EnqueueTaskInput = {
+  job_id: string
+  kind: TaskKind
+  payload?: Record<string, unknown>
+  dedupe_key?: string // 같은 job에서 대기/실행 중인 같은 키가 있으면 새로 넣지 않음
+  max_attempts?: number
+  next_run_at?: string
+}
+
+function getTaskMaxAttempts() {
+  const n = Number(Deno.env.get('YTG_TASK_MAX_ATTEMPTS') ?? '3')
+  return Number.isFinite(n) ? Math.max(1, Math.min(Math.floor(n), 10)) : 3
+}
+
+async function enqueueTask(supabase: any, t: EnqueueTaskInput): Promise<{ id: string; deduped: boolean }> {
+  if (t.dedupe_key) {
+    const existing = await supabase
+      .from('ytg_tasks')
+      .select('id')
+      .eq('job_id', t.job_id)
+      .eq('dedupe_key', t.dedupe_key)
+      .in('status', ['QUEUED', 'RUNNING'])
+      .limit(1)
+    if (existing.error) throw new Error(`ytg_tasks 조회 실패: ${existing.error.message}`)
+    if ((existing.data ?? []).length > 0) return { id: existing.data[0].id as string, deduped: true }
+  }
+  const ins = await supabase
+    .from('ytg_tasks')
+    .insert({
+      job_id: t.job_id,
+      kind: t.kind,
+      payload: t.payload ?? {},
+      dedupe_key: t.dedupe_key ?? null,
+      max_attempts: t.max_attempts ?? getTaskMaxAttempts(),
+      next_run_at: t.next_run_at ?? nowIso(),
+    })
+    .select('id')
+    .single()
+  if (ins.error) throw new Error(`ytg_tasks enqueue 실패: ${ins.error.message}`)
+  return { id: ins.data.id as string, deduped: false }
+}
+
+// 워커를 즉시 한 번 깨웁니다(best-effort). 호출이 유실돼도 cron 주기 실행이 task를 다시 처리합니다.
+function kickWorker(reason: string) {
+  const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
+  const authKey = pickJwtKey([Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('SUPABASE_ANON_KEY')])
+  const auth = buildEdgeFunctionAuthHeaders(authKey)
+  if (!auth.ok) {
+    console.warn('[ytg] worker kick 생략: 인증키가 비어있습니다.', { reason })
+    return
+  }
+  const kick = fetch(`${supabaseUrl}/functions/v1/trendstory-worker`, {
+    method: 'POST',
+    headers: auth.headers,
+    body: JSON.stringify({ reason }),
+  })
+    .then(async (r) => {
+      await r.text().catch(() => '')
+      if (!r.ok) console.warn('[ytg] worker kick 응답 오류(무시)', { reason, status: r.status })
+    })
+    .catch((e: any) => console.warn('[ytg] worker kick 실패(무시)', { reason, error: e?.message ?? String(e) }))
+
+  const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
+  if (typeof waitUntil === 'function') waitUntil(kick)
+}
+
 type RetryImagesRequest = {
   job_id: string
   scene_ids?: number[]
   missing_only?: boolean
-  // 내부 self-requeue 용 (프론트에서 보낼 필요 없음)
-  depth?: number
 }
 
 type RetryImagesResponse = {
   job_id: string
-  attempted: number
+  attempted: number // 큐에 넣은 씬 수
   succeeded: number
   failed: number
   skipped: number
   accepted?: boolean
   message?: string
+  queued_scene_ids?: number[]
 }
 
-async function runRetryInBackground(args: {
-  jobId: string
-  bucket: string
-  topic: string
-  style: any
-  packager: any
-  tasks: Array<{ scene_id: number; prompt: string }>
-  depth: number
-}) {
-  const { jobId, bucket, topic, style, packager, tasks, depth } = args
-  const supabase = getSupabaseServiceClient()
-
-  pushRuntimeLog(packager, 'info', '이미지 재시도 백그라운드 작업 시작', { job_id: jobId, tasks: tasks.length })
-
-  const startedAt = Date.now()
-  const maxRuntimeMs = Math.max(5000, Math.min(Number(Deno.env.get('RETRY_IMAGES_MAX_RUNTIME_MS') ?? '50000') || 50000, 110000))
-  const maxDepth = Math.max(0, Math.min(Number(Deno.env.get('RETRY_IMAGES_MAX_DEPTH') ?? '10') || 10, 30))
-
-  let attempted = 0
-  let succeeded = 0
-  let failed = 0
-  let skipped = 0
-
-  let remainingSceneIds: number[] = []
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
 
-  for (let idx = 0; idx < tasks.length; idx++) {
-    if (Date.now() - startedAt > maxRuntimeMs) {
-      remainingSceneIds = tasks.slice(idx).map((x) => Number(x.scene_id)).filter((n) => Number.isFinite(n))
-      pushRuntimeLog(packager, 'warn', '실행 시간 예산 초과로 다음 배치로 넘깁니다.', {
-        job_id: jobId,
-        depth,
-        maxRuntimeMs,
-        remaining: remainingSceneIds.length,
-      })
-      break
-    }
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
 
-    const t = tasks[idx]
-    const sceneId = Number(t.scene_id)
-    const prompt = String(t.prompt ?? '').trim()
-    if (!Number.isFinite(sceneId) || !prompt) {
-      skipped++
-      continue
-    }
-    attempted++
-    try {
-      pushRuntimeLog(packager, 'info', '이미지 재생성 시작', { scene_id: sceneId })
-      const png = await openaiImagePng(prompt)
-      const path = `jobs/${jobId}/scene-${String(sceneId).padStart(2, '0')}-${safeFilename(topic).slice(0, 48)}.png`
-
-      const up = await supabase.storage.from(bucket).upload(path, new Blob([toArrayBuffer(png)], { type: 'image/png' }), {
-        contentType: 'image/png',
-        upsert: true,
-      })
-      if (up.error) throw new Error(up.error.message)
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
 
-      const publicUrl = supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
 
-      const upd = await supabase
-        .from('ytg_scenes')
-        .update({ image_path: path, image_url: publicUrl, image_prompt: prompt })
-        .eq('job_id', jobId)
-        .eq('scene_id', sceneId)
-      if (upd.error) throw new Error(upd.error.message)
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
 
-      const insAsset = await supabase.from('ytg_assets').insert({
-        job_id: jobId,
-        type: 'image',
-        path,
-        url: publicUrl,
-        meta: { scene_id: sceneId, prompt, retried_at: nowIso() },
-      })
-      if (insAsset.error) {
-        pushRuntimeLog(packager, 'warn', 'ytg_assets 기록 실패(무시)', { scene_id: sceneId, error: insAsset.error.message })
-      }
-
-      succeeded++
-      pushRuntimeLog(packager, 'info', '이미지 재생성 완료', { scene_id: sceneId })
-    } catch (e: any) {
-      failed++
-      pushRuntimeLog(packager, 'error', '이미지 재생성 실패', { scene_id: sceneId, error: e?.message ?? String(e) })
-    }
+// ---- Quota (단일 파일 배포를 위해 index.ts에 포함) ----
+// 사용자별 일일 한도(UTC 자정 초기화) + 분당 요청 수 제한. 카운터는 ytg_consume_quota RPC로 원자적으로 증가시킵니다.
+type QuotaKind = 'jobs' | 'images' | 'tts_chars' | 'requests'
 
-    // best-effort persist logs as we go
-    try {
-      await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
-    } catch {
-      // ignore
-    }
-  }
+const QUOTA_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-28_add_usage_quotas.sql 을 실행하세요.'
 
-  pushRuntimeLog(packager, 'info', '이미지 재시도 백그라운드 작업 종료', { attempted, succeeded, failed, skipped })
-  await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
-
-  // 남은 작업이 있으면 self-requeue (Edge Function 실행 제한/중단 대비)
-  if (remainingSceneIds.length > 0 && depth < maxDepth) {
-    const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
-    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
-    const authKey = pickJwtKey([serviceRoleKey, anonKey])
-    const endpoint = `${supabaseUrl}/functions/v1/trendstory-retry-images`
-    const body: RetryImagesRequest = {
-      job_id: jobId,
-      scene_ids: remainingSceneIds,
-      missing_only: true,
-      depth: depth + 1,
-    }
+const QUOTA_ENV: Record<QuotaKind, { env: string; fallback: number; label: string; unit: string }> = {
+  jobs: { env: 'YTG_QUOTA_JOBS_PER_DAY', fallback: 20, label: '오늘 job 생성', unit: '개' },
+  images: { env: 'YTG_QUOTA_IMAGES_PER_DAY', fallback: 100, label: '오늘 이미지 생성', unit: '장' },
+  tts_chars: { env: 'YTG_QUOTA_TTS_CHARS_PER_DAY', fallback: 50000, label: '오늘 TTS', unit: '자' },
+  requests: { env: 'YTG_RATE_LIMIT_PER_MINUTE', fallback: 30, label: '분당 생성 요청', unit: '회' },
+}
 
-    const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
-    pushRuntimeLog(packager, 'info', '이미지 재시도 다음 배치 요청(인증 정보 점검)', {
-      depth,
-      next_depth: depth + 1,
-      auth_segments: authKey.split('.').length,
-      auth_len: authKey.length,
-    })
+// 0이면 제한 없음
+function getQuotaLimit(kind: QuotaKind): number | null {
+  const cfg = QUOTA_ENV[kind]
+  const raw = Number(Deno.env.get(cfg.env) ?? cfg.fallback)
+  const n = Number.isFinite(raw) ? Math.floor(raw) : cfg.fallback
+  return n > 0 ? n : null
+}
 
-    const auth = buildEdgeFunctionAuthHeaders(authKey)
-    if (!auth.ok) {
-      pushRuntimeLog(packager, 'error', 'self-requeue 인증키가 비어있습니다. Supabase Secrets를 확인하세요.', {
-        hint: 'SUPABASE_SERVICE_ROLE_KEY 또는 SUPABASE_ANON_KEY가 필요합니다.',
-      })
-      return
-    }
-    if (!auth.jwtLike) {
-      pushRuntimeLog(packager, 'warn', 'self-requeue 인증키가 JWT가 아닙니다. 이 경우 함수 verify_jwt=false가 필요합니다.', {
-        hint: 'Supabase Dashboard → Edge Functions → trendstory-retry-images → JWT Verification(verify_jwt) 끄기',
-      })
-    }
+function quotaExceeded(kind: QuotaKind, limit: number, used: number, requested: number, resetAt: string) {
+  const cfg = QUOTA_ENV[kind]
+  const retryAfterSec = Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000))
+  const remaining = Math.max(0, limit - used)
+  const when = kind === 'requests' ? `${retryAfterSec}초 후 다시 시도하세요.` : `UTC 자정(한국 시간 09:00)에 초기화됩니다.`
+  const hint =
+    `${cfg.label} 한도(${limit.toLocaleString()}${cfg.unit})를 초과했습니다. ` +
+    (remaining > 0 && requested > 1 ? `남은 양은 ${remaining.toLocaleString()}${cfg.unit}입니다. ` : '') +
+    when
+  return new Response(
+    JSON.stringify({ error: 'quota_exceeded', kind, limit, used, requested, reset_at: resetAt, retry_after_sec: retryAfterSec, hint }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8', 'retry-after': String(retryAfterSec) },
+    },
+  )
+}
 
-    const kick = fetch(endpoint, {
-      method: 'POST',
-      headers: auth.headers,
-      body: JSON.stringify(body),
-    })
-      .then(async (r) => {
-        const t = await r.text().catch(() => '')
-        pushRuntimeLog(packager, 'info', '이미지 재시도 다음 배치 요청 완료', { status: r.status, body: t.slice(0, 200) })
-      })
-      .catch((e: any) => {
-        pushRuntimeLog(packager, 'error', '이미지 재시도 다음 배치 요청 실패', { error: e?.message ?? String(e) })
-      })
+// amount만큼 사용량을 차감합니다. 한도를 넘으면 아무것도 기록하지 않고 429 응답을 돌려줍니다.
+// (amount = 0이면 남은 양이 있는지만 확인)
+async function consumeQuota(supabase: any, userId: string, kind: QuotaKind, amount: number): Promise<Response | null> {
+  const limit = getQuotaLimit(kind)
+  if (limit == null) return null
+  const res = await supabase.rpc('ytg_consume_quota', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_amount: amount,
+    p_limit: limit,
+    p_window: kind === 'requests' ? 'minute' : 'day',
+  })
+  if (res.error) return json({ error: res.error.message, hint: QUOTA_MIGRATION_HINT }, 500)
+  const row = Array.isArray(res.data) ? res.data[0] : res.data
+  if (row?.allowed) return null
+  console.warn('[ytg] quota 초과', { userId, kind, limit, used: row?.used, requested: amount })
+  return quotaExceeded(kind, limit, Number(row?.used ?? 0), amount, String(row?.window_end ?? nowIso()))
+}
 
-    if (typeof waitUntil === 'function') waitUntil(kick)
-    else await kick
-  }
+// 실제로 쓰지 않은 양을 되돌리거나(음수), 이미 시작된 작업의 사용량을 한도와 무관하게 기록합니다. (best-effort)
+async function recordQuota(supabase: any, userId: string, kind: QuotaKind, amount: number) {
+  if (!amount) return
+  const res = await supabase.rpc('ytg_consume_quota', { p_user_id: userId, p_kind: kind, p_amount: amount, p_limit: null, p_window: 'day' })
+  if (res.error) console.warn('[ytg] quota 기록 실패 (ignored)', { userId, kind, amount, msg: res.error.message })
 }
 
+// NOTE: 실제 생성은 trendstory-worker가 scene_image task마다 trendstory-generate-scene-image를 호출해 수행합니다.
+// (예전의 depth 기반 self-requeue 대신, 씬 1개 = task 1개로 실패 시 개별 재시도)
 Deno.serve(async (req) => {
   const opt = handleOptions(req)
   if (opt) return opt
@@ -346,17 +320,19 @@ Deno.serve(async (req) => {
   const jobId = String(payload?.job_id ?? '').trim()
   if (!jobId) return json({ error: 'job_id is required' }, 400)
 
-  const depth = Number((payload as any)?.depth ?? 0) || 0
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
 
   const supabase = getSupabaseServiceClient()
-  const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+  const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+  if (denied) return denied
 
   const jobRes = await supabase.from('ytg_jobs').select('id, input, packager, trace_id').eq('id', jobId).single()
   if (jobRes.error) return json({ error: jobRes.error.message }, 500)
 
   const scenesRes = await supabase
     .from('ytg_scenes')
-    .select('id, job_id, scene_id, image_prompt, image_url, visual_brief, mood, on_screen_text')
+    .select('id, job_id, scene_id, image_url, image_path')
     .eq('job_id', jobId)
     .order('scene_id', { ascending: true })
   if (scenesRes.error) return json({ error: scenesRes.error.message }, 500)
@@ -367,16 +343,6 @@ Deno.serve(async (req) => {
   const missingOnly = payload.missing_only !== false
 
   const packager = jobRes.data.packager ?? null
-  const style = (packager as any)?.style_guide ?? {}
-  const topic = String((jobRes.data.input as any)?.topic_domain ?? 'topic').trim()
-
-  const renderReqs = Array.isArray((packager as any)?.image_render_requests) ? (packager as any).image_render_requests : []
-  const promptByScene = new Map<number, string>()
-  for (const r of renderReqs) {
-    const sid = Number(r?.scene_id)
-    const p = String(r?.prompt ?? '').trim()
-    if (Number.isFinite(sid) && p) promptByScene.set(sid, p)
-  }
 
   pushRuntimeLog(packager, 'info', '누락 이미지 재시도 시작', {
     job_id: jobId,
@@ -384,12 +350,13 @@ Deno.serve(async (req) => {
     requested_scene_ids: wantIdsRaw ?? null,
   })
 
-  const tasks: Array<{ scene_id: number; prompt: string }> = []
+  const targets: number[] = []
+  const queued: number[] = []
   let skipped = 0
 
   for (const s of scenes) {
     const sceneId = Number(s.scene_id)
-    const hasImage = Boolean(s.image_url)
+    const hasImage = Boolean(s.image_url || s.image_path)
     if (wantSet && !wantSet.has(sceneId)) {
       skipped++
       continue
@@ -399,51 +366,59 @@ Deno.serve(async (req) => {
       continue
     }
 
-    const prompt =
-      String(s.image_prompt ?? '').trim() ||
-      String(promptByScene.get(sceneId) ?? '').trim() ||
-      [
-        String(s.visual_brief ?? '').trim() || String(s.on_screen_text ?? '').trim() || `educational illustration about ${topic}`,
-        String(s.mood ?? '').trim(),
-        String(style.visual_style ?? '').trim(),
-        String(style.tone ?? '').trim(),
-        'no text, no logo, no watermark, clean composition, high quality, 16:9',
-      ]
-        .filter(Boolean)
-        .join(', ')
-        .trim()
-
-    if (!prompt) {
-      skipped++
-      pushRuntimeLog(packager, 'warn', '이미지 프롬프트가 비어 스킵', { scene_id: sceneId })
-      continue
-    }
+    // 프롬프트는 넣지 않습니다. 실행 시점에 generate-scene-image가 저장된 image_prompt(없으면 visual_brief 기반 자동 생성)를 고르고
+    // take 기록(prompt_source)도 그에 맞게 남깁니다.
+    targets.push(sceneId)
+  }
 
-    tasks.push({ scene_id: sceneId, prompt })
+  // 큐에 넣을 씬 수만큼 이미지 한도를 먼저 차감합니다. (이미 대기 중인 씬은 뒤에서 되돌림)
+  if (targets.length > 0) {
+    const limited = (await consumeQuota(supabase, user.id, 'requests', 1)) ?? (await consumeQuota(supabase, user.id, 'images', targets.length))
+    if (limited) return limited
   }
 
-  // 즉시 응답 후 백그라운드에서 실행 (브라우저 CORS/504 방지)
-  const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
-  if (typeof waitUntil === 'function') {
-    waitUntil(runRetryInBackground({ jobId, bucket, topic, style, packager, tasks, depth }))
-  } else {
-    // fallback: inline (개발 환경)
-    runRetryInBackground({ jobId, bucket, topic, style, packager, tasks, depth })
+  let deduped = 0
+  try {
+    for (const sceneId of targets) {
+      const t = await enqueueTask(supabase, {
+        job_id: jobId,
+        kind: 'scene_image',
+        // missing_only=false면 기존 이미지가 있어도 다시 생성(force)
+        payload: { scene_id: sceneId, force: !missingOnly, source: 'retry' },
+        dedupe_key: `scene_image:${sceneId}`,
+      })
+      if (t.deduped) deduped++
+      queued.push(sceneId)
+    }
+  } catch (e: any) {
+    await recordQuota(supabase, user.id, 'images', -(targets.length - queued.length + deduped))
+    const msg = e?.message ?? String(e)
+    const hint = msg.includes('ytg_tasks')
+      ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-23_add_task_queue.sql 을 실행하세요.'
+      : undefined
+    console.error('[ytg] trendstory-retry-images enqueue error', { jobId, msg })
+    return json({ error: msg, hint }, 500)
   }
 
+  if (deduped > 0) await recordQuota(supabase, user.id, 'images', -deduped)
+  if (queued.length > 0) kickWorker(`retry-images:${jobId}`)
+  pushRuntimeLog(packager, 'info', '이미지 재시도 작업을 큐에 넣었습니다.', { queued, skipped })
+
   // best-effort: store initial logs + queue info
   if (packager) await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
 
   const out: RetryImagesResponse = {
     job_id: jobId,
-    attempted: tasks.length,
+    attempted: queued.length,
     succeeded: 0,
     failed: 0,
     skipped,
     accepted: true,
-    message: '재시도 작업을 백그라운드로 시작했습니다. 잠시 후 새로고침하면 이미지가 채워집니다.',
+    message:
+      queued.length > 0
+        ? `이미지 재생성 작업 ${queued.length}개를 큐에 넣었습니다. 잠시 후 새로고침하면 이미지가 채워집니다.`
+        : '재생성할 씬이 없습니다.',
+    queued_scene_ids: queued,
   }
   return json(out, 202)
 })
-
-
@@ -0,0 +1,619 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+// ---- 텍스트 LLM 호출 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 씬 단위의 짧은 JSON 생성용입니다. openai / openai_compatible 모두 chat/completions를 사용하고,
+// fake(fixture 모드)는 호출하는 쪽에서 결정적인 결과를 직접 만듭니다.
+type ProviderId = 'openai' | 'openai_compatible' | 'fake'
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'openai_compatible', 'fake']
+
+function isProviderId(v: unknown): v is ProviderId {
+  return typeof v === 'string' && (PROVIDER_IDS as string[]).includes(v)
+}
+
+function isFixtureMode() {
+  const v = (Deno.env.get('YTG_FIXTURE_MODE') ?? '').trim().toLowerCase()
+  return v === '1' || v === 'true' || v === 'yes'
+}
+
+function resolveProviderId(requested?: string | null): ProviderId {
+  if (isFixtureMode()) return 'fake'
+  const fromJob = (requested ?? '').trim()
+  if (isProviderId(fromJob)) return fromJob
+  const fromEnv = (Deno.env.get('YTG_PROVIDER') ?? '').trim()
+  if (isProviderId(fromEnv)) return fromEnv
+  return 'openai'
+}
+
+type TextEndpointConfig = {
+  baseUrl: string
+  apiKey: string
+  textModels: string[]
+}
+
+function getTextModelCandidates(preferred?: string) {
+  const envModel = Deno.env.get('OPENAI_TEXT_MODEL')?.trim()
+  const candidates = [
+    // user requested default (always try first)
+    'gpt-5.2',
+    preferred?.trim(),
+    envModel,
+    // safe defaults that many projects have access to
+    'gpt-4o-mini',
+    'gpt-4o',
+  ].filter((m): m is string => Boolean(m))
+  // de-dup preserving order
+  return Array.from(new Set(candidates))
+}
+
+function isModelAccessError(errText: string) {
+  try {
+    const j = JSON.parse(errText)
+    const code = j?.error?.code
+    const msg = j?.error?.message ?? ''
+    if (code === 'model_not_found') return true
+    if (typeof msg === 'string' && msg.includes('does not have access to model')) return true
+  } catch {
+    // ignore
+  }
+  return false
+}
+
+function getTextEndpointConfig(id: ProviderId): TextEndpointConfig {
+  if (id === 'openai_compatible') {
+    return {
+      baseUrl: requireEnv('YTG_LLM_BASE_URL').trim().replace(/\/$/, ''),
+      apiKey: Deno.env.get('YTG_LLM_API_KEY')?.trim() ?? '',
+      textModels: [requireEnv('YTG_LLM_TEXT_MODEL').trim()],
+    }
+  }
+  return { baseUrl: 'https://api.openai.com/v1', apiKey: requireEnv('OPENAI_API_KEY'), textModels: getTextModelCandidates() }
+}
+
+function endpointHeaders(cfg: TextEndpointConfig) {
+  const headers: Record<string, string> = { 'content-type': 'application/json' }
+  if (cfg.apiKey) headers.authorization = `Bearer ${cfg.apiKey}`
+  return headers
+}
+
+async function openaiChatContent(cfg: TextEndpointConfig, payload: any, meter?: UsageMeter): Promise<string> {
+  let lastErr: unknown = null
+
+  for (const model of cfg.textModels) {
+    const res = await fetch(`${cfg.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: endpointHeaders(cfg),
+      body: JSON.stringify({ ...payload, model }),
+    })
+    const text = await res.text()
+    if (!res.ok) {
+      lastErr = new Error(`OpenAI error (${res.status}): ${text}`)
+      // try next model if access/model error
+      if (res.status === 403 && isModelAccessError(text)) continue
+      if (res.status === 404 && isModelAccessError(text)) continue
+      throw lastErr
+    }
+
+    const json = JSON.parse(text)
+    meter?.({ model, input_tokens: json?.usage?.prompt_tokens ?? 0, output_tokens: json?.usage?.completion_tokens ?? 0 })
+    const content: string = json?.choices?.[0]?.message?.content ?? ''
+    if (!content) throw new Error('OpenAI returned empty content')
+    return content
+  }
+
+  throw lastErr ?? new Error('OpenAI error: no available text model')
+}
+
+function stripJsonFences(s: string) {
+  const t = s.trim()
+  if (t.startsWith('```')) {
+    return t.replace(/^```[a-zA-Z]*\s*/, '').replace(/\s*```$/, '').trim()
+  }
+  return t
+}
+
+function extractJsonObjectFromText(text: string): unknown {
+  const s = text.trim()
+  // 1) plain JSON
+  try {
+    const parsed = JSON.parse(stripJsonFences(s))
+    // common pattern: { "DATA": { ...actual payload... } }
+    if (parsed && typeof parsed === 'object') {
+      const anyParsed: any = parsed
+      if (anyParsed.DATA && typeof anyParsed.DATA === 'object') return anyParsed.DATA
+      if (anyParsed.data && typeof anyParsed.data === 'object') return anyParsed.data
+    }
+    return parsed
+  } catch {
+    // ignore
+  }
+
+  // 2) try after "DATA"
+  const idx = s.toUpperCase().lastIndexOf('DATA')
+  const from = idx >= 0 ? s.slice(idx) : s
+  const start = from.indexOf('{')
+  if (start < 0) throw new Error('No JSON object found in output')
+
+  const src = from.slice(start)
+  // balanced brace scan
+  let depth = 0
+  let inString = false
+  let escaped = false
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (ch === '\\') {
+        escaped = true
+      } else if (ch === '"') {
+        inString = false
+      }
+      continue
+    }
+    if (ch === '"') {
+      inString = true
+      continue
+    }
+    if (ch === '{') depth++
+    if (ch === '}') depth--
+    if (depth === 0) {
+      const candidate = src.slice(0, i + 1)
+      const parsed = JSON.parse(candidate)
+      // common wrapper: { "DATA": {...} } or { "data": {...} }
+      if (parsed && typeof parsed === 'object') {
+        const anyParsed: any = parsed
+        if (anyParsed.DATA && typeof anyParsed.DATA === 'object') return anyParsed.DATA
+        if (anyParsed.data && typeof anyParsed.data === 'object') return anyParsed.data
+      }
+      return parsed
+    }
+  }
+  throw new Error('Failed to parse JSON object from output')
+}
+
+async function textJsonCompletion<T>(cfg: TextEndpointConfig, instructions: string, input: string, meter?: UsageMeter): Promise<T> {
+  const content = await openaiChatContent(cfg, {
+    messages: [
+      { role: 'system', content: instructions },
+      { role: 'user', content: input },
+    ],
+  }, meter)
+  return extractJsonObjectFromText(content) as T
+}
+
+// ---- 사용량/비용 집계 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 유료 호출(텍스트/이미지/TTS) 1회당 ytg_usage에 1행을 기록합니다.
+// 비용은 가격표 기반 추정치(USD)이며, YTG_PRICE_TABLE(JSON)로 모델별 단가를 덮어쓸 수 있습니다.
+type UsageKind = 'text' | 'image' | 'tts'
+
+// openai* 함수가 측정하는 값 (호출 1회 기준)
+type UsageMeasure = {
+  model: string
+  input_tokens?: number
+  output_tokens?: number
+  image_count?: number
+  image_size?: string | null
+  tts_chars?: number
+}
+
+type UsageMeter = (m: UsageMeasure) => void
+
+type UsageEvent = UsageMeasure & {
+  kind: UsageKind
+  op: string // autoconfig | packager | scene_image | scene_tts | scene_draft | scene_rewrite
+  provider: ProviderId
+  scene_id?: number | null
+}
+
+type UsageSink = (e: UsageEvent) => void
+
+type PriceTable = {
+  text: Record<string, { input_per_1m: number; output_per_1m: number }>
+  image: Record<string, Record<string, number>> // size별 장당 단가, 'default'는 size 미등록 시 사용
+  tts: Record<string, { per_1m_chars: number }>
+}
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  text: {
+    'gpt-5.2': { input_per_1m: 1.75, output_per_1m: 14 },
+    'gpt-4o-mini': { input_per_1m: 0.15, output_per_1m: 0.6 },
+    'gpt-4o': { input_per_1m: 2.5, output_per_1m: 10 },
+  },
+  image: {
+    'gpt-image-1-mini': { default: 0.011, '1024x1024': 0.011, '1536x1024': 0.015, '1024x1536': 0.015 },
+    'gpt-image-1': { default: 0.042, '1024x1024': 0.042, '1536x1024': 0.063, '1024x1536': 0.063 },
+    'dall-e-3': { default: 0.04, '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+  },
+  tts: {
+    'gpt-4o-mini-tts': { per_1m_chars: 15 },
+    'tts-1': { per_1m_chars: 15 },
+    'tts-1-hd': { per_1m_chars: 30 },
+  },
+}
+
+function getPriceTable(): PriceTable {
+  const raw = Deno.env.get('YTG_PRICE_TABLE')?.trim()
+  if (!raw) return DEFAULT_PRICE_TABLE
+  try {
+    const j = JSON.parse(raw)
+    return {
+      text: { ...DEFAULT_PRICE_TABLE.text, ...(j?.text ?? {}) },
+      image: { ...DEFAULT_PRICE_TABLE.image, ...(j?.image ?? {}) },
+      tts: { ...DEFAULT_PRICE_TABLE.tts, ...(j?.tts ?? {}) },
+    }
+  } catch (e: any) {
+    console.warn('[ytg] YTG_PRICE_TABLE 파싱 실패, 기본 단가 사용', { error: e?.message ?? String(e) })
+    return DEFAULT_PRICE_TABLE
+  }
+}
+
+// 가격표에 없는 모델이면 null (UI에서 "단가 미등록"으로 표시)
+function estimateCostUsd(e: UsageEvent, prices: PriceTable): number | null {
+  if (e.provider === 'fake') return 0
+  if (e.kind === 'text') {
+    const p = prices.text[e.model]
+    if (!p) return null
+    return ((e.input_tokens ?? 0) * p.input_per_1m + (e.output_tokens ?? 0) * p.output_per_1m) / 1_000_000
+  }
+  if (e.kind === 'image') {
+    const p = prices.image[e.model]
+    const unit = p ? (p[e.image_size ?? ''] ?? p.default) : undefined
+    if (unit == null) return null
+    return unit * (e.image_count ?? 1)
+  }
+  const p = prices.tts[e.model]
+  if (!p) return null
+  return ((e.tts_chars ?? 0) * p.per_1m_chars) / 1_000_000
+}
+
+// best-effort 기록: 사용량 기록 실패가 생성 작업을 실패시키지 않도록 합니다.
+function createUsageRecorder(supabase: ReturnType<typeof createClient>, jobId: string) {
+  const prices = getPriceTable()
+  const pending: Array<Promise<unknown>> = []
+  const sink: UsageSink = (e) => {
+    const row = {
+      job_id: jobId,
+      kind: e.kind,
+      op: e.op,
+      provider: e.provider,
+      model: e.model,
+      scene_id: e.scene_id ?? null,
+      input_tokens: e.input_tokens ?? null,
+      output_tokens: e.output_tokens ?? null,
+      image_count: e.image_count ?? null,
+      image_size: e.image_size ?? null,
+      tts_chars: e.tts_chars ?? null,
+      cost_usd: estimateCostUsd(e, prices),
+    }
+    pending.push(
+      Promise.resolve(supabase.from('ytg_usage').insert(row)).then((r: any) => {
+        if (r?.error) console.warn('[ytg] ytg_usage 기록 실패(무시)', { jobId, error: r.error.message, row })
+      }),
+    )
+  }
+  return { sink, flush: () => Promise.allSettled(pending.splice(0)) }
+}
+
+// provider 호출 단위(op/scene_id)를 붙여 UsageSink로 넘기는 meter 생성
+function usageMeter(onUsage: UsageSink | undefined, kind: UsageKind, op: string, provider: ProviderId, sceneId?: number): UsageMeter | undefined {
+  if (!onUsage) return undefined
+  return (m) => onUsage({ ...m, kind, op, provider, scene_id: sceneId ?? null })
+}
+
+// ---- Quota (단일 파일 배포를 위해 index.ts에 포함) ----
+// 사용자별 일일 한도(UTC 자정 초기화) + 분당 요청 수 제한. 카운터는 ytg_consume_quota RPC로 원자적으로 증가시킵니다.
+type QuotaKind = 'jobs' | 'images' | 'tts_chars' | 'requests'
+
+const QUOTA_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-28_add_usage_quotas.sql 을 실행하세요.'
+
+const QUOTA_ENV: Record<QuotaKind, { env: string; fallback: number; label: string; unit: string }> = {
+  jobs: { env: 'YTG_QUOTA_JOBS_PER_DAY', fallback: 20, label: '오늘 job 생성', unit: '개' },
+  images: { env: 'YTG_QUOTA_IMAGES_PER_DAY', fallback: 100, label: '오늘 이미지 생성', unit: '장' },
+  tts_chars: { env: 'YTG_QUOTA_TTS_CHARS_PER_DAY', fallback: 50000, label: '오늘 TTS', unit: '자' },
+  requests: { env: 'YTG_RATE_LIMIT_PER_MINUTE', fallback: 30, label: '분당 생성 요청', unit: '회' },
+}
+
+// 0이면 제한 없음
+function getQuotaLimit(kind: QuotaKind): number | null {
+  const cfg = QUOTA_ENV[kind]
+  const raw = Number(Deno.env.get(cfg.env) ?? cfg.fallback)
+  const n = Number.isFinite(raw) ? Math.floor(raw) : cfg.fallback
+  return n > 0 ? n : null
+}
+
+function quotaExceeded(kind: QuotaKind, limit: number, used: number, requested: number, resetAt: string) {
+  const cfg = QUOTA_ENV[kind]
+  const retryAfterSec = Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000))
+  const remaining = Math.max(0, limit - used)
+  const when = kind === 'requests' ? `${retryAfterSec}초 후 다시 시도하세요.` : `UTC 자정(한국 시간 09:00)에 초기화됩니다.`
+  const hint =
+    `${cfg.label} 한도(${limit.toLocaleString()}${cfg.unit})를 초과했습니다. ` +
+    (remaining > 0 && requested > 1 ? `남은 양은 ${remaining.toLocaleString()}${cfg.unit}입니다. ` : '') +
+    when
+  return new Response(
+    JSON.stringify({ error: 'quota_exceeded', kind, limit, used, requested, reset_at: resetAt, retry_after_sec: retryAfterSec, hint }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8', 'retry-after': String(retryAfterSec) },
+    },
+  )
+}
+
+// amount만큼 사용량을 차감합니다. 한도를 넘으면 아무것도 기록하지 않고 429 응답을 돌려줍니다.
+// (amount = 0이면 남은 양이 있는지만 확인)
+async function consumeQuota(supabase: any, userId: string, kind: QuotaKind, amount: number): Promise<Response | null> {
+  const limit = getQuotaLimit(kind)
+  if (limit == null) return null
+  const res = await supabase.rpc('ytg_consume_quota', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_amount: amount,
+    p_limit: limit,
+    p_window: kind === 'requests' ? 'minute' : 'day',
+  })
+  if (res.error) return json({ error: res.error.message, hint: QUOTA_MIGRATION_HINT }, 500)
+  const row = Array.isArray(res.data) ? res.data[0] : res.data
+  if (row?.allowed) return null
+  console.warn('[ytg] quota 초과', { userId, kind, limit, used: row?.used, requested: amount })
+  return quotaExceeded(kind, limit, Number(row?.used ?? 0), amount, String(row?.window_end ?? nowIso()))
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+// 제안만 만들고 저장하지 않습니다. 사용자가 JobPage에서 적용하면 trendstory-update-scene(source: 'rewrite')으로 저장합니다.
+type RewriteSceneRequest = {
+  job_id: string
+  scene_id: number
+  instruction: string // 예: "더 긴장감 있게", "초등학생도 이해하게 쉽게"
+}
+
+type RewriteField = 'narration' | 'on_screen_text' | 'visual_brief'
+
+type RewriteSceneResponse = {
+  job_id: string
+  scene_id: number
+  instruction: string
+  current: Record<RewriteField, string | null>
+  proposal: Record<RewriteField, string | null>
+  changed: RewriteField[] // current와 다른 필드 (적용 시 이 필드만 보냄)
+  note: string | null // 모델이 설명한 변경 이유 (한 줄)
+}
+
+const REWRITE_FIELDS: RewriteField[] = ['narration', 'on_screen_text', 'visual_brief']
+
+const REWRITE_TEXT_LIMITS: Record<RewriteField, number> = { narration: 2000, on_screen_text: 200, visual_brief: 1000 }
+
+const MAX_INSTRUCTION_LENGTH = 500
+
+const SCENE_REWRITE_INSTRUCTIONS = `너는 유튜브 스토리 영상의 씬 편집자다.
+주어진 씬(scene) 1개를 사용자의 지시(instruction)에 맞게 다시 써라.
+- story(제목/요약)와 앞뒤 씬(prev/next)의 흐름이 끊기지 않게 한다. 새로운 인물이나 설정을 갑자기 만들지 않는다.
+- style_guide(tone, visual_style, main_character_hint, safety_level)와 언어(language)를 지킨다.
+- 지시와 관계없는 필드는 원문 그대로 둔다.
+- narration은 TTS로 읽히므로 괄호 설명이나 이모지를 넣지 않는다.
+- visual_brief는 이미지 생성용 장면 묘사다. 장면이 바뀌지 않으면 그대로 둔다.
+출력은 JSON 객체 하나만: {"narration": string, "on_screen_text": string, "visual_brief": string, "note": string(무엇을 바꿨는지 한 줄)}`
+
+function fixtureRewrite(scene: any, instruction: string) {
+  return {
+    narration: `${String(scene.narration ?? '').trim()} (${instruction} - fixture 수정안)`,
+    on_screen_text: scene.on_screen_text ?? null,
+    visual_brief: scene.visual_brief ?? null,
+    note: 'fixture 모드: narration 끝에 지시를 덧붙였습니다.',
+  }
+}
+
+// 모델 출력 정리: 문자열이 아니면 원문 유지, 길면 자름, narration은 비울 수 없음
+function normalizeProposal(raw: any, current: Record<RewriteField, string | null>): Record<RewriteField, string | null> {
+  const out = { ...current }
+  for (const key of REWRITE_FIELDS) {
+    if (typeof raw?.[key] !== 'string') continue
+    const v = raw[key].trim().slice(0, REWRITE_TEXT_LIMITS[key])
+    if (key === 'narration' && !v) continue
+    out[key] = v || null
+  }
+  return out
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  let payload: RewriteSceneRequest
+  try {
+    payload = (await req.json()) as RewriteSceneRequest
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const jobId = String(payload?.job_id ?? '').trim()
+  const sceneId = Number(payload?.scene_id)
+  const instruction = String(payload?.instruction ?? '').trim()
+  if (!jobId) return json({ error: 'job_id is required' }, 400)
+  if (!Number.isInteger(sceneId)) return json({ error: 'scene_id must be an integer' }, 400)
+  if (!instruction) return json({ error: 'instruction is required' }, 400)
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    return json({ error: `instruction은 ${MAX_INSTRUCTION_LENGTH}자 이하여야 합니다.` }, 400)
+  }
+
+  try {
+    const supabase = getSupabaseServiceClient()
+    // 제안만 만들어도 유료 호출이므로 적용 권한(owner/editor)이 있는 사용자만 허용합니다.
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+    const limited = await consumeQuota(supabase, user.id, 'requests', 1)
+    if (limited) return limited
+
+    const jobRes = await supabase.from('ytg_jobs').select('input, autoconfig, packager').eq('id', jobId).single()
+    if (jobRes.error) return json({ error: jobRes.error.message }, 500)
+    const job = jobRes.data
+
+    const scenesRes = await supabase
+      .from('ytg_scenes')
+      .select('scene_id, narration, on_screen_text, visual_brief, mood, duration_sec')
+      .eq('job_id', jobId)
+      .order('scene_id', { ascending: true })
+    if (scenesRes.error) return json({ error: scenesRes.error.message }, 500)
+    const rows = scenesRes.data ?? []
+    const idx = rows.findIndex((r: any) => r.scene_id === sceneId)
+    if (idx < 0) return json({ error: 'Scene not found' }, 404)
+    const scene = rows[idx]
+    const current = Object.fromEntries(REWRITE_FIELDS.map((k) => [k, scene[k] ?? null])) as Record<RewriteField, string | null>
+
+    const providerId = resolveProviderId(job.input?.provider)
+    const usage = createUsageRecorder(supabase, jobId)
+    let raw: any
+    try {
+      if (providerId === 'fake') {
+        raw = fixtureRewrite(scene, instruction)
+      } else {
+        const pick = (s: any) => (s ? { scene_id: s.scene_id, narration: s.narration, on_screen_text: s.on_screen_text } : null)
+        const input = {
+          language: job.input?.language ?? null,
+          audience: job.autoconfig?.audience ?? job.input?.audience ?? null,
+          story: job.packager?.story ?? null,
+          style_guide: job.packager?.style_guide ?? null,
+          prev: pick(rows[idx - 1]),
+          next: pick(rows[idx + 1]),
+          scene: { scene_id: scene.scene_id, ...current, mood: scene.mood, duration_sec: scene.duration_sec },
+          instruction,
+        }
+        raw = await textJsonCompletion<any>(
+          getTextEndpointConfig(providerId),
+          SCENE_REWRITE_INSTRUCTIONS,
+          JSON.stringify(input),
+          usageMeter(usage.sink, 'text', 'scene_rewrite', providerId, sceneId),
+        )
+      }
+    } catch (e: any) {
+      console.error('[ytg] 씬 다시 쓰기 실패', { jobId, sceneId, error: e?.message ?? String(e) })
+      return json({ error: `scene rewrite failed: ${e?.message ?? String(e)}` }, 502)
+    } finally {
+      await usage.flush()
+    }
+
+    const proposal = normalizeProposal(raw, current)
+    const changed = REWRITE_FIELDS.filter((k) => proposal[k] !== current[k])
+    const note = typeof raw?.note === 'string' && raw.note.trim() ? raw.note.trim().slice(0, 300) : null
+    console.log('[ytg] 씬 다시 쓰기 제안', { jobId, sceneId, changed, provider: providerId, userId: user.id })
+
+    const out: RewriteSceneResponse = { job_id: jobId, scene_id: sceneId, instruction, current, proposal, changed, note }
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    console.error('[ytg] trendstory-rewrite-scene error', { jobId, sceneId, msg })
+    return json({ error: msg }, 500)
+  }
+})
@@ -0,0 +1,1025 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+const SCENE_EDIT_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-03_add_scene_editing.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+// ---- 텍스트 LLM 호출 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 씬 단위의 짧은 JSON 생성용입니다. openai / openai_compatible 모두 chat/completions를 사용하고,
+// fake(fixture 모드)는 호출하는 쪽에서 결정적인 결과를 직접 만듭니다.
+type ProviderId = 'openai' | 'openai_compatible' | 'fake'
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'openai_compatible', 'fake']
+
+function isProviderId(v: unknown): v is ProviderId {
+  return typeof v === 'string' && (PROVIDER_IDS as string[]).includes(v)
+}
+
+function isFixtureMode() {
+  const v = (Deno.env.get('YTG_FIXTURE_MODE') ?? '').trim().toLowerCase()
+  return v === '1' || v === 'true' || v === 'yes'
+}
+
+function resolveProviderId(requested?: string | null): ProviderId {
+  if (isFixtureMode()) return 'fake'
+  const fromJob = (requested ?? '').trim()
+  if (isProviderId(fromJob)) return fromJob
+  const fromEnv = (Deno.env.get('YTG_PROVIDER') ?? '').trim()
+  if (isProviderId(fromEnv)) return fromEnv
+  return 'openai'
+}
+
+type TextEndpointConfig = {
+  baseUrl: string
+  apiKey: string
+  textModels: string[]
+}
+
+function getTextModelCandidates(preferred?: string) {
+  const envModel = Deno.env.get('OPENAI_TEXT_MODEL')?.trim()
+  const candidates = [
+    // user requested default (always try first)
+    'gpt-5.2',
+    preferred?.trim(),
+    envModel,
+    // safe defaults that many projects have access to
+    'gpt-4o-mini',
+    'gpt-4o',
+  ].filter((m): m is string => Boolean(m))
+  // de-dup preserving order
+  return Array.from(new Set(candidates))
+}
+
+function isModelAccessError(errText: string) {
+  try {
+    const j = JSON.parse(errText)
+    const code = j?.error?.code
+    const msg = j?.error?.message ?? ''
+    if (code === 'model_not_found') return true
+    if (typeof msg === 'string' && msg.includes('does not have access to model')) return true
+  } catch {
+    // ignore
+  }
+  return false
+}
+
+function getTextEndpointConfig(id: ProviderId): TextEndpointConfig {
+  if (id === 'openai_compatible') {
+    return {
+      baseUrl: requireEnv('YTG_LLM_BASE_URL').trim().replace(/\/$/, ''),
+      apiKey: Deno.env.get('YTG_LLM_API_KEY')?.trim() ?? '',
+      textModels: [requireEnv('YTG_LLM_TEXT_MODEL').trim()],
+    }
+  }
+  return { baseUrl: 'https://api.openai.com/v1', apiKey: requireEnv('OPENAI_API_KEY'), textModels: getTextModelCandidates() }
+}
+
+function endpointHeaders(cfg: TextEndpointConfig) {
+  const headers: Record<string, string> = { 'content-type': 'application/json' }
+  if (cfg.apiKey) headers.authorization = `Bearer ${cfg.apiKey}`
+  return headers
+}
+
+async function openaiChatContent(cfg: TextEndpointConfig, payload: any, meter?: UsageMeter): Promise<string> {
+  let lastErr: unknown = null
+
+  for (const model of cfg.textModels) {
+    const res = await fetch(`${cfg.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: endpointHeaders(cfg),
+      body: JSON.stringify({ ...payload, model }),
+    })
+    const text = await res.text()
+    if (!res.ok) {
+      lastErr = new Error(`OpenAI error (${res.status}): ${text}`)
+      // try next model if access/model error
+      if (res.status === 403 && isModelAccessError(text)) continue
+      if (res.status === 404 && isModelAccessError(text)) continue
+      throw lastErr
+    }
+
+    const json = JSON.parse(text)
+    meter?.({ model, input_tokens: json?.usage?.prompt_tokens ?? 0, output_tokens: json?.usage?.completion_tokens ?? 0 })
+    const content: string = json?.choices?.[0]?.message?.content ?? ''
+    if (!content) throw new Error('OpenAI returned empty content')
+    return content
+  }
+
+  throw lastErr ?? new Error('OpenAI error: no available text model')
+}
+
+function stripJsonFences(s: string) {
+  const t = s.trim()
+  if (t.startsWith('```')) {
+    return t.replace(/^```[a-zA-Z]*\s*/, '').replace(/\s*```$/, '').trim()
+  }
+  return t
+}
+
+function extractJsonObjectFromText(text: string): unknown {
+  const s = text.trim()
+  // 1) plain JSON
+  try {
+    const parsed = JSON.parse(stripJsonFences(s))
+    // common pattern: { "DATA": { ...actual payload... } }
+    if (parsed && typeof parsed === 'object') {
+      const anyParsed: any = parsed
+      if (anyParsed.DATA && typeof anyParsed.DATA === 'object') return anyParsed.DATA
+      if (anyParsed.data && typeof anyParsed.data === 'object') return anyParsed.data
+    }
+    return parsed
+  } catch {
+    // ignore
+  }
+
+  // 2) try after "DATA"
+  const idx = s.toUpperCase().lastIndexOf('DATA')
+  const from = idx >= 0 ? s.slice(idx) : s
+  const start = from.indexOf('{')
+  if (start < 0) throw new Error('No JSON object found in output')
+
+  const src = from.slice(start)
+  // balanced brace scan
+  let depth = 0
+  let inString = false
+  let escaped = false
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (ch === '\\') {
+        escaped = true
+      } else if (ch === '"') {
+        inString = false
+      }
+      continue
+    }
+    if (ch === '"') {
+      inString = true
+      continue
+    }
+    if (ch === '{') depth++
+    if (ch === '}') depth--
+    if (depth === 0) {
+      const candidate = src.slice(0, i + 1)
+      const parsed = JSON.parse(candidate)
+      // common wrapper: { "DATA": {...} } or { "data": {...} }
+      if (parsed && typeof parsed === 'object') {
+        const anyParsed: any = parsed
+        if (anyParsed.DATA && typeof anyParsed.DATA === 'object') return anyParsed.DATA
+        if (anyParsed.data && typeof anyParsed.data === 'object') return anyParsed.data
+      }
+      return parsed
+    }
+  }
+  throw new Error('Failed to parse JSON object from output')
+}
+
+async function textJsonCompletion<T>(cfg: TextEndpointConfig, instructions: string, input: string, meter?: UsageMeter): Promise<T> {
+  const content = await openaiChatContent(cfg, {
+    messages: [
+      { role: 'system', content: instructions },
+      { role: 'user', content: input },
+    ],
+  }, meter)
+  return extractJsonObjectFromText(content) as T
+}
+
+// ---- 사용량/비용 집계 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 유료 호출(텍스트/이미지/TTS) 1회당 ytg_usage에 1행을 기록합니다.
+// 비용은 가격표 기반 추정치(USD)이며, YTG_PRICE_TABLE(JSON)로 모델별 단가를 덮어쓸 수 있습니다.
+type UsageKind = 'text' | 'image' | 'tts'
+
+// openai* 함수가 측정하는 값 (호출 1회 기준)
+type UsageMeasure = {
+  model: string
+  input_tokens?: number
+  output_tokens?: number
+  image_count?: number
+  image_size?: string | null
+  tts_chars?: number
+}
+
+type UsageMeter = (m: UsageMeasure) => void
+
+type UsageEvent = UsageMeasure & {
+  kind: UsageKind
+  op: string // autoconfig | packager | scene_image | scene_tts | scene_draft
+  provider: ProviderId
+  scene_id?: number | null
+}
+
+type UsageSink = (e: UsageEvent) => void
+
+type PriceTable = {
+  text: Record<string, { input_per_1m: number; output_per_1m: number }>
+  image: Record<string, Record<string, number>> // size별 장당 단가, 'default'는 size 미등록 시 사용
+  tts: Record<string, { per_1m_chars: number }>
+}
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  text: {
+    'gpt-5.2': { input_per_1m: 1.75, output_per_1m: 14 },
+    'gpt-4o-mini': { input_per_1m: 0.15, output_per_1m: 0.6 },
+    'gpt-4o': { input_per_1m: 2.5, output_per_1m: 10 },
+  },
+  image: {
+    'gpt-image-1-mini': { default: 0.011, '1024x1024': 0.011, '1536x1024': 0.015, '1024x1536': 0.015 },
+    'gpt-image-1': { default: 0.042, '1024x1024': 0.042, '1536x1024': 0.063, '1024x1536': 0.063 },
+    'dall-e-3': { default: 0.04, '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+  },
+  tts: {
+    'gpt-4o-mini-tts': { per_1m_chars: 15 },
+    'tts-1': { per_1m_chars: 15 },
+    'tts-1-hd': { per_1m_chars: 30 },
+  },
+}
+
+function getPriceTable(): PriceTable {
+  const raw = Deno.env.get('YTG_PRICE_TABLE')?.trim()
+  if (!raw) return DEFAULT_PRICE_TABLE
+  try {
+    const j = JSON.parse(raw)
+    return {
+      text: { ...DEFAULT_PRICE_TABLE.text, ...(j?.text ?? {}) },
+      image: { ...DEFAULT_PRICE_TABLE.image, ...(j?.image ?? {}) },
+      tts: { ...DEFAULT_PRICE_TABLE.tts, ...(j?.tts ?? {}) },
+    }
+  } catch (e: any) {
+    console.warn('[ytg] YTG_PRICE_TABLE 파싱 실패, 기본 단가 사용', { error: e?.message ?? String(e) })
+    return DEFAULT_PRICE_TABLE
+  }
+}
+
+// 가격표에 없는 모델이면 null (UI에서 "단가 미등록"으로 표시)
+function estimateCostUsd(e: UsageEvent, prices: PriceTable): number | null {
+  if (e.provider === 'fake') return 0
+  if (e.kind === 'text') {
+    const p = prices.text[e.model]
+    if (!p) return null
+    return ((e.input_tokens ?? 0) * p.input_per_1m + (e.output_tokens ?? 0) * p.output_per_1m) / 1_000_000
+  }
+  if (e.kind === 'image') {
+    const p = prices.image[e.model]
+    const unit = p ? (p[e.image_size ?? ''] ?? p.default) : undefined
+    if (unit == null) return null
+    return unit * (e.image_count ?? 1)
+  }
+  const p = prices.tts[e.model]
+  if (!p) return null
+  return ((e.tts_chars ?? 0) * p.per_1m_chars) / 1_000_000
+}
+
+// best-effort 기록: 사용량 기록 실패가 생성 작업을 실패시키지 않도록 합니다.
+function createUsageRecorder(supabase: ReturnType<typeof createClient>, jobId: string) {
+  const prices = getPriceTable()
+  const pending: Array<Promise<unknown>> = []
+  const sink: UsageSink = (e) => {
+    const row = {
+      job_id: jobId,
+      kind: e.kind,
+      op: e.op,
+      provider: e.provider,
+      model: e.model,
+      scene_id: e.scene_id ?? null,
+      input_tokens: e.input_tokens ?? null,
+      output_tokens: e.output_tokens ?? null,
+      image_count: e.image_count ?? null,
+      image_size: e.image_size ?? null,
+      tts_chars: e.tts_chars ?? null,
+      cost_usd: estimateCostUsd(e, prices),
+    }
+    pending.push(
+      Promise.resolve(supabase.from('ytg_usage').insert(row)).then((r: any) => {
+        if (r?.error) console.warn('[ytg] ytg_usage 기록 실패(무시)', { jobId, error: r.error.message, row })
+      }),
+    )
+  }
+  return { sink, flush: () => Promise.allSettled(pending.splice(0)) }
+}
+
+// provider 호출 단위(op/scene_id)를 붙여 UsageSink로 넘기는 meter 생성
+function usageMeter(onUsage: UsageSink | undefined, kind: UsageKind, op: string, provider: ProviderId, sceneId?: number): UsageMeter | undefined {
+  if (!onUsage) return undefined
+  return (m) => onUsage({ ...m, kind, op, provider, scene_id: sceneId ?? null })
+}
+
+function safeFilename(s: string) {
+  return s.replace(/[^a-zA-Z0-9._-]+/g, '-')
+}
+
+// YTG_STORAGE_PRIVATE=true면 버킷이 비공개이므로 URL은 저장하지 않고 경로만 남깁니다. (trendstory-status가 signed URL을 만듦)
+function isPrivateStorage() {
+  return (Deno.env.get('YTG_STORAGE_PRIVATE') ?? '').trim().toLowerCase() === 'true'
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+// action별 필드
+// - insert : after_scene_id(0이면 맨 앞), scene(직접 입력), draft=true면 앞뒤 씬을 보고 LLM이 초안 작성 (scene 값이 우선)
+// - delete : scene_id
+// - split  : scene_id, split_at(narration 글자 위치, 생략 시 가운데에 가장 가까운 문장 경계)
+// - merge  : scene_id (바로 다음 씬을 이 씬에 합침)
+// - reorder: order (현재 scene_id를 원하는 순서대로 모두 나열)
+type SceneOpsAction = 'insert' | 'delete' | 'split' | 'merge' | 'reorder'
+
+const SCENE_OPS_ACTIONS: SceneOpsAction[] = ['insert', 'delete', 'split', 'merge', 'reorder']
+
+type SceneInput = {
+  narration?: string
+  on_screen_text?: string | null
+  visual_brief?: string | null
+  mood?: string | null
+  duration_sec?: number
+}
+
+type SceneOpsRequest = {
+  job_id: string
+  action: SceneOpsAction
+  scene_id?: number
+  after_scene_id?: number
+  scene?: SceneInput
+  draft?: boolean
+  hint?: string // draft=true일 때 LLM에 전달할 추가 지시 (예: "주인공이 길을 잃는 장면")
+  split_at?: number
+  order?: number[]
+}
+
+type SceneOpsResponse = {
+  job_id: string
+  action: SceneOpsAction
+  // 이전 scene_id → 새 scene_id (삭제/병합으로 없어진 씬은 null)
+  mapping: Record<string, number | null>
+  // 추가/분할로 생긴 씬, 병합 결과 씬 (delete/reorder는 null)
+  scene_id: number | null
+  scenes: Record<string, unknown>[]
+  // 스토리지 파일 이름 변경에 실패한 경로 (DB는 기존 경로를 유지)
+  storage_errors: string[]
+}
+
+const MAX_SCENES = 12
+
+const SCENE_TEXT_LIMITS = { narration: 2000, on_screen_text: 200, visual_brief: 1000, mood: 100 } as const
+
+const SCENE_COLUMNS =
+  'id, job_id, scene_id, narration, on_screen_text, visual_brief, mood, duration_sec, image_prompt, image_path, image_url, image_gen_status, updated_at, audio_stale, image_stale'
+
+// 새 씬 입력 검증 (생략한 필드는 null, narration은 draft가 아니면 필수)
+function parseSceneInput(raw: unknown, requireNarration: boolean): { scene: Record<string, unknown> } | { error: string } {
+  if (raw != null && (typeof raw !== 'object' || Array.isArray(raw))) return { error: 'scene must be an object' }
+  const o = (raw ?? {}) as Record<string, unknown>
+  const scene: Record<string, unknown> = {}
+  for (const key of Object.keys(SCENE_TEXT_LIMITS) as Array<keyof typeof SCENE_TEXT_LIMITS>) {
+    if (o[key] == null) continue
+    if (typeof o[key] !== 'string') return { error: `scene.${key} must be a string` }
+    const v = (o[key] as string).trim()
+    if (v.length > SCENE_TEXT_LIMITS[key]) return { error: `scene.${key}는 ${SCENE_TEXT_LIMITS[key]}자 이하여야 합니다.` }
+    if (v) scene[key] = v
+  }
+  if (o.duration_sec != null && o.duration_sec !== '') {
+    const n = Number(o.duration_sec)
+    if (!Number.isInteger(n) || n < 1 || n > 120) return { error: 'scene.duration_sec must be an integer between 1 and 120' }
+    scene.duration_sec = n
+  }
+  if (requireNarration && !scene.narration) return { error: 'scene.narration is required (또는 draft=true로 초안 작성)' }
+  return { scene }
+}
+
+// split_at이 없으면 가운데에 가장 가까운 문장 경계(. ! ? … 줄바꿈)에서, 그것도 없으면 가운데에 가까운 공백에서 나눕니다.
+function splitNarration(text: string, at?: number): [string, string] | null {
+  const t = text.trim()
+  let cut = at
+  if (cut == null) {
+    const mid = t.length / 2
+    const collect = (re: RegExp) => Array.from(t.matchAll(re), (m) => (m.index ?? 0) + m[0].length).filter((i) => i < t.length)
+    let bounds = collect(/[.!?。！？…]+["'”’)]*\s+|\n+/g)
+    if (bounds.length === 0) bounds = collect(/\s+/g)
+    if (bounds.length === 0) return null
+    cut = bounds.reduce((best, b) => (Math.abs(b - mid) < Math.abs(best - mid) ? b : best))
+  }
+  const first = t.slice(0, cut).trim()
+  const second = t.slice(cut).trim()
+  if (!first || !second) return null
+  return [first, second]
+}
+
+// 한 씬을 구성하는 슬롯: 기존 행(row)을 그대로/수정(patch)해서 쓰거나, 새 행(insert)을 넣습니다.
+type SceneSlot = {
+  row: any | null
+  patch?: Record<string, unknown>
+  insert?: Record<string, unknown>
+}
+
+type ScenePlan = {
+  slots: SceneSlot[]
+  removed: any[]
+  focus: number | null // 응답의 scene_id가 될 슬롯 index
+  source: string // ytg_scene_edits.source
+}
+
+// 오류면 그대로 400 응답 본문이 됩니다. (reorder는 지금 순서를 current로 함께 돌려줌)
+function planSceneOp(
+  rows: any[],
+  payload: SceneOpsRequest,
+  newScene: Record<string, unknown> | null,
+): ScenePlan | { error: string; current?: number[] } {
+  const indexOf = (sceneId: unknown) => rows.findIndex((r) => r.scene_id === Number(sceneId))
+  const slots: SceneSlot[] = rows.map((row) => ({ row }))
+
+  if (payload.action === 'insert') {
+    if (rows.length >= MAX_SCENES) return { error: `씬은 최대 ${MAX_SCENES}개까지 만들 수 있습니다.` }
+    const after = Number(payload.after_scene_id ?? rows[rows.length - 1].scene_id)
+    const pos = after === 0 ? 0 : indexOf(after) + 1
+    if (pos === 0 && after !== 0) return { error: 'after_scene_id not found' }
+    // 새 씬은 오디오가 없으므로 audio_stale로 표시해 "이 씬 오디오 재생성" 버튼이 보이게 합니다.
+    slots.splice(pos, 0, { row: null, insert: { ...newScene, audio_stale: true } })
+    return { slots, removed: [], focus: pos, source: payload.draft ? 'draft' : 'insert' }
+  }
+
+  const idx = indexOf(payload.scene_id)
+  if (payload.action !== 'reorder' && idx < 0) return { error: 'Scene not found' }
+
+  if (payload.action === 'delete') {
+    if (rows.length <= 1) return { error: '마지막 남은 씬은 삭제할 수 없습니다.' }
+    const [removed] = slots.splice(idx, 1)
+    return { slots, removed: [removed.row], focus: null, source: 'delete' }
+  }
+
+  if (payload.action === 'split') {
+    if (rows.length >= MAX_SCENES) return { error: `씬은 최대 ${MAX_SCENES}개까지 만들 수 있습니다.` }
+    const row = rows[idx]
+    const parts = splitNarration(String(row.narration ?? ''), payload.split_at)
+    if (!parts) return { error: 'narration을 둘로 나눌 수 없습니다. (나눌 위치를 확인하세요)' }
+    // 길이(초)는 narration 글자 수 비율로 나눕니다.
+    const total = Number(row.duration_sec) || null
+    const firstSec = total ? Math.max(1, Math.round((total * parts[0].length) / (parts[0].length + parts[1].length))) : null
+    const secondSec = total ? Math.max(1, total - (firstSec ?? 0)) : null
+    slots[idx] = { row, patch: { narration: parts[0], duration_sec: firstSec, audio_stale: true } }
+    slots.splice(idx + 1, 0, {
+      row: null,
+      insert: {
+        narration: parts[1],
+        on_screen_text: null,
+        visual_brief: row.visual_brief ?? null,
+        mood: row.mood ?? null,
+        duration_sec: secondSec,
+        audio_stale: true,
+      },
+    })
+    return { slots, removed: [], focus: idx + 1, source: 'split' }
+  }
+
+  if (payload.action === 'merge') {
+    if (idx + 1 >= rows.length) return { error: '마지막 씬은 다음 씬이 없어 병합할 수 없습니다.' }
+    const a = rows[idx]
+    const b = rows[idx + 1]
+    const narration = [a.narration, b.narration].map((s) => String(s ?? '').trim()).filter(Boolean).join(' ')
+    if (narration.length > SCENE_TEXT_LIMITS.narration) {
+      return { error: `병합한 narration이 ${SCENE_TEXT_LIMITS.narration}자를 넘습니다. 먼저 내용을 줄이세요.` }
+    }
+    const sec = (Number(a.duration_sec) || 0) + (Number(b.duration_sec) || 0)
+    // 이미지/visual_brief는 앞 씬 것을 유지하므로 오디오만 다시 만들면 됩니다.
+    slots[idx] = {
+      row: a,
+      patch: {
+        narration,
+        on_screen_text: a.on_screen_text ?? b.on_screen_text ?? null,
+        duration_sec: sec > 0 ? Math.min(120, sec) : null,
+        audio_stale: true,
+      },
+    }
+    slots.splice(idx + 1, 1)
+    return { slots, removed: [b], focus: idx, source: 'merge' }
+  }
+
+  // reorder
+  const order = Array.isArray(payload.order) ? payload.order.map(Number) : []
+  const current = rows.map((r) => r.scene_id)
+  if (order.length !== current.length || new Set(order).size !== order.length || !order.every((id) => current.includes(id))) {
+    return { error: 'order must list every current scene_id exactly once', current }
+  }
+  return { slots: order.map((id) => ({ row: rows[indexOf(id)] })), removed: [], focus: null, source: 'reorder' }
+}
+
+// 파일 이름의 씬 번호만 바꿉니다.
+// - 이미지: jobs/<job>/scene-03-<topic>-<take>.png (예전 이미지: scene-03-<topic>.png)
+// - 오디오: jobs/<job>/tts/scene-03.mp3
+function renameScenePath(path: string, sceneId: number) {
+  return path.replace(/\/scene-\d+(?=[-.][^/]*$)/, `/scene-${String(sceneId).padStart(2, '0')}`)
+}
+
+// 번호가 서로 바뀌는 경우(2↔3)에도 덮어쓰지 않도록 임시 경로를 거쳐 두 번에 옮깁니다.
+// 옮기지 못한 파일은 errors에 남기고 DB는 기존 경로를 유지합니다.
+async function moveStorageFiles(supabase: any, bucket: string, jobId: string, moves: Map<string, string>) {
+  const storage = supabase.storage.from(bucket)
+  const tmpPrefix = `jobs/${jobId}/_moving-${crypto.randomUUID()}`
+  const moved = new Map<string, string>()
+  const errors: string[] = []
+
+  const staged: Array<{ from: string; tmp: string; to: string }> = []
+  let i = 0
+  for (const [from, to] of moves) {
+    const tmp = `${tmpPrefix}/${i++}-${safeFilename(from.split('/').pop() ?? 'file')}`
+    const r = await storage.move(from, tmp)
+    if (r.error) {
+      errors.push(`${from}: ${r.error.message}`)
+      continue
+    }
+    staged.push({ from, tmp, to })
+  }
+  for (const s of staged) {
+    const r = await storage.move(s.tmp, s.to)
+    if (r.error) {
+      // 최종 위치로 못 옮기면 원래 자리로 되돌립니다.
+      errors.push(`${s.to}: ${r.error.message}`)
+      const back = await storage.move(s.tmp, s.from)
+      if (back.error) errors.push(`${s.from}: ${back.error.message} (임시 경로 ${s.tmp}에 남음)`)
+      continue
+    }
+    moved.set(s.from, s.to)
+  }
+  return { moved, errors }
+}
+
+// packager / final_package의 씬 관련 JSON을 새 씬 목록에 맞춰 다시 만듭니다.
+// - scenes: 새 목록 기준 (기존 항목의 다른 키는 이전 scene_id로 찾아 유지)
+// - image_prompts / image_render_requests / audio.scene_audios: 번호 변경, 없어진 씬은 제거
+// - video_package.timeline: 씬 길이로 다시 계산, tts.full_script: narration을 이어 붙임
+function rebuildScenesJson(
+  packager: any,
+  finalPackage: any,
+  scenes: any[],
+  oldIdOf: Map<number, number | null>,
+  mapping: Record<string, number | null>,
+  movedPaths: Map<string, string>,
+  publicUrlOf: (path: string) => string | null,
+) {
+  const remap = (list: unknown) => {
+    if (!Array.isArray(list)) return list
+    return list
+      .filter((item: any) => mapping[String(item?.scene_id)] != null)
+      .map((item: any) => ({ ...item, scene_id: mapping[String(item.scene_id)] }))
+      .sort((a: any, b: any) => a.scene_id - b.scene_id)
+  }
+  // template이 있으면(final_package) 그 목록에 원래 있던 키만 채웁니다.
+  const sceneList = (list: unknown, template: Record<string, unknown> | null) => {
+    const prev = new Map<number, any>()
+    for (const item of Array.isArray(list) ? list : []) prev.set(Number(item?.scene_id), item)
+    return scenes.map((s) => {
+      const oldId = oldIdOf.get(s.scene_id)
+      const base = oldId != null ? prev.get(oldId) : null
+      const out: Record<string, unknown> = base ? { ...base } : { ...(template ?? {}) }
+      const fields = { narration: s.narration, on_screen_text: s.on_screen_text, visual_brief: s.visual_brief, mood: s.mood, duration_sec: s.duration_sec }
+      for (const [k, v] of Object.entries(fields)) {
+        if (template && !(k in out)) continue
+        out[k] = v
+      }
+      out.scene_id = s.scene_id
+      return out
+    })
+  }
+  const timeline = () => {
+    let cursor = 0
+    return scenes.map((s) => {
+      const start = cursor
+      cursor += Number(s.duration_sec) || 0
+      return { scene_id: s.scene_id, start, end: cursor }
+    })
+  }
+
+  let nextPackager = packager
+  if (packager && typeof packager === 'object') {
+    nextPackager = {
+      ...packager,
+      scenes: sceneList(packager.scenes, null),
+      tts: { ...(packager.tts ?? {}), full_script: scenes.map((s) => s.narration ?? '').join('\n') },
+      video_package: { ...(packager.video_package ?? {}), timeline: timeline() },
+    }
+    for (const key of ['image_prompts', 'image_render_requests']) {
+      if (Array.isArray(packager[key])) nextPackager[key] = remap(packager[key])
+    }
+  }
+
+  let nextFinal = finalPackage
+  if (finalPackage && typeof finalPackage === 'object') {
+    const sceneAudios = Array.isArray(finalPackage.audio?.scene_audios) ? remap(finalPackage.audio.scene_audios) : null
+    nextFinal = {
+      ...finalPackage,
+      packager_output: nextPackager ?? finalPackage.packager_output,
+      video_package: nextPackager?.video_package ?? finalPackage.video_package,
+      scenes: sceneList(finalPackage.scenes, { on_screen_text: null, narration: null, duration_sec: null, image: { prompt: null } }),
+    }
+    if (sceneAudios) {
+      nextFinal.audio = {
+        ...finalPackage.audio,
+        scene_audios: sceneAudios.map((a: any) => {
+          const to = a.audio_path ? movedPaths.get(a.audio_path) : undefined
+          return to ? { ...a, audio_path: to, audio_url: a.audio_url ? publicUrlOf(to) : a.audio_url } : a
+        }),
+      }
+    }
+  }
+  return { packager: nextPackager, final_package: nextFinal }
+}
+
+// ---- 새 씬 초안 (LLM) ----
+const SCENE_DRAFT_INSTRUCTIONS = `너는 유튜브 스토리 영상의 씬 작가다.
+주어진 앞 씬(prev)과 뒤 씬(next) 사이에 자연스럽게 들어갈 새 씬 1개를 작성하라.
+- 언어/말투/분량은 앞뒤 씬과 맞춘다. 새로운 인물이나 설정을 갑자기 만들지 않는다.
+- style_guide(tone, visual_style, main_character_hint, safety_level)를 지킨다.
+- user_hint가 있으면 반영한다.
+출력은 JSON 객체 하나만: {"narration": string, "on_screen_text": string, "visual_brief": string, "mood": string, "duration_sec": integer(1~120)}`
+
+function fixtureSceneDraft(prev: any | null, next: any | null, hint: string) {
+  const near = prev ?? next
+  return {
+    narration: hint
+      ? `${hint} (fixture 초안)`
+      : `${String(near?.on_screen_text ?? near?.narration ?? '').slice(0, 40)} 이후, 이야기는 한 걸음 더 나아갑니다. (fixture 초안)`,
+    on_screen_text: '새 장면',
+    visual_brief: String(near?.visual_brief ?? 'a new scene'),
+    mood: String(near?.mood ?? 'calm'),
+    duration_sec: Number(near?.duration_sec) || 8,
+  }
+}
+
+async function draftScene(
+  job: any,
+  rows: any[],
+  afterSceneId: number,
+  hint: string,
+  onUsage: UsageSink,
+): Promise<Record<string, unknown>> {
+  const pos = afterSceneId === 0 ? 0 : rows.findIndex((r) => r.scene_id === afterSceneId) + 1
+  const prev = pos > 0 ? rows[pos - 1] : null
+  const next = rows[pos] ?? null
+  const providerId = resolveProviderId(job.input?.provider)
+
+  let raw: any
+  if (providerId === 'fake') {
+    raw = fixtureSceneDraft(prev, next, hint)
+  } else {
+    const pick = (s: any) =>
+      s ? { narration: s.narration, on_screen_text: s.on_screen_text, visual_brief: s.visual_brief, mood: s.mood, duration_sec: s.duration_sec } : null
+    const input = {
+      topic: job.input?.topic_domain ?? null,
+      language: job.input?.language ?? null,
+      style_guide: job.packager?.style_guide ?? null,
+      prev: pick(prev),
+      next: pick(next),
+      user_hint: hint || null,
+    }
+    raw = await textJsonCompletion<any>(
+      getTextEndpointConfig(providerId),
+      SCENE_DRAFT_INSTRUCTIONS,
+      JSON.stringify(input),
+      usageMeter(onUsage, 'text', 'scene_draft', providerId),
+    )
+  }
+
+  // LLM 출력도 직접 입력과 같은 제한을 적용합니다. (길면 자르고, 길이는 범위 안으로)
+  const out: Record<string, unknown> = {}
+  for (const key of Object.keys(SCENE_TEXT_LIMITS) as Array<keyof typeof SCENE_TEXT_LIMITS>) {
+    const v = typeof raw?.[key] === 'string' ? raw[key].trim().slice(0, SCENE_TEXT_LIMITS[key]) : ''
+    if (v) out[key] = v
+  }
+  const sec = Math.round(Number(raw?.duration_sec))
+  if (Number.isFinite(sec)) out.duration_sec = Math.max(1, Math.min(120, sec))
+  if (!out.narration) throw new Error('scene draft: narration이 비어 있습니다.')
+  return out
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    let payload: SceneOpsRequest
+    try {
+      payload = (await req.json()) as SceneOpsRequest
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400)
+    }
+
+    const jobId = String(payload?.job_id ?? '').trim()
+    if (!jobId) return json({ error: 'job_id is required' }, 400)
+    if (!SCENE_OPS_ACTIONS.includes(payload?.action)) {
+      return json({ error: `action must be one of: ${SCENE_OPS_ACTIONS.join(', ')}` }, 400)
+    }
+    if (payload.split_at != null && (!Number.isInteger(Number(payload.split_at)) || Number(payload.split_at) < 1)) {
+      return json({ error: 'split_at must be a positive integer' }, 400)
+    }
+    let newScene: Record<string, unknown> | null = null
+    if (payload.action === 'insert') {
+      const parsed = parseSceneInput(payload.scene, !payload.draft)
+      if ('error' in parsed) return json({ error: parsed.error }, 400)
+      newScene = parsed.scene
+    }
+
+    const supabase = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+
+    // 파이프라인/씬 작업(이미지·TTS)이 씬 번호를 쓰는 중이면 번호가 어긋나지 않도록 막습니다.
+    const jobRes = await supabase.from('ytg_jobs').select('status, input, packager, final_package').eq('id', jobId).single()
+    if (jobRes.error) return json({ error: jobRes.error.message }, 500)
+    const job = jobRes.data
+    if (job.status === 'QUEUED' || job.status === 'RUNNING') {
+      return json({ error: 'job_in_progress', hint: '생성이 진행 중인 job의 씬 구성은 바꿀 수 없습니다. 완료(또는 취소)된 뒤 다시 시도하세요.' }, 409)
+    }
+    const pendingTasks = await supabase
+      .from('ytg_tasks')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .in('status', ['QUEUED', 'RUNNING'])
+    if (pendingTasks.error) {
+      const msg = pendingTasks.error.message
+      const hint = msg.includes('ytg_tasks')
+        ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-23_add_task_queue.sql 을 실행하세요.'
+        : undefined
+      return json({ error: msg, hint }, 500)
+    }
+    if ((pendingTasks.count ?? 0) > 0) {
+      return json({ error: 'scene_tasks_in_progress', hint: '씬 이미지/오디오 생성이 진행 중입니다. 끝난 뒤 다시 시도하세요.' }, 409)
+    }
+
+    const scenesRes = await supabase.from('ytg_scenes').select(SCENE_COLUMNS).eq('job_id', jobId).order('scene_id', { ascending: true })
+    if (scenesRes.error) {
+      const msg = scenesRes.error.message
+      const hint = msg.includes('stale') || msg.includes('updated_at') ? SCENE_EDIT_MIGRATION_HINT : undefined
+      return json({ error: msg, hint }, 500)
+    }
+    const rows = scenesRes.data ?? []
+    if (rows.length === 0) return json({ error: 'job has no scenes yet' }, 409)
+    if (rows.some((r: any) => r.image_gen_status === 'GENERATING')) {
+      return json({ error: 'scene_tasks_in_progress', hint: '씬 이미지 생성이 진행 중입니다. 끝난 뒤 다시 시도하세요.' }, 409)
+    }
+
+    const usage = createUsageRecorder(supabase, jobId)
+    if (payload.action === 'insert' && payload.draft) {
+      // 초안(LLM 호출, 과금)을 만들기 전에 after_scene_id와 씬 개수 제한부터 확인합니다.
+      const precheck = planSceneOp(rows, payload, newScene)
+      if ('error' in precheck) return json(precheck, 400)
+      const afterSceneId = Number(payload.after_scene_id ?? rows[rows.length - 1].scene_id)
+      try {
+        const hint = String(payload.hint ?? '').trim().slice(0, 500)
+        const drafted = await draftScene(job, rows, afterSceneId, hint, usage.sink)
+        newScene = { ...drafted, ...newScene }
+      } catch (e: any) {
+        console.error('[ytg] 씬 초안 생성 실패', { jobId, error: e?.message ?? String(e) })
+        return json({ error: `scene draft failed: ${e?.message ?? String(e)}` }, 502)
+      } finally {
+        await usage.flush()
+      }
+    }
+
+    const plan = planSceneOp(rows, payload, newScene)
+    if ('error' in plan) return json(plan, plan.error === 'Scene not found' ? 404 : 400)
+
+    const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+    const publicUrlOf = (path: string) => (isPrivateStorage() ? null : supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl)
+
+    const assetsRes = await supabase.from('ytg_assets').select('id, type, path, url, meta').eq('job_id', jobId)
+    if (assetsRes.error) return json({ error: assetsRes.error.message }, 500)
+    const sceneAssets = (assetsRes.data ?? []).filter((a: any) => Number.isFinite(a.meta?.scene_id))
+
+    // 1) 바꿀 내용을 모두 계산한 뒤 ytg_apply_scene_ops RPC 한 번으로 적용합니다.
+    //    (삭제/수정/추가/번호 매기기/수정 이력이 한 트랜잭션이라, 실패하면 DB는 그대로이고 번호에 빈칸이 남지 않음)
+    const removedIds = plan.removed.map((r) => r.scene_id)
+    const removedAssets = sceneAssets.filter((a: any) => removedIds.includes(a.meta.scene_id))
+    const updates: Array<{ id: string; patch: Record<string, unknown> }> = []
+    const inserts: Array<Record<string, unknown>> = []
+    const edits: Array<{ scene_id: number; user_id: string; source: string; before: Record<string, unknown>; after: Record<string, unknown> }> = []
+    const order: string[] = []
+    plan.slots.forEach((slot, i) => {
+      if (slot.row && slot.patch) {
+        updates.push({ id: slot.row.id, patch: slot.patch })
+        const before: Record<string, unknown> = {}
+        const after: Record<string, unknown> = {}
+        for (const [k, v] of Object.entries(slot.patch)) {
+          if (k === 'audio_stale' || (slot.row[k] ?? null) === v) continue
+          before[k] = slot.row[k] ?? null
+          after[k] = v
+        }
+        if (Object.keys(after).length > 0) edits.push({ scene_id: i + 1, user_id: user.id, source: plan.source, before, after })
+      }
+      if (!slot.row && slot.insert) {
+        const id = crypto.randomUUID()
+        inserts.push({ id, ...slot.insert })
+        const { audio_stale: _stale, ...after } = slot.insert
+        edits.push({ scene_id: i + 1, user_id: user.id, source: plan.source, before: {}, after })
+        order.push(id)
+      } else {
+        order.push(slot.row.id)
+      }
+    })
+
+    const applied = await supabase.rpc('ytg_apply_scene_ops', {
+      p_job_id: jobId,
+      p_removed_ids: plan.removed.map((r) => r.id),
+      p_removed_asset_ids: removedAssets.map((a: any) => a.id),
+      p_updates: updates,
+      p_inserts: inserts,
+      p_order: order,
+      p_edits: edits,
+    })
+    if (applied.error) {
+      const msg = applied.error.message
+      const hint =
+        msg.includes('ytg_apply_scene_ops') || msg.includes('ytg_renumber_scenes')
+          ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-04_add_scene_reorder.sql 을 실행하세요.'
+          : msg.includes('stale') || msg.includes('updated_at') || msg.includes('ytg_scene_edits')
+            ? SCENE_EDIT_MIGRATION_HINT
+            : undefined
+      return json({ error: msg, hint }, 500)
+    }
+
+    // 2) 커밋된 뒤에 없어진 씬의 스토리지 파일 삭제 (best-effort)
+    const removedPaths = Array.from(
+      new Set([...plan.removed.map((r) => r.image_path), ...removedAssets.map((a: any) => a.path)].filter((p): p is string => Boolean(p))),
+    )
+    if (removedPaths.length > 0) {
+      const rm = await supabase.storage.from(bucket).remove(removedPaths)
+      if (rm.error) console.warn('[ytg] 씬 파일 삭제 실패(무시)', { jobId, error: rm.error.message, paths: removedPaths })
+    }
+
+    // 3) 이전 번호 → 새 번호
+    const mapping: Record<string, number | null> = {}
+    const oldIdOf = new Map<number, number | null>()
+    plan.slots.forEach((slot, i) => {
+      const oldId = slot.row ? slot.row.scene_id : null
+      if (oldId != null) mapping[String(oldId)] = i + 1
+      oldIdOf.set(i + 1, oldId)
+    })
+    for (const id of removedIds) mapping[String(id)] = null
+
+    // 4) 번호가 바뀐 씬의 이미지/오디오 파일 이름 맞추기 (에셋 meta.scene_id는 RPC가 이미 옮김)
+    const moves = new Map<string, string>()
+    const renumbered = plan.slots
+      .map((slot, i) => ({ row: slot.row, oldId: oldIdOf.get(i + 1), newId: i + 1 }))
+      .filter((x) => x.oldId != null && x.oldId !== x.newId)
+    for (const x of renumbered) {
+      const paths = [x.row.image_path, ...sceneAssets.filter((a: any) => a.meta.scene_id === x.oldId).map((a: any) => a.path)]
+      for (const p of paths) {
+        if (!p || moves.has(p)) continue
+        const to = renameScenePath(p, x.newId)
+        if (to !== p) moves.set(p, to)
+      }
+    }
+    const { moved, errors: storageErrors } = moves.size > 0 ? await moveStorageFiles(supabase, bucket, jobId, moves) : { moved: new Map(), errors: [] }
+    if (storageErrors.length > 0) console.warn('[ytg] 씬 파일 이름 변경 일부 실패', { jobId, errors: storageErrors })
+
+    for (const x of renumbered) {
+      const to = x.row.image_path ? moved.get(x.row.image_path) : undefined
+      if (!to) continue
+      const upd = await supabase
+        .from('ytg_scenes')
+        .update({ image_path: to, image_url: x.row.image_url ? publicUrlOf(to) : null })
+        .eq('id', x.row.id)
+      if (upd.error) console.warn('[ytg] 씬 이미지 경로 갱신 실패', { jobId, sceneId: x.newId, error: upd.error.message })
+    }
+    for (const a of sceneAssets) {
+      const to = a.path ? moved.get(a.path) : undefined
+      if (!to || mapping[String(a.meta.scene_id)] == null) continue
+      const upd = await supabase
+        .from('ytg_assets')
+        .update({ path: to, url: a.url ? publicUrlOf(to) : null })
+        .eq('id', a.id)
+      if (upd.error) console.warn('[ytg] 에셋 경로 갱신 실패', { jobId, assetId: a.id, error: upd.error.message })
+    }
+
+    // 5) packager / final_package JSON
+    const finalRes = await supabase.from('ytg_scenes').select(SCENE_COLUMNS).eq('job_id', jobId).order('scene_id', { ascending: true })
+    if (finalRes.error) return json({ error: finalRes.error.message }, 500)
+    const scenes = finalRes.data ?? []
+    const rebuilt = rebuildScenesJson(job.packager, job.final_package, scenes, oldIdOf, mapping, moved, publicUrlOf)
+    const updJob = await supabase.from('ytg_jobs').update(rebuilt).eq('id', jobId)
+    if (updJob.error) console.warn('[ytg] packager/final_package 동기화 실패(무시)', { jobId, error: updJob.error.message })
+
+    console.log('[ytg] 씬 구성 변경', { jobId, action: payload.action, mapping, userId: user.id })
+
+    const out: SceneOpsResponse = {
+      job_id: jobId,
+      action: payload.action,
+      mapping,
+      scene_id: plan.focus != null ? plan.focus + 1 : null,
+      scenes,
+      storage_errors: storageErrors,
+    }
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    console.error('[ytg] trendstory-scene-ops error', { msg })
+    return json({ error: msg }, 500)
+  }
+})
@@ -0,0 +1,253 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+const IMAGE_PROMPT_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-05_add_image_negative_prompt.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+// YTG_STORAGE_PRIVATE=true면 버킷이 비공개이므로 URL은 저장하지 않고 경로만 남깁니다. (trendstory-status가 signed URL을 만듦)
+function isPrivateStorage() {
+  return (Deno.env.get('YTG_STORAGE_PRIVATE') ?? '').trim().toLowerCase() === 'true'
+}
+
+// 씬 이미지 take 선택: 이전에 만든 이미지(ytg_assets type image) 중 하나를 씬의 현재 이미지로 되돌립니다.
+// trendstory-generate-scene-image가 take마다 다른 경로에 저장하므로 예전 파일이 남아 있습니다.
+type SelectSceneImageRequest = {
+  job_id: string
+  scene_id: number
+  asset_id: string
+}
+
+type SelectSceneImageResponse = {
+  job_id: string
+  scene_id: number
+  asset_id: string
+  image_path: string
+  image_url: string | null // 비공개 버킷이면 null (status를 다시 조회하면 signed URL)
+  image_prompt: string | null
+  image_negative_prompt: string | null
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  let payload: SelectSceneImageRequest
+  try {
+    payload = (await req.json()) as SelectSceneImageRequest
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const jobId = String(payload?.job_id ?? '').trim()
+  const sceneId = Number(payload?.scene_id)
+  const assetId = String(payload?.asset_id ?? '').trim()
+  if (!jobId) return json({ error: 'job_id is required' }, 400)
+  if (!Number.isInteger(sceneId)) return json({ error: 'scene_id must be an integer' }, 400)
+  if (!assetId) return json({ error: 'asset_id is required' }, 400)
+
+  try {
+    const supabase = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+
+    const sceneRes = await supabase
+      .from('ytg_scenes')
+      .select('id, scene_id, image_path, image_gen_status, image_gen_request_id, image_negative_prompt')
+      .eq('job_id', jobId)
+      .eq('scene_id', sceneId)
+      .maybeSingle()
+    if (sceneRes.error) {
+      const msg = sceneRes.error.message
+      return json({ error: msg, hint: msg.includes('image_negative_prompt') ? IMAGE_PROMPT_MIGRATION_HINT : undefined }, 500)
+    }
+    const scene = sceneRes.data
+    if (!scene) return json({ error: 'Scene not found' }, 404)
+    // 생성 중에 바꾸면 생성 결과가 선택을 다시 덮어쓰므로 막습니다.
+    if (scene.image_gen_status === 'GENERATING') {
+      return json({ error: 'image_generating', hint: '이 씬의 이미지가 생성 중입니다. 끝난 뒤 다시 선택하세요.' }, 409)
+    }
+
+    const assetRes = await supabase
+      .from('ytg_assets')
+      .select('id, type, path, url, meta')
+      .eq('job_id', jobId)
+      .eq('id', assetId)
+      .maybeSingle()
+    if (assetRes.error) return json({ error: assetRes.error.message }, 500)
+    const asset = assetRes.data
+    if (!asset || asset.type !== 'image' || Number(asset.meta?.scene_id) !== sceneId || !asset.path) {
+      return json({ error: 'Image not found', hint: '이 씬에서 만든 이미지가 아닙니다. 화면을 새로고침한 뒤 다시 시도하세요.' }, 404)
+    }
+
+    const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+    const path = String(asset.path)
+    // 에셋 행은 남아 있어도 파일이 지워졌을 수 있으므로 (수동 정리 등) 먼저 확인합니다.
+    const dir = path.slice(0, path.lastIndexOf('/'))
+    const name = path.slice(path.lastIndexOf('/') + 1)
+    const found = await supabase.storage.from(bucket).list(dir, { limit: 1, search: name })
+    if (found.error) return json({ error: found.error.message }, 500)
+    if (!(found.data ?? []).some((f: any) => f.name === name)) {
+      return json({ error: 'Image file not found', hint: '스토리지에서 이미지 파일을 찾지 못했습니다. 다른 이미지를 선택하거나 다시 생성하세요.' }, 404)
+    }
+
+    const imageUrl = isPrivateStorage() ? null : supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+    const prompt = typeof asset.meta?.prompt === 'string' && asset.meta.prompt.trim() ? asset.meta.prompt.trim() : null
+    const negative = typeof asset.meta?.negative_prompt === 'string' && asset.meta.negative_prompt.trim() ? asset.meta.negative_prompt.trim() : null
+
+    // 고른 take의 프롬프트도 함께 되돌려서 다음 재생성이 같은 프롬프트에서 시작하게 합니다.
+    // image_gen_request_id를 take의 request_id로 맞추면 UI가 어느 take가 현재 이미지인지 알 수 있습니다.
+    const upd = await supabase
+      .from('ytg_scenes')
+      .update({
+        image_path: path,
+        image_url: imageUrl,
+        image_prompt: prompt,
+        image_negative_prompt: negative,
+        image_gen_status: 'SUCCEEDED',
+        image_gen_request_id: asset.meta?.request_id ?? null,
+        image_gen_error: null,
+      })
+      .eq('id', scene.id)
+      .or('image_gen_status.is.null,image_gen_status.neq.GENERATING')
+      .select('id')
+    if (upd.error) return json({ error: upd.error.message }, 500)
+    if (!Array.isArray(upd.data) || upd.data.length === 0) {
+      return json({ error: 'image_generating', hint: '이 씬의 이미지가 생성 중입니다. 끝난 뒤 다시 선택하세요.' }, 409)
+    }
+
+    if (scene.image_path !== path) {
+      const hist = await supabase.from('ytg_scene_edits').insert({
+        job_id: jobId,
+        scene_id: sceneId,
+        user_id: user.id,
+        source: 'select_image',
+        before: { image_path: scene.image_path ?? null },
+        after: { image_path: path },
+      })
+      if (hist.error) console.warn('[ytg] 씬 수정 이력 기록 실패(무시)', { jobId, sceneId, error: hist.error.message })
+    }
+    console.log('[ytg] 씬 이미지 선택', { jobId, sceneId, assetId, path, userId: user.id })
+
+    const out: SelectSceneImageResponse = {
+      job_id: jobId,
+      scene_id: sceneId,
+      asset_id: assetId,
+      image_path: path,
+      image_url: imageUrl,
+      image_prompt: prompt,
+      image_negative_prompt: negative,
+    }
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    console.error('[ytg] trendstory-select-scene-image error', { jobId, sceneId, assetId, msg })
+    return json({ error: msg }, 500)
+  }
+})
@@ -93,7 +93,7 @@ function getSupabaseServiceClient() {
 }
 
 // ---- 최소 타입들 (단일 파일 배포를 위해 index.ts에 포함) ----
-type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
 
 type DbSceneRow = {
   id: string
@@ -118,17 +118,202 @@ type DbAssetRow = {
   meta: unknown | null
 }
 
+// 파이프라인 단계 (체크포인트 단위, 실행 순서대로)
+type PipelineStage = 'autoconfig' | 'packager' | 'scenes' | 'tts' | 'image_requests' | 'final_package'
+
+const PIPELINE_STAGES: PipelineStage[] = ['autoconfig', 'packager', 'scenes', 'tts', 'image_requests', 'final_package']
+
+// ytg_jobs.checkpoints: 완료된 단계만 기록됩니다. (예: { autoconfig: { done_at }, tts: { done_at, done, failed } })
+type JobCheckpoints = Partial<Record<PipelineStage, { done_at: string; [key: string]: unknown }>>
+
+// ---- 생성 옵션 / 프리셋 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 지정한 값은 AutoConfig가 반드시 지켜야 하는 조건입니다. (비워 두면 AutoConfig가 정함)
+type PlatformTarget = 'youtube_16_9' | 'shorts_9_16' | 'square_1_1'
+
+const PLATFORM_TARGETS: PlatformTarget[] = ['youtube_16_9', 'shorts_9_16', 'square_1_1']
+
+type GenerationOptions = {
+  tone?: string
+  visual_style?: string
+  main_character_hint?: string
+  platform_target?: PlatformTarget
+  scene_count_min?: number // 1~12
+  scene_count_max?: number // 1~12
+  duration_min?: number // 영상 길이(분), 1~60
+  tts_voice?: string // TTS voice (예: alloy, nova). fixture provider는 무시
+  extra_prompt?: string // input_as_text 앞에 붙는 추가 지시사항
+}
+
+const OPTION_TEXT_LIMITS = { tone: 40, visual_style: 200, main_character_hint: 200, extra_prompt: 2000 } as const
+
+// 빈 값은 빼고, 범위를 벗어나면 오류 메시지를 돌려줍니다.
+function normalizeGenerationOptions(raw: unknown): { options: GenerationOptions } | { error: string } {
+  if (raw == null) return { options: {} }
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'options must be an object' }
+  const o = raw as Record<string, unknown>
+  const out: GenerationOptions = {}
+
+  for (const key of Object.keys(OPTION_TEXT_LIMITS) as Array<keyof typeof OPTION_TEXT_LIMITS>) {
+    if (o[key] == null) continue
+    if (typeof o[key] !== 'string') return { error: `options.${key} must be a string` }
+    const v = (o[key] as string).trim()
+    if (v.length > OPTION_TEXT_LIMITS[key]) return { error: `options.${key}는 ${OPTION_TEXT_LIMITS[key]}자 이하여야 합니다.` }
+    if (v) out[key] = v
+  }
+
+  if (o.platform_target != null && o.platform_target !== '') {
+    if (!PLATFORM_TARGETS.includes(o.platform_target as PlatformTarget)) {
+      return { error: `options.platform_target must be one of: ${PLATFORM_TARGETS.join(', ')}` }
+    }
+    out.platform_target = o.platform_target as PlatformTarget
+  }
+
+  for (const key of ['scene_count_min', 'scene_count_max'] as const) {
+    if (o[key] == null || o[key] === '') continue
+    const n = Number(o[key])
+    if (!Number.isInteger(n) || n < 1 || n > 12) return { error: `options.${key} must be an integer between 1 and 12` }
+    out[key] = n
+  }
+  if (out.scene_count_min != null && out.scene_count_max != null && out.scene_count_min > out.scene_count_max) {
+    return { error: 'options.scene_count_min must be <= scene_count_max' }
+  }
+
+  if (o.duration_min != null && o.duration_min !== '') {
+    const n = Number(o.duration_min)
+    if (!Number.isFinite(n) || n < 1 || n > 60) return { error: 'options.duration_min must be between 1 and 60' }
+    out.duration_min = n
+  }
+
+  if (o.tts_voice != null && o.tts_voice !== '') {
+    const v = String(o.tts_voice).trim()
+    if (!/^[a-zA-Z0-9_-]{1,40}$/.test(v)) return { error: 'options.tts_voice must be a voice name (영문/숫자/-/_)' }
+    out.tts_voice = v
+  }
+  return { options: out }
+}
+
+// AutoConfig 지시문에 넣을 고정 조건 (지정된 옵션만)
+function describeGenerationConstraints(options: GenerationOptions): string[] {
+  const lines: string[] = []
+  if (options.tone) lines.push(`- tone: "${options.tone}"`)
+  if (options.visual_style) lines.push(`- visual_style: "${options.visual_style}"`)
+  if (options.main_character_hint) lines.push(`- main_character_hint: "${options.main_character_hint}"`)
+  if (options.platform_target) lines.push(`- platform_target: "${options.platform_target}"`)
+  if (options.duration_min != null) lines.push(`- duration_min: ${options.duration_min}`)
+  if (options.scene_count_min != null || options.scene_count_max != null) {
+    const range = sceneCountRange(options)
+    lines.push(range.min === range.max ? `- scene_count: 정확히 ${range.min}` : `- scene_count: ${range.min}~${range.max} 사이`)
+  }
+  return lines
+}
+
+// scene_count 허용 범위 (옵션이 없으면 기본 6~12)
+function sceneCountRange(options: GenerationOptions): { min: number; max: number } {
+  const max = options.scene_count_max ?? 12
+  const min = options.scene_count_min ?? Math.min(6, max)
+  return { min, max }
+}
+
+// 모델이 고정 조건을 어겨도 최종 값은 옵션을 따르도록 덮어씁니다.
+function applyGenerationOptions<T extends Record<string, any>>(target: T, options: GenerationOptions): T {
+  const out: Record<string, any> = { ...target }
+  for (const key of ['tone', 'visual_style', 'main_character_hint', 'platform_target'] as const) {
+    if (options[key]) out[key] = options[key]
+  }
+  if (options.duration_min != null && 'duration_min' in target) out.duration_min = options.duration_min
+  return out as T
+}
+
+// ---- 고급 옵션 (요청 최상위 필드) ----
+// 이번 생성에만 적용되며 프리셋/options보다 우선합니다. AutoConfig 결과 위에 덮어써서 Packager에 전달합니다.
+type SafetyLevel = 'strict' | 'standard'
+
+const SAFETY_LEVELS: SafetyLevel[] = ['strict', 'standard']
+
+type AdvancedOptions = {
+  scene_count?: number // 1~12 (정확히 이 개수)
+  duration_min?: number
+  platform_target?: PlatformTarget
+  tone?: string
+  visual_style?: string
+  main_character_hint?: string
+  safety_level?: SafetyLevel
+}
+
+const ADVANCED_OPTION_KEYS = [
+  'scene_count',
+  'duration_min',
+  'platform_target',
+  'tone',
+  'visual_style',
+  'main_character_hint',
+  'safety_level',
+] as const
+
+// 옵션과 같은 규칙으로 검증하고, 빈 값은 뺍니다.
+function normalizeAdvancedOptions(raw: Record<string, unknown>): { advanced: AdvancedOptions } | { error: string } {
+  const base = normalizeGenerationOptions({
+    tone: raw.tone,
+    visual_style: raw.visual_style,
+    main_character_hint: raw.main_character_hint,
+    platform_target: raw.platform_target,
+    duration_min: raw.duration_min,
+  })
+  if ('error' in base) return { error: base.error.replace(/^options\./, '') }
+  const out: AdvancedOptions = { ...base.options }
+
+  if (raw.scene_count != null && raw.scene_count !== '') {
+    const n = Number(raw.scene_count)
+    if (!Number.isInteger(n) || n < 1 || n > 12) return { error: 'scene_count must be an integer between 1 and 12' }
+    out.scene_count = n
+  }
+  if (raw.safety_level != null && raw.safety_level !== '') {
+    if (!SAFETY_LEVELS.includes(raw.safety_level as SafetyLevel)) {
+      return { error: `safety_level must be one of: ${SAFETY_LEVELS.join(', ')}` }
+    }
+    out.safety_level = raw.safety_level as SafetyLevel
+  }
+  return { advanced: out }
+}
+
+function pickAdvancedOptions(payload: TrendStoryStartRequest): AdvancedOptions {
+  const out: Record<string, unknown> = {}
+  for (const key of ADVANCED_OPTION_KEYS) {
+    if (payload[key] != null) out[key] = payload[key]
+  }
+  return out as AdvancedOptions
+}
+
+// 고급 옵션을 고정 조건(options) 형식으로 합칩니다. scene_count는 min=max로 고정합니다.
+function withAdvancedOptions(options: GenerationOptions, advanced: AdvancedOptions): GenerationOptions {
+  const { scene_count, safety_level: _safetyLevel, ...rest } = advanced
+  const out: GenerationOptions = { ...options, ...rest }
+  if (scene_count != null) {
+    out.scene_count_min = scene_count
+    out.scene_count_max = scene_count
+  }
+  return out
+}
+
 type TrendStoryStartRequest = {
   topic_domain: string
   language: string
   audience: string
   input_as_text?: string
+  provider?: ProviderId // 없으면 YTG_PROVIDER 환경변수(기본: openai)
   job_id?: string // 기존 job 재사용 시 (재시작)
-}
+  workspace_id?: string // 새 job을 만들 워크스페이스 (없으면 개인 job, editor 이상만 가능)
+  // job_id와 함께 사용: 'auto'면 마지막 완료 단계 다음부터, 단계명을 주면 그 단계부터 다시 실행
+  resume_from?: 'auto' | PipelineStage
+  preset_id?: string // 저장된 프리셋 (ytg_presets)
+  options?: GenerationOptions // 프리셋 위에 덮어쓰는 생성 옵션
+  preset_name?: string // 서버가 기록 (job 입력에서 어떤 프리셋을 썼는지 표시용)
+} & AdvancedOptions
 
 type TrendStoryStartResponse = {
   job_id: string
   trace_id?: string
+  resumed_from?: PipelineStage
 }
 
 function json(body: unknown, status = 200) {
@@ -228,18 +413,287 @@ function sleepMs(ms: number) {
   return new Promise((r) => setTimeout(r, ms))
 }
 
-async function openaiJson<T>(payload: any): Promise<T> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const models = getTextModelCandidates(payload?.model)
+// ---- LLM provider 레이어 (단일 파일 배포를 위해 index.ts에 포함) ----
+// - openai: OpenAI 공식 API (Responses API + web_search_preview)
+// - openai_compatible: OpenAI 호환 base URL (chat/completions, images/generations, audio/speech)
+// - fake: 네트워크 없이 입력만으로 결정적(deterministic) 출력을 만드는 로컬 구현 (= fixture 모드)
+// job 입력의 provider 값이 우선이고, 없으면 YTG_PROVIDER 환경변수(기본: openai)를 사용합니다.
+// YTG_FIXTURE_MODE=true면 job 입력과 무관하게 항상 fake를 사용합니다(API 키/네트워크 불필요).
+type ProviderId = 'openai' | 'openai_compatible' | 'fake'
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'openai_compatible', 'fake']
+
+type TextJsonRequest = {
+  kind: 'autoconfig' | 'packager'
+  instructions: string
+  input: string
+  web_search?: boolean
+}
+
+// json_schema: structured outputs(strict)로 받은 JSON을 그대로 파싱
+// heuristic: 자유 텍스트에서 코드펜스/DATA 래퍼를 걷어내고 중괄호 균형으로 추출 (structured outputs 미지원 모델용 폴백)
+type JsonParsePath = 'json_schema' | 'heuristic' | 'fixture'
+
+type TextJsonResult<T> = {
+  value: T
+  parse_path: JsonParsePath
+  fallback_reason?: string
+}
+
+type TtsAudio = {
+  bytes: Uint8Array
+  contentType: string
+  ext: string
+}
+
+// provider가 참고할 수 있는 부가 정보 (openai 계열은 무시, fake는 placeholder 렌더링에 사용)
+type ImageHint = {
+  scene_id?: number
+  caption?: string
+  platform_target?: string | null
+}
+
+type TtsHint = {
+  scene_id?: number
+  duration_sec?: number | null
+}
+
+type LlmProvider = {
+  id: ProviderId
+  ttsModel: string
+  ttsVoice: string
+  textJson<T>(req: TextJsonRequest): Promise<TextJsonResult<T>>
+  imagePng(prompt: string, hint?: ImageHint): Promise<Uint8Array>
+  tts(input: string, hint?: TtsHint): Promise<TtsAudio>
+}
+
+type OpenAIEndpointConfig = {
+  baseUrl: string
+  apiKey: string
+  textModels: string[]
+  imageModel: string
+  ttsModel: string
+  ttsVoice: string
+}
+
+function isProviderId(v: unknown): v is ProviderId {
+  return typeof v === 'string' && (PROVIDER_IDS as string[]).includes(v)
+}
+
+function isFixtureMode() {
+  const v = (Deno.env.get('YTG_FIXTURE_MODE') ?? '').trim().toLowerCase()
+  return v === '1' || v === 'true' || v === 'yes'
+}
+
+function resolveProviderId(requested?: string | null): ProviderId {
+  if (isFixtureMode()) return 'fake'
+  const fromJob = (requested ?? '').trim()
+  if (isProviderId(fromJob)) return fromJob
+  const fromEnv = (Deno.env.get('YTG_PROVIDER') ?? '').trim()
+  if (isProviderId(fromEnv)) return fromEnv
+  return 'openai'
+}
+
+function getOpenAIConfig(): OpenAIEndpointConfig {
+  return {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: requireEnv('OPENAI_API_KEY'),
+    textModels: getTextModelCandidates(),
+    imageModel: (Deno.env.get('OPENAI_IMAGE_MODEL') ?? 'gpt-image-1-mini').trim() || 'gpt-image-1-mini',
+    ttsModel: Deno.env.get('OPENAI_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts',
+    ttsVoice: Deno.env.get('OPENAI_TTS_VOICE')?.trim() || 'alloy',
+  }
+}
+
+function getOpenAICompatibleConfig(): OpenAIEndpointConfig {
+  // 로컬 서버(vLLM/Ollama/LM Studio 등)는 API 키가 없을 수 있어 YTG_LLM_API_KEY는 선택입니다.
+  return {
+    baseUrl: requireEnv('YTG_LLM_BASE_URL').trim().replace(/\/$/, ''),
+    apiKey: Deno.env.get('YTG_LLM_API_KEY')?.trim() ?? '',
+    textModels: [requireEnv('YTG_LLM_TEXT_MODEL').trim()],
+    imageModel: Deno.env.get('YTG_LLM_IMAGE_MODEL')?.trim() || 'gpt-image-1-mini',
+    ttsModel: Deno.env.get('YTG_LLM_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts',
+    ttsVoice: Deno.env.get('YTG_LLM_TTS_VOICE')?.trim() || 'alloy',
+  }
+}
+
+// ---- 사용량/비용 집계 (단일 파일 배포를 위해 index.ts에 포함) ----
+// 유료 호출(텍스트/이미지/TTS) 1회당 ytg_usage에 1행을 기록합니다.
+// 비용은 가격표 기반 추정치(USD)이며, YTG_PRICE_TABLE(JSON)로 모델별 단가를 덮어쓸 수 있습니다.
+type UsageKind = 'text' | 'image' | 'tts'
+
+// openai* 함수가 측정하는 값 (호출 1회 기준)
+type UsageMeasure = {
+  model: string
+  input_tokens?: number
+  output_tokens?: number
+  image_count?: number
+  image_size?: string | null
+  tts_chars?: number
+}
+
+type UsageMeter = (m: UsageMeasure) => void
+
+type UsageEvent = UsageMeasure & {
+  kind: UsageKind
+  op: string // autoconfig | packager | scene_image | scene_tts
+  provider: ProviderId
+  scene_id?: number | null
+}
+
+type UsageSink = (e: UsageEvent) => void
+
+type PriceTable = {
+  text: Record<string, { input_per_1m: number; output_per_1m: number }>
+  image: Record<string, Record<string, number>> // size별 장당 단가, 'default'는 size 미등록 시 사용
+  tts: Record<string, { per_1m_chars: number }>
+}
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  text: {
+    'gpt-5.2': { input_per_1m: 1.75, output_per_1m: 14 },
+    'gpt-4o-mini': { input_per_1m: 0.15, output_per_1m: 0.6 },
+    'gpt-4o': { input_per_1m: 2.5, output_per_1m: 10 },
+  },
+  image: {
+    'gpt-image-1-mini': { default: 0.011, '1024x1024': 0.011, '1536x1024': 0.015, '1024x1536': 0.015 },
+    'gpt-image-1': { default: 0.042, '1024x1024': 0.042, '1536x1024': 0.063, '1024x1536': 0.063 },
+    'dall-e-3': { default: 0.04, '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+  },
+  tts: {
+    'gpt-4o-mini-tts': { per_1m_chars: 15 },
+    'tts-1': { per_1m_chars: 15 },
+    'tts-1-hd': { per_1m_chars: 30 },
+  },
+}
+
+function getPriceTable(): PriceTable {
+  const raw = Deno.env.get('YTG_PRICE_TABLE')?.trim()
+  if (!raw) return DEFAULT_PRICE_TABLE
+  try {
+    const j = JSON.parse(raw)
+    return {
+      text: { ...DEFAULT_PRICE_TABLE.text, ...(j?.text ?? {}) },
+      image: { ...DEFAULT_PRICE_TABLE.image, ...(j?.image ?? {}) },
+      tts: { ...DEFAULT_PRICE_TABLE.tts, ...(j?.tts ?? {}) },
+    }
+  } catch (e: any) {
+    console.warn('[ytg] YTG_PRICE_TABLE 파싱 실패, 기본 단가 사용', { error: e?.message ?? String(e) })
+    return DEFAULT_PRICE_TABLE
+  }
+}
+
+// 가격표에 없는 모델이면 null (UI에서 "단가 미등록"으로 표시)
+function estimateCostUsd(e: UsageEvent, prices: PriceTable): number | null {
+  if (e.provider === 'fake') return 0
+  if (e.kind === 'text') {
+    const p = prices.text[e.model]
+    if (!p) return null
+    return ((e.input_tokens ?? 0) * p.input_per_1m + (e.output_tokens ?? 0) * p.output_per_1m) / 1_000_000
+  }
+  if (e.kind === 'image') {
+    const p = prices.image[e.model]
+    const unit = p ? (p[e.image_size ?? ''] ?? p.default) : undefined
+    if (unit == null) return null
+    return unit * (e.image_count ?? 1)
+  }
+  const p = prices.tts[e.model]
+  if (!p) return null
+  return ((e.tts_chars ?? 0) * p.per_1m_chars) / 1_000_000
+}
+
+// best-effort 기록: 사용량 기록 실패가 생성 작업을 실패시키지 않도록 합니다.
+function createUsageRecorder(supabase: ReturnType<typeof createClient>, jobId: string) {
+  const prices = getPriceTable()
+  const pending: Array<Promise<unknown>> = []
+  const sink: UsageSink = (e) => {
+    const row = {
+      job_id: jobId,
+      kind: e.kind,
+      op: e.op,
+      provider: e.provider,
+      model: e.model,
+      scene_id: e.scene_id ?? null,
+      input_tokens: e.input_tokens ?? null,
+      output_tokens: e.output_tokens ?? null,
+      image_count: e.image_count ?? null,
+      image_size: e.image_size ?? null,
+      tts_chars: e.tts_chars ?? null,
+      cost_usd: estimateCostUsd(e, prices),
+    }
+    pending.push(
+      Promise.resolve(supabase.from('ytg_usage').insert(row)).then((r: any) => {
+        if (r?.error) console.warn('[ytg] ytg_usage 기록 실패(무시)', { jobId, error: r.error.message, row })
+      }),
+    )
+  }
+  return { sink, flush: () => Promise.allSettled(pending.splice(0)) }
+}
+
+function getProvider(id: ProviderId, onUsage?: UsageSink): LlmProvider {
+  if (id === 'fake') return createFakeProvider(onUsage)
+  if (id === 'openai_compatible') return createOpenAICompatibleProvider(getOpenAICompatibleConfig(), onUsage)
+  return createOpenAIProvider(getOpenAIConfig(), onUsage)
+}
+
+function endpointHeaders(cfg: OpenAIEndpointConfig) {
+  const headers: Record<string, string> = { 'content-type': 'application/json' }
+  if (cfg.apiKey) headers.authorization = `Bearer ${cfg.apiKey}`
+  return headers
+}
+
+function isStructuredOutputsEnabled() {
+  const v = (Deno.env.get('YTG_STRUCTURED_OUTPUTS') ?? 'true').trim().toLowerCase()
+  return !(v === '0' || v === 'false' || v === 'no')
+}
+
+function isStructuredOutputUnsupportedError(err: unknown) {
+  const msg = String((err as any)?.message ?? err ?? '')
+  if (!/\((400|422)\)/.test(msg)) return false
+  return /json_schema|response_format|text\.format|structured|strict|schema/i.test(msg)
+}
+
+// structured outputs로 받은 텍스트는 그대로 JSON.parse, 실패하면 휴리스틱 파서로 폴백합니다.
+function parseStructuredText<T>(text: string): TextJsonResult<T> {
+  try {
+    return { value: JSON.parse(text) as T, parse_path: 'json_schema' }
+  } catch (e: any) {
+    return { value: extractJsonObjectFromText(text) as T, parse_path: 'heuristic', fallback_reason: `json_schema output not parseable: ${e?.message ?? String(e)}` }
+  }
+}
+
+async function openaiJson<T>(
+  cfg: OpenAIEndpointConfig,
+  payload: any,
+  schema?: StrictSchemaFormat,
+  meter?: UsageMeter,
+): Promise<TextJsonResult<T>> {
+  let fallbackReason: string | undefined
+  if (schema && isStructuredOutputsEnabled()) {
+    try {
+      const content = await openaiChatContent(cfg, {
+        ...payload,
+        response_format: { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema, strict: true } },
+      }, meter)
+      return parseStructuredText<T>(content)
+    } catch (e: any) {
+      if (!isStructuredOutputUnsupportedError(e)) throw e
+      fallbackReason = e?.message ?? String(e)
+    }
+  } else if (schema) {
+    fallbackReason = 'disabled by YTG_STRUCTURED_OUTPUTS'
+  }
+  const content = await openaiChatContent(cfg, payload, meter)
+  return { value: extractJsonObjectFromText(content) as T, parse_path: 'heuristic', fallback_reason: fallbackReason }
+}
+
+async function openaiChatContent(cfg: OpenAIEndpointConfig, payload: any, meter?: UsageMeter): Promise<string> {
   let lastErr: unknown = null
 
-  for (const model of models) {
-    const res = await fetch('https://api.openai.com/v1/chat/completions', {
+  for (const model of cfg.textModels) {
+    const res = await fetch(`${cfg.baseUrl}/chat/completions`, {
       method: 'POST',
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        'content-type': 'application/json',
-      },
+      headers: endpointHeaders(cfg),
       body: JSON.stringify({ ...payload, model }),
     })
     const text = await res.text()
@@ -252,26 +706,22 @@ async function openaiJson<T>(payload: any): Promise<T> {
     }
 
     const json = JSON.parse(text)
+    meter?.({ model, input_tokens: json?.usage?.prompt_tokens ?? 0, output_tokens: json?.usage?.completion_tokens ?? 0 })
     const content: string = json?.choices?.[0]?.message?.content ?? ''
     if (!content) throw new Error('OpenAI returned empty content')
-    return extractJsonObjectFromText(content) as T
+    return content
   }
 
   throw lastErr ?? new Error('OpenAI error: no available text model')
 }
 
-async function openaiResponsesText(body: any): Promise<string> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const models = getTextModelCandidates(body?.model)
+async function openaiResponsesText(cfg: OpenAIEndpointConfig, body: any, meter?: UsageMeter): Promise<string> {
   let lastErr: unknown = null
 
-  for (const model of models) {
-    const res = await fetch('https://api.openai.com/v1/responses', {
+  for (const model of cfg.textModels) {
+    const res = await fetch(`${cfg.baseUrl}/responses`, {
       method: 'POST',
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        'content-type': 'application/json',
-      },
+      headers: endpointHeaders(cfg),
       body: JSON.stringify({ ...body, model }),
     })
     const text = await res.text()
@@ -283,6 +733,7 @@ async function openaiResponsesText(body: any): Promise<string> {
     }
 
     const json = JSON.parse(text)
+    meter?.({ model, input_tokens: json?.usage?.input_tokens ?? 0, output_tokens: json?.usage?.output_tokens ?? 0 })
 
     if (typeof json?.output_text === 'string' && json.output_text.trim()) return json.output_text
 
@@ -306,14 +757,33 @@ async function openaiResponsesText(body: any): Promise<string> {
   throw lastErr ?? new Error('OpenAI responses returned empty output_text')
 }
 
-async function openaiResponsesJson<T>(body: any): Promise<T> {
-  const text = await openaiResponsesText(body)
-  return extractJsonObjectFromText(text) as T
+async function openaiResponsesJson<T>(
+  cfg: OpenAIEndpointConfig,
+  body: any,
+  schema?: StrictSchemaFormat,
+  meter?: UsageMeter,
+): Promise<TextJsonResult<T>> {
+  let fallbackReason: string | undefined
+  if (schema && isStructuredOutputsEnabled()) {
+    try {
+      const text = await openaiResponsesText(cfg, {
+        ...body,
+        text: { format: { type: 'json_schema', name: schema.name, schema: schema.schema, strict: true } },
+      }, meter)
+      return parseStructuredText<T>(text)
+    } catch (e: any) {
+      // structured outputs 미지원 모델/조합이면 기존 휴리스틱 파서로 폴백
+      if (!isStructuredOutputUnsupportedError(e)) throw e
+      fallbackReason = e?.message ?? String(e)
+    }
+  } else if (schema) {
+    fallbackReason = 'disabled by YTG_STRUCTURED_OUTPUTS'
+  }
+  const text = await openaiResponsesText(cfg, body, meter)
+  return { value: extractJsonObjectFromText(text) as T, parse_path: 'heuristic', fallback_reason: fallbackReason }
 }
 
-async function openaiImagePng(prompt: string): Promise<Uint8Array> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const imageModel = (Deno.env.get('OPENAI_IMAGE_MODEL') ?? 'gpt-image-1-mini').trim() || 'gpt-image-1-mini'
+async function openaiImagePng(cfg: OpenAIEndpointConfig, prompt: string, meter?: UsageMeter): Promise<Uint8Array> {
   const envSize = Deno.env.get('OPENAI_IMAGE_SIZE')?.trim()
   const sizes = Array.from(new Set([envSize, '1792x1024', '1024x1024'].filter(Boolean))) as string[]
   // "2분 무응답이면 재시도" 요구사항: 기본 타임아웃을 120초로 둡니다(환경변수로 override 가능).
@@ -327,15 +797,12 @@ async function openaiImagePng(prompt: string): Promise<Uint8Array> {
       let text: string
       try {
         res = await fetchWithTimeout(
-          'https://api.openai.com/v1/images/generations',
+          `${cfg.baseUrl}/images/generations`,
           {
             method: 'POST',
-            headers: {
-              authorization: `Bearer ${apiKey}`,
-              'content-type': 'application/json',
-            },
+            headers: endpointHeaders(cfg),
             body: JSON.stringify({
-              model: imageModel,
+              model: cfg.imageModel,
               prompt,
               size,
             }),
@@ -365,13 +832,9 @@ async function openaiImagePng(prompt: string): Promise<Uint8Array> {
 
       const json = JSON.parse(text)
       const first = json?.data?.[0]
+      if (first?.b64_json || first?.url) meter?.({ model: cfg.imageModel, image_count: 1, image_size: size })
       const b64: string | undefined = first?.b64_json
-      if (b64) {
-        const bin = atob(b64)
-        const bytes = new Uint8Array(bin.length)
-        for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
-        return bytes
-      }
+      if (b64) return base64ToBytes(b64)
 
       const url: string | undefined = first?.url
       if (url) {
@@ -390,10 +853,7 @@ async function openaiImagePng(prompt: string): Promise<Uint8Array> {
   throw lastErr ?? new Error('OpenAI image error: no valid size worked')
 }
 
-async function openaiTtsMp3(input: string): Promise<Uint8Array> {
-  const apiKey = requireEnv('OPENAI_API_KEY')
-  const ttsModel = Deno.env.get('OPENAI_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts'
-  const ttsVoice = Deno.env.get('OPENAI_TTS_VOICE')?.trim() || 'alloy'
+async function openaiTtsMp3(cfg: OpenAIEndpointConfig, input: string, meter?: UsageMeter): Promise<Uint8Array> {
   // TTS timeout: 기본 60초 (환경변수로 override 가능, 최대 180초)
   const timeoutMs = Math.max(10000, Math.min(Number(Deno.env.get('OPENAI_TTS_TIMEOUT_MS') ?? '60000') || 60000, 180000))
   const maxAttempts = Math.max(1, Math.min(Number(Deno.env.get('OPENAI_TTS_MAX_ATTEMPTS') ?? '2') || 2, 5))
@@ -402,16 +862,13 @@ async function openaiTtsMp3(input: string): Promise<Uint8Array> {
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       const res = await fetchWithTimeout(
-        'https://api.openai.com/v1/audio/speech',
+        `${cfg.baseUrl}/audio/speech`,
         {
           method: 'POST',
-          headers: {
-            authorization: `Bearer ${apiKey}`,
-            'content-type': 'application/json',
-          },
+          headers: endpointHeaders(cfg),
           body: JSON.stringify({
-            model: ttsModel,
-            voice: ttsVoice,
+            model: cfg.ttsModel,
+            voice: cfg.ttsVoice,
             format: 'mp3',
             input,
           }),
@@ -433,6 +890,7 @@ async function openaiTtsMp3(input: string): Promise<Uint8Array> {
       }
 
       const ab = await res.arrayBuffer()
+      meter?.({ model: cfg.ttsModel, tts_chars: input.length })
       return new Uint8Array(ab)
     } catch (e: any) {
       const msg = e?.name === 'AbortError' ? `timeout after ${timeoutMs}ms` : e?.message ?? String(e)
@@ -449,6 +907,532 @@ async function openaiTtsMp3(input: string): Promise<Uint8Array> {
   throw lastErr ?? new Error('OpenAI TTS error: max attempts exceeded')
 }
 
+// provider 호출 단위(op/scene_id)를 붙여 UsageSink로 넘기는 meter 생성
+function usageMeter(onUsage: UsageSink | undefined, kind: UsageKind, op: string, provider: ProviderId, sceneId?: number): UsageMeter | undefined {
+  if (!onUsage) return undefined
+  return (m) => onUsage({ ...m, kind, op, provider, scene_id: sceneId ?? null })
+}
+
+function createOpenAIProvider(cfg: OpenAIEndpointConfig, onUsage?: UsageSink): LlmProvider {
+  return {
+    id: 'openai',
+    ttsModel: cfg.ttsModel,
+    ttsVoice: cfg.ttsVoice,
+    textJson: <T>(req: TextJsonRequest) =>
+      openaiResponsesJson<T>(cfg, {
+        input: [
+          { role: 'system', content: req.instructions },
+          { role: 'user', content: req.input },
+        ],
+        ...(req.web_search
+          ? {
+              tools: [
+                {
+                  type: 'web_search_preview',
+                  search_context_size: 'medium',
+                  user_location: { type: 'approximate', country: 'KR' },
+                },
+              ],
+            }
+          : {}),
+      }, strictSchemaFor(req.kind), usageMeter(onUsage, 'text', req.kind, 'openai')),
+    imagePng: (prompt: string, hint?: ImageHint) =>
+      openaiImagePng(cfg, prompt, usageMeter(onUsage, 'image', 'scene_image', 'openai', hint?.scene_id)),
+    tts: async (input: string, hint?: TtsHint) => ({
+      bytes: await openaiTtsMp3(cfg, input, usageMeter(onUsage, 'tts', 'scene_tts', 'openai', hint?.scene_id)),
+      contentType: 'audio/mpeg',
+      ext: 'mp3',
+    }),
+  }
+}
+
+function createOpenAICompatibleProvider(cfg: OpenAIEndpointConfig, onUsage?: UsageSink): LlmProvider {
+  // 호환 서버는 대부분 Responses API/web_search를 지원하지 않으므로 chat/completions만 사용합니다.
+  return {
+    id: 'openai_compatible',
+    ttsModel: cfg.ttsModel,
+    ttsVoice: cfg.ttsVoice,
+    textJson: <T>(req: TextJsonRequest) =>
+      openaiJson<T>(cfg, {
+        messages: [
+          { role: 'system', content: req.instructions },
+          { role: 'user', content: req.input },
+        ],
+      }, strictSchemaFor(req.kind), usageMeter(onUsage, 'text', req.kind, 'openai_compatible')),
+    imagePng: (prompt: string, hint?: ImageHint) =>
+      openaiImagePng(cfg, prompt, usageMeter(onUsage, 'image', 'scene_image', 'openai_compatible', hint?.scene_id)),
+    tts: async (input: string, hint?: TtsHint) => ({
+      bytes: await openaiTtsMp3(cfg, input, usageMeter(onUsage, 'tts', 'scene_tts', 'openai_compatible', hint?.scene_id)),
+      contentType: 'audio/mpeg',
+      ext: 'mp3',
+    }),
+  }
+}
+
+// ---- fake provider = fixture 모드 (네트워크/API 키 없이 전체 파이프라인을 돌려보기 위한 결정적 구현) ----
+// - 텍스트: 언어별 고정 스토리 템플릿에 topic만 채운 AutoConfig/Packager JSON
+// - 이미지: 씬 번호 + visual_brief를 그린 placeholder PNG
+// - TTS: 씬 duration_sec 길이의 사인파 톤 WAV
+function base64ToBytes(b64: string) {
+  const bin = atob(b64)
+  const bytes = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
+  return bytes
+}
+
+type FixtureSceneTemplate = {
+  title: string
+  narration: string
+  on_screen_text: string
+  visual_brief: string
+  mood: string
+  duration_sec: number
+}
+
+function fixtureSceneTemplates(language: string, topic: string): FixtureSceneTemplate[] {
+  if (language === 'en' || language === 'ja') {
+    return [
+      {
+        title: 'A strange clue',
+        narration: `Today we begin a story about ${topic}. On an ordinary day, two friends stumble upon a strange clue.`,
+        on_screen_text: `${topic}: where do we start?`,
+        visual_brief: 'Two curious students find a glowing clue in a school library',
+        mood: 'curious',
+        duration_sec: 8,
+      },
+      {
+        title: 'The big question',
+        narration: `"Why does ${topic} matter?" With that question in mind, the friends set off to find out.`,
+        on_screen_text: 'Why does it matter?',
+        visual_brief: 'Friends looking at a big question mark floating above a city',
+        mood: 'excited',
+        duration_sec: 9,
+      },
+      {
+        title: 'Closer than we think',
+        narration: `The first hint was all around them. ${topic} was at work much closer than they expected.`,
+        on_screen_text: 'Closer than you think',
+        visual_brief: 'Students examining everyday objects with a magnifying glass',
+        mood: 'focused',
+        duration_sec: 10,
+      },
+      {
+        title: 'An unexpected result',
+        narration: 'But then something unexpected happens. The friends pause and think it through again.',
+        on_screen_text: 'Wait, what?',
+        visual_brief: 'A surprising twist, the friends stare at an unexpected result on a screen',
+        mood: 'tense',
+        duration_sec: 9,
+      },
+      {
+        title: 'The lesson',
+        narration: `In the end, what mattered was asking questions and checking for yourself. That is how ${topic} makes sense too.`,
+        on_screen_text: 'Ask, then check',
+        visual_brief: 'The friends explain their discovery to classmates in front of a chalkboard',
+        mood: 'proud',
+        duration_sec: 10,
+      },
+      {
+        title: 'See you next time',
+        narration: `How was today's story? Tell us your own ${topic} story in the comments!`,
+        on_screen_text: 'Share your story!',
+        visual_brief: 'Sunset over the school rooftop, the friends waving goodbye',
+        mood: 'warm',
+        duration_sec: 7,
+      },
+    ]
+  }
+  return [
+    {
+      title: '이상한 단서',
+      narration: `오늘은 ${topic}에 대한 이야기를 시작해 볼게요. 평범한 하루, 두 친구가 이상한 단서를 발견합니다.`,
+      on_screen_text: `${topic}, 어디서부터?`,
+      visual_brief: 'Two curious students find a glowing clue in a school library',
+      mood: '호기심',
+      duration_sec: 8,
+    },
+    {
+      title: '질문의 시작',
+      narration: `"${topic}은(는) 왜 중요할까?" 친구들은 그 질문을 품고 탐험을 떠납니다.`,
+      on_screen_text: '왜 중요할까?',
+      visual_brief: 'Friends looking at a big question mark floating above a city',
+      mood: '설렘',
+      duration_sec: 9,
+    },
+    {
+      title: '가까운 실마리',
+      narration: `첫 번째 실마리는 바로 우리 주변에 있었어요. ${topic}은(는) 생각보다 가까운 곳에서 작동하고 있었죠.`,
+      on_screen_text: '생각보다 가까이',
+      visual_brief: 'Students examining everyday objects with a magnifying glass',
+      mood: '집중',
+      duration_sec: 10,
+    },
+    {
+      title: '예상 밖의 결과',
+      narration: '그런데 예상과 다른 결과가 나타납니다. 친구들은 잠시 멈추고 처음부터 다시 생각해 봅니다.',
+      on_screen_text: '어? 이게 아니네?',
+      visual_brief: 'A surprising twist, the friends stare at an unexpected result on a screen',
+      mood: '긴장',
+      duration_sec: 9,
+    },
+    {
+      title: '깨달음',
+      narration: `결국 중요한 건 직접 질문하고 확인하는 태도였어요. ${topic}도 그렇게 이해할 수 있답니다.`,
+      on_screen_text: '묻고, 확인하기',
+      visual_brief: 'The friends explain their discovery to classmates in front of a chalkboard',
+      mood: '뿌듯함',
+      duration_sec: 10,
+    },
+    {
+      title: '다음 이야기',
+      narration: `오늘 이야기, 어떠셨나요? 여러분이 알고 있는 ${topic} 이야기도 댓글로 들려주세요!`,
+      on_screen_text: '댓글로 알려주세요!',
+      visual_brief: 'Sunset over the school rooftop, the friends waving goodbye',
+      mood: '따뜻함',
+      duration_sec: 7,
+    },
+  ]
+}
+
+function fixtureAutoConfig(input: any): AutoConfigOutput {
+  const topic = String(input?.topic_domain ?? 'topic')
+  const language = String(input?.language ?? 'ko')
+  const templates = fixtureSceneTemplates(language, topic)
+  // 고정 조건(constraints)의 scene_count 범위를 지킵니다. (나머지 옵션은 검증 후 서버가 덮어씀)
+  const range = sceneCountRange(input?.constraints ?? {})
+  const sceneCount = Math.max(range.min, Math.min(templates.length, range.max))
+  return {
+    language,
+    audience: String(input?.audience ?? '중학생'),
+    tone: '모험',
+    duration_min: 4,
+    platform_target: 'youtube_16_9',
+    visual_style: '따뜻한 고퀄리티 일러스트',
+    main_character_hint: '친근한 한국 학생 1~2명',
+    safety_level: 'strict',
+    scene_count: sceneCount,
+    scene_seeds: Array.from({ length: sceneCount }, (_, i) => templates[i % templates.length]).map((t) => ({
+      scene_title: t.title,
+      seed: t.narration,
+    })),
+  }
+}
+
+function fixturePackager(input: any): PackagerOutput {
+  const topic = String(input?.topic_domain ?? 'topic')
+  const language = String(input?.language ?? 'ko')
+  const templates = fixtureSceneTemplates(language, topic)
+  // scene_count가 템플릿보다 많으면 템플릿을 순환해서 채웁니다.
+  const count = Math.max(1, Math.min(Number(input?.scene_count ?? templates.length) || templates.length, 12))
+  const scenes = Array.from({ length: count }, (_, i) => {
+    const t = templates[i % templates.length]
+    return {
+      scene_id: i + 1,
+      narration: t.narration,
+      on_screen_text: t.on_screen_text,
+      visual_brief: t.visual_brief,
+      mood: t.mood,
+      duration_sec: t.duration_sec,
+    }
+  })
+  const style_guide = {
+    tone: String(input?.tone ?? '모험'),
+    platform_target: String(input?.platform_target ?? 'youtube_16_9'),
+    visual_style: String(input?.visual_style ?? '따뜻한 고퀄리티 일러스트'),
+    main_character_hint: String(input?.main_character_hint ?? '친근한 한국 학생 1~2명'),
+    safety_level: String(input?.safety_level ?? 'strict'),
+  }
+  const image_prompts = scenes.map((s) => ({ scene_id: s.scene_id, prompt: `${s.visual_brief}, ${style_guide.visual_style}` }))
+  let cursor = 0
+  return {
+    trend_research: { selected_topic: topic, keywords: [topic], note: 'fixture mode: no web search' },
+    story: { title: topic, summary: templates.map((t) => t.title).join(' → ') },
+    scenes,
+    style_guide,
+    image_prompts,
+    image_render_requests: image_prompts.map((p) => ({
+      scene_id: p.scene_id,
+      prompt: p.prompt,
+      size: platformTargetToRequestedSize(style_guide.platform_target),
+      n: 1,
+    })),
+    tts: { full_script: scenes.map((s) => s.narration).join('\n') },
+    video_package: {
+      timeline: scenes.map((s) => {
+        const start = cursor
+        cursor += s.duration_sec
+        return { scene_id: s.scene_id, start, end: cursor }
+      }),
+    },
+    youtube_meta: {
+      titles: [`${topic} 이야기 (fixture)`],
+      hook_lines: [scenes[0]?.on_screen_text ?? topic],
+      thumbnail_texts: [topic],
+      thumbnail_image_prompts: [`${topic} thumbnail, ${style_guide.visual_style}`],
+      hashtags: [`#${topic.replace(/\s+/g, '')}`, '#fixture'],
+    },
+  }
+}
+
+// ---- fixture 이미지: 씬 번호 + visual_brief를 글자로 그린 placeholder PNG ----
+// 5x7 비트맵 폰트 (행마다 하위 5비트 사용). 영문 대문자/숫자/일부 기호만 지원하고 나머지는 '?'로 그립니다.
+const FIXTURE_FONT_5X7: Record<string, string> = {
+  'A': '0e11111f111111',
+  'B': '1e11111e11111e',
+  'C': '0e11101010110e',
+  'D': '1c12111111121c',
+  'E': '1f10101e10101f',
+  'F': '1f10101e101010',
+  'G': '0e11101711110f',
+  'H': '1111111f111111',
+  'I': '0e04040404040e',
+  'J': '0702020202120c',
+  'K': '11121418141211',
+  'L': '1010101010101f',
+  'M': '111b1515111111',
+  'N': '11111915131111',
+  'O': '0e11111111110e',
+  'P': '1e11111e101010',
+  'Q': '0e11111115120d',
+  'R': '1e11111e141211',
+  'S': '0f10100e01011e',
+  'T': '1f040404040404',
+  'U': '1111111111110e',
+  'V': '11111111110a04',
+  'W': '1111111515150a',
+  'X': '11110a040a1111',
+  'Y': '1111110a040404',
+  'Z': '1f01020408101f',
+  '0': '0e11131519110e',
+  '1': '040c040404040e',
+  '2': '0e11010204081f',
+  '3': '1f02040201110e',
+  '4': '02060a121f0202',
+  '5': '1f101e0101110e',
+  '6': '0608101e11110e',
+  '7': '1f010204080808',
+  '8': '0e11110e11110e',
+  '9': '0e11110f01020c',
+  '.': '00000000000c0c',
+  ',': '000000000c0408',
+  '-': '0000001f000000',
+  ':': '000c0c000c0c00',
+  '!': '04040404040004',
+  '?': '0e110102040004',
+  '\'': '0c040800000000',
+  '/': '00010204081000',
+  '#': '0a0a1f0a1f0a0a',
+  '(': '02040808080402',
+  ')': '08040202020408',
+  '&': '0c12140815120d',
+}
+
+const FIXTURE_PALETTES: Array<[number, number, number]> = [
+  [30, 41, 59],
+  [49, 46, 129],
+  [20, 83, 45],
+  [124, 45, 18],
+  [88, 28, 135],
+  [22, 78, 99],
+]
+
+function fixtureDrawText(pix: Uint8Array, width: number, height: number, x: number, y: number, text: string, scale: number, color: number) {
+  let cx = x
+  for (const raw of text.toUpperCase()) {
+    const glyph = raw === ' ' ? null : FIXTURE_FONT_5X7[raw] ?? FIXTURE_FONT_5X7['?']
+    if (glyph) {
+      for (let row = 0; row < 7; row++) {
+        const bits = parseInt(glyph.slice(row * 2, row * 2 + 2), 16)
+        for (let col = 0; col < 5; col++) {
+          if (!(bits & (1 << (4 - col)))) continue
+          for (let dy = 0; dy < scale; dy++) {
+            const py = y + row * scale + dy
+            if (py < 0 || py >= height) continue
+            for (let dx = 0; dx < scale; dx++) {
+              const px = cx + col * scale + dx
+              if (px >= 0 && px < width) pix[py * width + px] = color
+            }
+          }
+        }
+      }
+    }
+    cx += 6 * scale
+  }
+}
+
+function fixtureWrap(text: string, maxChars: number, maxLines: number) {
+  const lines: string[] = []
+  let cur = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = cur ? `${cur} ${word}` : word
+    if (next.length <= maxChars) {
+      cur = next
+      continue
+    }
+    if (cur) lines.push(cur)
+    cur = word.slice(0, maxChars)
+    if (lines.length >= maxLines) break
+  }
+  if (cur && lines.length < maxLines) lines.push(cur)
+  return lines
+}
+
+const CRC32_TABLE = (() => {
+  const t = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    t[n] = c >>> 0
+  }
+  return t
+})()
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC32_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+async function zlibDeflate(data: Uint8Array) {
+  const stream = new Blob([toArrayBuffer(data)]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function renderFixturePng(args: { sceneId?: number | null; caption: string; platformTarget?: string | null }) {
+  const portrait = args.platformTarget === 'shorts_9_16'
+  const width = portrait ? 360 : 640
+  const height = portrait ? 640 : 360
+  const sceneId = Number(args.sceneId ?? 0) || 0
+  const bg = FIXTURE_PALETTES[sceneId % FIXTURE_PALETTES.length]
+
+  // palette index: 0=배경, 1=테두리, 2=글자
+  const pix = new Uint8Array(width * height)
+  for (let x = 0; x < width; x++) {
+    for (let t = 0; t < 6; t++) {
+      pix[t * width + x] = 1
+      pix[(height - 1 - t) * width + x] = 1
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let t = 0; t < 6; t++) {
+      pix[y * width + t] = 1
+      pix[y * width + (width - 1 - t)] = 1
+    }
+  }
+  fixtureDrawText(pix, width, height, 24, 28, sceneId ? `SCENE ${sceneId}` : 'FIXTURE', 6, 2)
+  const maxChars = Math.floor((width - 48) / 18)
+  const lines = fixtureWrap(args.caption, maxChars, portrait ? 14 : 7)
+  lines.forEach((line, i) => fixtureDrawText(pix, width, height, 24, 100 + i * 30, line, 3, 2))
+
+  const raw = new Uint8Array((width + 1) * height)
+  for (let y = 0; y < height; y++) raw.set(pix.subarray(y * width, (y + 1) * width), y * (width + 1) + 1)
+
+  const ihdr = new Uint8Array(13)
+  const ihdrView = new DataView(ihdr.buffer)
+  ihdrView.setUint32(0, width)
+  ihdrView.setUint32(4, height)
+  ihdr[8] = 8 // bit depth
+  ihdr[9] = 3 // color type: palette
+  const plte = new Uint8Array([...bg, 250, 204, 21, 244, 244, 245])
+  const idat = await zlibDeflate(raw)
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('PLTE', plte),
+    pngChunk('IDAT', idat),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+// ---- fixture 오디오: 씬 길이만큼의 사인파 톤 WAV ----
+function toneWav(seconds: number, frequency: number, sampleRate = 8000) {
+  // 8-bit mono PCM, 앞뒤 50ms 페이드로 클릭 노이즈 방지
+  const samples = Math.max(1, Math.round(seconds * sampleRate))
+  const fade = Math.min(Math.round(sampleRate * 0.05), Math.floor(samples / 2))
+  const buf = new Uint8Array(44 + samples)
+  const view = new DataView(buf.buffer)
+  const ascii = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) buf[offset + i] = s.charCodeAt(i)
+  }
+  ascii(0, 'RIFF')
+  view.setUint32(4, 36 + samples, true)
+  ascii(8, 'WAVE')
+  ascii(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate, true)
+  view.setUint16(32, 1, true)
+  view.setUint16(34, 8, true)
+  ascii(36, 'data')
+  view.setUint32(40, samples, true)
+  for (let i = 0; i < samples; i++) {
+    const env = fade > 0 ? Math.min(1, i / fade, (samples - 1 - i) / fade) : 1
+    buf[44 + i] = 128 + Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 48 * env)
+  }
+  return buf
+}
+
+function fixtureTts(input: string, hint?: TtsHint): TtsAudio {
+  // duration_sec가 있으면 그 길이, 없으면 글자 수로 추정(대략 초당 8자)
+  const seconds = Number(hint?.duration_sec) > 0 ? Number(hint!.duration_sec) : Math.ceil(input.length / 8)
+  const sceneId = Number(hint?.scene_id ?? 0) || 0
+  return {
+    bytes: toneWav(Math.max(1, Math.min(seconds, 120)), 220 + (sceneId % 8) * 55),
+    contentType: 'audio/wav',
+    ext: 'wav',
+  }
+}
+
+function createFakeProvider(onUsage?: UsageSink): LlmProvider {
+  // 비용은 항상 0이지만, 사용량 화면을 오프라인에서도 확인할 수 있도록 호출 건수는 기록합니다.
+  return {
+    id: 'fake',
+    ttsModel: 'fixture-tone',
+    ttsVoice: 'sine',
+    textJson: async <T>(req: TextJsonRequest) => {
+      let input: unknown = null
+      try {
+        input = JSON.parse(req.input)
+      } catch {
+        // ignore
+      }
+      const value = (req.kind === 'autoconfig' ? fixtureAutoConfig(input) : fixturePackager(input)) as T
+      usageMeter(onUsage, 'text', req.kind, 'fake')?.({ model: 'fixture', input_tokens: 0, output_tokens: 0 })
+      return { value, parse_path: 'fixture' as const }
+    },
+    imagePng: async (prompt: string, hint?: ImageHint) => {
+      const png = await renderFixturePng({ sceneId: hint?.scene_id, caption: hint?.caption || prompt, platformTarget: hint?.platform_target })
+      usageMeter(onUsage, 'image', 'scene_image', 'fake', hint?.scene_id)?.({ model: 'fixture', image_count: 1 })
+      return png
+    },
+    tts: async (input: string, hint?: TtsHint) => {
+      const audio = await fixtureTts(input, hint)
+      usageMeter(onUsage, 'tts', 'scene_tts', 'fake', hint?.scene_id)?.({ model: 'fixture-tone', tts_chars: input.length })
+      return audio
+    },
+  }
+}
+
 type AutoConfigOutput = {
   language: string
   audience: string
@@ -503,6 +1487,360 @@ type PackagerOutput = {
     images_failed?: number
     images_skipped?: number
     images_errors?: Array<{ scene_id?: number; error: string }>
+    validation?: { autoconfig?: ValidationReport; packager?: ValidationReport }
+  }
+}
+
+// ---- 출력 스키마 검증 (단일 파일 배포를 위해 index.ts에 포함) ----
+// JSON Schema의 작은 부분집합만 지원합니다. 검증 오류는 필드 경로($.scenes[2].narration 등)와 함께
+// 리페어 프롬프트로 모델에 그대로 전달됩니다.
+type JsonSchema = {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: Array<string | number>
+  minItems?: number
+  minLength?: number
+  minimum?: number
+  maximum?: number
+}
+
+type ValidationIssue = {
+  path: string
+  message: string
+}
+
+type ValidationReport = {
+  valid: boolean
+  attempts: Array<{ attempt: number; at: string; parse_path: JsonParsePath; issue_count: number; issues: ValidationIssue[] }>
+}
+
+const STRING: JsonSchema = { type: 'string' }
+const NON_EMPTY_STRING: JsonSchema = { type: 'string', minLength: 1 }
+const STRING_LIST: JsonSchema = { type: 'array', items: STRING }
+
+const AUTOCONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: [
+    'language',
+    'audience',
+    'tone',
+    'duration_min',
+    'platform_target',
+    'visual_style',
+    'main_character_hint',
+    'safety_level',
+    'scene_count',
+    'scene_seeds',
+  ],
+  properties: {
+    language: NON_EMPTY_STRING,
+    audience: NON_EMPTY_STRING,
+    tone: NON_EMPTY_STRING,
+    duration_min: { type: 'number', minimum: 1, maximum: 60 },
+    platform_target: NON_EMPTY_STRING,
+    visual_style: NON_EMPTY_STRING,
+    main_character_hint: STRING,
+    safety_level: NON_EMPTY_STRING,
+    scene_count: { type: 'integer', minimum: 1, maximum: 12 },
+    scene_seeds: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['scene_title', 'seed'],
+        properties: { scene_title: NON_EMPTY_STRING, seed: NON_EMPTY_STRING },
+      },
+    },
+  },
+}
+
+const PACKAGER_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['trend_research', 'story', 'scenes', 'style_guide', 'tts', 'youtube_meta'],
+  properties: {
+    trend_research: {
+      type: 'object',
+      properties: { selected_topic: STRING, keywords: STRING_LIST, note: STRING },
+    },
+    story: {
+      type: 'object',
+      properties: { title: STRING, summary: STRING },
+    },
+    scenes: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['scene_id', 'narration', 'on_screen_text', 'visual_brief', 'mood', 'duration_sec'],
+        properties: {
+          scene_id: { type: 'integer', minimum: 1 },
+          narration: NON_EMPTY_STRING,
+          on_screen_text: STRING,
+          visual_brief: NON_EMPTY_STRING,
+          mood: STRING,
+          duration_sec: { type: 'number', minimum: 1, maximum: 600 },
+        },
+      },
+    },
+    style_guide: {
+      type: 'object',
+      properties: {
+        tone: STRING,
+        platform_target: STRING,
+        visual_style: STRING,
+        main_character_hint: STRING,
+        safety_level: STRING,
+      },
+    },
+    image_prompts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['scene_id', 'prompt'],
+        properties: { scene_id: { type: 'integer', minimum: 1 }, prompt: NON_EMPTY_STRING },
+      },
+    },
+    image_render_requests: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['scene_id', 'prompt'],
+        properties: {
+          scene_id: { type: 'integer', minimum: 1 },
+          prompt: NON_EMPTY_STRING,
+          size: STRING,
+          n: { type: 'integer', minimum: 1 },
+        },
+      },
+    },
+    tts: { type: 'object', required: ['full_script'], properties: { full_script: NON_EMPTY_STRING } },
+    video_package: {
+      type: 'object',
+      properties: {
+        timeline: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['scene_id', 'start', 'end'],
+            properties: { scene_id: { type: 'integer' }, start: { type: 'number' }, end: { type: 'number' } },
+          },
+        },
+      },
+    },
+    youtube_meta: {
+      type: 'object',
+      required: ['titles', 'hook_lines', 'thumbnail_texts', 'hashtags'],
+      properties: {
+        titles: { type: 'array', minItems: 1, items: NON_EMPTY_STRING },
+        hook_lines: STRING_LIST,
+        thumbnail_texts: STRING_LIST,
+        thumbnail_image_prompts: STRING_LIST,
+        hashtags: STRING_LIST,
+      },
+    },
+  },
+}
+
+const MAX_VALIDATION_ISSUES = 50
+
+type StrictSchemaFormat = {
+  name: string
+  schema: Record<string, unknown>
+}
+
+// 검증용 스키마 → structured outputs(strict: true)용 JSON Schema 변환
+// - strict 모드 규칙: 모든 object는 additionalProperties=false + 모든 키를 required에 나열
+// - 검증 스키마에서 선택(optional)인 키는 null 허용 타입으로 바꿉니다 (검증기는 null을 "없음"으로 취급)
+// - minLength/minimum/minItems 같은 제약은 strict 모드 지원이 모델마다 달라 제외하고, 검증/리페어 루프에서 확인합니다.
+function toStrictJsonSchema(schema: JsonSchema, nullable = false): Record<string, unknown> {
+  const type = nullable ? [schema.type, 'null'] : schema.type
+  if (schema.type === 'object') {
+    const props = schema.properties ?? {}
+    const required = new Set(schema.required ?? [])
+    return {
+      type,
+      additionalProperties: false,
+      properties: Object.fromEntries(Object.entries(props).map(([k, sub]) => [k, toStrictJsonSchema(sub, !required.has(k))])),
+      required: Object.keys(props),
+    }
+  }
+  if (schema.type === 'array') return { type, items: toStrictJsonSchema(schema.items ?? STRING) }
+  if (schema.enum) return { type, enum: nullable ? [...schema.enum, null] : schema.enum }
+  return { type }
+}
+
+const OUTPUT_SCHEMAS: Record<TextJsonRequest['kind'], JsonSchema> = {
+  autoconfig: AUTOCONFIG_SCHEMA,
+  packager: PACKAGER_SCHEMA,
+}
+
+function strictSchemaFor(kind: TextJsonRequest['kind']): StrictSchemaFormat {
+  return { name: `${kind}_output`, schema: toStrictJsonSchema(OUTPUT_SCHEMAS[kind]) }
+}
+
+function describeType(v: unknown) {
+  if (v === null) return 'null'
+  if (Array.isArray(v)) return 'array'
+  if (typeof v === 'number' && !Number.isFinite(v)) return 'non-finite number'
+  return typeof v
+}
+
+function validateAgainstSchema(schema: JsonSchema, value: unknown, path = '$', out: ValidationIssue[] = []) {
+  if (out.length >= MAX_VALIDATION_ISSUES) return out
+
+  const typeOk =
+    schema.type === 'object'
+      ? Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+      : schema.type === 'array'
+        ? Array.isArray(value)
+        : schema.type === 'integer'
+          ? Number.isInteger(value)
+          : schema.type === 'number'
+            ? typeof value === 'number' && Number.isFinite(value)
+            : typeof value === schema.type
+  if (!typeOk) {
+    out.push({ path, message: `expected ${schema.type}, got ${describeType(value)}` })
+    return out
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    out.push({ path, message: `must be one of ${schema.enum.join(', ')}` })
+  }
+  if (typeof value === 'string' && schema.minLength != null && value.trim().length < schema.minLength) {
+    out.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} chars` })
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum != null && value < schema.minimum) out.push({ path, message: `must be >= ${schema.minimum}` })
+    if (schema.maximum != null && value > schema.maximum) out.push({ path, message: `must be <= ${schema.maximum}` })
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) {
+      out.push({ path, message: `must contain at least ${schema.minItems} item(s)` })
+    }
+    if (schema.items) value.forEach((item, i) => validateAgainstSchema(schema.items!, item, `${path}[${i}]`, out))
+  }
+  if (schema.type === 'object') {
+    const obj = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined || obj[key] === null) out.push({ path: `${path}.${key}`, message: 'is required' })
+    }
+    for (const [key, sub] of Object.entries(schema.properties ?? {})) {
+      if (obj[key] === undefined || obj[key] === null) continue
+      validateAgainstSchema(sub, obj[key], `${path}.${key}`, out)
+    }
+  }
+  return out
+}
+
+function validateAutoConfig(value: unknown): ValidationIssue[] {
+  const issues = validateAgainstSchema(AUTOCONFIG_SCHEMA, value)
+  if (issues.length > 0) return issues
+  const ac = value as AutoConfigOutput
+  if (ac.scene_seeds.length !== ac.scene_count) {
+    issues.push({ path: '$.scene_seeds', message: `must contain exactly scene_count (${ac.scene_count}) items, got ${ac.scene_seeds.length}` })
+  }
+  return issues
+}
+
+// 프리셋/옵션으로 scene_count 범위를 고정한 경우에만 검사합니다. (기본 6~12는 권장값이라 강제하지 않음)
+function validateSceneCountRange(value: unknown, options: GenerationOptions): ValidationIssue[] {
+  if (options.scene_count_min == null && options.scene_count_max == null) return []
+  const count = (value as any)?.scene_count
+  if (typeof count !== 'number') return []
+  const range = sceneCountRange(options)
+  if (count < range.min || count > range.max) {
+    return [{ path: '$.scene_count', message: `must be between ${range.min} and ${range.max} (고정 조건), got ${count}` }]
+  }
+  return []
+}
+
+function validatePackager(value: unknown, targetCount: number): ValidationIssue[] {
+  const issues = validateAgainstSchema(PACKAGER_SCHEMA, value)
+  const p = value as any
+  if (!Array.isArray(p?.scenes)) return issues
+
+  // 스키마 오류가 있어도 씬 구성 관련 오류는 한 번에 같이 알려줍니다.
+  if (p.scenes.length < targetCount) {
+    issues.push({ path: '$.scenes', message: `must contain ${targetCount} scenes (scene_count), got ${p.scenes.length}` })
+  }
+  const seen = new Map<number, number>()
+  p.scenes.forEach((s: any, i: number) => {
+    if (!Number.isInteger(s?.scene_id)) return
+    const prev = seen.get(s.scene_id)
+    if (prev != null) issues.push({ path: `$.scenes[${i}].scene_id`, message: `duplicate scene_id ${s.scene_id} (also at $.scenes[${prev}])` })
+    else seen.set(s.scene_id, i)
+  })
+  for (const key of ['image_prompts', 'image_render_requests'] as const) {
+    const list = Array.isArray(p[key]) ? p[key] : []
+    list.forEach((r: any, i: number) => {
+      if (Number.isInteger(r?.scene_id) && !seen.has(r.scene_id)) {
+        issues.push({ path: `$.${key}[${i}].scene_id`, message: `unknown scene_id ${r.scene_id}` })
+      }
+    })
+  }
+  return issues.slice(0, MAX_VALIDATION_ISSUES)
+}
+
+function formatIssues(issues: ValidationIssue[], limit = 5) {
+  const head = issues.slice(0, limit).map((i) => `${i.path} ${i.message}`)
+  return issues.length > limit ? `${head.join('; ')} (+${issues.length - limit} more)` : head.join('; ')
+}
+
+function buildRepairInstructions(baseInstructions: string, issues: ValidationIssue[]) {
+  return `${baseInstructions}
+
+중요(리페어 모드):
+- 입력 JSON의 previous_output은 직전 출력이며, 아래 스키마 검증 오류가 있었다.
+- 오류가 난 필드만 고치고, 나머지 내용은 최대한 그대로 유지한다.
+- 오직 JSON만 출력한다.
+
+[검증 오류]
+${issues.map((i) => `- ${i.path}: ${i.message}`).join('\n')}`
+}
+
+function getMaxRepairAttempts() {
+  return Math.max(0, Math.min(Number(Deno.env.get('YTG_MAX_REPAIR_ATTEMPTS') ?? '2') || 0, 5))
+}
+
+// 생성 → 검증 → (오류가 있으면) 오류 목록을 붙인 리페어 프롬프트로 재생성. 최대 maxRepairs회까지 반복합니다.
+async function generateWithRepair<T>(args: {
+  provider: LlmProvider
+  kind: TextJsonRequest['kind']
+  instructions: string
+  inputObj: Record<string, unknown>
+  generate: () => Promise<TextJsonResult<unknown>>
+  validate: (value: unknown) => ValidationIssue[]
+  maxRepairs: number
+  log: (level: 'info' | 'warn' | 'error', msg: string, data?: unknown) => void
+}): Promise<{ value: T; report: ValidationReport }> {
+  const report: ValidationReport = { valid: false, attempts: [] }
+  let result = await args.generate()
+  for (let attempt = 0; ; attempt++) {
+    const value = result.value
+    // 어떤 경로(json_schema/heuristic/fixture)로 JSON을 얻었는지 기록
+    args.log(result.parse_path === 'heuristic' ? 'warn' : 'info', `${args.kind} JSON 파싱 경로: ${result.parse_path}`, {
+      attempt,
+      fallback_reason: result.fallback_reason ? result.fallback_reason.slice(0, 500) : undefined,
+    })
+    const issues = args.validate(value)
+    report.attempts.push({ attempt, at: nowIso(), parse_path: result.parse_path, issue_count: issues.length, issues: issues.slice(0, 20) })
+    if (issues.length === 0) {
+      report.valid = true
+      return { value: value as T, report }
+    }
+    if (attempt >= args.maxRepairs) return { value: value as T, report }
+
+    args.log('warn', `${args.kind} 스키마 검증 실패, 리페어 재시도 (${attempt + 1}/${args.maxRepairs})`, {
+      issue_count: issues.length,
+      issues: issues.slice(0, 10),
+    })
+    result = await args.provider.textJson({
+      kind: args.kind,
+      instructions: buildRepairInstructions(args.instructions, issues),
+      input: JSON.stringify({ ...args.inputObj, previous_output: value }),
+    })
   }
 }
 
@@ -598,26 +1936,468 @@ function normalizeImageRenderRequests(
   return { requests: reqs, generated: true }
 }
 
-async function runPipeline(jobId: string, traceId: string, payload: TrendStoryStartRequest) {
+// ---- 작업 큐 (ytg_tasks) ----
+// 파이프라인 단계/씬 이미지/씬 TTS는 모두 ytg_tasks에 넣고, trendstory-worker가 lease를 잡아 실행합니다.
+type TaskKind = 'pipeline_stage' | 'scene_image' | 'scene_tts'
+
+type EnqueueTaskInput = {
+  job_id: string
+  kind: TaskKind
+  payload?: Record<string, unknown>
+  dedupe_key?: string // 같은 job에서 대기/실행 중인 같은 키가 있으면 새로 넣지 않음
+  max_attempts?: number
+  next_run_at?: string
+}
+
+function getTaskMaxAttempts() {
+  const n = Number(Deno.env.get('YTG_TASK_MAX_ATTEMPTS') ?? '3')
+  return Number.isFinite(n) ? Math.max(1, Math.min(Math.floor(n), 10)) : 3
+}
+
+async function enqueueTask(supabase: any, t: EnqueueTaskInput): Promise<{ id: string; deduped: boolean }> {
+  if (t.dedupe_key) {
+    const existing = await supabase
+      .from('ytg_tasks')
+      .select('id')
+      .eq('job_id', t.job_id)
+      .eq('dedupe_key', t.dedupe_key)
+      .in('status', ['QUEUED', 'RUNNING'])
+      .limit(1)
+    if (existing.error) throw new Error(`ytg_tasks 조회 실패: ${existing.error.message}`)
+    if ((existing.data ?? []).length > 0) return { id: existing.data[0].id as string, deduped: true }
+  }
+  const ins = await supabase
+    .from('ytg_tasks')
+    .insert({
+      job_id: t.job_id,
+      kind: t.kind,
+      payload: t.payload ?? {},
+      dedupe_key: t.dedupe_key ?? null,
+      max_attempts: t.max_attempts ?? getTaskMaxAttempts(),
+      next_run_at: t.next_run_at ?? nowIso(),
+    })
+    .select('id')
+    .single()
+  if (ins.error) throw new Error(`ytg_tasks enqueue 실패: ${ins.error.message}`)
+  return { id: ins.data.id as string, deduped: false }
+}
+
+// 워커를 즉시 한 번 깨웁니다(best-effort). 호출이 유실돼도 cron 주기 실행이 task를 다시 처리합니다.
+function kickWorker(reason: string) {
+  const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
+  const authKey = pickJwtKey([Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('SUPABASE_ANON_KEY')])
+  const auth = buildEdgeFunctionAuthHeaders(authKey)
+  if (!auth.ok) {
+    console.warn('[ytg] worker kick 생략: 인증키가 비어있습니다.', { reason })
+    return
+  }
+  const kick = fetch(`${supabaseUrl}/functions/v1/trendstory-worker`, {
+    method: 'POST',
+    headers: auth.headers,
+    body: JSON.stringify({ reason }),
+  })
+    .then(async (r) => {
+      await r.text().catch(() => '')
+      if (!r.ok) console.warn('[ytg] worker kick 응답 오류(무시)', { reason, status: r.status })
+    })
+    .catch((e: any) => console.warn('[ytg] worker kick 실패(무시)', { reason, error: e?.message ?? String(e) }))
+
+  const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
+  if (typeof waitUntil === 'function') waitUntil(kick)
+}
+
+// task 실행 요청(_task)은 워커(service role)만 보낼 수 있습니다.
+function isServiceRoleRequest(req: Request) {
+  const key = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '').trim()
+  if (!key) return false
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  const apikey = (req.headers.get('apikey') ?? '').trim()
+  return bearer === key || apikey === key
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+const PRESET_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-02_add_generation_presets.sql 을 실행하세요.'
+
+// preset_id의 옵션 위에 요청의 options를 덮어써서 payload.options로 확정합니다. (job 입력에 저장되어 재개 시에도 그대로 사용)
+// 프리셋은 본인 것(개인) 또는 멤버인 워크스페이스의 것만 쓸 수 있습니다.
+async function resolveGenerationOptions(supabase: any, payload: TrendStoryStartRequest, userId: string): Promise<Response | null> {
+  const explicit = normalizeGenerationOptions(payload.options)
+  if ('error' in explicit) return badRequest(explicit.error)
+  let merged: GenerationOptions = explicit.options
+  delete payload.preset_name
+
+  const presetId = payload.preset_id?.trim()
+  if (presetId) {
+    const presetRes = await supabase
+      .from('ytg_presets')
+      .select('id, name, owner_id, workspace_id, options')
+      .eq('id', presetId)
+      .maybeSingle()
+    if (presetRes.error) return json({ error: presetRes.error.message, hint: PRESET_MIGRATION_HINT }, 500)
+    const preset = presetRes.data
+    let visible = Boolean(preset) && !preset.workspace_id && preset.owner_id === userId
+    if (preset?.workspace_id) {
+      const member = await supabase
+        .from('ytg_workspace_members')
+        .select('role')
+        .eq('workspace_id', preset.workspace_id)
+        .eq('user_id', userId)
+        .maybeSingle()
+      visible = Boolean(member.data)
+    }
+    if (!visible) return json({ error: 'Preset not found' }, 404)
+
+    const stored = normalizeGenerationOptions(preset.options)
+    merged = { ...('options' in stored ? stored.options : {}), ...explicit.options }
+    payload.preset_id = preset.id
+    payload.preset_name = preset.name
+  } else {
+    delete payload.preset_id
+  }
+
+  // scene_count(고급 옵션)를 주면 범위 대신 그 값을 쓰므로 검사하지 않습니다.
+  if (payload.scene_count == null && merged.scene_count_min != null && merged.scene_count_max != null && merged.scene_count_min > merged.scene_count_max) {
+    return badRequest('options.scene_count_min must be <= scene_count_max (프리셋과 직접 지정한 값을 함께 확인하세요)')
+  }
+  payload.options = merged
+  return null
+}
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+// ---- Quota (단일 파일 배포를 위해 index.ts에 포함) ----
+// 사용자별 일일 한도(UTC 자정 초기화) + 분당 요청 수 제한. 카운터는 ytg_consume_quota RPC로 원자적으로 증가시킵니다.
+type QuotaKind = 'jobs' | 'images' | 'tts_chars' | 'requests'
+
+const QUOTA_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-28_add_usage_quotas.sql 을 실행하세요.'
+
+const QUOTA_ENV: Record<QuotaKind, { env: string; fallback: number; label: string; unit: string }> = {
+  jobs: { env: 'YTG_QUOTA_JOBS_PER_DAY', fallback: 20, label: '오늘 job 생성', unit: '개' },
+  images: { env: 'YTG_QUOTA_IMAGES_PER_DAY', fallback: 100, label: '오늘 이미지 생성', unit: '장' },
+  tts_chars: { env: 'YTG_QUOTA_TTS_CHARS_PER_DAY', fallback: 50000, label: '오늘 TTS', unit: '자' },
+  requests: { env: 'YTG_RATE_LIMIT_PER_MINUTE', fallback: 30, label: '분당 생성 요청', unit: '회' },
+}
+
+// 0이면 제한 없음
+function getQuotaLimit(kind: QuotaKind): number | null {
+  const cfg = QUOTA_ENV[kind]
+  const raw = Number(Deno.env.get(cfg.env) ?? cfg.fallback)
+  const n = Number.isFinite(raw) ? Math.floor(raw) : cfg.fallback
+  return n > 0 ? n : null
+}
+
+function quotaExceeded(kind: QuotaKind, limit: number, used: number, requested: number, resetAt: string) {
+  const cfg = QUOTA_ENV[kind]
+  const retryAfterSec = Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000))
+  const remaining = Math.max(0, limit - used)
+  const when = kind === 'requests' ? `${retryAfterSec}초 후 다시 시도하세요.` : `UTC 자정(한국 시간 09:00)에 초기화됩니다.`
+  const hint =
+    `${cfg.label} 한도(${limit.toLocaleString()}${cfg.unit})를 초과했습니다. ` +
+    (remaining > 0 && requested > 1 ? `남은 양은 ${remaining.toLocaleString()}${cfg.unit}입니다. ` : '') +
+    when
+  return new Response(
+    JSON.stringify({ error: 'quota_exceeded', kind, limit, used, requested, reset_at: resetAt, retry_after_sec: retryAfterSec, hint }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8', 'retry-after': String(retryAfterSec) },
+    },
+  )
+}
+
+// amount만큼 사용량을 차감합니다. 한도를 넘으면 아무것도 기록하지 않고 429 응답을 돌려줍니다.
+// (amount = 0이면 남은 양이 있는지만 확인)
+async function consumeQuota(supabase: any, userId: string, kind: QuotaKind, amount: number): Promise<Response | null> {
+  const limit = getQuotaLimit(kind)
+  if (limit == null) return null
+  const res = await supabase.rpc('ytg_consume_quota', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_amount: amount,
+    p_limit: limit,
+    p_window: kind === 'requests' ? 'minute' : 'day',
+  })
+  if (res.error) return json({ error: res.error.message, hint: QUOTA_MIGRATION_HINT }, 500)
+  const row = Array.isArray(res.data) ? res.data[0] : res.data
+  if (row?.allowed) return null
+  console.warn('[ytg] quota 초과', { userId, kind, limit, used: row?.used, requested: amount })
+  return quotaExceeded(kind, limit, Number(row?.used ?? 0), amount, String(row?.window_end ?? nowIso()))
+}
+
+// 실제로 쓰지 않은 양을 되돌리거나(음수), 이미 시작된 작업의 사용량을 한도와 무관하게 기록합니다. (best-effort)
+async function recordQuota(supabase: any, userId: string, kind: QuotaKind, amount: number) {
+  if (!amount) return
+  const res = await supabase.rpc('ytg_consume_quota', { p_user_id: userId, p_kind: kind, p_amount: amount, p_limit: null, p_window: 'day' })
+  if (res.error) console.warn('[ytg] quota 기록 실패 (ignored)', { userId, kind, amount, msg: res.error.message })
+}
+
+// ---- Storage 정리 (단일 파일 배포를 위해 index.ts에 포함) ----
+const STORAGE_LIST_PAGE = 1000
+const STORAGE_REMOVE_BATCH = 100
+
+type StorageCleanupReport = {
+  prefix: string
+  listed: number // prefix 아래에서 찾은 객체 수 (하위 폴더 포함)
+  referenced: number // DB(ytg_assets.path 등)가 가리키는 경로 중 목록에 없던 것
+  removed: number
+  remaining: string[] // 삭제 후 다시 조회했을 때 남아 있는 객체 (검증)
+  errors: string[]
+}
+
+// prefix 아래의 모든 객체 경로. list()는 한 단계만 보여주므로 폴더를 따라 내려가며 페이지 끝까지 읽습니다.
+async function listStorageObjects(supabase: any, bucket: string, prefix: string): Promise<string[]> {
+  const out: string[] = []
+  const folders = [prefix.replace(/\/+$/, '')]
+  while (folders.length > 0) {
+    const dir = folders.shift() as string
+    for (let offset = 0; ; offset += STORAGE_LIST_PAGE) {
+      const res = await supabase.storage
+        .from(bucket)
+        .list(dir, { limit: STORAGE_LIST_PAGE, offset, sortBy: { column: 'name', order: 'asc' } })
+      if (res.error) throw new Error(`storage list 실패 (${dir}): ${res.error.message}`)
+      const items = res.data ?? []
+      for (const obj of items) {
+        if (!obj?.name) continue
+        const path = `${dir}/${obj.name}`
+        // id가 없는 항목은 폴더(prefix)
+        if (obj.id == null) folders.push(path)
+        else out.push(path)
+      }
+      if (items.length < STORAGE_LIST_PAGE) break
+    }
+  }
+  return out
+}
+
+async function removeStorageObjects(supabase: any, bucket: string, paths: string[]) {
+  let removed = 0
+  const errors: string[] = []
+  for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH) {
+    const batch = paths.slice(i, i + STORAGE_REMOVE_BATCH)
+    const res = await supabase.storage.from(bucket).remove(batch)
+    if (res.error) errors.push(res.error.message)
+    else removed += (res.data ?? []).length
+  }
+  return { removed, errors }
+}
+
+// prefix 아래 전체 + 참조 경로를 지우고, 다시 조회해 남은 객체를 보고합니다.
+async function cleanupStoragePrefix(
+  supabase: any,
+  bucket: string,
+  prefix: string,
+  referencedPaths: string[] = [],
+): Promise<StorageCleanupReport> {
+  const report: StorageCleanupReport = { prefix, listed: 0, referenced: 0, removed: 0, remaining: [], errors: [] }
+
+  let listed: string[] = []
+  try {
+    listed = await listStorageObjects(supabase, bucket, prefix)
+  } catch (e: any) {
+    report.errors.push(e?.message ?? String(e))
+  }
+  const listedSet = new Set(listed)
+  const extra = Array.from(new Set(referencedPaths.filter((p) => p && !listedSet.has(p))))
+  report.listed = listed.length
+  report.referenced = extra.length
+
+  const targets = [...listed, ...extra]
+  if (targets.length > 0) {
+    const res = await removeStorageObjects(supabase, bucket, targets)
+    report.removed = res.removed
+    report.errors.push(...res.errors)
+  }
+
+  try {
+    report.remaining = await listStorageObjects(supabase, bucket, prefix)
+  } catch (e: any) {
+    report.errors.push(`검증 실패: ${e?.message ?? String(e)}`)
+  }
+  return report
+}
+
+// job이 참조하는 Storage 경로 (이미지 이력/TTS 등 jobs/<id> 밖에 저장된 예전 파일도 함께 지우기 위해)
+async function collectReferencedPaths(supabase: any, jobId: string): Promise<string[]> {
+  const paths: string[] = []
+  const assets = await supabase.from('ytg_assets').select('path').eq('job_id', jobId)
+  if (!assets.error) for (const a of assets.data ?? []) if (a?.path) paths.push(String(a.path))
+  const scenes = await supabase.from('ytg_scenes').select('image_path').eq('job_id', jobId)
+  if (!scenes.error) for (const sc of scenes.data ?? []) if (sc?.image_path) paths.push(String(sc.image_path))
+  return paths
+}
+
+// ---- 협조적 취소 ----
+// trendstory-cancel-job이 status=CANCELLED(+cancel_requested_at)를 기록하면, 단계/씬 사이에서 확인하고 멈춥니다.
+class JobCancelledError extends Error {
+  constructor() {
+    super('cancelled by user')
+    this.name = 'JobCancelledError'
+  }
+}
+
+async function isCancelRequested(supabase: any, jobId: string, sinceIso: string) {
+  const res = await supabase.from('ytg_jobs').select('status, cancel_requested_at').eq('id', jobId).maybeSingle()
+  // 컬럼이 없거나(마이그레이션 미적용) 조회 실패 시에는 취소되지 않은 것으로 간주
+  if (res.error || !res.data) return false
+  if (res.data.status === 'CANCELLED') return true
+  const at = res.data.cancel_requested_at ? Date.parse(res.data.cancel_requested_at) : NaN
+  return Number.isFinite(at) && at >= Date.parse(sinceIso)
+}
+
+type ResumeState = {
+  checkpoints: JobCheckpoints
+  autoconfig: AutoConfigOutput | null
+  packager: PackagerOutput | null
+}
+
+type PipelineStepResult = {
+  stage: PipelineStage | null // 이번 호출에서 실행한 단계 (모두 완료되어 있으면 null)
+  next_stage: PipelineStage | null
+  cancelled?: boolean
+}
+
+// 파이프라인을 "완료되지 않은 첫 단계 하나"만 실행합니다. (trendstory-worker가 pipeline_stage task로 호출)
+// 단계가 끝나면 체크포인트를 기록하고 반환하며, 다음 단계는 워커가 새 task로 이어서 넣습니다.
+// 실패는 그대로 throw → 워커가 재시도(backoff)하고, 시도 횟수를 다 쓰면 job을 FAILED로 마감합니다.
+async function runPipeline(jobId: string, traceId: string, payload: TrendStoryStartRequest, resume: ResumeState): Promise<PipelineStepResult> {
   const supabase = getSupabaseServiceClient()
+  const usage = createUsageRecorder(supabase, jobId)
   const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
   const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
   const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
 
-  try {
-    await supabase.from('ytg_jobs').update({ status: 'RUNNING' satisfies JobStatus, error: null }).eq('id', jobId)
+  const startedAt = nowIso()
+  const throwIfCancelled = async () => {
+    if (await isCancelRequested(supabase, jobId, startedAt)) throw new JobCancelledError()
+  }
 
-    // packager 객체 초기화 (상태 추적용)
-    const packager: PackagerOutput = { _runtime: {} } as PackagerOutput
+  try {
+    // 이미 취소(또는 마감)된 job은 RUNNING으로 바꾸지 않습니다.
+    const updRunning = await supabase
+      .from('ytg_jobs')
+      .update({ status: 'RUNNING' satisfies JobStatus, error: null, heartbeat_at: nowIso() })
+      .eq('id', jobId)
+      .in('status', ['QUEUED', 'RUNNING'])
+      .select('id')
+    if (!updRunning.error && (updRunning.data ?? []).length === 0) throw new JobCancelledError()
+
+    const provider = getProvider(resolveProviderId(payload.provider), usage.sink)
+
+    // ---- 체크포인트 ----
+    // 각 단계가 끝나면 ytg_jobs.checkpoints에 기록하고, 다음 호출(또는 resume_from 재개)에서는 완료된 단계를 건너뜁니다.
+    const checkpoints: JobCheckpoints = { ...(resume.checkpoints ?? {}) }
+    const isStageDone = (stage: PipelineStage) => Boolean(checkpoints[stage])
+    const markStage = (stage: PipelineStage, info?: Record<string, unknown>) => {
+      checkpoints[stage] = { done_at: nowIso(), ...(info ?? {}) }
+    }
+    // 출력물이 없는 체크포인트는 신뢰하지 않고, 빠진 단계 이후의 체크포인트도 모두 무효로 처리합니다.
+    if (!resume.autoconfig) delete checkpoints.autoconfig
+    if (!Array.isArray(resume.packager?.scenes)) delete checkpoints.packager
+    const firstMissing = PIPELINE_STAGES.findIndex((st) => !checkpoints[st])
+    if (firstMissing < 0) return { stage: null, next_stage: null }
+    for (const st of PIPELINE_STAGES.slice(firstMissing)) delete checkpoints[st]
+    const stage = PIPELINE_STAGES[firstMissing]
+    const nextStage: PipelineStage | null = PIPELINE_STAGES[firstMissing + 1] ?? null
+    const done = (): PipelineStepResult => ({ stage, next_stage: nextStage })
+
+    // packager 객체 초기화 (상태 추적용). 이전 단계에서 만든 packager(_runtime 로그 포함)를 이어서 사용합니다.
+    const packager: PackagerOutput = (checkpoints.autoconfig && resume.packager) || ({ _runtime: {} } as PackagerOutput)
     ensureRuntime(packager)
-    packager._runtime!.autoconfig_status = 'running'
-    packager._runtime!.packager_status = 'waiting'
-    await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+    packager._runtime!.autoconfig_status = isStageDone('autoconfig') ? 'done' : 'running'
+    packager._runtime!.packager_status = isStageDone('packager') ? 'done' : 'waiting'
+    pushRuntimeLog(packager, 'info', `pipeline 단계 실행: ${stage}`, { completed: PIPELINE_STAGES.filter((st) => isStageDone(st)) })
+    await supabase.from('ytg_jobs').update({ packager, checkpoints }).eq('id', jobId)
 
-    // ---- 0) AutoConfig Agent ----
-    const extraPrompt = payload.input_as_text?.trim() ? payload.input_as_text.trim() : null
+    const maxRepairs = getMaxRepairAttempts()
+    const logToRuntime = (level: 'info' | 'warn' | 'error', msg: string, data?: unknown) => pushRuntimeLog(packager, level, msg, data)
+    const validation: NonNullable<NonNullable<PackagerOutput['_runtime']>['validation']> = packager._runtime!.validation ?? {}
+    packager._runtime!.validation = validation
 
-    const autoconfigInstructions = `너는 AutoConfig Agent다.
+    // 프리셋/옵션 (시작 시 서버가 확정해서 job 입력에 저장한 값) + 고급 옵션(우선)
+    const advanced = pickAdvancedOptions(payload)
+    const options: GenerationOptions = withAdvancedOptions(payload.options ?? {}, advanced)
+    const extraPrompt = [options.extra_prompt, payload.input_as_text?.trim()].filter(Boolean).join('\n') || null
+
+    // ---- 0) AutoConfig Agent ----
+    let autoconfig: AutoConfigOutput
+    if (isStageDone('autoconfig')) {
+      autoconfig = resume.autoconfig!
+    } else {
+      const sceneRange = sceneCountRange(options)
+      const constraintLines = describeGenerationConstraints(options)
+      if (advanced.safety_level) constraintLines.push(`- safety_level: "${advanced.safety_level}"`)
+
+      const autoconfigInstructions = `너는 AutoConfig Agent다.
 입력은 JSON 1개이며 다음 키를 포함한다:
 - topic_domain (string, required)
 - language (string, required)
@@ -626,7 +2406,7 @@ async function runPipeline(jobId: string, traceId: string, payload: TrendStorySt
 목표:
 - TrendStory Packager Agent가 바로 사용할 수 있도록, 아래 config JSON을 생성한다.
 - 사용자 입력(topic_domain/language/audience)을 반드시 반영한다.
-- scene_count는 6~12 사이에서 topic_domain에 맞게 선택한다.
+- scene_count는 ${sceneRange.min}~${sceneRange.max} 사이에서 topic_domain에 맞게 선택한다.
 - scene_seeds는 scene_count 개수만큼 만들고, topic_domain과 자연스럽게 연결된 사건/학습 포인트가 들어가야 한다.
 - 위험/혐오/성적/폭력 과도 요소는 배제하고 아동·청소년 안전을 우선한다.
 
@@ -648,6 +2428,11 @@ main_character_hint, safety_level, scene_count, scene_seeds
 - 아래 “추가 지시사항”이 있으면, visual_style / tone / main_character_hint / scene_seeds에 자연스럽게 반영하되, topic_domain과 무관한 이야기로 바꾸지 말 것.
 - language가 "en"이면 scene_seeds/scene_title/seed는 영어로 작성한다.
 
+- 아래 “고정 조건”은 기본값과 추가 지시사항보다 우선하며, 해당 키는 적힌 값을 그대로 출력한다.
+
+고정 조건:
+${constraintLines.length ? constraintLines.join('\n') : '(없음)'}
+
 추가 지시사항:
 ${extraPrompt ?? '(없음)'}
 
@@ -655,34 +2440,55 @@ ${extraPrompt ?? '(없음)'}
 - 오직 JSON만 출력한다. (설명/마크다운/코드펜스 금지)
 - scene_seeds는 배열이며, 각 원소는 {scene_title, seed}를 포함한다.`
 
-    const autoconfigInput = JSON.stringify({
-      topic_domain: payload.topic_domain,
-      language: payload.language,
-      audience: payload.audience,
-    })
-
-    console.log('[ytg] autoconfig 생성 시작', { jobId })
-    const autoconfig = await openaiResponsesJson<AutoConfigOutput>({
-      model: 'gpt-5.2',
-      input: [
-        { role: 'system', content: autoconfigInstructions },
-        { role: 'user', content: autoconfigInput },
-      ],
-    })
-    console.log('[ytg] autoconfig 생성 완료', { jobId, scene_count: autoconfig.scene_count })
-
-    packager._runtime!.autoconfig_status = 'done'
-    packager._runtime!.packager_status = 'running'
-    const updAutoconfig = await supabase.from('ytg_jobs').update({ autoconfig, packager }).eq('id', jobId)
-    if (updAutoconfig.error) {
-      console.error('[ytg] autoconfig DB 업데이트 실패', { jobId, error: updAutoconfig.error.message })
-      throw new Error(`autoconfig DB 업데이트 실패: ${updAutoconfig.error.message}`)
+      const autoconfigInputObj = {
+        topic_domain: payload.topic_domain,
+        language: payload.language,
+        audience: payload.audience,
+        ...(constraintLines.length ? { constraints: { ...options, ...(advanced.safety_level ? { safety_level: advanced.safety_level } : {}) } } : {}),
+      }
+      const autoconfigInput = JSON.stringify(autoconfigInputObj)
+
+      console.log('[ytg] autoconfig 생성 시작', { jobId, provider: provider.id })
+      const autoconfigGen = await generateWithRepair<AutoConfigOutput>({
+        provider,
+        kind: 'autoconfig',
+        instructions: autoconfigInstructions,
+        inputObj: autoconfigInputObj,
+        generate: () => provider.textJson({ kind: 'autoconfig', instructions: autoconfigInstructions, input: autoconfigInput }),
+        validate: (v) => [...validateAutoConfig(v), ...validateSceneCountRange(v, options)],
+        maxRepairs,
+        log: logToRuntime,
+      })
+      validation.autoconfig = autoconfigGen.report
+      if (!autoconfigGen.report.valid) {
+        const issues = autoconfigGen.report.attempts[autoconfigGen.report.attempts.length - 1].issues
+        pushRuntimeLog(packager, 'error', 'autoconfig 스키마 검증 최종 실패', { issues })
+        await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+        throw new Error(`AutoConfig output is invalid after ${maxRepairs} repair attempt(s): ${formatIssues(issues)}`)
+      }
+      autoconfig = applyGenerationOptions(autoconfigGen.value, options)
+      if (advanced.safety_level) autoconfig.safety_level = advanced.safety_level
+      console.log('[ytg] autoconfig 생성 완료', { jobId, scene_count: autoconfig.scene_count })
+
+      packager._runtime!.autoconfig_status = 'done'
+      packager._runtime!.packager_status = 'running'
+      markStage('autoconfig')
+      const updAutoconfig = await supabase.from('ytg_jobs').update({ autoconfig, packager, checkpoints }).eq('id', jobId)
+      if (updAutoconfig.error) {
+        console.error('[ytg] autoconfig DB 업데이트 실패', { jobId, error: updAutoconfig.error.message })
+        throw new Error(`autoconfig DB 업데이트 실패: ${updAutoconfig.error.message}`)
+      }
+      console.log('[ytg] autoconfig DB 업데이트 완료', { jobId })
+      return done()
     }
-    console.log('[ytg] autoconfig DB 업데이트 완료', { jobId })
 
-    // ---- 1) TrendStory Packager Agent ----
-    console.log('[ytg] packager 생성 시작', { jobId, scene_count: autoconfig.scene_count ?? 6 })
-    const packagerInstructions = `너는 TrendStory Packager Agent다.
+    await throwIfCancelled()
+    if (!isStageDone('packager')) {
+      // ---- 1) TrendStory Packager Agent ----
+      // 고급 옵션은 AutoConfig 결과보다 우선합니다. (이전 실행의 autoconfig 체크포인트로 재개해도 동일)
+      autoconfig = { ...autoconfig, ...advanced }
+      console.log('[ytg] packager 생성 시작', { jobId, scene_count: autoconfig.scene_count ?? 6 })
+      const packagerInstructions = `너는 TrendStory Packager Agent다.
 
 [필수 입력]
 - topic_domain (string)
@@ -718,195 +2524,178 @@ ${extraPrompt ?? '(없음)'}
   trend_research, story, scenes, style_guide, image_prompts, image_render_requests, tts, video_package, youtube_meta
 - "DATA" 같은 래퍼 키로 감싸지 말 것.`
 
-    const packagerInputObj = {
-      topic_domain: payload.topic_domain,
-      // payload에서 이미 필수 검증을 했으므로, 사용자가 넣은 값을 우선합니다.
-      // (autoconfig가 기본값 ko/중학생으로 튀어도 packager를 덮어쓰지 않도록)
-      language: payload.language,
-      audience: payload.audience,
-      scene_count: autoconfig.scene_count ?? 6,
-      scene_seeds: autoconfig.scene_seeds ?? [],
-      tone: autoconfig.tone,
-      duration_min: autoconfig.duration_min,
-      platform_target: autoconfig.platform_target,
-      visual_style: autoconfig.visual_style,
-      main_character_hint: autoconfig.main_character_hint,
-      safety_level: autoconfig.safety_level,
-      input_as_text: payload.input_as_text ?? null,
-    }
+      const packagerInputObj = {
+        topic_domain: payload.topic_domain,
+        // payload에서 이미 필수 검증을 했으므로, 사용자가 넣은 값을 우선합니다.
+        // (autoconfig가 기본값 ko/중학생으로 튀어도 packager를 덮어쓰지 않도록)
+        language: payload.language,
+        audience: payload.audience,
+        scene_count: autoconfig.scene_count ?? 6,
+        scene_seeds: autoconfig.scene_seeds ?? [],
+        tone: autoconfig.tone,
+        duration_min: autoconfig.duration_min,
+        platform_target: autoconfig.platform_target,
+        visual_style: autoconfig.visual_style,
+        main_character_hint: autoconfig.main_character_hint,
+        safety_level: autoconfig.safety_level,
+        input_as_text: extraPrompt,
+      }
 
-    let packagerResult: PackagerOutput
-    try {
       // 1차 시도: Responses API + web_search_preview tool
       // (Deno Edge에서 @openai/agents를 직접 실행하기 어려워, API 레벨로 web search를 사용)
-      console.log('[ytg] packager API 호출 시작 (web_search 포함)', { jobId })
-      packagerResult = await openaiResponsesJson<PackagerOutput>({
-        model: 'gpt-5.2',
-        input: [
-          { role: 'system', content: packagerInstructions },
-          { role: 'user', content: JSON.stringify(packagerInputObj) },
-        ],
-        tools: [
-          {
-            type: 'web_search_preview',
-            search_context_size: 'medium',
-            user_location: { type: 'approximate', country: 'KR' },
-          },
-        ],
-      })
-      console.log('[ytg] packager API 호출 완료 (web_search 포함)', { jobId, has_scenes: Array.isArray((packagerResult as any)?.scenes) })
-    } catch (err: any) {
-      console.warn('[ytg] packager API 호출 실패 (web_search 포함), fallback 시도', { jobId, error: err?.message ?? String(err) })
-      // fallback: web search 없이 생성 (모델은 gpt-5.2 유지)
-      packagerResult = await openaiResponsesJson<PackagerOutput>({
-        model: 'gpt-5.2',
-        input: [
-          { role: 'system', content: packagerInstructions },
-          { role: 'user', content: JSON.stringify(packagerInputObj) },
-        ],
-      })
-      console.log('[ytg] packager API 호출 완료 (fallback)', { jobId, has_scenes: Array.isArray((packagerResult as any)?.scenes) })
-    }
-    // packagerResult를 기존 packager 객체에 병합 (상태 유지)
-    Object.assign(packager, packagerResult)
-    if (!packager._runtime) packager._runtime = {}
-    if (!packager._runtime.logs) packager._runtime.logs = []
-
-    // ---- packager sanity check & repair ----
-    // 가끔 모델이 scenes를 누락/비우는 경우가 있어, 파이프라인이 "멈춘 것처럼" 보입니다.
-    // scenes는 이후 DB insert/TTS/이미지 생성의 핵심이므로, 최소 1회 리페어 재시도를 합니다.
-    const targetCount = Math.max(1, Math.min(Number(autoconfig.scene_count ?? 6) || 6, 12))
-    const normalizeScenes = (p: PackagerOutput) =>
-      (Array.isArray((p as any)?.scenes) ? ((p as any).scenes as any[]) : [])
-        .slice(0, targetCount)
-        .map((s, i) => ({ ...s, scene_id: Number.isFinite((s as any)?.scene_id) ? (s as any).scene_id : i + 1 }))
-        .sort((a: any, b: any) => Number(a.scene_id) - Number(b.scene_id))
-
-    let scenes = normalizeScenes(packager)
-    if (scenes.length === 0) {
-      // 디버그 힌트: 모델이 {DATA:{...}} 형태로 감싸거나 키를 빠뜨릴 수 있음
-      try {
-        const keys = packager && typeof packager === 'object' ? Object.keys(packager as any).slice(0, 40) : []
-        const anyP: any = packager as any
-        pushRuntimeLog(packager, 'warn', 'packager 루트 키 점검', {
-          keys,
-          has_DATA: Boolean(anyP?.DATA),
-          has_data: Boolean(anyP?.data),
-          data_keys: anyP?.DATA && typeof anyP.DATA === 'object' ? Object.keys(anyP.DATA).slice(0, 40) : null,
-        })
-      } catch {
-        // ignore
+      const generatePackager = async () => {
+        try {
+          console.log('[ytg] packager API 호출 시작 (web_search 포함)', { jobId, provider: provider.id })
+          const out = await provider.textJson<PackagerOutput>({
+            kind: 'packager',
+            instructions: packagerInstructions,
+            input: JSON.stringify(packagerInputObj),
+            web_search: true,
+          })
+          console.log('[ytg] packager API 호출 완료 (web_search 포함)', {
+            jobId,
+            parse_path: out.parse_path,
+            has_scenes: Array.isArray((out.value as any)?.scenes),
+          })
+          return out
+        } catch (err: any) {
+          console.warn('[ytg] packager API 호출 실패 (web_search 포함), fallback 시도', { jobId, error: err?.message ?? String(err) })
+          // fallback: web search 없이 생성 (모델은 gpt-5.2 유지)
+          const out = await provider.textJson<PackagerOutput>({
+            kind: 'packager',
+            instructions: packagerInstructions,
+            input: JSON.stringify(packagerInputObj),
+          })
+          console.log('[ytg] packager API 호출 완료 (fallback)', {
+            jobId,
+            parse_path: out.parse_path,
+            has_scenes: Array.isArray((out.value as any)?.scenes),
+          })
+          return out
+        }
       }
-      pushRuntimeLog(packager, 'warn', 'packager.scenes가 비어 있어 packager를 1회 재시도합니다.', { targetCount })
-      // "수정/리페어" 전용으로 더 강하게 요구
-      const repairInstructions = `${packagerInstructions}
-
-중요(리페어 모드):
-- 이전 출력이 불완전하여 scenes가 비어 있었습니다.
-- 반드시 scenes 배열을 최소 ${targetCount}개 포함하고, 각 scene에는 scene_id/narration/on_screen_text/visual_brief/mood/duration_sec 키를 포함한다.
-- 오직 JSON만 출력한다.`
 
-      packager = await openaiResponsesJson<PackagerOutput>({
-        model: 'gpt-5.2',
-        input: [
-          { role: 'system', content: repairInstructions },
-          { role: 'user', content: JSON.stringify(packagerInputObj) },
-        ],
+      // ---- packager 스키마 검증 & 리페어 ----
+      // narration 누락, 숫자가 아닌 duration_sec, 중복 scene_id, youtube_meta 누락 등은
+      // 필드 단위 오류로 모델에 돌려주고 bounded 재시도합니다(YTG_MAX_REPAIR_ATTEMPTS).
+      const targetCount = autoconfig.scene_count
+      const packagerGen = await generateWithRepair<PackagerOutput>({
+        provider,
+        kind: 'packager',
+        instructions: packagerInstructions,
+        inputObj: packagerInputObj,
+        generate: generatePackager,
+        validate: (v) => validatePackager(v, targetCount),
+        maxRepairs,
+        log: logToRuntime,
       })
-      scenes = normalizeScenes(packager)
-      if (scenes.length === 0) {
-        throw new Error('Packager output is invalid: scenes is empty (after repair attempt)')
+      validation.packager = packagerGen.report
+      if (!packagerGen.report.valid) {
+        const issues = packagerGen.report.attempts[packagerGen.report.attempts.length - 1].issues
+        pushRuntimeLog(packager, 'error', 'packager 스키마 검증 최종 실패', { issues })
+        await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+        throw new Error(`Packager output is invalid after ${maxRepairs} repair attempt(s): ${formatIssues(issues)}`)
       }
-    }
 
-    packager._runtime!.packager_status = 'done'
-    pushRuntimeLog(packager, 'info', 'packager 생성 완료', {
-      has_image_render_requests: Array.isArray(packager?.image_render_requests),
-      image_render_requests_len: Array.isArray(packager?.image_render_requests) ? packager.image_render_requests.length : 0,
-      has_image_prompts: Array.isArray(packager?.image_prompts),
-      image_prompts_len: Array.isArray(packager?.image_prompts) ? packager.image_prompts.length : 0,
-      scenes_len: Array.isArray((packager as any)?.scenes) ? ((packager as any).scenes as any[]).length : 0,
-    })
-    console.log('[ytg] packager 생성 완료, DB 업데이트 시작', { jobId, scenes_count: scenes.length })
+      // 검증된 결과를 기존 packager 객체에 병합 (_runtime 상태 유지)
+      const { _runtime: _ignoredRuntime, ...packagerResult } = packagerGen.value as any
+      Object.assign(packager, packagerResult)
+      // 프리셋/옵션으로 고정한 스타일은 packager 결과보다 우선합니다.
+      packager.style_guide = applyGenerationOptions(packager.style_guide ?? {}, options)
+      if (advanced.safety_level) packager.style_guide.safety_level = advanced.safety_level
+
+      packager._runtime!.packager_status = 'done'
+      pushRuntimeLog(packager, 'info', 'packager 생성 완료', {
+        has_image_render_requests: Array.isArray(packager?.image_render_requests),
+        image_render_requests_len: Array.isArray(packager?.image_render_requests) ? packager.image_render_requests.length : 0,
+        has_image_prompts: Array.isArray(packager?.image_prompts),
+        image_prompts_len: Array.isArray(packager?.image_prompts) ? packager.image_prompts.length : 0,
+        scenes_len: Array.isArray((packager as any)?.scenes) ? ((packager as any).scenes as any[]).length : 0,
+      })
+      console.log('[ytg] packager 생성 완료, DB 업데이트 시작', { jobId, scenes_count: packager.scenes.length })
 
-    const updPackager = await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
-    if (updPackager.error) {
-      console.error('[ytg] packager DB 업데이트 실패', { jobId, error: updPackager.error.message })
-      throw new Error(`packager DB 업데이트 실패: ${updPackager.error.message}`)
+      markStage('packager')
+      const updPackager = await supabase.from('ytg_jobs').update({ packager, checkpoints }).eq('id', jobId)
+      if (updPackager.error) {
+        console.error('[ytg] packager DB 업데이트 실패', { jobId, error: updPackager.error.message })
+        throw new Error(`packager DB 업데이트 실패: ${updPackager.error.message}`)
+      }
+      console.log('[ytg] packager DB 업데이트 완료', { jobId })
+      return done()
     }
-    console.log('[ytg] packager DB 업데이트 완료', { jobId })
 
-    // scenes는 위에서 normalize+검증 완료된 값을 사용
+    // 새로 만든 packager는 scene_count와 개수가 맞는지 검증했으므로 자르지 않습니다.
+    // (체크포인트의 packager는 trendstory-scene-ops로 씬을 나누거나 합쳐 개수가 달라졌을 수 있음)
+    const scenes = packager.scenes.slice().sort((a, b) => a.scene_id - b.scene_id)
 
-    // 1) scenes insert (text first)
-    const insScenes = await supabase.from('ytg_scenes').insert(
-      scenes.map((s) => ({
-        job_id: jobId,
-        scene_id: s.scene_id,
-        narration: s.narration ?? null,
-        on_screen_text: s.on_screen_text ?? null,
-        visual_brief: s.visual_brief ?? null,
-        mood: s.mood ?? null,
-        duration_sec: s.duration_sec ?? null,
-        image_prompt: null,
-        image_path: null,
-        image_url: null,
-      })),
-    )
-    if (insScenes.error) throw new Error(insScenes.error.message)
+    // scenes는 위에서 normalize+검증 완료된 값을 사용
 
-    async function insertAssetBestEffort(row: Omit<DbAssetRow, 'id'>) {
-      const ins = await supabase.from('ytg_assets').insert(row)
-      if (ins.error) {
-        pushRuntimeLog(packager, 'warn', 'ytg_assets 기록 실패(무시)', { error: ins.error.message, row })
-      }
+    await throwIfCancelled()
+    if (!isStageDone('scenes')) {
+      // 1) scenes insert (text first)
+      // 체크포인트 없이 남아 있는 행(이전 실행의 부분 결과)은 지우고 다시 넣습니다.
+      await supabase.from('ytg_scenes').delete().eq('job_id', jobId)
+      const insScenes = await supabase.from('ytg_scenes').insert(
+        scenes.map((s) => ({
+          job_id: jobId,
+          scene_id: s.scene_id,
+          narration: s.narration ?? null,
+          on_screen_text: s.on_screen_text ?? null,
+          visual_brief: s.visual_brief ?? null,
+          mood: s.mood ?? null,
+          duration_sec: s.duration_sec ?? null,
+          image_prompt: null,
+          image_path: null,
+          image_url: null,
+        })),
+      )
+      if (insScenes.error) throw new Error(insScenes.error.message)
+      markStage('scenes', { count: scenes.length })
+      await supabase.from('ytg_jobs').update({ checkpoints }).eq('id', jobId)
+      return done()
     }
 
-    // 2) TTS (per-scene + full track) - 오디오를 먼저 생성한다.
-    const ttsModel = Deno.env.get('OPENAI_TTS_MODEL')?.trim() || 'gpt-4o-mini-tts'
-    const ttsVoice = Deno.env.get('OPENAI_TTS_VOICE')?.trim() || 'alloy'
-
-    const sceneAudioUrls: Array<{ scene_id: number; audio_url: string }> = []
-    const ttsTargetScenes = scenes
-      .map((s) => ({ scene_id: s.scene_id, narration: String(s.narration ?? '').trim() }))
-      .filter((s) => s.narration.length > 0)
-
-    const rtTts: any = ensureRuntime(packager)
-    if (rtTts) {
-      rtTts.tts_scenes_total = ttsTargetScenes.length
-      rtTts.tts_scenes_done = 0
-      rtTts.tts_scenes_failed = 0
+    // 이미 만들어진 씬 오디오 (재개 시 재사용, final_package에 기록)
+    // (비공개 버킷 모드에서는 url 없이 path만 있으므로 둘 다 기록)
+    const sceneAudioUrls: Array<{ scene_id: number; audio_url: string | null; audio_path: string | null }> = []
+    const prevAudio = await supabase.from('ytg_assets').select('url, path, meta').eq('job_id', jobId).eq('type', 'audio')
+    for (const a of prevAudio.data ?? []) {
+      const m: any = a.meta
+      if (m?.kind !== 'scene' || !Number.isFinite(m?.scene_id) || !(a.url || a.path)) continue
+      if (sceneAudioUrls.some((x) => x.scene_id === m.scene_id)) continue
+      sceneAudioUrls.push({ scene_id: m.scene_id, audio_url: a.url ?? null, audio_path: a.path ?? null })
     }
 
-    for (const s of ttsTargetScenes) {
-      try {
-        pushRuntimeLog(packager, 'info', 'TTS(씬) 생성 시작', { scene_id: s.scene_id, chars: s.narration.length })
-        const mp3 = await openaiTtsMp3(s.narration)
-        const audioPath = `jobs/${jobId}/tts/scene-${String(s.scene_id).padStart(2, '0')}.mp3`
-        const upA = await supabase.storage.from(bucket).upload(audioPath, new Blob([toArrayBuffer(mp3)], { type: 'audio/mpeg' }), {
-          contentType: 'audio/mpeg',
-          upsert: true,
-        })
-        if (upA.error) throw new Error(upA.error.message)
-        const url = supabase.storage.from(bucket).getPublicUrl(audioPath).data.publicUrl
-        sceneAudioUrls.push({ scene_id: s.scene_id, audio_url: url })
-        await insertAssetBestEffort({
+    // 2) TTS (per-scene) - 씬마다 scene_tts task를 넣고(trendstory-retry-audio가 실행), 다음 단계는 워커가 모두 끝날 때까지 대기시킵니다.
+    await throwIfCancelled()
+    if (!isStageDone('tts')) {
+      const ttsTargetScenes = scenes
+        .filter((s) => String(s.narration ?? '').trim().length > 0)
+        .filter((s) => !sceneAudioUrls.some((x) => x.scene_id === s.scene_id))
+
+      let ttsChars = 0
+      for (const s of ttsTargetScenes) {
+        const t = await enqueueTask(supabase, {
           job_id: jobId,
-          type: 'audio',
-          path: audioPath,
-          url,
-          meta: { kind: 'scene', scene_id: s.scene_id, provider: 'openai', model: ttsModel, voice: ttsVoice },
+          kind: 'scene_tts',
+          payload: { scene_id: s.scene_id, source: 'pipeline' },
+          dedupe_key: `scene_tts:${s.scene_id}`,
         })
-        if (rtTts) rtTts.tts_scenes_done = (rtTts.tts_scenes_done ?? 0) + 1
-        pushRuntimeLog(packager, 'info', 'TTS(씬) 생성 완료', { scene_id: s.scene_id, audio_url: url })
-      } catch (e: any) {
-        const msg = e?.message ?? String(e)
-        if (rtTts) rtTts.tts_scenes_failed = (rtTts.tts_scenes_failed ?? 0) + 1
-        pushRuntimeLog(packager, 'error', 'TTS(씬) 생성 실패', { scene_id: s.scene_id, error: msg })
-        // keep going
+        if (!t.deduped) ttsChars += String(s.narration ?? '').trim().length
       }
-      // progress is useful; persist packager runtime occasionally
-      await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+      // 파이프라인 TTS는 이미 시작된 job이므로 한도와 무관하게 job 생성자의 사용량으로 기록만 합니다.
+      const owner = await supabase.from('ytg_jobs').select('owner_id').eq('id', jobId).maybeSingle()
+      if (owner.data?.owner_id) await recordQuota(supabase, owner.data.owner_id, 'tts_chars', ttsChars)
+      const rtTts: any = ensureRuntime(packager)
+      rtTts.tts_scenes_total = sceneAudioUrls.length + ttsTargetScenes.length
+      rtTts.tts_scenes_queued = ttsTargetScenes.length
+      pushRuntimeLog(packager, 'info', 'TTS(씬) 작업을 큐에 넣었습니다.', {
+        queued: ttsTargetScenes.map((s) => s.scene_id),
+        reused: sceneAudioUrls.map((x) => x.scene_id),
+      })
+      markStage('tts', { queued: ttsTargetScenes.length, reused: sceneAudioUrls.length })
+      await supabase.from('ytg_jobs').update({ packager, checkpoints }).eq('id', jobId)
+      return done()
     }
 
     // NOTE: full 트랙(전체 TTS)은 생성하지 않습니다(자원 낭비 방지). 씬별만 생성합니다.
@@ -914,24 +2703,31 @@ ${extraPrompt ?? '(없음)'}
 
     // 3) 이미지 생성은 "사용자 클릭 시 씬 단위로" 수행합니다.
     //    (일괄 생성/자동 트리거 제거)
-    const norm = normalizeImageRenderRequests(packager, scenes.map((s) => s.scene_id), (packager.style_guide as any)?.platform_target ?? null)
-    if (norm.generated) {
-      packager.image_render_requests = norm.requests
-      ensureRuntime(packager).image_render_requests_generated = true
-      pushRuntimeLog(packager, 'warn', 'image_render_requests가 비어 있어 서버에서 자동 생성했습니다.', {
-        generated_count: norm.requests.length,
+    await throwIfCancelled()
+    if (!isStageDone('image_requests')) {
+      const norm = normalizeImageRenderRequests(packager, scenes.map((s) => s.scene_id), (packager.style_guide as any)?.platform_target ?? null)
+      if (norm.generated) {
+        packager.image_render_requests = norm.requests
+        ensureRuntime(packager).image_render_requests_generated = true
+        pushRuntimeLog(packager, 'warn', 'image_render_requests가 비어 있어 서버에서 자동 생성했습니다.', {
+          generated_count: norm.requests.length,
+        })
+        await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+      }
+      ensureRuntime(packager).image_render_requests_count = norm.requests.length
+      pushRuntimeLog(packager, 'info', '이미지 생성은 사용자 요청(씬 단위)로 진행됩니다.', {
+        available: norm.requests.length,
+        hint: '각 씬 이미지 영역의 "생성" 버튼을 눌러 1장씩 생성하세요.',
       })
-      await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+      // packager의 _runtime 업데이트를 DB에 반영
+      markStage('image_requests', { count: norm.requests.length })
+      await supabase.from('ytg_jobs').update({ packager, checkpoints }).eq('id', jobId)
+      return done()
     }
-    ensureRuntime(packager).image_render_requests_count = norm.requests.length
-    pushRuntimeLog(packager, 'info', '이미지 생성은 사용자 요청(씬 단위)로 진행됩니다.', {
-      available: norm.requests.length,
-      hint: '각 씬 이미지 영역의 "생성" 버튼을 눌러 1장씩 생성하세요.',
-    })
-    // packager의 _runtime 업데이트를 DB에 반영
-    await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
 
-    // 4) assets insert (json marker only)
+    await throwIfCancelled()
+    // 4) assets insert (json marker only) - 재시도/재개 시 중복 방지를 위해 기존 marker를 지우고 다시 기록
+    await supabase.from('ytg_assets').delete().eq('job_id', jobId).eq('type', 'json')
     const insAssets = await supabase.from('ytg_assets').insert({
       job_id: jobId,
       type: 'json',
@@ -962,22 +2758,199 @@ ${extraPrompt ?? '(없음)'}
       audio: {
         audio_url: audioUrl,
         scene_audios: sceneAudioUrls,
-        tts: { provider: 'openai', model: ttsModel, voice: ttsVoice },
+        tts: {
+          provider: provider.id,
+          model: provider.ttsModel,
+          // 씬 TTS(trendstory-retry-audio)도 options.tts_voice를 사용합니다. (fixture는 고정)
+          voice: provider.id === 'fake' ? provider.ttsVoice : (options.tts_voice ?? provider.ttsVoice),
+        },
       },
       meta: { storage_bucket: bucket, supabase_url: supabaseUrl, trace_id: traceId },
     }
 
+    // 완료 표시 전에 사용량 기록을 마무리 (status가 SUCCEEDED면 비용 합계가 확정된 상태)
+    await usage.flush()
+    markStage('final_package')
     const updJob = await supabase
       .from('ytg_jobs')
-      .update({ status: 'SUCCEEDED' satisfies JobStatus, final_package, packager, error: null })
+      .update({ status: 'SUCCEEDED' satisfies JobStatus, final_package, packager, checkpoints, error: null })
       .eq('id', jobId)
+      .eq('status', 'RUNNING') // 마지막 순간에 취소된 경우 CANCELLED를 유지
     if (updJob.error) throw new Error(updJob.error.message)
+    return done()
   } catch (err: any) {
-    const msg = err?.message ?? 'unknown error'
-    await supabase.from('ytg_jobs').update({ status: 'FAILED' satisfies JobStatus, error: msg }).eq('id', jobId)
+    if (err instanceof JobCancelledError) {
+      // status는 trendstory-cancel-job이 이미 CANCELLED로 기록했으므로 덮어쓰지 않습니다.
+      console.log('[ytg] pipeline 취소됨', { jobId, traceId })
+      return { stage: null, next_stage: null, cancelled: true }
+    }
+    console.error('[ytg] pipeline 단계 실패', { jobId, traceId, error: err?.message ?? String(err) })
+    throw err
+  } finally {
+    await usage.flush()
+  }
+}
+
+// 파이프라인 첫 단계 task를 넣고 워커를 깨웁니다. (이전 실행에서 남은 대기 task는 취소)
+async function queuePipeline(service: any, jobId: string, stage: PipelineStage, opts?: { cancelAll?: boolean }) {
+  let cancelQuery = service
+    .from('ytg_tasks')
+    .update({ status: 'CANCELLED', finished_at: nowIso(), updated_at: nowIso(), last_error: 'superseded' })
+    .eq('job_id', jobId)
+    .in('status', ['QUEUED', 'RUNNING'])
+  if (!opts?.cancelAll) cancelQuery = cancelQuery.eq('kind', 'pipeline_stage')
+  const cancelled = await cancelQuery
+  if (cancelled.error) throw new Error(`ytg_tasks 정리 실패: ${cancelled.error.message}`)
+
+  await enqueueTask(service, { job_id: jobId, kind: 'pipeline_stage', payload: { stage }, dedupe_key: 'pipeline' })
+  kickWorker(`pipeline:${jobId}`)
+}
+
+function taskQueueHint(msg: string) {
+  return msg.includes('ytg_tasks')
+    ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-23_add_task_queue.sql 을 실행하세요.'
+    : undefined
+}
+
+type StageTaskRef = {
+  id: string
+  job_id: string
+  kind: TaskKind
+  attempt?: number
+}
+
+// trendstory-worker가 pipeline_stage task를 실행할 때 호출합니다. (동기 실행 후 결과 반환)
+async function runStageTask(req: Request, task: StageTaskRef) {
+  if (!isServiceRoleRequest(req)) {
+    return json({ error: 'forbidden', hint: 'task 실행은 trendstory-worker(service role)만 호출할 수 있습니다.' }, 403)
+  }
+  const jobId = String(task?.job_id ?? '').trim()
+  if (!jobId) return badRequest('_task.job_id is required')
+
+  const service = getSupabaseServiceClient()
+  const existing = await service
+    .from('ytg_jobs')
+    .select('id, trace_id, status, input, autoconfig, packager, checkpoints')
+    .eq('id', jobId)
+    .single()
+  if (existing.error) return json({ error: `job을 찾을 수 없습니다: ${existing.error.message}` }, 404)
+
+  const job: any = existing.data
+  try {
+    const result = await runPipeline(jobId, job.trace_id as string, { ...(job.input ?? {}), job_id: jobId }, {
+      checkpoints: job.checkpoints ?? {},
+      autoconfig: job.autoconfig ?? null,
+      packager: job.packager ?? null,
+    })
+    console.log('[ytg] pipeline 단계 완료', { jobId, task_id: task.id, attempt: task.attempt, ...result })
+    return json(result, 200)
+  } catch (e: any) {
+    return json({ error: e?.message ?? String(e) }, 500)
   }
 }
 
+// 실패(또는 완료)한 job을 체크포인트부터 다시 실행합니다.
+// - resume_from: 'auto' → 완료되지 않은 첫 단계부터
+// - resume_from: <단계> → 그 단계와 이후 단계를 다시 실행 (이전 단계는 모두 완료되어 있어야 함)
+async function resumeJob(payload: TrendStoryStartRequest, userId: string) {
+  const resumeFrom = payload.resume_from!
+  if (resumeFrom !== 'auto' && !(PIPELINE_STAGES as string[]).includes(resumeFrom)) {
+    return badRequest(`resume_from must be one of: auto, ${PIPELINE_STAGES.join(', ')}`)
+  }
+  const jobId = payload.job_id?.trim()
+  if (!jobId) return badRequest('resume_from requires job_id')
+
+  const service = getSupabaseServiceClient()
+  const denied = await requireJobWriteAccess(service, jobId, userId)
+  if (denied) return denied
+
+  const existing = await service
+    .from('ytg_jobs')
+    .select('id, trace_id, status, input, autoconfig, packager, checkpoints')
+    .eq('id', jobId)
+    .single()
+  if (existing.error) return json({ error: `기존 job을 찾을 수 없습니다: ${existing.error.message}` }, 404)
+
+  const job: any = existing.data
+  if (job.status === 'QUEUED' || job.status === 'RUNNING') {
+    return json({ error: '이미 실행 중인 job입니다.', hint: '실패·취소 또는 완료된 job만 재개할 수 있습니다. 실행을 멈추려면 먼저 취소하세요.' }, 409)
+  }
+  const input = job.input as TrendStoryStartRequest | null
+  if (!input?.topic_domain?.trim()) {
+    return json({ error: '기존 job의 입력 정보가 없습니다.', hint: '"전체 새로만들기"로 다시 시작하세요.' }, 400)
+  }
+
+  const checkpoints: JobCheckpoints = { ...(job.checkpoints ?? {}) }
+  let startIdx: number
+  if (resumeFrom === 'auto') {
+    startIdx = PIPELINE_STAGES.findIndex((st) => !checkpoints[st])
+    if (startIdx < 0) return json({ error: '모든 단계가 이미 완료된 job입니다.', hint: '특정 단계부터 다시 실행하려면 resume_from에 단계명을 지정하세요.' }, 400)
+  } else {
+    startIdx = PIPELINE_STAGES.indexOf(resumeFrom)
+    const missing = PIPELINE_STAGES.slice(0, startIdx).filter((st) => !checkpoints[st])
+    if (missing.length > 0) {
+      return json(
+        { error: `resume_from=${resumeFrom}: 완료되지 않은 이전 단계가 있습니다 (${missing.join(', ')})`, hint: "resume_from: 'auto'를 사용하세요." },
+        400,
+      )
+    }
+  }
+  const startStage = PIPELINE_STAGES[startIdx]
+  for (const st of PIPELINE_STAGES.slice(startIdx)) delete checkpoints[st]
+
+  // 다시 실행할 단계의 이전 산출물 정리 (이미지 take/오디오 파일은 덮어써지지 않으므로 Storage에서도 지움)
+  // - scenes 이전 단계부터: 씬/에셋 모두 삭제 (씬 구성이 바뀔 수 있음)
+  // - tts를 명시적으로 다시 실행: 오디오 에셋만 삭제 ('auto'면 이미 만든 씬 오디오는 재사용)
+  const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+  if (startIdx <= PIPELINE_STAGES.indexOf('scenes')) {
+    const oldPaths = await collectReferencedPaths(service, jobId)
+    await service.from('ytg_scenes').delete().eq('job_id', jobId)
+    await service.from('ytg_assets').delete().eq('job_id', jobId)
+    // 새로 만들 씬 1..N이 이전 씬의 수정 이력을 물려받지 않도록 함께 지웁니다. (마이그레이션 미적용이면 무시)
+    const delEdits = await service.from('ytg_scene_edits').delete().eq('job_id', jobId)
+    if (delEdits.error) console.warn('[ytg] 씬 수정 이력 삭제 실패(무시)', { jobId, error: delEdits.error.message })
+    const storage = await cleanupStoragePrefix(service, bucket, `jobs/${jobId}`, oldPaths)
+    if (storage.errors.length > 0 || storage.remaining.length > 0) {
+      console.warn('[ytg] 재개 storage 정리 일부 실패(무시)', { jobId, errors: storage.errors, remaining: storage.remaining.length })
+    }
+  } else if (startStage === 'tts' && resumeFrom !== 'auto') {
+    const audios = await service.from('ytg_assets').select('path').eq('job_id', jobId).eq('type', 'audio')
+    const audioPaths = (audios.data ?? []).map((a: any) => a?.path).filter((p: unknown): p is string => Boolean(p))
+    await service.from('ytg_assets').delete().eq('job_id', jobId).eq('type', 'audio')
+    if (audioPaths.length > 0) {
+      const rm = await removeStorageObjects(service, bucket, audioPaths)
+      if (rm.errors.length > 0) console.warn('[ytg] 재개 오디오 파일 삭제 일부 실패(무시)', { jobId, errors: rm.errors })
+    }
+  }
+
+  const upd = await service
+    .from('ytg_jobs')
+    .update({
+      status: 'QUEUED' satisfies JobStatus,
+      autoconfig: startIdx <= 0 ? null : job.autoconfig,
+      packager: startIdx <= 0 ? null : job.packager,
+      final_package: null,
+      checkpoints,
+      error: null,
+      heartbeat_at: nowIso(),
+      recovery_count: 0,
+    })
+    .eq('id', jobId)
+  if (upd.error) return json({ error: upd.error.message }, 500)
+
+  console.log('[ytg] 체크포인트 재개', { jobId, resume_from: resumeFrom, start_stage: startStage })
+  try {
+    await queuePipeline(service, jobId, startStage)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    await service.from('ytg_jobs').update({ status: 'FAILED' satisfies JobStatus, error: msg }).eq('id', jobId)
+    return json({ error: msg, hint: taskQueueHint(msg) }, 500)
+  }
+
+  const res: TrendStoryStartResponse = { job_id: jobId, trace_id: job.trace_id as string, resumed_from: startStage }
+  return json(res, 200)
+}
+
 Deno.serve(async (req) => {
   const opt = handleOptions(req)
   if (opt) return opt
@@ -991,26 +2964,61 @@ Deno.serve(async (req) => {
     return badRequest('Invalid JSON body')
   }
 
+  // 워커의 단계 실행 요청 (내부용)
+  const task = (payload as any)?._task as StageTaskRef | undefined
+  if (task) return await runStageTask(req, task)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  const limited = await consumeQuota(getSupabaseServiceClient(), user.id, 'requests', 1)
+  if (limited) return limited
+
+  // 체크포인트 재개 (resume_from): 저장된 입력/산출물을 그대로 사용하므로 아래 입력 검증보다 먼저 처리합니다.
+  if (payload?.resume_from != null) return await resumeJob(payload, user.id)
+
   if (!payload?.topic_domain?.trim()) return badRequest('topic_domain is required')
   if (!payload?.language?.trim()) return badRequest('language is required')
   if (!payload?.audience?.trim()) return badRequest('audience is required')
+  if (payload.provider != null && !isProviderId(payload.provider)) {
+    return badRequest(`provider must be one of: ${PROVIDER_IDS.join(', ')}`)
+  }
+  // 고급 옵션: 정규화한 값만 job 입력에 남깁니다.
+  const advanced = normalizeAdvancedOptions(payload as Record<string, unknown>)
+  if ('error' in advanced) return badRequest(advanced.error)
+  for (const key of ADVANCED_OPTION_KEYS) delete payload[key]
+  Object.assign(payload, advanced.advanced)
 
   // NOTE: 이 엔드포인트는 job_id를 즉시 반환하고,
-  // EdgeRuntime.waitUntil로 백그라운드 생성 파이프라인을 수행합니다.
+  // 파이프라인 단계는 ytg_tasks 큐에 넣어 trendstory-worker가 단계별로 실행합니다.
   // 따라서 프론트는 trendstory-status 폴링으로 결과를 받게 됩니다.
   const service = getSupabaseServiceClient()
 
+  const invalidOptions = await resolveGenerationOptions(service, payload, user.id)
+  if (invalidOptions) return invalidOptions
+
+  // 새 job/전체 새로만들기는 job 한도를 1 차감합니다. (TTS 한도가 이미 소진됐으면 시작하지 않음)
+  const admitJob = async () => (await consumeQuota(service, user.id, 'tts_chars', 0)) ?? (await consumeQuota(service, user.id, 'jobs', 1))
+
   let jobId: string
   let traceId: string
 
   // 기존 job 재사용 (재시작)
   if (payload.job_id?.trim()) {
     const existingJobId = payload.job_id.trim()
-    // 기존 job 확인
-    const existingJob = await service.from('ytg_jobs').select('id, trace_id').eq('id', existingJobId).single()
+    // 기존 job 확인 (워크스페이스는 그대로 유지)
+    const denied = await requireJobWriteAccess(service, existingJobId, user.id)
+    if (denied) return denied
+    const existingJob = await service.from('ytg_jobs').select('id, trace_id, status').eq('id', existingJobId).single()
     if (existingJob.error) {
       return json({ error: `기존 job을 찾을 수 없습니다: ${existingJob.error.message}` }, 404)
     }
+    // 실행 중인 단계는 task 취소만으로 멈추지 않으므로, 초기화한 job에 이전 실행 결과가 섞이지 않게 막습니다.
+    if (existingJob.data.status === 'QUEUED' || existingJob.data.status === 'RUNNING') {
+      return json({ error: '이미 실행 중인 job입니다.', hint: '실행을 멈추려면 먼저 취소한 뒤 다시 새로만들기 하세요.' }, 409)
+    }
+    const overQuota = await admitJob()
+    if (overQuota) return overQuota
 
     // 기존 job을 QUEUED로 리셋하고 입력값 업데이트
     const resetJob = await service
@@ -1021,21 +3029,55 @@ Deno.serve(async (req) => {
         autoconfig: null,
         packager: null,
         final_package: null,
+        checkpoints: {},
         error: null,
+        heartbeat_at: nowIso(),
+        recovery_count: 0,
       })
       .eq('id', existingJobId)
       .select('id, trace_id')
       .single()
 
-    if (resetJob.error) return json({ error: resetJob.error.message }, 500)
+    if (resetJob.error) {
+      await recordQuota(service, user.id, 'jobs', -1)
+      return json({ error: resetJob.error.message }, 500)
+    }
 
     // 기존 scenes/assets 삭제 (깔끔한 재시작)
+    // 이미지는 take마다 다른 경로에 저장되어 덮어써지지 않으므로, 행을 지우기 전에 경로를 모아 두었다가 파일도 지웁니다.
+    const oldPaths = await collectReferencedPaths(service, existingJobId)
     await service.from('ytg_scenes').delete().eq('job_id', existingJobId)
     await service.from('ytg_assets').delete().eq('job_id', existingJobId)
+    // 새로 만들 씬 1..N이 이전 씬의 수정 이력을 물려받지 않도록 함께 지웁니다. (마이그레이션 미적용이면 무시)
+    const delEdits = await service.from('ytg_scene_edits').delete().eq('job_id', existingJobId)
+    if (delEdits.error) console.warn('[ytg] 씬 수정 이력 삭제 실패(무시)', { jobId: existingJobId, error: delEdits.error.message })
+    // 새 파이프라인 task를 넣기 전에 정리합니다. (실패해도 재시작은 진행, 남은 파일은 로그로 확인)
+    const storage = await cleanupStoragePrefix(service, Deno.env.get('YTG_BUCKET') ?? 'ytg-assets', `jobs/${existingJobId}`, oldPaths)
+    if (storage.errors.length > 0 || storage.remaining.length > 0) {
+      console.warn('[ytg] 재시작 storage 정리 일부 실패(무시)', { jobId: existingJobId, errors: storage.errors, remaining: storage.remaining.length })
+    }
 
     jobId = resetJob.data.id as string
     traceId = resetJob.data.trace_id as string
   } else {
+    // 워크스페이스에 만들 때는 editor 이상이어야 합니다.
+    const workspaceId = payload.workspace_id?.trim() || null
+    if (workspaceId) {
+      const member = await service
+        .from('ytg_workspace_members')
+        .select('role')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+      if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+      if (!member.data) return json({ error: 'Workspace not found' }, 404)
+      if (member.data.role === 'viewer') {
+        return json({ error: 'forbidden', hint: 'viewer 권한으로는 이 워크스페이스에 job을 만들 수 없습니다.' }, 403)
+      }
+    }
+    const overQuota = await admitJob()
+    if (overQuota) return overQuota
+
     // 새 job 생성
     const insertJob = await service
       .from('ytg_jobs')
@@ -1046,24 +3088,30 @@ Deno.serve(async (req) => {
         packager: null,
         final_package: null,
         error: null,
+        heartbeat_at: nowIso(),
+        owner_id: user.id,
+        ...(workspaceId ? { workspace_id: workspaceId } : {}),
       })
       .select('id, trace_id')
       .single()
 
-    if (insertJob.error) return json({ error: insertJob.error.message }, 500)
+    if (insertJob.error) {
+      await recordQuota(service, user.id, 'jobs', -1)
+      const hint = insertJob.error.message.includes('owner_id') ? OWNERSHIP_MIGRATION_HINT : undefined
+      return json({ error: insertJob.error.message, hint }, 500)
+    }
 
     jobId = insertJob.data.id as string
     traceId = insertJob.data.trace_id as string
   }
 
-  // 2) background pipeline
-  // @ts-ignore - Supabase Edge Runtime provides EdgeRuntime.waitUntil
-  const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
-  if (typeof waitUntil === 'function') {
-    waitUntil(runPipeline(jobId, traceId, payload))
-  } else {
-    // fallback: run inline (개발/로컬 환경)
-    runPipeline(jobId, traceId, payload)
+  // 2) pipeline task enqueue (재시작이면 이전 실행의 대기 task는 모두 취소)
+  try {
+    await queuePipeline(service, jobId, PIPELINE_STAGES[0], { cancelAll: true })
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    await service.from('ytg_jobs').update({ status: 'FAILED' satisfies JobStatus, error: msg }).eq('id', jobId)
+    return json({ error: msg, hint: taskQueueHint(msg) }, 500)
   }
 
   const res: TrendStoryStartResponse = { job_id: jobId, trace_id: traceId }
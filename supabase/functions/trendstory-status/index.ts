@@ -30,8 +30,83 @@ function getSupabaseClient(req: Request) {
   })
 }
 
+// ---- Storage URL (단일 파일 배포를 위해 index.ts에 포함) ----
+// YTG_STORAGE_PRIVATE=true면 버킷이 비공개이므로 DB에는 경로만 저장되고, 조회할 때마다 짧은 signed URL을 만들어 돌려줍니다.
+function isPrivateStorage() {
+  return (Deno.env.get('YTG_STORAGE_PRIVATE') ?? '').trim().toLowerCase() === 'true'
+}
+
+function getSignedUrlTtlSec() {
+  const n = Number(Deno.env.get('YTG_SIGNED_URL_TTL_SEC') ?? '600')
+  return Number.isFinite(n) ? Math.max(60, Math.min(Math.floor(n), 86400)) : 600
+}
+
+// public 모드에서 저장된 URL(.../storage/v1/object/public/<bucket>/<path>)에서 경로를 복원합니다. (전환 이전 데이터용)
+function storagePathFromUrl(url: string | null | undefined, bucket: string): string | null {
+  if (!url) return null
+  const marker = `/storage/v1/object/public/${bucket}/`
+  const idx = url.indexOf(marker)
+  if (idx < 0) return null
+  return decodeURIComponent(url.slice(idx + marker.length).split('?')[0])
+}
+
+type StorageUrlResolver = {
+  url: (path: string | null | undefined, storedUrl: string | null | undefined) => string | null
+  expiresAt: string | null
+}
+
+// 응답에 필요한 경로를 한 번에 서명합니다. (서명은 service role로 수행, 접근 권한은 위에서 RLS로 이미 확인됨)
+async function createStorageUrlResolver(paths: string[]): Promise<StorageUrlResolver> {
+  const url = Deno.env.get('SUPABASE_URL')
+  if (!url) throw new Error('Missing secret: SUPABASE_URL')
+  const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+
+  if (!isPrivateStorage()) {
+    // public 모드: 저장된 URL 그대로 (URL이 비어 있으면 경로로 public URL을 만듦)
+    const base = `${url.replace(/\/$/, '')}/storage/v1/object/public/${bucket}/`
+    return { url: (path, storedUrl) => storedUrl || (path ? `${base}${path}` : null), expiresAt: null }
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!serviceRoleKey) throw new Error('Missing secret: SUPABASE_SERVICE_ROLE_KEY')
+  const ttlSec = getSignedUrlTtlSec()
+  const signed = new Map<string, string>()
+  const unique = Array.from(new Set(paths.filter(Boolean)))
+  if (unique.length > 0) {
+    const service = createClient(url, serviceRoleKey)
+    const res = await service.storage.from(bucket).createSignedUrls(unique, ttlSec)
+    if (res.error) console.warn('[ytg] signed URL 생성 실패', { error: res.error.message })
+    for (const s of res.data ?? []) {
+      if (s.path && s.signedUrl && !s.error) signed.set(s.path, s.signedUrl)
+    }
+  }
+  return {
+    url: (path, storedUrl) => {
+      const p = path || storagePathFromUrl(storedUrl, bucket)
+      return p ? signed.get(p) ?? null : null
+    },
+    expiresAt: new Date(Date.now() + ttlSec * 1000).toISOString(),
+  }
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const url = Deno.env.get('SUPABASE_URL')
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+  if (!url) throw new Error('Missing secret: SUPABASE_URL')
+  if (!anonKey) throw new Error('Missing secret: SUPABASE_ANON_KEY')
+
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(url, anonKey, { auth: { persistSession: false, autoRefreshToken: false } })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
 // ---- 최소 타입들 (단일 파일 배포를 위해 index.ts에 포함) ----
-type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
 
 type DbJobRow = {
   id: string
@@ -41,9 +116,19 @@ type DbJobRow = {
   autoconfig: unknown | null
   packager: unknown | null
   final_package: unknown | null
+  checkpoints?: Record<string, { done_at: string; [key: string]: unknown }> | null
+  heartbeat_at?: string | null
+  recovery_count?: number
+  workspace_id?: string | null
+  deleted_at?: string | null // 휴지통에 있으면 옮긴 시각
+  tags?: string[]
+  pinned?: boolean
+  notes?: string | null
   error: string | null
 }
 
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
 type DbSceneRow = {
   id: string
   job_id: string
@@ -54,12 +139,17 @@ type DbSceneRow = {
   mood: string | null
   duration_sec: number | null
   image_prompt: string | null
+  image_negative_prompt?: string | null // 이미지에서 뺄 요소 (생성 시 "Avoid: ..."로 붙음)
+  effective_image_prompt?: string // 지금 생성하면 쓰일 프롬프트 (응답에서 계산)
   image_path: string | null
   image_url: string | null
   image_gen_status?: string | null
   image_gen_request_id?: string | null
   image_gen_started_at?: string | null
   image_gen_error?: string | null
+  updated_at?: string | null // 마지막 직접 수정 시각
+  audio_stale?: boolean // narration이 바뀌어 오디오 재생성 필요
+  image_stale?: boolean // visual_brief가 바뀌어 이미지 재생성 필요
 }
 
 type DbAssetRow = {
@@ -71,12 +161,97 @@ type DbAssetRow = {
   meta: unknown | null
 }
 
+type DbUsageRow = {
+  id: string
+  job_id: string
+  created_at: string
+  kind: 'text' | 'image' | 'tts'
+  op: string
+  provider: string
+  model: string
+  scene_id: number | null
+  input_tokens: number | null
+  output_tokens: number | null
+  image_count: number | null
+  image_size: string | null
+  tts_chars: number | null
+  cost_usd: number | null
+}
+
+type DbTaskRow = {
+  id: string
+  created_at: string
+  kind: 'pipeline_stage' | 'scene_image' | 'scene_tts'
+  payload: Record<string, unknown>
+  status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+  attempts: number
+  max_attempts: number
+  next_run_at: string
+  heartbeat_at: string | null
+  finished_at: string | null
+  last_error: string | null
+}
+
 type TrendStoryStatusResponse = {
   trace_id?: string
   status: JobStatus
   job: DbJobRow
   scenes?: DbSceneRow[]
   assets?: DbAssetRow[]
+  usage?: DbUsageRow[]
+  tasks?: DbTaskRow[]
+  // heartbeat가 YTG_STALE_JOB_MINUTES 이상 끊긴 진행 중 job (UI는 폴링을 멈춤)
+  stalled?: boolean
+  stalled_reason?: 'no_heartbeat' | 'queue_idle' | null
+  stale_after_sec?: number
+  // 현재 사용자의 권한 (viewer면 UI는 조회/다운로드만 허용)
+  access?: { role: WorkspaceRole; workspace_id: string | null }
+  // 비공개 버킷 모드에서 응답의 signed URL이 만료되는 시각 (public 모드면 null)
+  signed_url_expires_at?: string | null
+}
+
+type SceneAudioRef = { scene_id: number; audio_url: string | null; audio_path?: string | null }
+
+// final_package.audio.scene_audios의 URL을 현재 모드에 맞게 바꿉니다.
+function resolveFinalPackageUrls(finalPackage: unknown, resolve: StorageUrlResolver['url']): unknown {
+  const fp = finalPackage as { audio?: { scene_audios?: SceneAudioRef[] } } | null
+  if (!fp || typeof fp !== 'object' || !Array.isArray(fp.audio?.scene_audios)) return finalPackage
+  const sceneAudios = fp.audio.scene_audios.map((a) => ({ ...a, audio_url: resolve(a?.audio_path, a?.audio_url) }))
+  return { ...fp, audio: { ...fp.audio, scene_audios: sceneAudios } }
+}
+
+function finalPackageAudioPaths(finalPackage: unknown, bucket: string): string[] {
+  const fp = finalPackage as { audio?: { scene_audios?: SceneAudioRef[] } } | null
+  const list = Array.isArray(fp?.audio?.scene_audios) ? fp.audio.scene_audios : []
+  return list.map((a) => a?.audio_path || storagePathFromUrl(a?.audio_url, bucket)).filter((p): p is string => Boolean(p))
+}
+
+// heartbeat(없으면 created_at) 이후 staleMs가 지났고, heartbeat가 살아있는 RUNNING task도 없으면 멈춘 것으로 봅니다.
+// trendstory-generate-scene-image와 같은 규칙: 저장된 image_prompt → visual_brief/mood/style로 만든 기본 프롬프트
+function effectiveImagePrompt(scene: DbSceneRow, style: Record<string, unknown>, topic: string): string {
+  const stored = String(scene.image_prompt ?? '').trim()
+  if (stored) return stored
+  return [
+    String(scene.visual_brief ?? '').trim() || String(scene.on_screen_text ?? '').trim() || `educational illustration about ${topic}`,
+    String(scene.mood ?? '').trim(),
+    String(style.visual_style ?? '').trim(),
+    String(style.tone ?? '').trim(),
+    'no text, no logo, no watermark, clean composition, high quality, 16:9',
+  ]
+    .filter(Boolean)
+    .join(', ')
+    .trim()
+}
+
+function detectStalled(job: any, tasks: DbTaskRow[], staleMs: number): { stalled: boolean; reason: 'no_heartbeat' | 'queue_idle' | null } {
+  if (job.status !== 'QUEUED' && job.status !== 'RUNNING') return { stalled: false, reason: null }
+  const now = Date.now()
+  const lastBeat = Date.parse(job.heartbeat_at ?? job.created_at)
+  if (!Number.isFinite(lastBeat) || now - lastBeat <= staleMs) return { stalled: false, reason: null }
+  const liveTask = tasks.some((t) => t.status === 'RUNNING' && t.heartbeat_at && now - Date.parse(t.heartbeat_at) <= staleMs)
+  if (liveTask) return { stalled: false, reason: null }
+  const queued = tasks.some((t) => t.status === 'QUEUED')
+  return { stalled: true, reason: queued ? 'queue_idle' : 'no_heartbeat' }
 }
 
 function json(body: unknown, status = 200) {
@@ -96,29 +271,69 @@ Deno.serve(async (req) => {
   const jobId = url.searchParams.get('job_id') ?? ''
   if (!jobId) return json({ error: 'job_id is required' }, 400)
 
+  const user = await getRequestUser(req)
+  if (!user) return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+
+  // 사용자 JWT로 조회 → RLS가 본인 job 또는 멤버인 워크스페이스의 job(과 하위 scenes/assets/usage/tasks)만 돌려줍니다.
   const supabase = getSupabaseClient(req)
 
   const jobRes = await supabase
     .from('ytg_jobs')
-    .select('id, created_at, status, input, autoconfig, packager, final_package, error, trace_id')
+    .select(
+      'id, created_at, status, input, autoconfig, packager, final_package, checkpoints, heartbeat_at, recovery_count, owner_id, workspace_id, deleted_at, tags, pinned, notes, error, trace_id',
+    )
     .eq('id', jobId)
     .single()
 
   if (jobRes.error) {
-    // not found or other errors
+    // not found(또는 다른 사용자의 job) or other errors
     const statusCode = jobRes.error.code === 'PGRST116' ? 404 : 500
-    return json({ error: jobRes.error.message }, statusCode)
+    const msg = jobRes.error.message
+    const hint =
+      msg.includes('heartbeat_at') || msg.includes('recovery_count')
+        ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-24_add_job_heartbeat.sql 을 실행하세요.'
+        : msg.includes('owner_id')
+          ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+          : msg.includes('workspace_id')
+            ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+            : msg.includes('deleted_at')
+              ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+              : msg.includes('tags') || msg.includes('pinned') || msg.includes('notes')
+                ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-01_add_job_tags_notes.sql 을 실행하세요.'
+                : undefined
+    return json({ error: msg, hint }, statusCode)
+  }
+
+  // 개인 job은 소유자(owner), 워크스페이스 job은 멤버 역할 (조회 실패 시 가장 낮은 viewer로 취급)
+  let role: WorkspaceRole = 'owner'
+  if (jobRes.data.workspace_id) {
+    const memberRes = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', jobRes.data.workspace_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    role = (memberRes.data?.role as WorkspaceRole | undefined) ?? 'viewer'
   }
 
   const scenesRes = await supabase
     .from('ytg_scenes')
     .select(
-      'id, job_id, scene_id, narration, on_screen_text, visual_brief, mood, duration_sec, image_prompt, image_path, image_url, image_gen_status, image_gen_request_id, image_gen_started_at, image_gen_error',
+      'id, job_id, scene_id, narration, on_screen_text, visual_brief, mood, duration_sec, image_prompt, image_negative_prompt, image_path, image_url, image_gen_status, image_gen_request_id, image_gen_started_at, image_gen_error, updated_at, audio_stale, image_stale',
     )
     .eq('job_id', jobId)
     .order('scene_id', { ascending: true })
 
-  if (scenesRes.error) return json({ error: scenesRes.error.message }, 500)
+  if (scenesRes.error) {
+    const msg = scenesRes.error.message
+    const hint =
+      msg.includes('stale') || msg.includes('updated_at')
+        ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-03_add_scene_editing.sql 을 실행하세요.'
+        : msg.includes('image_negative_prompt')
+          ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-05_add_image_negative_prompt.sql 을 실행하세요.'
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
 
   const assetsRes = await supabase
     .from('ytg_assets')
@@ -127,6 +342,32 @@ Deno.serve(async (req) => {
 
   if (assetsRes.error) return json({ error: assetsRes.error.message }, 500)
 
+  // 사용량은 부가 정보이므로 실패해도(마이그레이션 미적용 등) 상태 조회는 계속합니다.
+  const usageRes = await supabase
+    .from('ytg_usage')
+    .select('id, job_id, created_at, kind, op, provider, model, scene_id, input_tokens, output_tokens, image_count, image_size, tts_chars, cost_usd')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: true })
+  if (usageRes.error) console.warn('[ytg] ytg_usage 조회 실패(무시)', { jobId, error: usageRes.error.message })
+
+  // 작업 큐 상태 (부가 정보)
+  const tasksRes = await supabase
+    .from('ytg_tasks')
+    .select('id, created_at, kind, payload, status, attempts, max_attempts, next_run_at, heartbeat_at, finished_at, last_error')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: true })
+  if (tasksRes.error) console.warn('[ytg] ytg_tasks 조회 실패(무시)', { jobId, error: tasksRes.error.message })
+
+  // 이미지/오디오 URL: public 모드면 저장된 URL, 비공개 모드면 경로로 만든 signed URL
+  const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+  const scenes: DbSceneRow[] = scenesRes.data ?? []
+  const assets: DbAssetRow[] = assetsRes.data ?? []
+  const storage = await createStorageUrlResolver([
+    ...scenes.map((s) => s.image_path || storagePathFromUrl(s.image_url, bucket) || ''),
+    ...assets.filter((a) => a.type !== 'json').map((a) => a.path || storagePathFromUrl(a.url, bucket) || ''),
+    ...finalPackageAudioPaths(jobRes.data.final_package, bucket),
+  ])
+
   const jobRow: DbJobRow = {
     id: jobRes.data.id,
     created_at: jobRes.data.created_at,
@@ -134,16 +375,44 @@ Deno.serve(async (req) => {
     input: jobRes.data.input,
     autoconfig: jobRes.data.autoconfig,
     packager: jobRes.data.packager,
-    final_package: jobRes.data.final_package,
+    final_package: resolveFinalPackageUrls(jobRes.data.final_package, storage.url),
+    checkpoints: jobRes.data.checkpoints ?? null,
+    heartbeat_at: jobRes.data.heartbeat_at ?? null,
+    recovery_count: jobRes.data.recovery_count ?? 0,
+    workspace_id: jobRes.data.workspace_id ?? null,
+    deleted_at: jobRes.data.deleted_at ?? null,
+    tags: jobRes.data.tags ?? [],
+    pinned: Boolean(jobRes.data.pinned),
+    notes: jobRes.data.notes ?? null,
     error: jobRes.data.error,
   }
 
+  const style = ((jobRes.data.packager as any)?.style_guide ?? {}) as Record<string, unknown>
+  const topic = String((jobRes.data.input as any)?.topic_domain ?? 'topic').trim()
+
+  const staleMinutes = Number(Deno.env.get('YTG_STALE_JOB_MINUTES') ?? '10')
+  const staleMs = (Number.isFinite(staleMinutes) && staleMinutes > 0 ? staleMinutes : 10) * 60_000
+  const tasks: DbTaskRow[] = tasksRes.data ?? []
+  const stalled = detectStalled(jobRes.data, tasks, staleMs)
+
   const res: TrendStoryStatusResponse = {
     trace_id: jobRes.data.trace_id,
     status: jobRes.data.status,
     job: jobRow,
-    scenes: scenesRes.data ?? [],
-    assets: assetsRes.data ?? [],
+    scenes: scenes.map((s) => ({
+      ...s,
+      image_url: storage.url(s.image_path, s.image_url),
+      effective_image_prompt: effectiveImagePrompt(s, style, topic),
+    })),
+    assets: assets.map((a) => (a.type === 'json' ? a : { ...a, url: storage.url(a.path, a.url) })),
+    // numeric 컬럼은 문자열로 올 수 있어 숫자로 맞춥니다.
+    usage: (usageRes.data ?? []).map((u: any) => ({ ...u, cost_usd: u.cost_usd == null ? null : Number(u.cost_usd) })),
+    tasks,
+    stalled: stalled.stalled,
+    stalled_reason: stalled.reason,
+    stale_after_sec: Math.round(staleMs / 1000),
+    access: { role, workspace_id: jobRes.data.workspace_id ?? null },
+    signed_url_expires_at: storage.expiresAt,
   }
 
   return json(res, 200)
@@ -0,0 +1,493 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function pickJwtKey(keys: Array<string | null | undefined>) {
+  for (const k of keys) {
+    const t = (k ?? '').trim()
+    if (!t) continue
+    if (t.split('.').length >= 3) return t
+  }
+  for (const k of keys) {
+    const t = (k ?? '').trim()
+    if (t) return t
+  }
+  return ''
+}
+
+function buildEdgeFunctionAuthHeaders(key: string) {
+  const t = (key ?? '').trim()
+  if (!t) return { ok: false, headers: { 'content-type': 'application/json' } as Record<string, string>, jwtLike: false }
+  const jwtLike = t.split('.').length >= 3
+  const headers: Record<string, string> = { apikey: t, 'content-type': 'application/json' }
+  if (jwtLike) headers.Authorization = `Bearer ${t}`
+  return { ok: true, headers, jwtLike }
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+function ensureRuntime(packager: any) {
+  if (!packager) return null
+  if (!packager._runtime) packager._runtime = {}
+  if (!packager._runtime.logs) packager._runtime.logs = []
+  return packager._runtime
+}
+
+function pushRuntimeLog(packager: any, level: 'info' | 'warn' | 'error', msg: string, data?: unknown) {
+  const rt = ensureRuntime(packager)
+  if (rt) rt.logs.push({ ts: nowIso(), level, msg, data })
+  const payload = data ? { msg, ...data } : { msg }
+  if (level === 'error') console.error('[ytg]', payload)
+  else if (level === 'warn') console.warn('[ytg]', payload)
+  else console.log('[ytg]', payload)
+}
+
+// 스위퍼는 cron(service role)으로만 호출됩니다.
+function isServiceRoleRequest(req: Request) {
+  const key = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '').trim()
+  if (!key) return false
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  const apikey = (req.headers.get('apikey') ?? '').trim()
+  return bearer === key || apikey === key
+}
+
+function clampEnvInt(name: string, fallback: number, min: number, max: number) {
+  const n = Number(Deno.env.get(name) ?? String(fallback))
+  return Number.isFinite(n) ? Math.max(min, Math.min(Math.floor(n), max)) : fallback
+}
+
+// ---- Storage 정리 (단일 파일 배포를 위해 index.ts에 포함) ----
+const STORAGE_LIST_PAGE = 1000
+const STORAGE_REMOVE_BATCH = 100
+
+type StorageCleanupReport = {
+  prefix: string
+  listed: number // prefix 아래에서 찾은 객체 수 (하위 폴더 포함)
+  referenced: number // DB(ytg_assets.path 등)가 가리키는 경로 중 목록에 없던 것
+  removed: number
+  remaining: string[] // 삭제 후 다시 조회했을 때 남아 있는 객체 (검증)
+  errors: string[]
+}
+
+// prefix 아래의 모든 객체 경로. list()는 한 단계만 보여주므로 폴더를 따라 내려가며 페이지 끝까지 읽습니다.
+async function listStorageObjects(supabase: any, bucket: string, prefix: string): Promise<string[]> {
+  const out: string[] = []
+  const folders = [prefix.replace(/\/+$/, '')]
+  while (folders.length > 0) {
+    const dir = folders.shift() as string
+    for (let offset = 0; ; offset += STORAGE_LIST_PAGE) {
+      const res = await supabase.storage
+        .from(bucket)
+        .list(dir, { limit: STORAGE_LIST_PAGE, offset, sortBy: { column: 'name', order: 'asc' } })
+      if (res.error) throw new Error(`storage list 실패 (${dir}): ${res.error.message}`)
+      const items = res.data ?? []
+      for (const obj of items) {
+        if (!obj?.name) continue
+        const path = `${dir}/${obj.name}`
+        // id가 없는 항목은 폴더(prefix)
+        if (obj.id == null) folders.push(path)
+        else out.push(path)
+      }
+      if (items.length < STORAGE_LIST_PAGE) break
+    }
+  }
+  return out
+}
+
+async function removeStorageObjects(supabase: any, bucket: string, paths: string[]) {
+  let removed = 0
+  const errors: string[] = []
+  for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH) {
+    const batch = paths.slice(i, i + STORAGE_REMOVE_BATCH)
+    const res = await supabase.storage.from(bucket).remove(batch)
+    if (res.error) errors.push(res.error.message)
+    else removed += (res.data ?? []).length
+  }
+  return { removed, errors }
+}
+
+// prefix 아래 전체 + 참조 경로를 지우고, 다시 조회해 남은 객체를 보고합니다.
+async function cleanupStoragePrefix(
+  supabase: any,
+  bucket: string,
+  prefix: string,
+  referencedPaths: string[] = [],
+): Promise<StorageCleanupReport> {
+  const report: StorageCleanupReport = { prefix, listed: 0, referenced: 0, removed: 0, remaining: [], errors: [] }
+
+  let listed: string[] = []
+  try {
+    listed = await listStorageObjects(supabase, bucket, prefix)
+  } catch (e: any) {
+    report.errors.push(e?.message ?? String(e))
+  }
+  const listedSet = new Set(listed)
+  const extra = Array.from(new Set(referencedPaths.filter((p) => p && !listedSet.has(p))))
+  report.listed = listed.length
+  report.referenced = extra.length
+
+  const targets = [...listed, ...extra]
+  if (targets.length > 0) {
+    const res = await removeStorageObjects(supabase, bucket, targets)
+    report.removed = res.removed
+    report.errors.push(...res.errors)
+  }
+
+  try {
+    report.remaining = await listStorageObjects(supabase, bucket, prefix)
+  } catch (e: any) {
+    report.errors.push(`검증 실패: ${e?.message ?? String(e)}`)
+  }
+  return report
+}
+
+type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+type PipelineStage = 'autoconfig' | 'packager' | 'scenes' | 'tts' | 'image_requests' | 'final_package'
+
+const PIPELINE_STAGES: PipelineStage[] = ['autoconfig', 'packager', 'scenes', 'tts', 'image_requests', 'final_package']
+
+type SweeperRequest = {
+  dry_run?: boolean // true면 판단 결과만 반환하고 아무것도 바꾸지 않음
+  stale_minutes?: number // 기본: YTG_STALE_JOB_MINUTES
+}
+
+type SweepAction = {
+  job_id: string
+  status: JobStatus
+  stale_sec: number
+  // requeued: 체크포인트부터 다시 큐에 넣음 / failed: FAILED로 마감 / kicked: 큐에 task가 있어 워커만 깨움 / skipped: task 실행 중
+  action: 'requeued' | 'failed' | 'kicked' | 'skipped'
+  stage?: PipelineStage | null
+  reason: string
+}
+
+type SweeperResponse = {
+  checked: number
+  stale_minutes: number
+  dry_run: boolean
+  actions: SweepAction[]
+  pruned_events?: number | null // 보존 기간이 지난 ytg_job_events 삭제 수 (테이블이 없으면 null)
+  pruned_quota_counters?: number | null // 지난 기간의 ytg_quota_counters 삭제 수 (테이블이 없으면 null)
+  orphan_storage?: OrphanStorageReport | null // YTG_ORPHAN_SWEEP_MAX_JOBS=0이면 null
+  purged_jobs?: number | null // 보관 기간이 지나 완전히 삭제한 휴지통 job 수 (컬럼이 없으면 null)
+}
+
+type OrphanStorageReport = {
+  checked_prefixes: number // jobs/ 아래 job 폴더 수
+  orphan_job_ids: string[] // ytg_jobs 행이 없는 폴더 (이번 실행에서 처리한 것만)
+  removed_objects: number
+  remaining_objects: number
+  errors: string[]
+}
+
+// 재개할 단계: 산출물이 없는 체크포인트는 무시하고, 완료되지 않은 첫 단계 (trendstory-start와 같은 규칙)
+function firstIncompleteStage(job: any): PipelineStage {
+  const checkpoints = { ...(job.checkpoints ?? {}) }
+  if (!job.autoconfig) delete checkpoints.autoconfig
+  if (!Array.isArray(job.packager?.scenes)) delete checkpoints.packager
+  return PIPELINE_STAGES.find((st) => !checkpoints[st]) ?? 'final_package'
+}
+
+// Realtime용 이벤트 로그는 진행 상황 전달용이라 오래 보관하지 않습니다. (best-effort)
+async function pruneJobEvents(supabase: any): Promise<number | null> {
+  const hours = clampEnvInt('YTG_JOB_EVENTS_RETENTION_HOURS', 72, 1, 24 * 90)
+  const cutoffIso = new Date(Date.now() - hours * 3600_000).toISOString()
+  const del = await supabase.from('ytg_job_events').delete({ count: 'exact' }).lt('created_at', cutoffIso)
+  if (del.error) {
+    console.warn('[ytg] ytg_job_events 정리 실패(무시)', { error: del.error.message })
+    return null
+  }
+  return del.count ?? 0
+}
+
+// 지난 기간의 quota 카운터도 정리합니다. (분당 카운터가 계속 쌓이므로) (best-effort)
+async function pruneQuotaCounters(supabase: any): Promise<number | null> {
+  const days = clampEnvInt('YTG_QUOTA_RETENTION_DAYS', 30, 1, 365)
+  const cutoffIso = new Date(Date.now() - days * 86400_000).toISOString()
+  const minuteCutoffIso = new Date(Date.now() - 3600_000).toISOString()
+  const old = await supabase.from('ytg_quota_counters').delete({ count: 'exact' }).lt('window_start', cutoffIso)
+  const minutes = await supabase
+    .from('ytg_quota_counters')
+    .delete({ count: 'exact' })
+    .eq('kind', 'requests')
+    .lt('window_start', minuteCutoffIso)
+  if (old.error || minutes.error) {
+    console.warn('[ytg] ytg_quota_counters 정리 실패(무시)', { error: (old.error ?? minutes.error).message })
+    return null
+  }
+  return (old.count ?? 0) + (minutes.count ?? 0)
+}
+
+// job이 참조하는 Storage 경로 (trendstory-delete-job과 같은 규칙)
+async function collectReferencedPaths(supabase: any, jobId: string): Promise<string[]> {
+  const paths: string[] = []
+  const assets = await supabase.from('ytg_assets').select('path').eq('job_id', jobId)
+  if (!assets.error) for (const a of assets.data ?? []) if (a?.path) paths.push(String(a.path))
+  const scenes = await supabase.from('ytg_scenes').select('image_path').eq('job_id', jobId)
+  if (!scenes.error) for (const sc of scenes.data ?? []) if (sc?.image_path) paths.push(String(sc.image_path))
+  return paths
+}
+
+// 휴지통 보관 기간(YTG_TRASH_RETENTION_DAYS)이 지난 job을 storage + row까지 완전히 삭제합니다. (best-effort)
+async function purgeTrashedJobs(supabase: any): Promise<number | null> {
+  const days = clampEnvInt('YTG_TRASH_RETENTION_DAYS', 30, 1, 365)
+  const cutoffIso = new Date(Date.now() - days * 86400_000).toISOString()
+  const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+  const res = await supabase
+    .from('ytg_jobs')
+    .select('id, deleted_at')
+    .lt('deleted_at', cutoffIso)
+    .order('deleted_at', { ascending: true })
+    .limit(20)
+  if (res.error) {
+    console.warn('[ytg] 휴지통 정리 실패(무시)', { error: res.error.message })
+    return null
+  }
+
+  let purged = 0
+  for (const job of res.data ?? []) {
+    const report = await cleanupStoragePrefix(supabase, bucket, `jobs/${job.id}`, await collectReferencedPaths(supabase, job.id))
+    const del = await supabase.from('ytg_jobs').delete().eq('id', job.id).not('deleted_at', 'is', null)
+    if (del.error) {
+      console.warn('[ytg] 휴지통 job 삭제 실패(무시)', { job_id: job.id, error: del.error.message })
+      continue
+    }
+    purged++
+    console.log('[ytg] 휴지통 job 완전 삭제', { job_id: job.id, deleted_at: job.deleted_at, storage: report })
+  }
+  return purged
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// jobs/<id> 폴더 중 ytg_jobs 행이 없는 것(삭제 중 실패, 삭제 후 업로드가 끝난 파일 등)을 지웁니다.
+// job 행은 업로드 전에 만들어지므로 행이 없는 폴더는 다시 쓰이지 않습니다.
+async function sweepOrphanStorage(supabase: any, dryRun: boolean): Promise<OrphanStorageReport | null> {
+  const maxJobs = clampEnvInt('YTG_ORPHAN_SWEEP_MAX_JOBS', 20, 0, 500)
+  if (maxJobs === 0) return null
+  const bucket = Deno.env.get('YTG_BUCKET') ?? 'ytg-assets'
+  const report: OrphanStorageReport = { checked_prefixes: 0, orphan_job_ids: [], removed_objects: 0, remaining_objects: 0, errors: [] }
+
+  // 최상위 jobs/ 아래 폴더 이름 = job id
+  const jobIds: string[] = []
+  for (let offset = 0; ; offset += STORAGE_LIST_PAGE) {
+    const res = await supabase.storage
+      .from(bucket)
+      .list('jobs', { limit: STORAGE_LIST_PAGE, offset, sortBy: { column: 'name', order: 'asc' } })
+    if (res.error) {
+      report.errors.push(`storage list 실패 (jobs): ${res.error.message}`)
+      return report
+    }
+    const items = res.data ?? []
+    for (const obj of items) if (obj?.id == null && UUID_RE.test(obj?.name ?? '')) jobIds.push(obj.name)
+    if (items.length < STORAGE_LIST_PAGE) break
+  }
+  report.checked_prefixes = jobIds.length
+
+  const orphans: string[] = []
+  for (let i = 0; i < jobIds.length && orphans.length < maxJobs; i += 100) {
+    const chunk = jobIds.slice(i, i + 100)
+    const rows = await supabase.from('ytg_jobs').select('id').in('id', chunk)
+    if (rows.error) {
+      report.errors.push(`ytg_jobs 조회 실패: ${rows.error.message}`)
+      return report
+    }
+    const existing = new Set((rows.data ?? []).map((r: any) => String(r.id)))
+    for (const id of chunk) if (!existing.has(id)) orphans.push(id)
+  }
+  report.orphan_job_ids = orphans.slice(0, maxJobs)
+  if (dryRun) return report
+
+  for (const id of report.orphan_job_ids) {
+    const r = await cleanupStoragePrefix(supabase, bucket, `jobs/${id}`)
+    report.removed_objects += r.removed
+    report.remaining_objects += r.remaining.length
+    report.errors.push(...r.errors)
+  }
+  if (report.orphan_job_ids.length > 0) console.log('[ytg] 고아 storage 정리', report)
+  return report
+}
+
+function kickWorker(reason: string) {
+  const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
+  const auth = buildEdgeFunctionAuthHeaders(pickJwtKey([Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('SUPABASE_ANON_KEY')]))
+  if (!auth.ok) return Promise.resolve()
+  return fetch(`${supabaseUrl}/functions/v1/trendstory-worker`, {
+    method: 'POST',
+    headers: auth.headers,
+    body: JSON.stringify({ reason }),
+  })
+    .then((r) => r.text().catch(() => ''))
+    .catch((e: any) => console.warn('[ytg] worker kick 실패(무시)', { reason, error: e?.message ?? String(e) }))
+}
+
+async function sweepStalledJobs(opts: { dryRun: boolean; staleMinutes: number }): Promise<SweeperResponse> {
+  const supabase = getSupabaseServiceClient()
+  const maxRecoveries = clampEnvInt('YTG_STALE_MAX_RECOVERIES', 1, 0, 5)
+  const cutoffIso = new Date(Date.now() - opts.staleMinutes * 60_000).toISOString()
+
+  // heartbeat가 끊긴(없으면 created_at 기준) 진행 중 job
+  const jobsRes = await supabase
+    .from('ytg_jobs')
+    .select('id, created_at, status, heartbeat_at, recovery_count, checkpoints, autoconfig, packager')
+    .in('status', ['QUEUED', 'RUNNING'])
+    .or(`heartbeat_at.lt.${cutoffIso},and(heartbeat_at.is.null,created_at.lt.${cutoffIso})`)
+    .order('created_at', { ascending: true })
+    .limit(50)
+  if (jobsRes.error) throw new Error(jobsRes.error.message)
+
+  const actions: SweepAction[] = []
+  for (const job of jobsRes.data ?? []) {
+    const lastBeat = Date.parse(job.heartbeat_at ?? job.created_at)
+    const staleSec = Math.round((Date.now() - lastBeat) / 1000)
+    const base = { job_id: job.id as string, status: job.status as JobStatus, stale_sec: staleSec }
+
+    const tasksRes = await supabase
+      .from('ytg_tasks')
+      .select('id, kind, status, lease_expires_at')
+      .eq('job_id', job.id)
+      .in('status', ['QUEUED', 'RUNNING'])
+    if (tasksRes.error) throw new Error(`ytg_tasks 조회 실패: ${tasksRes.error.message}`)
+    const tasks = tasksRes.data ?? []
+
+    if (tasks.some((t: any) => t.status === 'RUNNING' && t.lease_expires_at && Date.parse(t.lease_expires_at) > Date.now())) {
+      actions.push({ ...base, action: 'skipped', reason: 'task 실행 중 (lease 유효)' })
+      continue
+    }
+    if (tasks.length > 0) {
+      // 큐에 task는 있는데 처리되지 않음 → 워커가 돌지 않는 상태 (cron 미설정 등)
+      actions.push({ ...base, action: 'kicked', reason: `처리되지 않은 task ${tasks.length}개` })
+      continue
+    }
+
+    const packager = job.packager ?? null
+    const recoveries = Number(job.recovery_count ?? 0)
+    if (recoveries < maxRecoveries) {
+      const stage = firstIncompleteStage(job)
+      actions.push({ ...base, action: 'requeued', stage, reason: `heartbeat 없음 (${recoveries + 1}/${maxRecoveries}회 자동 복구)` })
+      if (opts.dryRun) continue
+
+      const ins = await supabase.from('ytg_tasks').insert({
+        job_id: job.id,
+        kind: 'pipeline_stage',
+        payload: { stage, source: 'sweeper' },
+        dedupe_key: 'pipeline',
+        next_run_at: nowIso(),
+      })
+      if (ins.error) throw new Error(`ytg_tasks enqueue 실패: ${ins.error.message}`)
+      pushRuntimeLog(packager, 'warn', '멈춘 작업을 체크포인트부터 다시 큐에 넣었습니다.', { stage, stale_sec: staleSec, recovery: recoveries + 1 })
+      await supabase
+        .from('ytg_jobs')
+        .update({ heartbeat_at: nowIso(), recovery_count: recoveries + 1, ...(packager ? { packager } : {}) })
+        .eq('id', job.id)
+      continue
+    }
+
+    const msg = `작업이 ${Math.round(staleSec / 60)}분 동안 응답이 없어 중단되었습니다. (heartbeat 없음, 자동 복구 ${recoveries}회 시도) '실패 지점부터 재개'로 이어서 실행할 수 있습니다.`
+    actions.push({ ...base, action: 'failed', reason: 'heartbeat 없음 (자동 복구 횟수 소진)' })
+    if (opts.dryRun) continue
+
+    pushRuntimeLog(packager, 'error', '멈춘 작업을 FAILED로 마감했습니다.', { stale_sec: staleSec, recoveries })
+    await supabase
+      .from('ytg_jobs')
+      .update({ status: 'FAILED' satisfies JobStatus, error: msg, ...(packager ? { packager } : {}) })
+      .eq('id', job.id)
+      .in('status', ['QUEUED', 'RUNNING'])
+  }
+
+  if (!opts.dryRun && actions.some((a) => a.action === 'requeued' || a.action === 'kicked')) await kickWorker('sweeper')
+
+  const prunedEvents = opts.dryRun ? null : await pruneJobEvents(supabase)
+  const prunedQuota = opts.dryRun ? null : await pruneQuotaCounters(supabase)
+  const purgedJobs = opts.dryRun ? null : await purgeTrashedJobs(supabase)
+  let orphanStorage: OrphanStorageReport | null = null
+  try {
+    orphanStorage = await sweepOrphanStorage(supabase, opts.dryRun)
+  } catch (e: any) {
+    console.warn('[ytg] 고아 storage 정리 실패(무시)', { error: e?.message ?? String(e) })
+  }
+
+  if (actions.length > 0) console.log('[ytg] sweeper 결과', { dry_run: opts.dryRun, actions })
+  return {
+    checked: (jobsRes.data ?? []).length,
+    stale_minutes: opts.staleMinutes,
+    dry_run: opts.dryRun,
+    actions,
+    pruned_events: prunedEvents,
+    pruned_quota_counters: prunedQuota,
+    orphan_storage: orphanStorage,
+    purged_jobs: purgedJobs,
+  }
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+  if (!isServiceRoleRequest(req)) {
+    return json({ error: 'forbidden', hint: 'SUPABASE_SERVICE_ROLE_KEY로만 호출할 수 있습니다. (cron 예시는 migrations 참고)' }, 403)
+  }
+
+  let payload: SweeperRequest = {}
+  try {
+    const text = await req.text()
+    payload = text.trim() ? (JSON.parse(text) as SweeperRequest) : {}
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const defaultMinutes = clampEnvInt('YTG_STALE_JOB_MINUTES', 10, 1, 1440)
+  // null/생략이면 기본값 (Number(null)은 0이라 1분으로 잘려 모든 job을 멈춘 것으로 보게 됨)
+  const staleMinutes =
+    payload.stale_minutes != null && Number.isFinite(Number(payload.stale_minutes))
+      ? Math.max(1, Math.min(Math.floor(Number(payload.stale_minutes)), 1440))
+      : defaultMinutes
+
+  try {
+    const out = await sweepStalledJobs({ dryRun: Boolean(payload.dry_run), staleMinutes })
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    const hint =
+      msg.includes('heartbeat_at') || msg.includes('recovery_count')
+        ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-24_add_job_heartbeat.sql 을 실행하세요.'
+        : msg.includes('ytg_tasks')
+          ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-23_add_task_queue.sql 을 실행하세요.'
+          : undefined
+    console.error('[ytg] trendstory-sweeper error', { msg })
+    return json({ error: msg, hint }, 500)
+  }
+})
@@ -0,0 +1,210 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+const TAGS_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-01_add_job_tags_notes.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+
+// null/생략한 필드는 바꾸지 않습니다.
+type UpdateJobRequest = {
+  job_id: string
+  tags?: string[]
+  pinned?: boolean
+  notes?: string | null // 빈 문자열이면 메모 삭제
+}
+
+type UpdateJobResponse = {
+  job_id: string
+  tags: string[]
+  pinned: boolean
+  notes: string | null
+}
+
+const MAX_TAGS = 20
+const MAX_TAG_LENGTH = 32
+const MAX_NOTES_LENGTH = 5000
+
+// 태그 정규화: 앞뒤 공백/앞의 # 제거, 연속 공백은 하나로, 쉼표 불가, 대소문자 무시 중복 제거 (처음 입력한 표기 유지)
+function normalizeTags(raw: unknown): { tags: string[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: 'tags must be an array of strings' }
+  const out: string[] = []
+  const seen = new Set<string>()
+  for (const t of raw) {
+    if (typeof t !== 'string') return { error: 'tags must be an array of strings' }
+    const tag = t.trim().replace(/^#+/, '').replace(/\s+/g, ' ')
+    if (!tag) continue
+    if (tag.includes(',')) return { error: `태그에는 쉼표를 쓸 수 없습니다: ${tag}` }
+    if (tag.length > MAX_TAG_LENGTH) return { error: `태그는 ${MAX_TAG_LENGTH}자 이하여야 합니다: ${tag}` }
+    const key = tag.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    out.push(tag)
+  }
+  if (out.length > MAX_TAGS) return { error: `태그는 최대 ${MAX_TAGS}개까지 지정할 수 있습니다.` }
+  return { tags: out }
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  let payload: UpdateJobRequest
+  try {
+    payload = (await req.json()) as UpdateJobRequest
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const jobId = String(payload?.job_id ?? '').trim()
+  if (!jobId) return json({ error: 'job_id is required' }, 400)
+
+  const patch: Record<string, unknown> = {}
+  if (payload.tags != null) {
+    const normalized = normalizeTags(payload.tags)
+    if ('error' in normalized) return json({ error: normalized.error }, 400)
+    patch.tags = normalized.tags
+  }
+  if (payload.pinned != null) {
+    if (typeof payload.pinned !== 'boolean') return json({ error: 'pinned must be a boolean' }, 400)
+    patch.pinned = payload.pinned
+  }
+  if (payload.notes !== undefined) {
+    if (payload.notes !== null && typeof payload.notes !== 'string') return json({ error: 'notes must be a string' }, 400)
+    const notes = (payload.notes ?? '').trim()
+    if (notes.length > MAX_NOTES_LENGTH) return json({ error: `notes는 ${MAX_NOTES_LENGTH}자 이하여야 합니다.` }, 400)
+    patch.notes = notes || null
+  }
+  if (Object.keys(patch).length === 0) return json({ error: 'tags, pinned, notes 중 하나 이상이 필요합니다.' }, 400)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    const supabase = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+
+    const upd = await supabase.from('ytg_jobs').update(patch).eq('id', jobId).select('id, tags, pinned, notes').single()
+    if (upd.error) {
+      const msg = upd.error.message
+      const hint = msg.includes('tags') || msg.includes('pinned') || msg.includes('notes') ? TAGS_MIGRATION_HINT : undefined
+      return json({ error: msg, hint }, 500)
+    }
+
+    const out: UpdateJobResponse = {
+      job_id: jobId,
+      tags: upd.data.tags ?? [],
+      pinned: Boolean(upd.data.pinned),
+      notes: upd.data.notes ?? null,
+    }
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    console.error('[ytg] trendstory-update-job error', { msg })
+    return json({ error: msg }, 500)
+  }
+})
@@ -0,0 +1,387 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'GET, POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const OWNERSHIP_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-26_add_job_ownership.sql 을 실행하세요.'
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+const TRASH_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-30_add_job_soft_delete.sql 을 실행하세요.'
+
+const SCENE_EDIT_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2026-01-03_add_scene_editing.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// job 쓰기 권한 확인
+// - 개인 job(workspace_id 없음): owner_id 본인만
+// - 워크스페이스 job: owner/editor 멤버만 (viewer는 403)
+// 접근할 수 없는 job은 존재 여부도 드러내지 않도록 404로 응답합니다.
+async function requireJobWriteAccess(supabase: any, jobId: string, userId: string): Promise<Response | null> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id, deleted_at').eq('id', jobId).maybeSingle()
+  if (res.error) {
+    const msg = res.error.message
+    const hint = msg.includes('deleted_at')
+      ? TRASH_MIGRATION_HINT
+      : msg.includes('workspace_id')
+        ? WORKSPACE_MIGRATION_HINT
+        : msg.includes('owner_id')
+          ? OWNERSHIP_MIGRATION_HINT
+          : undefined
+    return json({ error: msg, hint }, 500)
+  }
+  const job = res.data
+  if (!job) return json({ error: 'Job not found' }, 404)
+
+  let role: WorkspaceRole | null = null
+  if (!job.workspace_id) {
+    role = job.owner_id === userId ? 'owner' : null
+  } else {
+    const member = await supabase
+      .from('ytg_workspace_members')
+      .select('role')
+      .eq('workspace_id', job.workspace_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (member.error) return json({ error: member.error.message, hint: WORKSPACE_MIGRATION_HINT }, 500)
+    role = (member.data?.role as WorkspaceRole | undefined) ?? null
+  }
+
+  if (!role) return json({ error: 'Job not found' }, 404)
+  if (role === 'viewer') {
+    return json({ error: 'forbidden', hint: 'viewer 권한으로는 조회/다운로드만 할 수 있습니다. 워크스페이스 owner에게 editor 권한을 요청하세요.' }, 403)
+  }
+  if (job.deleted_at) {
+    return json({ error: 'job_in_trash', hint: '휴지통에 있는 작업입니다. 홈의 휴지통에서 복원한 뒤 다시 시도하세요.' }, 409)
+  }
+  return null
+}
+
+
+// 조회 권한 확인: 개인 job은 owner 본인, 워크스페이스 job은 멤버(viewer 포함)
+async function canReadJob(supabase: any, jobId: string, userId: string): Promise<boolean> {
+  const res = await supabase.from('ytg_jobs').select('id, owner_id, workspace_id').eq('id', jobId).maybeSingle()
+  if (res.error) throw new Error(res.error.message)
+  const job = res.data
+  if (!job) return false
+  if (!job.workspace_id) return job.owner_id === userId
+  const member = await supabase
+    .from('ytg_workspace_members')
+    .select('role')
+    .eq('workspace_id', job.workspace_id)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (member.error) throw new Error(member.error.message)
+  return Boolean(member.data)
+}
+
+// 생략한 필드는 바꾸지 않습니다. (on_screen_text/visual_brief/mood는 null 또는 빈 문자열이면 비움)
+type UpdateSceneRequest = {
+  job_id: string
+  scene_id: number
+  narration?: string
+  on_screen_text?: string | null
+  visual_brief?: string | null
+  mood?: string | null
+  duration_sec?: number
+  source?: SceneEditSource // 수정 이력에 남길 출처 (기본 manual)
+}
+
+// manual: 직접 수정, rewrite: trendstory-rewrite-scene 제안을 적용
+type SceneEditSource = 'manual' | 'rewrite'
+
+const SCENE_EDIT_SOURCES: SceneEditSource[] = ['manual', 'rewrite']
+
+type SceneField = 'narration' | 'on_screen_text' | 'visual_brief' | 'mood' | 'duration_sec'
+
+type UpdateSceneResponse = {
+  job_id: string
+  scene_id: number
+  changed: SceneField[]
+  scene: Record<string, unknown>
+  audio_stale: boolean
+  image_stale: boolean
+}
+
+const SCENE_TEXT_LIMITS = { narration: 2000, on_screen_text: 200, visual_brief: 1000, mood: 100 } as const
+
+const SCENE_COLUMNS =
+  'id, job_id, scene_id, narration, on_screen_text, visual_brief, mood, duration_sec, image_prompt, image_path, image_url, image_gen_status, updated_at, audio_stale, image_stale'
+
+// 다음 생성에 쓰일 프롬프트 (trendstory-status / trendstory-generate-scene-image와 같은 규칙: 저장된 image_prompt → 자동 생성)
+function effectiveImagePrompt(scene: Record<string, any>, style: Record<string, unknown>, topic: string): string {
+  const stored = String(scene.image_prompt ?? '').trim()
+  if (stored) return stored
+  return [
+    String(scene.visual_brief ?? '').trim() || String(scene.on_screen_text ?? '').trim() || `educational illustration about ${topic}`,
+    String(scene.mood ?? '').trim(),
+    String(style.visual_style ?? '').trim(),
+    String(style.tone ?? '').trim(),
+    'no text, no logo, no watermark, clean composition, high quality, 16:9',
+  ]
+    .filter(Boolean)
+    .join(', ')
+    .trim()
+}
+
+// 입력값 검증 → 바꿀 값만 모은 patch
+function parseScenePatch(payload: UpdateSceneRequest): { patch: Partial<Record<SceneField, unknown>> } | { error: string } {
+  const patch: Partial<Record<SceneField, unknown>> = {}
+  for (const key of Object.keys(SCENE_TEXT_LIMITS) as Array<keyof typeof SCENE_TEXT_LIMITS>) {
+    const raw = payload[key]
+    if (raw === undefined) continue
+    if (raw !== null && typeof raw !== 'string') return { error: `${key} must be a string` }
+    const v = (raw ?? '').trim()
+    if (v.length > SCENE_TEXT_LIMITS[key]) return { error: `${key}는 ${SCENE_TEXT_LIMITS[key]}자 이하여야 합니다.` }
+    if (key === 'narration' && !v) return { error: 'narration은 비워 둘 수 없습니다.' }
+    patch[key] = v || null
+  }
+  if (payload.duration_sec !== undefined) {
+    const n = Number(payload.duration_sec)
+    if (!Number.isInteger(n) || n < 1 || n > 120) return { error: 'duration_sec must be an integer between 1 and 120' }
+    patch.duration_sec = n
+  }
+  if (Object.keys(patch).length === 0) {
+    return { error: 'narration, on_screen_text, visual_brief, mood, duration_sec 중 하나 이상이 필요합니다.' }
+  }
+  return { patch }
+}
+
+// packager.scenes / final_package.scenes의 같은 씬도 맞춰서 JSON 다운로드와 화면이 어긋나지 않게 합니다. (best-effort)
+async function syncJobScenesJson(supabase: any, jobId: string, sceneId: number, after: Record<string, unknown>) {
+  const jobRes = await supabase.from('ytg_jobs').select('packager, final_package').eq('id', jobId).single()
+  if (jobRes.error) {
+    console.warn('[ytg] packager/final_package 동기화 실패(무시)', { jobId, error: jobRes.error.message })
+    return
+  }
+  const patchList = (list: unknown, onlyExisting: boolean) => {
+    if (!Array.isArray(list)) return { list, changed: false }
+    let changed = false
+    const next = list.map((item: any) => {
+      if (Number(item?.scene_id) !== sceneId) return item
+      const out = { ...item }
+      for (const [k, v] of Object.entries(after)) {
+        if (onlyExisting && !(k in out)) continue
+        out[k] = v
+        changed = true
+      }
+      return out
+    })
+    return { list: next, changed }
+  }
+
+  const update: Record<string, unknown> = {}
+  const packager = jobRes.data.packager
+  if (packager && typeof packager === 'object') {
+    const r = patchList(packager.scenes, false)
+    if (r.changed) update.packager = { ...packager, scenes: r.list }
+  }
+  const fp = jobRes.data.final_package
+  if (fp && typeof fp === 'object') {
+    const r = patchList(fp.scenes, true)
+    if (r.changed) update.final_package = { ...fp, scenes: r.list }
+  }
+  if (Object.keys(update).length === 0) return
+  const upd = await supabase.from('ytg_jobs').update(update).eq('id', jobId)
+  if (upd.error) console.warn('[ytg] packager/final_package 동기화 실패(무시)', { jobId, error: upd.error.message })
+}
+
+// GET: ?job_id=...&scene_id=... (scene_id 생략 시 job 전체) → 최근 수정 이력 50개
+async function handleHistory(req: Request, userId: string) {
+  const url = new URL(req.url)
+  const jobId = (url.searchParams.get('job_id') ?? '').trim()
+  if (!jobId) return json({ error: 'job_id is required' }, 400)
+  const sceneParam = url.searchParams.get('scene_id')
+  const sceneId = sceneParam == null || sceneParam === '' ? null : Number(sceneParam)
+  if (sceneId != null && !Number.isInteger(sceneId)) return json({ error: 'scene_id must be an integer' }, 400)
+
+  const supabase = getSupabaseServiceClient()
+  if (!(await canReadJob(supabase, jobId, userId))) return json({ error: 'Job not found' }, 404)
+
+  let q = supabase
+    .from('ytg_scene_edits')
+    .select('id, created_at, job_id, scene_id, user_id, source, before, after')
+    .eq('job_id', jobId)
+  if (sceneId != null) q = q.eq('scene_id', sceneId)
+  const res = await q.order('created_at', { ascending: false }).limit(50)
+  if (res.error) return json({ error: res.error.message, hint: SCENE_EDIT_MIGRATION_HINT }, 500)
+  return json({ job_id: jobId, edits: res.data ?? [] }, 200)
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'GET' && req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    if (req.method === 'GET') return await handleHistory(req, user.id)
+
+    let payload: UpdateSceneRequest
+    try {
+      payload = (await req.json()) as UpdateSceneRequest
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400)
+    }
+
+    const jobId = String(payload?.job_id ?? '').trim()
+    if (!jobId) return json({ error: 'job_id is required' }, 400)
+    const sceneId = Number(payload?.scene_id)
+    if (!Number.isInteger(sceneId)) return json({ error: 'scene_id must be an integer' }, 400)
+    const parsed = parseScenePatch(payload)
+    if ('error' in parsed) return json({ error: parsed.error }, 400)
+    const source = payload.source ?? 'manual'
+    if (!SCENE_EDIT_SOURCES.includes(source)) return json({ error: `source must be one of: ${SCENE_EDIT_SOURCES.join(', ')}` }, 400)
+
+    const supabase = getSupabaseServiceClient()
+    const denied = await requireJobWriteAccess(supabase, jobId, user.id)
+    if (denied) return denied
+
+    // 파이프라인이 씬을 만들거나 고치는 중이면 덮어쓰지 않도록 막습니다.
+    const jobRes = await supabase.from('ytg_jobs').select('status, input, packager').eq('id', jobId).single()
+    if (jobRes.error) return json({ error: jobRes.error.message }, 500)
+    const style = (jobRes.data.packager as any)?.style_guide ?? {}
+    const topic = String((jobRes.data.input as any)?.topic_domain ?? 'topic').trim()
+    const withPrompt = (scene: Record<string, any>) => ({ ...scene, effective_image_prompt: effectiveImagePrompt(scene, style, topic) })
+    if (jobRes.data.status === 'QUEUED' || jobRes.data.status === 'RUNNING') {
+      return json({ error: 'job_in_progress', hint: '생성이 진행 중인 job의 씬은 수정할 수 없습니다. 완료(또는 취소)된 뒤 다시 시도하세요.' }, 409)
+    }
+
+    const sceneRes = await supabase.from('ytg_scenes').select(SCENE_COLUMNS).eq('job_id', jobId).eq('scene_id', sceneId).maybeSingle()
+    if (sceneRes.error) {
+      const msg = sceneRes.error.message
+      const hint = msg.includes('stale') || msg.includes('updated_at') ? SCENE_EDIT_MIGRATION_HINT : undefined
+      return json({ error: msg, hint }, 500)
+    }
+    const current = sceneRes.data
+    if (!current) return json({ error: 'Scene not found' }, 404)
+
+    // 이 씬의 오디오/이미지를 만드는 중이면, 끝날 때 stale 해제가 방금 수정한 내용을 덮지 않도록 막습니다.
+    if (current.image_gen_status === 'GENERATING') {
+      return json({ error: 'scene_tasks_in_progress', hint: '이 씬의 이미지 생성이 진행 중입니다. 끝난 뒤 다시 시도하세요.' }, 409)
+    }
+    const tasksRes = await supabase
+      .from('ytg_tasks')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .in('kind', ['scene_tts', 'scene_image'])
+      .in('status', ['QUEUED', 'RUNNING'])
+      .eq('payload->>scene_id', String(sceneId))
+    if (tasksRes.error) return json({ error: tasksRes.error.message }, 500)
+    if ((tasksRes.count ?? 0) > 0) {
+      return json({ error: 'scene_tasks_in_progress', hint: '이 씬의 이미지/오디오 생성이 진행 중입니다. 끝난 뒤 다시 시도하세요.' }, 409)
+    }
+
+    // 실제로 바뀐 필드만 기록합니다.
+    const before: Record<string, unknown> = {}
+    const after: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(parsed.patch)) {
+      if ((current[k] ?? null) === v) continue
+      before[k] = current[k] ?? null
+      after[k] = v
+    }
+    const changed = Object.keys(after) as SceneField[]
+    if (changed.length === 0) {
+      const out: UpdateSceneResponse = {
+        job_id: jobId,
+        scene_id: sceneId,
+        changed,
+        scene: withPrompt(current),
+        audio_stale: Boolean(current.audio_stale),
+        image_stale: Boolean(current.image_stale),
+      }
+      return json(out, 200)
+    }
+
+    // narration → 씬 오디오, visual_brief → 씬 이미지를 다시 만들어야 함 (재생성하면 해제)
+    const update: Record<string, unknown> = { ...after, updated_at: new Date().toISOString() }
+    // 수정 이력에는 함께 버려지는 image_prompt도 남깁니다. (packager/final_package 동기화에는 after만 사용)
+    const histBefore = { ...before }
+    const histAfter = { ...after }
+    if ('narration' in after) update.audio_stale = true
+    if ('visual_brief' in after) {
+      update.image_stale = true
+      // 이미지 생성은 저장된 image_prompt를 우선 사용하므로, 비워서 바뀐 visual_brief로 다시 만들게 합니다.
+      update.image_prompt = null
+      if (current.image_prompt) {
+        histBefore.image_prompt = current.image_prompt
+        histAfter.image_prompt = null
+      }
+    }
+
+    const upd = await supabase.from('ytg_scenes').update(update).eq('id', current.id).select(SCENE_COLUMNS).single()
+    if (upd.error) return json({ error: upd.error.message, hint: SCENE_EDIT_MIGRATION_HINT }, 500)
+
+    const hist = await supabase.from('ytg_scene_edits').insert({ job_id: jobId, scene_id: sceneId, user_id: user.id, source, before: histBefore, after: histAfter })
+    if (hist.error) console.warn('[ytg] 씬 수정 이력 기록 실패(무시)', { jobId, sceneId, error: hist.error.message })
+
+    await syncJobScenesJson(supabase, jobId, sceneId, after)
+    console.log('[ytg] 씬 수정', { jobId, sceneId, changed, source, userId: user.id })
+
+    const out: UpdateSceneResponse = {
+      job_id: jobId,
+      scene_id: sceneId,
+      changed,
+      scene: withPrompt(upd.data),
+      audio_stale: Boolean(upd.data.audio_stale),
+      image_stale: Boolean(upd.data.image_stale),
+    }
+    return json(out, 200)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    console.error('[ytg] trendstory-update-scene error', { msg })
+    return json({ error: msg }, 500)
+  }
+})
@@ -0,0 +1,521 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function pickJwtKey(keys: Array<string | null | undefined>) {
+  for (const k of keys) {
+    const t = (k ?? '').trim()
+    if (!t) continue
+    if (t.split('.').length >= 3) return t
+  }
+  for (const k of keys) {
+    const t = (k ?? '').trim()
+    if (t) return t
+  }
+  return ''
+}
+
+function buildEdgeFunctionAuthHeaders(key: string) {
+  const t = (key ?? '').trim()
+  if (!t) return { ok: false, headers: { 'content-type': 'application/json' } as Record<string, string>, jwtLike: false }
+  const jwtLike = t.split('.').length >= 3
+  // NOTE: JWT가 아닌 키(sb_secret_ 등)를 쓰면 호출 대상 함수는 verify_jwt=false로 배포해야 합니다.
+  const headers: Record<string, string> = { apikey: t, 'content-type': 'application/json' }
+  if (jwtLike) headers.Authorization = `Bearer ${t}`
+  return { ok: true, headers, jwtLike }
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+async function fetchWithTimeout(input: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController()
+  const t = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetch(input, { ...init, signal: controller.signal })
+  } finally {
+    clearTimeout(t)
+  }
+}
+
+function sleepMs(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+function ensureRuntime(packager: any) {
+  if (!packager) return null
+  if (!packager._runtime) packager._runtime = {}
+  if (!packager._runtime.logs) packager._runtime.logs = []
+  return packager._runtime
+}
+
+function pushRuntimeLog(packager: any, level: 'info' | 'warn' | 'error', msg: string, data?: unknown) {
+  const rt = ensureRuntime(packager)
+  if (rt) rt.logs.push({ ts: nowIso(), level, msg, data })
+  const payload = data ? { msg, ...data } : { msg }
+  if (level === 'error') console.error('[ytg]', payload)
+  else if (level === 'warn') console.warn('[ytg]', payload)
+  else console.log('[ytg]', payload)
+}
+
+// 워커는 cron 또는 start/retry 함수의 kick(service role)으로만 호출됩니다.
+function isServiceRoleRequest(req: Request) {
+  const key = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '').trim()
+  if (!key) return false
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  const apikey = (req.headers.get('apikey') ?? '').trim()
+  return bearer === key || apikey === key
+}
+
+function clampEnvInt(name: string, fallback: number, min: number, max: number) {
+  const n = Number(Deno.env.get(name) ?? String(fallback))
+  return Number.isFinite(n) ? Math.max(min, Math.min(Math.floor(n), max)) : fallback
+}
+
+type TaskKind = 'pipeline_stage' | 'scene_image' | 'scene_tts'
+type TaskStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+type TaskRow = {
+  id: string
+  created_at: string
+  job_id: string
+  kind: TaskKind
+  payload: Record<string, any>
+  dedupe_key: string | null
+  status: TaskStatus
+  attempts: number
+  max_attempts: number
+  next_run_at: string
+  lease_owner: string | null
+  lease_expires_at: string | null
+}
+
+type WorkerRequest = {
+  reason?: string
+  max_tasks?: number
+  wait?: boolean // true면 처리 결과를 기다렸다가 응답 (수동 점검용)
+}
+
+type WorkerStats = {
+  worker_id: string
+  claimed: number
+  succeeded: number
+  retried: number
+  failed: number
+  cancelled: number
+  postponed: number
+  stopped_by: 'empty' | 'budget' | 'max_tasks'
+}
+
+// task 종류별 실행 함수 (단계/씬 로직은 각 함수에 있고, 워커는 lease/재시도/순서만 관리합니다)
+const TASK_EXECUTORS: Record<TaskKind, { fn: string; body: (t: TaskRow) => Record<string, unknown> }> = {
+  pipeline_stage: {
+    fn: 'trendstory-start',
+    body: () => ({}),
+  },
+  scene_tts: {
+    fn: 'trendstory-retry-audio',
+    body: (t) => ({ job_id: t.job_id, scene_ids: [Number(t.payload?.scene_id)], force: true }),
+  },
+  scene_image: {
+    fn: 'trendstory-generate-scene-image',
+    body: (t) => ({
+      job_id: t.job_id,
+      scene_id: Number(t.payload?.scene_id),
+      force: Boolean(t.payload?.force),
+      prompt: t.payload?.prompt ?? undefined,
+    }),
+  },
+}
+
+// 씬 TTS가 모두 끝나야 실행할 수 있는 파이프라인 단계
+const STAGES_AFTER_TTS = ['image_requests', 'final_package']
+
+function backoffMs(attempts: number) {
+  // 10s, 20s, 40s ... 최대 5분
+  return Math.min(10_000 * 2 ** Math.max(0, attempts - 1), 300_000)
+}
+
+type TaskOutcome =
+  | { type: 'succeeded'; result: any }
+  | { type: 'failed'; error: string }
+  | { type: 'postponed'; delayMs: number; reason: string }
+  | { type: 'cancelled'; reason: string }
+
+function createWorker(workerId: string) {
+  const supabase = getSupabaseServiceClient()
+  const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
+  const leaseSeconds = clampEnvInt('YTG_TASK_LEASE_SECONDS', 120, 30, 900)
+  const taskTimeoutMs = clampEnvInt('YTG_TASK_TIMEOUT_MS', 300_000, 10_000, 900_000)
+
+  // lease를 잡은 동안에만 갱신되도록 lease_owner 조건을 겁니다.
+  async function updateOwnedTask(task: TaskRow, patch: Record<string, unknown>) {
+    const upd = await supabase
+      .from('ytg_tasks')
+      .update({ ...patch, updated_at: nowIso() })
+      .eq('id', task.id)
+      .eq('lease_owner', workerId)
+      .eq('status', 'RUNNING')
+    if (upd.error) console.error('[ytg] ytg_tasks 업데이트 실패', { task_id: task.id, error: upd.error.message })
+  }
+
+  // 진행 중인 job의 heartbeat도 함께 갱신합니다. (trendstory-sweeper가 멈춘 job을 판단하는 기준)
+  function touchJob(jobId: string) {
+    return supabase
+      .from('ytg_jobs')
+      .update({ heartbeat_at: nowIso() })
+      .eq('id', jobId)
+      .in('status', ['QUEUED', 'RUNNING'])
+      .then((r: any) => {
+        if (r.error) console.warn('[ytg] job heartbeat 실패(무시)', { job_id: jobId, error: r.error.message })
+      })
+  }
+
+  function startHeartbeat(task: TaskRow) {
+    touchJob(task.job_id)
+    const timer = setInterval(() => {
+      touchJob(task.job_id)
+      supabase
+        .from('ytg_tasks')
+        .update({
+          heartbeat_at: nowIso(),
+          lease_expires_at: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+          updated_at: nowIso(),
+        })
+        .eq('id', task.id)
+        .eq('lease_owner', workerId)
+        .eq('status', 'RUNNING')
+        .then((r: any) => {
+          if (r.error) console.warn('[ytg] task heartbeat 실패(무시)', { task_id: task.id, error: r.error.message })
+        })
+    }, Math.max(5, Math.floor(leaseSeconds / 3)) * 1000)
+    return () => clearInterval(timer)
+  }
+
+  async function appendJobLog(jobId: string, level: 'info' | 'warn' | 'error', msg: string, data?: unknown) {
+    const jobRes = await supabase.from('ytg_jobs').select('packager').eq('id', jobId).maybeSingle()
+    const packager = jobRes.data?.packager ?? null
+    pushRuntimeLog(packager, level, msg, data)
+    if (packager) await supabase.from('ytg_jobs').update({ packager }).eq('id', jobId)
+  }
+
+  async function enqueueNextStage(task: TaskRow, stage: string) {
+    const ins = await supabase.from('ytg_tasks').insert({
+      job_id: task.job_id,
+      kind: 'pipeline_stage',
+      payload: { stage },
+      dedupe_key: 'pipeline',
+      max_attempts: task.max_attempts,
+      next_run_at: nowIso(),
+    })
+    if (ins.error) throw new Error(`다음 단계 enqueue 실패: ${ins.error.message}`)
+  }
+
+  // 실행 전 확인: 취소/삭제된 job, 선행 task(씬 TTS) 대기
+  async function preflight(task: TaskRow): Promise<TaskOutcome | null> {
+    const jobRes = await supabase.from('ytg_jobs').select('id, status, cancel_requested_at').eq('id', task.job_id).maybeSingle()
+    if (jobRes.error) throw new Error(jobRes.error.message)
+    if (!jobRes.data) return { type: 'cancelled', reason: 'job not found' }
+
+    const job = jobRes.data
+    if (task.kind === 'pipeline_stage') {
+      if (job.status !== 'QUEUED' && job.status !== 'RUNNING') return { type: 'cancelled', reason: `job is ${job.status}` }
+      if (STAGES_AFTER_TTS.includes(String(task.payload?.stage ?? ''))) {
+        const pending = await supabase
+          .from('ytg_tasks')
+          .select('id', { count: 'exact', head: true })
+          .eq('job_id', task.job_id)
+          .eq('kind', 'scene_tts')
+          .in('status', ['QUEUED', 'RUNNING'])
+        if (!pending.error && (pending.count ?? 0) > 0) {
+          return { type: 'postponed', delayMs: 3000, reason: `scene_tts ${pending.count}개 대기 중` }
+        }
+      }
+    } else {
+      const at = job.cancel_requested_at ? Date.parse(job.cancel_requested_at) : NaN
+      if (Number.isFinite(at) && at >= Date.parse(task.created_at)) return { type: 'cancelled', reason: 'cancel requested' }
+    }
+    return null
+  }
+
+  async function execute(task: TaskRow): Promise<TaskOutcome> {
+    const exec = TASK_EXECUTORS[task.kind]
+    if (!exec) return { type: 'failed', error: `unknown task kind: ${task.kind}` }
+
+    const auth = buildEdgeFunctionAuthHeaders(pickJwtKey([Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')]))
+    if (!auth.ok) return { type: 'failed', error: 'SUPABASE_SERVICE_ROLE_KEY가 비어 있어 task를 실행할 수 없습니다.' }
+
+    const body = {
+      ...exec.body(task),
+      _task: { id: task.id, job_id: task.job_id, kind: task.kind, attempt: task.attempts },
+    }
+    let res: Response
+    try {
+      res = await fetchWithTimeout(
+        `${supabaseUrl}/functions/v1/${exec.fn}`,
+        { method: 'POST', headers: auth.headers, body: JSON.stringify(body) },
+        taskTimeoutMs,
+      )
+    } catch (e: any) {
+      const msg = e?.name === 'AbortError' ? `${exec.fn} timeout (${taskTimeoutMs}ms)` : e?.message ?? String(e)
+      return { type: 'failed', error: msg }
+    }
+
+    const text = await res.text().catch(() => '')
+    let out: any = null
+    try {
+      out = text ? JSON.parse(text) : null
+    } catch {
+      out = null
+    }
+    if (!res.ok) return { type: 'failed', error: String(out?.error ?? `${exec.fn} HTTP ${res.status}: ${text.slice(0, 300)}`) }
+
+    if (task.kind === 'scene_image') {
+      // 다른 요청이 같은 씬을 생성 중이면 잠시 뒤 다시 확인
+      if (out?.status === 'IN_PROGRESS') return { type: 'postponed', delayMs: 15_000, reason: 'scene image generating elsewhere' }
+      if (out?.status === 'FAILED') return { type: 'failed', error: String(out?.message ?? 'image generation failed') }
+    }
+    if (out?.cancelled) return { type: 'cancelled', reason: 'job is no longer active' }
+    return { type: 'succeeded', result: out }
+  }
+
+  async function onExhausted(task: TaskRow, error: string) {
+    if (task.kind === 'pipeline_stage') {
+      const msg = `pipeline 단계 실패 (${task.payload?.stage ?? '?'}, ${task.attempts}회 시도): ${error}`
+      await supabase
+        .from('ytg_jobs')
+        .update({ status: 'FAILED', error: msg })
+        .eq('id', task.job_id)
+        .in('status', ['QUEUED', 'RUNNING'])
+      await appendJobLog(task.job_id, 'error', msg, { task_id: task.id })
+    } else {
+      await appendJobLog(task.job_id, 'warn', `${task.kind} task 실패 (재시도 소진)`, {
+        task_id: task.id,
+        scene_id: task.payload?.scene_id ?? null,
+        attempts: task.attempts,
+        error,
+      })
+    }
+  }
+
+  async function runTask(task: TaskRow, stats: WorkerStats) {
+    // lease 만료로 다시 잡혔는데 시도 횟수를 이미 다 쓴 task (워커가 실행 중에 죽은 경우)
+    if (task.attempts > task.max_attempts) {
+      const error = 'lease expired (워커 중단) 후 재시도 횟수 초과'
+      await updateOwnedTask(task, { status: 'FAILED', finished_at: nowIso(), last_error: error, lease_owner: null, lease_expires_at: null })
+      await onExhausted(task, error)
+      stats.failed++
+      return
+    }
+
+    const stopHeartbeat = startHeartbeat(task)
+    let outcome: TaskOutcome
+    try {
+      outcome = (await preflight(task)) ?? (await execute(task))
+    } catch (e: any) {
+      outcome = { type: 'failed', error: e?.message ?? String(e) }
+    } finally {
+      stopHeartbeat()
+    }
+
+    console.log('[ytg] task 처리', { task_id: task.id, kind: task.kind, job_id: task.job_id, attempt: task.attempts, outcome: outcome.type })
+
+    if (outcome.type === 'succeeded') {
+      await updateOwnedTask(task, { status: 'SUCCEEDED', finished_at: nowIso(), last_error: null, lease_owner: null, lease_expires_at: null })
+      stats.succeeded++
+      const next = outcome.result?.next_stage
+      if (task.kind === 'pipeline_stage' && next) {
+        try {
+          await enqueueNextStage(task, String(next))
+        } catch (e: any) {
+          await onExhausted(task, e?.message ?? String(e))
+        }
+      }
+      return
+    }
+
+    if (outcome.type === 'cancelled') {
+      await updateOwnedTask(task, { status: 'CANCELLED', finished_at: nowIso(), last_error: outcome.reason, lease_owner: null, lease_expires_at: null })
+      stats.cancelled++
+      return
+    }
+
+    if (outcome.type === 'postponed') {
+      // 대기는 실패가 아니므로 시도 횟수를 되돌립니다.
+      await updateOwnedTask(task, {
+        status: 'QUEUED',
+        attempts: Math.max(0, task.attempts - 1),
+        next_run_at: new Date(Date.now() + outcome.delayMs).toISOString(),
+        last_error: outcome.reason,
+        lease_owner: null,
+        lease_expires_at: null,
+      })
+      stats.postponed++
+      return
+    }
+
+    if (task.attempts >= task.max_attempts) {
+      await updateOwnedTask(task, { status: 'FAILED', finished_at: nowIso(), last_error: outcome.error, lease_owner: null, lease_expires_at: null })
+      await onExhausted(task, outcome.error)
+      stats.failed++
+      return
+    }
+
+    const delay = backoffMs(task.attempts)
+    await updateOwnedTask(task, {
+      status: 'QUEUED',
+      next_run_at: new Date(Date.now() + delay).toISOString(),
+      last_error: outcome.error,
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    console.warn('[ytg] task 재시도 예약', { task_id: task.id, kind: task.kind, attempt: task.attempts, delay_ms: delay, error: outcome.error })
+    stats.retried++
+  }
+
+  async function hasReadyTasks(withinMs: number) {
+    const res = await supabase
+      .from('ytg_tasks')
+      .select('id')
+      .eq('status', 'QUEUED')
+      .lte('next_run_at', new Date(Date.now() + withinMs).toISOString())
+      .limit(1)
+    return !res.error && (res.data ?? []).length > 0
+  }
+
+  async function processQueue(maxTasks: number): Promise<WorkerStats> {
+    const maxRuntimeMs = clampEnvInt('YTG_WORKER_MAX_RUNTIME_MS', 50_000, 5_000, 140_000)
+    const startedAt = Date.now()
+    const stats: WorkerStats = { worker_id: workerId, claimed: 0, succeeded: 0, retried: 0, failed: 0, cancelled: 0, postponed: 0, stopped_by: 'empty' }
+
+    while (true) {
+      if (stats.claimed >= maxTasks) {
+        stats.stopped_by = 'max_tasks'
+        break
+      }
+      if (Date.now() - startedAt > maxRuntimeMs) {
+        stats.stopped_by = 'budget'
+        break
+      }
+
+      const claim = await supabase.rpc('ytg_claim_tasks', { p_worker_id: workerId, p_limit: 1, p_lease_seconds: leaseSeconds })
+      if (claim.error) throw new Error(`ytg_claim_tasks 실패: ${claim.error.message}`)
+      const task = (claim.data ?? [])[0] as TaskRow | undefined
+
+      if (!task) {
+        // 곧 실행될 task(씬 TTS 대기/backoff)가 있으면 잠깐 기다렸다가 다시 확인
+        if (Date.now() - startedAt + 3000 < maxRuntimeMs && (await hasReadyTasks(5000))) {
+          await sleepMs(2000)
+          continue
+        }
+        break
+      }
+
+      stats.claimed++
+      await runTask(task, stats)
+    }
+
+    console.log('[ytg] worker 종료', stats)
+    return stats
+  }
+
+  return { processQueue, hasReadyTasks }
+}
+
+// 처리할 task가 남았는데 실행 예산을 다 쓴 경우 다음 워커를 깨웁니다. (실패해도 cron이 이어서 처리)
+async function kickNextWorker(reason: string) {
+  const supabaseUrl = requireEnv('SUPABASE_URL').replace(/\/$/, '')
+  const auth = buildEdgeFunctionAuthHeaders(pickJwtKey([Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('SUPABASE_ANON_KEY')]))
+  if (!auth.ok) return
+  try {
+    const r = await fetch(`${supabaseUrl}/functions/v1/trendstory-worker`, {
+      method: 'POST',
+      headers: auth.headers,
+      body: JSON.stringify({ reason }),
+    })
+    await r.text().catch(() => '')
+  } catch (e: any) {
+    console.warn('[ytg] 다음 worker kick 실패(무시)', { error: e?.message ?? String(e) })
+  }
+}
+
+async function runWorker(workerId: string, maxTasks: number) {
+  const worker = createWorker(workerId)
+  const stats = await worker.processQueue(maxTasks)
+  if (stats.stopped_by !== 'empty' && (await worker.hasReadyTasks(0))) await kickNextWorker(`continue:${workerId}`)
+  return stats
+}
+
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+  if (!isServiceRoleRequest(req)) {
+    return json({ error: 'forbidden', hint: 'SUPABASE_SERVICE_ROLE_KEY로만 호출할 수 있습니다. (cron 예시는 migrations 참고)' }, 403)
+  }
+
+  let payload: WorkerRequest = {}
+  try {
+    const text = await req.text()
+    payload = text.trim() ? (JSON.parse(text) as WorkerRequest) : {}
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const workerId = `worker-${crypto.randomUUID().slice(0, 8)}`
+  const maxTasks = Math.max(1, Math.min(Number(payload.max_tasks ?? 20) || 20, 100))
+
+  try {
+    if (payload.wait) {
+      const stats = await runWorker(workerId, maxTasks)
+      return json(stats, 200)
+    }
+
+    // 즉시 응답 후 백그라운드에서 큐 처리 (호출한 함수가 기다리지 않도록)
+    const run = runWorker(workerId, maxTasks).catch((e: any) => {
+      console.error('[ytg] trendstory-worker error', { workerId, error: e?.message ?? String(e) })
+    })
+    const waitUntil = (globalThis as any).EdgeRuntime?.waitUntil
+    if (typeof waitUntil === 'function') waitUntil(run)
+
+    return json({ accepted: true, worker_id: workerId, reason: payload.reason ?? null }, 202)
+  } catch (e: any) {
+    const msg = e?.message ?? String(e)
+    const hint = msg.includes('ytg_claim_tasks') || msg.includes('ytg_tasks')
+      ? 'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-23_add_task_queue.sql 을 실행하세요.'
+      : undefined
+    console.error('[ytg] trendstory-worker error', { workerId, msg })
+    return json({ error: msg, hint }, 500)
+  }
+})
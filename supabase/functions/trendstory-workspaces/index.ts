@@ -0,0 +1,254 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders: Record<string, string> = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, x-client-info, apikey, content-type',
+  'access-control-allow-methods': 'GET, POST, OPTIONS',
+}
+
+function handleOptions(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null
+  return new Response('ok', { headers: corsHeaders })
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'content-type': 'application/json; charset=utf-8' },
+  })
+}
+
+function requireEnv(name: string) {
+  const v = Deno.env.get(name)
+  if (!v) throw new Error(`Missing required env: ${name}`)
+  return v
+}
+
+function getSupabaseServiceClient() {
+  const url = requireEnv('SUPABASE_URL')
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY')
+  return createClient(url, serviceRoleKey)
+}
+
+// ---- Auth (단일 파일 배포를 위해 index.ts에 포함) ----
+// 로그인한 사용자의 access token(JWT)을 검증합니다. anon key만 보낸 요청은 null.
+async function getRequestUser(req: Request): Promise<{ id: string; email: string | null } | null> {
+  const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim()
+  if (!bearer || bearer.split('.').length < 3) return null
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await client.auth.getUser(bearer)
+  if (error || !data?.user) return null
+  return { id: data.user.id, email: data.user.email ?? null }
+}
+
+function unauthorized() {
+  return json({ error: 'Unauthorized', hint: '로그인이 필요합니다. 웹에서 다시 로그인한 뒤 시도하세요.' }, 401)
+}
+
+const WORKSPACE_MIGRATION_HINT =
+  'DB 마이그레이션이 적용되지 않았습니다. SQL Editor에서 supabase/migrations/2025-12-27_add_workspaces.sql 을 실행하세요.'
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer']
+
+type WorkspaceListItem = {
+  id: string
+  name: string
+  created_at: string
+  role: WorkspaceRole
+  member_count: number
+}
+
+type WorkspaceMember = {
+  user_id: string
+  email: string | null
+  role: WorkspaceRole
+  created_at: string
+}
+
+type WorkspacesRequest =
+  | { action: 'create'; name: string }
+  | { action: 'add_member'; workspace_id: string; email: string; role: WorkspaceRole }
+  | { action: 'remove_member'; workspace_id: string; user_id: string }
+
+class HttpError extends Error {
+  status: number
+  hint?: string
+  constructor(status: number, message: string, hint?: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.hint = hint
+  }
+}
+
+async function getMemberRole(supabase: any, workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const res = await supabase
+    .from('ytg_workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (res.error) throw new Error(res.error.message)
+  return (res.data?.role as WorkspaceRole | undefined) ?? null
+}
+
+// 멤버 관리는 owner만 가능합니다. (멤버가 아니면 워크스페이스 존재 여부도 드러내지 않도록 404)
+async function requireOwner(supabase: any, workspaceId: string, userId: string) {
+  const role = await getMemberRole(supabase, workspaceId, userId)
+  if (!role) throw new HttpError(404, 'Workspace not found')
+  if (role !== 'owner') throw new HttpError(403, 'forbidden', '멤버 관리는 워크스페이스 owner만 할 수 있습니다.')
+}
+
+async function listWorkspaces(supabase: any, userId: string): Promise<WorkspaceListItem[]> {
+  const mine = await supabase
+    .from('ytg_workspace_members')
+    .select('role, workspace:ytg_workspaces(id, name, created_at)')
+    .eq('user_id', userId)
+  if (mine.error) throw new Error(mine.error.message)
+
+  const rows = (mine.data ?? []).filter((r: any) => r.workspace)
+  const counts = new Map<string, number>()
+  if (rows.length > 0) {
+    const members = await supabase
+      .from('ytg_workspace_members')
+      .select('workspace_id')
+      .in('workspace_id', rows.map((r: any) => r.workspace.id))
+    if (members.error) throw new Error(members.error.message)
+    for (const m of members.data ?? []) counts.set(m.workspace_id, (counts.get(m.workspace_id) ?? 0) + 1)
+  }
+
+  return rows
+    .map((r: any) => ({
+      id: r.workspace.id,
+      name: r.workspace.name,
+      created_at: r.workspace.created_at,
+      role: r.role as WorkspaceRole,
+      member_count: counts.get(r.workspace.id) ?? 1,
+    }))
+    .sort((a: WorkspaceListItem, b: WorkspaceListItem) => a.created_at.localeCompare(b.created_at))
+}
+
+async function listMembers(supabase: any, workspaceId: string): Promise<WorkspaceMember[]> {
+  const res = await supabase
+    .from('ytg_workspace_members')
+    .select('user_id, role, created_at')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true })
+  if (res.error) throw new Error(res.error.message)
+
+  const out: WorkspaceMember[] = []
+  for (const m of res.data ?? []) {
+    // 이메일은 auth.users에만 있으므로 admin API로 조회 (멤버 수가 적다는 가정)
+    const u = await supabase.auth.admin.getUserById(m.user_id)
+    out.push({ user_id: m.user_id, email: u.data?.user?.email ?? null, role: m.role as WorkspaceRole, created_at: m.created_at })
+  }
+  return out
+}
+
+async function handleAction(supabase: any, userId: string, payload: WorkspacesRequest) {
+  if (payload?.action === 'create') {
+    const name = String(payload.name ?? '').trim()
+    if (!name || name.length > 80) throw new HttpError(400, 'name is required (1~80자)')
+    const ins = await supabase.from('ytg_workspaces').insert({ name, created_by: userId }).select('id, name, created_at').single()
+    if (ins.error) throw new Error(ins.error.message)
+    const member = await supabase.from('ytg_workspace_members').insert({ workspace_id: ins.data.id, user_id: userId, role: 'owner' })
+    if (member.error) {
+      await supabase.from('ytg_workspaces').delete().eq('id', ins.data.id)
+      throw new Error(member.error.message)
+    }
+    console.log('[ytg] 워크스페이스 생성', { workspace_id: ins.data.id, userId })
+    return { workspace: { ...ins.data, role: 'owner', member_count: 1 } }
+  }
+
+  if (payload?.action === 'add_member') {
+    const workspaceId = String(payload.workspace_id ?? '').trim()
+    const email = String(payload.email ?? '').trim()
+    const role = payload.role
+    if (!workspaceId) throw new HttpError(400, 'workspace_id is required')
+    if (!email) throw new HttpError(400, 'email is required')
+    if (!WORKSPACE_ROLES.includes(role)) throw new HttpError(400, `role must be one of: ${WORKSPACE_ROLES.join(', ')}`)
+    await requireOwner(supabase, workspaceId, userId)
+
+    const found = await supabase.rpc('ytg_find_user_id_by_email', { p_email: email })
+    if (found.error) throw new Error(found.error.message)
+    const memberId = found.data as string | null
+    if (!memberId) throw new HttpError(404, '해당 이메일로 가입한 사용자가 없습니다.', '초대할 사람이 먼저 회원가입해야 합니다.')
+    if (memberId === userId && role !== 'owner') {
+      throw new HttpError(400, '본인의 owner 권한은 낮출 수 없습니다.', '다른 owner를 지정한 뒤 그 계정에서 변경하세요.')
+    }
+
+    const up = await supabase
+      .from('ytg_workspace_members')
+      .upsert({ workspace_id: workspaceId, user_id: memberId, role }, { onConflict: 'workspace_id,user_id' })
+    if (up.error) throw new Error(up.error.message)
+    console.log('[ytg] 워크스페이스 멤버 추가/변경', { workspace_id: workspaceId, member: memberId, role })
+    return { members: await listMembers(supabase, workspaceId) }
+  }
+
+  if (payload?.action === 'remove_member') {
+    const workspaceId = String(payload.workspace_id ?? '').trim()
+    const memberId = String(payload.user_id ?? '').trim()
+    if (!workspaceId || !memberId) throw new HttpError(400, 'workspace_id and user_id are required')
+    // 본인 탈퇴는 누구나 가능, 다른 멤버 제거는 owner만
+    if (memberId !== userId) await requireOwner(supabase, workspaceId, userId)
+
+    const members = await listMembers(supabase, workspaceId)
+    const target = members.find((m) => m.user_id === memberId)
+    if (!target) throw new HttpError(404, 'Member not found')
+    if (target.role === 'owner' && members.filter((m) => m.role === 'owner').length <= 1) {
+      throw new HttpError(400, '마지막 owner는 제거할 수 없습니다.', '다른 멤버를 owner로 지정한 뒤 다시 시도하세요.')
+    }
+
+    const del = await supabase.from('ytg_workspace_members').delete().eq('workspace_id', workspaceId).eq('user_id', memberId)
+    if (del.error) throw new Error(del.error.message)
+    console.log('[ytg] 워크스페이스 멤버 제거', { workspace_id: workspaceId, member: memberId })
+    return { members: members.filter((m) => m.user_id !== memberId) }
+  }
+
+  throw new HttpError(400, 'action must be one of: create, add_member, remove_member')
+}
+
+// GET: 내 워크스페이스 목록 (?workspace_id=... 이면 멤버 목록)
+// POST: { action: 'create' | 'add_member' | 'remove_member', ... }
+// 워크스페이스 테이블은 브라우저에서 쓰기 권한이 없으므로, 역할 확인 후 service role로 기록합니다.
+Deno.serve(async (req) => {
+  const opt = handleOptions(req)
+  if (opt) return opt
+
+  if (req.method !== 'GET' && req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    const supabase = getSupabaseServiceClient()
+
+    if (req.method === 'GET') {
+      const workspaceId = (new URL(req.url).searchParams.get('workspace_id') ?? '').trim()
+      if (!workspaceId) return json({ workspaces: await listWorkspaces(supabase, user.id) }, 200)
+
+      const role = await getMemberRole(supabase, workspaceId, user.id)
+      if (!role) return json({ error: 'Workspace not found' }, 404)
+      return json({ workspace_id: workspaceId, role, members: await listMembers(supabase, workspaceId) }, 200)
+    }
+
+    let payload: WorkspacesRequest
+    try {
+      payload = (await req.json()) as WorkspacesRequest
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400)
+    }
+    return json(await handleAction(supabase, user.id, payload), 200)
+  } catch (e: any) {
+    if (e instanceof HttpError) return json({ error: e.message, hint: e.hint }, e.status)
+    const msg = e?.message ?? String(e)
+    const hint = msg.includes('ytg_workspace') || msg.includes('ytg_find_user_id_by_email') ? WORKSPACE_MIGRATION_HINT : undefined
+    console.error('[ytg] trendstory-workspaces error', { msg })
+    return json({ error: msg, hint }, 500)
+  }
+})
@@ -0,0 +1,10 @@
+-- youtube-generator: per-stage pipeline checkpoints (for trendstory-start resume_from)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- checkpoints 예시:
+-- { "autoconfig": { "done_at": "..." }, "packager": { "done_at": "..." }, "scenes": { "done_at": "...", "count": 8 },
+--   "tts": { "done_at": "...", "done": 8, "failed": 0 }, "image_requests": { "done_at": "...", "count": 8 },
+--   "final_package": { "done_at": "..." } }
+
+alter table public.ytg_jobs
+add column if not exists checkpoints jsonb not null default '{}'::jsonb;
@@ -0,0 +1,36 @@
+-- youtube-generator: per-call usage/cost accounting (tokens, images, TTS chars)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- Edge Functions가 유료 호출 1회당 1행을 기록합니다. (service role로 insert)
+-- cost_usd는 가격표(YTG_PRICE_TABLE) 기반 추정치이며, 단가가 없는 모델이면 null입니다.
+
+create table if not exists public.ytg_usage (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.ytg_jobs(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  kind text not null check (kind in ('text','image','tts')),
+  op text not null,
+  provider text not null,
+  model text not null,
+  scene_id int,
+  input_tokens int,
+  output_tokens int,
+  image_count int,
+  image_size text,
+  tts_chars int,
+  cost_usd numeric(12,6)
+);
+
+create index if not exists ytg_usage_job_id_idx on public.ytg_usage (job_id);
+create index if not exists ytg_usage_created_at_idx on public.ytg_usage (created_at desc);
+
+-- RLS
+alter table public.ytg_usage enable row level security;
+
+-- MVP 정책: 조회만 오픈 (기록은 Edge Functions의 service role만)
+drop policy if exists "ytg_usage_select_all" on public.ytg_usage;
+create policy "ytg_usage_select_all"
+on public.ytg_usage
+for select
+to anon, authenticated
+using (true);
@@ -0,0 +1,13 @@
+-- youtube-generator: job cancellation (CANCELLED status + cooperative cancel flag)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+
+-- 1) status에 CANCELLED 추가
+alter table public.ytg_jobs
+drop constraint if exists ytg_jobs_status_check;
+
+alter table public.ytg_jobs
+add constraint ytg_jobs_status_check check (status in ('QUEUED','RUNNING','SUCCEEDED','FAILED','CANCELLED'));
+
+-- 2) 취소 요청 시각 (백그라운드 작업이 단계/씬 사이마다 확인)
+alter table public.ytg_jobs
+add column if not exists cancel_requested_at timestamptz;
@@ -0,0 +1,87 @@
+-- youtube-generator: durable task queue (pipeline stages / scene images / scene TTS)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- trendstory-start / retry-images / retry-audio는 작업을 ytg_tasks에 넣기만 하고,
+-- trendstory-worker가 lease를 잡고(claim) 실행합니다.
+-- 워커가 죽으면 heartbeat가 끊겨 lease가 만료되고, 다음 워커가 같은 task를 다시 가져갑니다.
+
+create table if not exists public.ytg_tasks (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  job_id uuid not null references public.ytg_jobs(id) on delete cascade,
+  kind text not null check (kind in ('pipeline_stage','scene_image','scene_tts')),
+  payload jsonb not null default '{}'::jsonb,
+  -- 같은 job에서 같은 작업(예: scene_tts:3)이 중복으로 쌓이지 않도록 사용
+  dedupe_key text,
+  status text not null default 'QUEUED' check (status in ('QUEUED','RUNNING','SUCCEEDED','FAILED','CANCELLED')),
+  attempts int not null default 0,
+  max_attempts int not null default 3,
+  next_run_at timestamptz not null default now(),
+  lease_owner text,
+  lease_expires_at timestamptz,
+  heartbeat_at timestamptz,
+  started_at timestamptz,
+  finished_at timestamptz,
+  last_error text
+);
+
+create index if not exists ytg_tasks_ready_idx on public.ytg_tasks (status, next_run_at);
+create index if not exists ytg_tasks_job_id_idx on public.ytg_tasks (job_id, status);
+
+-- 실행할 task를 lease와 함께 가져옵니다. (동시에 여러 워커가 호출해도 skip locked로 중복 claim 방지)
+-- - QUEUED이고 next_run_at이 지난 task
+-- - RUNNING이지만 lease가 만료된 task (워커가 죽은 경우)
+-- attempts는 claim 시점에 증가합니다. max_attempts 초과 여부는 워커가 판단해 FAILED로 마감합니다.
+create or replace function public.ytg_claim_tasks(p_worker_id text, p_limit int default 1, p_lease_seconds int default 120)
+returns setof public.ytg_tasks
+language plpgsql
+as $$
+begin
+  return query
+  update public.ytg_tasks t
+     set status = 'RUNNING',
+         attempts = t.attempts + 1,
+         lease_owner = p_worker_id,
+         lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+         heartbeat_at = now(),
+         started_at = now(),
+         updated_at = now()
+   where t.id in (
+     select c.id
+       from public.ytg_tasks c
+      where (c.status = 'QUEUED' and c.next_run_at <= now())
+         or (c.status = 'RUNNING' and c.lease_expires_at < now())
+      order by c.next_run_at asc
+      limit greatest(1, p_limit)
+      for update skip locked
+   )
+  returning t.*;
+end;
+$$;
+
+-- RLS
+alter table public.ytg_tasks enable row level security;
+
+-- MVP 정책: 조회만 오픈 (enqueue/claim은 Edge Functions의 service role만)
+drop policy if exists "ytg_tasks_select_all" on public.ytg_tasks;
+create policy "ytg_tasks_select_all"
+on public.ytg_tasks
+for select
+to anon, authenticated
+using (true);
+
+-- (권장) 워커 주기 실행: 함수 호출(kick)이 유실되거나 워커가 중간에 죽어도 1분 안에 다시 처리됩니다.
+-- pg_cron + pg_net 확장을 켠 뒤 <project-ref>, <service-role-key>를 채워 실행하세요.
+--
+-- select cron.schedule(
+--   'ytg-worker',
+--   '* * * * *',
+--   $$
+--   select net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/trendstory-worker',
+--     headers := jsonb_build_object('content-type', 'application/json', 'authorization', 'Bearer <service-role-key>'),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,28 @@
+-- youtube-generator: job heartbeat + stalled job recovery
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- 파이프라인 단계/큐 task가 실행되는 동안 heartbeat_at을 주기적으로 갱신합니다.
+-- trendstory-sweeper가 heartbeat가 N분 이상 끊긴 QUEUED/RUNNING job을 찾아
+-- 체크포인트부터 다시 큐에 넣거나(recovery_count 증가) FAILED로 마감합니다.
+
+alter table public.ytg_jobs
+add column if not exists heartbeat_at timestamptz;
+
+alter table public.ytg_jobs
+add column if not exists recovery_count int not null default 0;
+
+create index if not exists ytg_jobs_status_heartbeat_idx on public.ytg_jobs (status, heartbeat_at);
+
+-- (권장) sweeper 주기 실행: 2025-12-23_add_task_queue.sql의 워커 cron 예시와 같은 방식으로 5분마다 호출
+--
+-- select cron.schedule(
+--   'ytg-sweeper',
+--   '*/5 * * * *',
+--   $$
+--   select net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/trendstory-sweeper',
+--     headers := jsonb_build_object('content-type', 'application/json', 'authorization', 'Bearer <service-role-key>'),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
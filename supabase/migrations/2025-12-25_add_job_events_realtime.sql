@@ -0,0 +1,191 @@
+-- youtube-generator: job progress events for Supabase Realtime
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- JobPage가 2.5초마다 trendstory-status 전체(누적 로그/씬/에셋 포함)를 다시 받지 않도록,
+-- 변경분만 ytg_job_events에 한 줄씩 기록하고 웹은 Realtime(postgres_changes)으로 구독합니다.
+-- 이벤트는 트리거가 만들기 때문에 Edge Functions 코드는 바뀌지 않습니다.
+--
+-- kind
+-- - status      : job 상태 변경 { status, error }
+-- - stage       : 새 체크포인트(단계 완료) { stage, checkpoint }
+-- - log         : packager._runtime.logs에 추가된 로그 한 줄 { ts, level, msg, data }
+-- - scene_image : 씬 이미지 생성 상태/결과 변경 { scene_id, image_url, image_path, image_gen_status, ... }
+-- - scene_audio : 오디오 에셋 추가 (ytg_assets 행)
+-- - task        : 큐 task 상태 변경 (ytg_tasks 행 요약)
+
+create table if not exists public.ytg_job_events (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  job_id uuid not null references public.ytg_jobs(id) on delete cascade,
+  kind text not null check (kind in ('status','stage','log','scene_image','scene_audio','task')),
+  payload jsonb not null default '{}'::jsonb
+);
+
+create index if not exists ytg_job_events_job_id_idx on public.ytg_job_events (job_id, id);
+create index if not exists ytg_job_events_created_at_idx on public.ytg_job_events (created_at);
+
+-- 1) ytg_jobs: 상태/체크포인트/로그 변경
+create or replace function public.ytg_emit_job_events()
+returns trigger
+language plpgsql
+as $$
+declare
+  k text;
+  i int;
+  old_n int := 0;
+  new_n int := 0;
+  old_logs jsonb := '[]'::jsonb;
+  new_logs jsonb := coalesce(new.packager #> '{_runtime,logs}', '[]'::jsonb);
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.ytg_job_events (job_id, kind, payload)
+    values (new.id, 'status', jsonb_build_object('status', new.status, 'error', new.error));
+  end if;
+
+  if tg_op = 'UPDATE' and new.checkpoints is distinct from old.checkpoints and jsonb_typeof(new.checkpoints) = 'object' then
+    for k in select jsonb_object_keys(new.checkpoints) loop
+      if not (coalesce(old.checkpoints, '{}'::jsonb) ? k) then
+        insert into public.ytg_job_events (job_id, kind, payload)
+        values (new.id, 'stage', jsonb_build_object('stage', k, 'checkpoint', new.checkpoints -> k));
+      end if;
+    end loop;
+  end if;
+
+  -- 로그는 배열 뒤에 추가만 되므로 늘어난 부분만 이벤트로 보냅니다. (줄었으면 초기화된 것으로 보고 처음부터)
+  if tg_op = 'UPDATE' then
+    old_logs := coalesce(old.packager #> '{_runtime,logs}', '[]'::jsonb);
+  end if;
+  if jsonb_typeof(new_logs) = 'array' then
+    new_n := jsonb_array_length(new_logs);
+    if jsonb_typeof(old_logs) = 'array' then old_n := jsonb_array_length(old_logs); end if;
+    if new_n < old_n then old_n := 0; end if;
+    for i in old_n .. new_n - 1 loop
+      insert into public.ytg_job_events (job_id, kind, payload) values (new.id, 'log', new_logs -> i);
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists ytg_jobs_emit_events on public.ytg_jobs;
+create trigger ytg_jobs_emit_events
+after insert or update on public.ytg_jobs
+for each row execute function public.ytg_emit_job_events();
+
+-- 2) ytg_scenes: 이미지 생성 상태/결과 변경
+create or replace function public.ytg_emit_scene_events()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.image_url is distinct from old.image_url
+     or new.image_gen_status is distinct from old.image_gen_status
+     or new.image_gen_error is distinct from old.image_gen_error then
+    insert into public.ytg_job_events (job_id, kind, payload)
+    values (
+      new.job_id,
+      'scene_image',
+      jsonb_build_object(
+        'scene_id', new.scene_id,
+        'image_url', new.image_url,
+        'image_path', new.image_path,
+        'image_prompt', new.image_prompt,
+        'image_gen_status', new.image_gen_status,
+        'image_gen_request_id', new.image_gen_request_id,
+        'image_gen_started_at', new.image_gen_started_at,
+        'image_gen_error', new.image_gen_error
+      )
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists ytg_scenes_emit_events on public.ytg_scenes;
+create trigger ytg_scenes_emit_events
+after update on public.ytg_scenes
+for each row execute function public.ytg_emit_scene_events();
+
+-- 3) ytg_assets: 오디오 에셋 추가
+create or replace function public.ytg_emit_asset_events()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.type = 'audio' then
+    insert into public.ytg_job_events (job_id, kind, payload)
+    values (
+      new.job_id,
+      'scene_audio',
+      jsonb_build_object('id', new.id, 'job_id', new.job_id, 'type', new.type, 'path', new.path, 'url', new.url, 'meta', new.meta)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists ytg_assets_emit_events on public.ytg_assets;
+create trigger ytg_assets_emit_events
+after insert on public.ytg_assets
+for each row execute function public.ytg_emit_asset_events();
+
+-- 4) ytg_tasks: 상태 변경 (2025-12-23_add_task_queue.sql 이후에 실행)
+create or replace function public.ytg_emit_task_events()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status or new.attempts is distinct from old.attempts then
+    insert into public.ytg_job_events (job_id, kind, payload)
+    values (
+      new.job_id,
+      'task',
+      jsonb_build_object(
+        'id', new.id,
+        'created_at', new.created_at,
+        'kind', new.kind,
+        'payload', new.payload,
+        'status', new.status,
+        'attempts', new.attempts,
+        'max_attempts', new.max_attempts,
+        'next_run_at', new.next_run_at,
+        'heartbeat_at', new.heartbeat_at,
+        'finished_at', new.finished_at,
+        'last_error', new.last_error
+      )
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists ytg_tasks_emit_events on public.ytg_tasks;
+create trigger ytg_tasks_emit_events
+after insert or update on public.ytg_tasks
+for each row execute function public.ytg_emit_task_events();
+
+-- RLS
+alter table public.ytg_job_events enable row level security;
+
+-- MVP 정책: 조회만 오픈 (기록은 트리거만)
+drop policy if exists "ytg_job_events_select_all" on public.ytg_job_events;
+create policy "ytg_job_events_select_all"
+on public.ytg_job_events
+for select
+to anon, authenticated
+using (true);
+
+-- Realtime publication에 추가 (이미 추가되어 있으면 건너뜀)
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+     where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'ytg_job_events'
+  ) then
+    alter publication supabase_realtime add table public.ytg_job_events;
+  end if;
+end;
+$$;
+
+-- 오래된 이벤트는 trendstory-sweeper가 정리합니다. (YTG_JOB_EVENTS_RETENTION_HOURS, 기본 72시간)
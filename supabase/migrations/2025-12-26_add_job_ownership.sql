@@ -0,0 +1,75 @@
+-- youtube-generator: job ownership (Supabase Auth) + owner-only RLS
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- - ytg_jobs.owner_id: job을 만든 사용자 (trendstory-start가 로그인한 사용자의 id로 기록)
+-- - 브라우저(anon/authenticated)에서 열려 있던 insert/update 정책을 제거하고, 조회도 본인 job만 허용합니다.
+--   (생성/수정/삭제는 모두 Edge Functions가 JWT를 검증한 뒤 service role로 수행)
+--
+-- 기존 job은 owner_id가 비어 있어 아무에게도 보이지 않습니다. 필요하면 아래처럼 소유자를 지정하세요.
+--   update public.ytg_jobs set owner_id = '<auth.users.id>' where owner_id is null;
+
+alter table public.ytg_jobs
+add column if not exists owner_id uuid references auth.users(id) on delete set null;
+
+create index if not exists ytg_jobs_owner_created_at_idx on public.ytg_jobs (owner_id, created_at desc);
+
+-- 1) 기존 MVP 정책 제거 (using (true))
+drop policy if exists "ytg_jobs_select_all" on public.ytg_jobs;
+drop policy if exists "ytg_jobs_insert_all" on public.ytg_jobs;
+drop policy if exists "ytg_jobs_update_all" on public.ytg_jobs;
+drop policy if exists "ytg_scenes_select_all" on public.ytg_scenes;
+drop policy if exists "ytg_scenes_insert_all" on public.ytg_scenes;
+drop policy if exists "ytg_scenes_update_all" on public.ytg_scenes;
+drop policy if exists "ytg_assets_select_all" on public.ytg_assets;
+drop policy if exists "ytg_assets_insert_all" on public.ytg_assets;
+drop policy if exists "ytg_assets_update_all" on public.ytg_assets;
+drop policy if exists "ytg_usage_select_all" on public.ytg_usage;
+drop policy if exists "ytg_tasks_select_all" on public.ytg_tasks;
+drop policy if exists "ytg_job_events_select_all" on public.ytg_job_events;
+
+-- 2) 본인 job만 조회
+drop policy if exists "ytg_jobs_select_own" on public.ytg_jobs;
+create policy "ytg_jobs_select_own"
+on public.ytg_jobs
+for select
+to authenticated
+using (owner_id = auth.uid());
+
+-- 하위 테이블은 job 소유자 기준 (Realtime 구독도 이 정책을 따름)
+drop policy if exists "ytg_scenes_select_own" on public.ytg_scenes;
+create policy "ytg_scenes_select_own"
+on public.ytg_scenes
+for select
+to authenticated
+using (exists (select 1 from public.ytg_jobs j where j.id = job_id and j.owner_id = auth.uid()));
+
+drop policy if exists "ytg_assets_select_own" on public.ytg_assets;
+create policy "ytg_assets_select_own"
+on public.ytg_assets
+for select
+to authenticated
+using (exists (select 1 from public.ytg_jobs j where j.id = job_id and j.owner_id = auth.uid()));
+
+drop policy if exists "ytg_usage_select_own" on public.ytg_usage;
+create policy "ytg_usage_select_own"
+on public.ytg_usage
+for select
+to authenticated
+using (exists (select 1 from public.ytg_jobs j where j.id = job_id and j.owner_id = auth.uid()));
+
+drop policy if exists "ytg_tasks_select_own" on public.ytg_tasks;
+create policy "ytg_tasks_select_own"
+on public.ytg_tasks
+for select
+to authenticated
+using (exists (select 1 from public.ytg_jobs j where j.id = job_id and j.owner_id = auth.uid()));
+
+drop policy if exists "ytg_job_events_select_own" on public.ytg_job_events;
+create policy "ytg_job_events_select_own"
+on public.ytg_job_events
+for select
+to authenticated
+using (exists (select 1 from public.ytg_jobs j where j.id = job_id and j.owner_id = auth.uid()));
+
+-- 3) 브라우저에서 직접 쓰기 금지 (정책이 없으면 RLS가 거부하지만 권한도 명시적으로 회수)
+revoke insert, update, delete on public.ytg_jobs, public.ytg_scenes, public.ytg_assets from anon, authenticated;
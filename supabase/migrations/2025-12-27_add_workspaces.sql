@@ -0,0 +1,151 @@
+-- youtube-generator: team workspaces (owner/editor/viewer) for shared job libraries
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+-- (2025-12-26_add_job_ownership.sql 이후에 실행)
+--
+-- - ytg_workspaces / ytg_workspace_members: 워크스페이스와 멤버 역할
+--   - owner : 멤버 관리 + editor 권한
+--   - editor: job 생성/재개/취소/삭제, 이미지·오디오 재생성
+--   - viewer: 조회/다운로드만
+-- - ytg_jobs.workspace_id: job이 속한 워크스페이스 (null이면 owner_id 본인만 보는 개인 job)
+-- - 쓰기는 계속 Edge Functions(service role)가 역할을 확인한 뒤 수행합니다.
+
+create table if not exists public.ytg_workspaces (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null check (char_length(name) between 1 and 80),
+  created_by uuid references auth.users(id) on delete set null
+);
+
+create table if not exists public.ytg_workspace_members (
+  workspace_id uuid not null references public.ytg_workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('owner','editor','viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists ytg_workspace_members_user_idx on public.ytg_workspace_members (user_id);
+
+alter table public.ytg_jobs
+add column if not exists workspace_id uuid references public.ytg_workspaces(id) on delete set null;
+
+create index if not exists ytg_jobs_workspace_created_at_idx on public.ytg_jobs (workspace_id, created_at desc);
+
+-- 현재 사용자의 워크스페이스 역할 (멤버가 아니면 null)
+-- security definer: RLS 정책 안에서 ytg_workspace_members를 다시 조회할 때 재귀를 피하기 위해 사용
+create or replace function public.ytg_workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.role
+    from public.ytg_workspace_members m
+   where m.workspace_id = p_workspace_id
+     and m.user_id = auth.uid()
+$$;
+
+-- job 조회 권한: 개인 job이면 소유자, 워크스페이스 job이면 멤버(역할 무관)
+create or replace function public.ytg_can_read_job(p_job_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from public.ytg_jobs j
+     where j.id = p_job_id
+       and (
+         (j.workspace_id is null and j.owner_id = auth.uid())
+         or (j.workspace_id is not null and public.ytg_workspace_role(j.workspace_id) is not null)
+       )
+  )
+$$;
+
+-- 멤버 초대용: 이메일로 사용자 id 조회 (Edge Functions의 service role만 실행)
+create or replace function public.ytg_find_user_id_by_email(p_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select u.id from auth.users u where lower(u.email) = lower(trim(p_email)) limit 1
+$$;
+
+revoke execute on function public.ytg_find_user_id_by_email(text) from public, anon, authenticated;
+
+-- RLS
+alter table public.ytg_workspaces enable row level security;
+alter table public.ytg_workspace_members enable row level security;
+
+drop policy if exists "ytg_workspaces_select_member" on public.ytg_workspaces;
+create policy "ytg_workspaces_select_member"
+on public.ytg_workspaces
+for select
+to authenticated
+using (public.ytg_workspace_role(id) is not null);
+
+drop policy if exists "ytg_workspace_members_select_member" on public.ytg_workspace_members;
+create policy "ytg_workspace_members_select_member"
+on public.ytg_workspace_members
+for select
+to authenticated
+using (public.ytg_workspace_role(workspace_id) is not null);
+
+-- job / 하위 테이블 조회 정책을 워크스페이스 기준으로 교체
+drop policy if exists "ytg_jobs_select_own" on public.ytg_jobs;
+drop policy if exists "ytg_jobs_select_member" on public.ytg_jobs;
+create policy "ytg_jobs_select_member"
+on public.ytg_jobs
+for select
+to authenticated
+using (
+  (workspace_id is null and owner_id = auth.uid())
+  or (workspace_id is not null and public.ytg_workspace_role(workspace_id) is not null)
+);
+
+drop policy if exists "ytg_scenes_select_own" on public.ytg_scenes;
+drop policy if exists "ytg_scenes_select_member" on public.ytg_scenes;
+create policy "ytg_scenes_select_member"
+on public.ytg_scenes
+for select
+to authenticated
+using (public.ytg_can_read_job(job_id));
+
+drop policy if exists "ytg_assets_select_own" on public.ytg_assets;
+drop policy if exists "ytg_assets_select_member" on public.ytg_assets;
+create policy "ytg_assets_select_member"
+on public.ytg_assets
+for select
+to authenticated
+using (public.ytg_can_read_job(job_id));
+
+drop policy if exists "ytg_usage_select_own" on public.ytg_usage;
+drop policy if exists "ytg_usage_select_member" on public.ytg_usage;
+create policy "ytg_usage_select_member"
+on public.ytg_usage
+for select
+to authenticated
+using (public.ytg_can_read_job(job_id));
+
+drop policy if exists "ytg_tasks_select_own" on public.ytg_tasks;
+drop policy if exists "ytg_tasks_select_member" on public.ytg_tasks;
+create policy "ytg_tasks_select_member"
+on public.ytg_tasks
+for select
+to authenticated
+using (public.ytg_can_read_job(job_id));
+
+drop policy if exists "ytg_job_events_select_own" on public.ytg_job_events;
+drop policy if exists "ytg_job_events_select_member" on public.ytg_job_events;
+create policy "ytg_job_events_select_member"
+on public.ytg_job_events
+for select
+to authenticated
+using (public.ytg_can_read_job(job_id));
+
+revoke insert, update, delete on public.ytg_workspaces, public.ytg_workspace_members from anon, authenticated;
@@ -0,0 +1,80 @@
+-- youtube-generator: per-user daily quotas + per-minute rate limit for generation endpoints
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+-- (2025-12-26_add_job_ownership.sql 이후에 실행)
+--
+-- - ytg_quota_counters: 사용자 x 종류 x 기간(window) 카운터
+--   - jobs / images / tts_chars: 하루 단위 (UTC 자정 초기화)
+--   - requests: 1분 단위 (생성 엔드포인트 호출 수)
+-- - 한도 값은 Edge Functions Secrets(YTG_QUOTA_*, YTG_RATE_LIMIT_PER_MINUTE)로 설정하고,
+--   함수가 ytg_consume_quota RPC로 원자적으로 차감합니다. (동시에 여러 요청이 와도 한도를 넘지 않음)
+
+create table if not exists public.ytg_quota_counters (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('jobs','images','tts_chars','requests')),
+  window_start timestamptz not null,
+  amount bigint not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, kind, window_start)
+);
+
+create index if not exists ytg_quota_counters_window_idx on public.ytg_quota_counters (window_start desc);
+
+-- 한도 안이면 amount만큼 더하고 allowed=true, 넘으면 그대로 두고 allowed=false
+-- - p_limit가 null이거나 p_amount가 음수(되돌리기)면 한도와 무관하게 기록
+-- - p_amount = 0이면 남은 양이 1 이상인지만 확인
+-- - window_end: 카운터가 초기화되는 시각 (429 응답의 retry-after 계산용)
+create or replace function public.ytg_consume_quota(
+  p_user_id uuid,
+  p_kind text,
+  p_amount bigint,
+  p_limit bigint default null,
+  p_window text default 'day'
+)
+returns table (allowed boolean, used bigint, window_end timestamptz)
+language plpgsql
+as $$
+declare
+  v_unit text := case when p_window = 'minute' then 'minute' else 'day' end;
+  v_start timestamptz := date_trunc(v_unit, now() at time zone 'utc') at time zone 'utc';
+  v_end timestamptz := v_start + case when v_unit = 'minute' then interval '1 minute' else interval '1 day' end;
+  v_used bigint;
+begin
+  insert into public.ytg_quota_counters (user_id, kind, window_start)
+  values (p_user_id, p_kind, v_start)
+  on conflict (user_id, kind, window_start) do nothing;
+
+  -- update가 행 lock을 잡은 뒤 조건을 다시 평가하므로 동시 요청도 한도를 넘지 않습니다.
+  update public.ytg_quota_counters c
+     set amount = greatest(0, c.amount + p_amount),
+         updated_at = now()
+   where c.user_id = p_user_id
+     and c.kind = p_kind
+     and c.window_start = v_start
+     and (p_limit is null or p_amount < 0 or c.amount + greatest(p_amount, 1) <= p_limit)
+  returning c.amount into v_used;
+
+  if found then
+    return query select true, v_used, v_end;
+    return;
+  end if;
+
+  select c.amount into v_used
+    from public.ytg_quota_counters c
+   where c.user_id = p_user_id and c.kind = p_kind and c.window_start = v_start;
+  return query select false, coalesce(v_used, 0), v_end;
+end;
+$$;
+
+revoke execute on function public.ytg_consume_quota(uuid, text, bigint, bigint, text) from public, anon, authenticated;
+
+-- RLS: 본인 사용량만 조회 (쓰기는 Edge Functions의 service role만)
+alter table public.ytg_quota_counters enable row level security;
+
+drop policy if exists "ytg_quota_counters_select_own" on public.ytg_quota_counters;
+create policy "ytg_quota_counters_select_own"
+on public.ytg_quota_counters
+for select
+to authenticated
+using (user_id = auth.uid());
+
+revoke insert, update, delete on public.ytg_quota_counters from anon, authenticated;
@@ -0,0 +1,18 @@
+-- youtube-generator: private storage bucket (signed URL 모드)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- ytg-assets 버킷을 비공개로 바꿉니다. 반드시 Edge Functions Secrets에 YTG_STORAGE_PRIVATE=true를 함께 설정하세요.
+-- - 이미지/오디오 함수는 public URL 대신 경로(ytg_scenes.image_path, ytg_assets.path, scene_audios[].audio_path)만 저장
+-- - trendstory-status가 조회할 때마다 짧은 signed URL(YTG_SIGNED_URL_TTL_SEC, 기본 600초)을 만들어 반환
+-- - 기존 public URL은 경로를 복원해 signed URL로 바꿔 주므로 데이터 이관은 필요 없습니다.
+--
+-- 되돌리기: update storage.buckets set public = true where id = 'ytg-assets'; (+ YTG_STORAGE_PRIVATE 제거)
+-- 버킷 이름을 바꿨다면(YTG_BUCKET) 아래 id를 맞춰 주세요.
+
+update storage.buckets
+set public = false
+where id = 'ytg-assets';
+
+-- (선택) 더 이상 쓰지 않는 public URL 정리. 비공개 모드에서는 저장된 URL을 사용하지 않습니다.
+-- update public.ytg_scenes set image_url = null where image_path is not null;
+-- update public.ytg_assets set url = null where path is not null and type in ('image','audio');
@@ -0,0 +1,18 @@
+-- youtube-generator: soft delete (휴지통) for jobs
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+-- (2025-12-27_add_workspaces.sql 이후에 실행)
+--
+-- - trendstory-delete-job은 job을 바로 지우지 않고 deleted_at만 기록합니다. (휴지통)
+--   - 휴지통의 job은 목록에서 빠지고, 재생성/재개 등 수정 요청은 409로 거절됩니다.
+--   - action=restore로 복원, action=purge로 즉시 완전 삭제
+-- - 보관 기간(YTG_TRASH_RETENTION_DAYS, 기본 30일)이 지나면 trendstory-sweeper가 storage + row를 완전히 삭제합니다.
+
+alter table public.ytg_jobs
+add column if not exists deleted_at timestamptz;
+
+alter table public.ytg_jobs
+add column if not exists deleted_by uuid references auth.users(id) on delete set null;
+
+-- 휴지통 목록 / sweeper의 만료 조회용
+create index if not exists ytg_jobs_deleted_at_idx on public.ytg_jobs (deleted_at)
+where deleted_at is not null;
@@ -0,0 +1,26 @@
+-- youtube-generator: job 목록 검색 (trendstory-jobs ?q=)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- - ytg_jobs.search_text: 검색 대상 텍스트를 소문자로 합친 generated 컬럼
+--   - input.topic_domain / input.input_as_text / 생성된 제목(packager.story.title, packager.youtube_meta.titles)
+-- - 한국어는 형태소 분석 없이 부분 일치가 더 잘 맞아서 tsvector 대신 pg_trgm(ILIKE '%...%') 인덱스를 씁니다.
+-- - 기존 행도 컬럼 추가 시 한 번에 계산됩니다. (job이 많으면 잠시 걸릴 수 있음)
+
+create extension if not exists pg_trgm with schema extensions;
+
+-- concat_ws는 immutable이 아니라 generated 컬럼에 쓸 수 없어 || 로 합칩니다.
+alter table public.ytg_jobs
+add column if not exists search_text text generated always as (
+  lower(
+    coalesce(input->>'topic_domain', '') || ' ' ||
+    coalesce(input->>'input_as_text', '') || ' ' ||
+    coalesce(packager #>> '{story,title}', '') || ' ' ||
+    coalesce(packager #>> '{youtube_meta,titles}', '')
+  )
+) stored;
+
+create index if not exists ytg_jobs_search_text_trgm_idx on public.ytg_jobs using gin (search_text extensions.gin_trgm_ops);
+
+-- 정렬 + 커서(created_at, id) 페이지네이션용
+create index if not exists ytg_jobs_owner_created_at_id_idx on public.ytg_jobs (owner_id, created_at desc, id desc);
+create index if not exists ytg_jobs_workspace_created_at_id_idx on public.ytg_jobs (workspace_id, created_at desc, id desc);
@@ -0,0 +1,19 @@
+-- youtube-generator: job 태그 / 즐겨찾기(고정) / 메모
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- - tags  : 사용자 정의 태그 (예: 게시완료, 초안, 시리즈명). trendstory-update-job이 정규화해서 저장
+-- - pinned: 즐겨찾기. 기본 목록에서 맨 위에 표시
+-- - notes : 자유 메모
+-- - 쓰기는 trendstory-update-job(service role)이 job 쓰기 권한(owner/editor)을 확인한 뒤 수행합니다.
+
+alter table public.ytg_jobs
+add column if not exists tags text[] not null default '{}';
+
+alter table public.ytg_jobs
+add column if not exists pinned boolean not null default false;
+
+alter table public.ytg_jobs
+add column if not exists notes text check (notes is null or char_length(notes) <= 5000);
+
+-- 태그 필터 (tags @> array[...])
+create index if not exists ytg_jobs_tags_idx on public.ytg_jobs using gin (tags);
@@ -0,0 +1,37 @@
+-- youtube-generator: 생성 프리셋 (HomePage 시작 폼 템플릿)
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+-- (2025-12-27_add_workspaces.sql 이후에 실행)
+--
+-- - ytg_presets: 저장된 생성 옵션 묶음
+--   - workspace_id가 null이면 owner_id 본인만 쓰는 개인 프리셋
+--   - 워크스페이스 프리셋은 멤버 모두 선택 가능, owner/editor만 수정/삭제
+-- - options(jsonb): { tone, visual_style, main_character_hint, platform_target, scene_count_min, scene_count_max,
+--                     duration_min, tts_voice, extra_prompt } (trendstory-presets가 검증 후 저장)
+-- - 쓰기는 trendstory-presets(service role)가 권한을 확인한 뒤 수행합니다.
+
+create table if not exists public.ytg_presets (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  workspace_id uuid references public.ytg_workspaces(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  options jsonb not null default '{}'::jsonb
+);
+
+create index if not exists ytg_presets_owner_idx on public.ytg_presets (owner_id) where workspace_id is null;
+create index if not exists ytg_presets_workspace_idx on public.ytg_presets (workspace_id) where workspace_id is not null;
+
+alter table public.ytg_presets enable row level security;
+
+drop policy if exists "ytg_presets_select_member" on public.ytg_presets;
+create policy "ytg_presets_select_member"
+on public.ytg_presets
+for select
+to authenticated
+using (
+  (workspace_id is null and owner_id = auth.uid())
+  or (workspace_id is not null and public.ytg_workspace_role(workspace_id) is not null)
+);
+
+revoke insert, update, delete on public.ytg_presets from anon, authenticated;
@@ -0,0 +1,41 @@
+-- youtube-generator: 씬 직접 수정 + 수정 이력
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- - ytg_scenes.audio_stale : narration이 바뀌어 씬 오디오를 다시 만들어야 함 (오디오 재생성 시 해제)
+-- - ytg_scenes.image_stale : visual_brief가 바뀌어 씬 이미지를 다시 만들어야 함 (이미지 생성 시 해제)
+-- - ytg_scene_edits        : 씬 수정 이력 (바뀐 필드만 before/after로 기록)
+-- - 쓰기는 trendstory-update-scene(service role)이 job 쓰기 권한(owner/editor)을 확인한 뒤 수행합니다.
+
+alter table public.ytg_scenes
+add column if not exists updated_at timestamptz;
+
+alter table public.ytg_scenes
+add column if not exists audio_stale boolean not null default false;
+
+alter table public.ytg_scenes
+add column if not exists image_stale boolean not null default false;
+
+create table if not exists public.ytg_scene_edits (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  job_id uuid not null references public.ytg_jobs(id) on delete cascade,
+  scene_id int not null,
+  user_id uuid references auth.users(id) on delete set null,
+  source text not null default 'manual',
+  before jsonb not null default '{}'::jsonb,
+  after jsonb not null default '{}'::jsonb
+);
+
+create index if not exists ytg_scene_edits_job_scene_idx on public.ytg_scene_edits (job_id, scene_id, created_at desc);
+
+-- RLS: 조회는 job을 볼 수 있는 사용자(owner/워크스페이스 멤버), 기록은 Edge Functions의 service role만
+alter table public.ytg_scene_edits enable row level security;
+
+drop policy if exists "ytg_scene_edits_select_member" on public.ytg_scene_edits;
+create policy "ytg_scene_edits_select_member"
+on public.ytg_scene_edits
+for select
+to authenticated
+using (public.ytg_can_read_job(job_id));
+
+revoke insert, update, delete on public.ytg_scene_edits from anon, authenticated;
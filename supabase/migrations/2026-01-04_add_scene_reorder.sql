@@ -0,0 +1,138 @@
+-- youtube-generator: 씬 추가/삭제/분할/병합/순서 변경
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- - ytg_renumber_scenes : job의 씬을 주어진 순서(ytg_scenes.id 배열)대로 1..N으로 다시 매기고,
+--                         ytg_scene_edits(수정 이력)도 같은 번호로 옮깁니다. (한 트랜잭션)
+-- - (job_id, scene_id) 유니크 인덱스와 충돌하지 않도록 겹치지 않는 음수 번호를 거쳐서 바꿉니다.
+-- - ytg_apply_scene_ops : 씬 삭제/수정/추가 + 번호 다시 매기기 + 수정 이력 기록을 한 트랜잭션으로 처리합니다.
+--                         (중간에 실패하면 모두 되돌려서 번호에 빈칸이나 임시 음수 번호가 남지 않음)
+-- - trendstory-scene-ops(service role)가 job 쓰기 권한(owner/editor)을 확인한 뒤 호출합니다.
+--   스토리지 파일 삭제/이름 변경(+ 바뀐 경로), packager·final_package JSON은 커밋된 뒤 함수가 맞춥니다.
+
+create or replace function public.ytg_renumber_scenes(p_job_id uuid, p_scene_ids uuid[])
+returns int
+language plpgsql
+as $$
+declare
+  v_total int;
+  v_matched int;
+begin
+  select count(*) into v_total from public.ytg_scenes where job_id = p_job_id;
+  select count(distinct s.id) into v_matched
+    from public.ytg_scenes s
+   where s.job_id = p_job_id and s.id = any(p_scene_ids);
+  if v_matched <> v_total or coalesce(array_length(p_scene_ids, 1), 0) <> v_total then
+    raise exception 'ytg_renumber_scenes: p_scene_ids must list every scene of the job exactly once';
+  end if;
+
+  -- 1) 수정 이력: 기존 번호(양수)를 가진 씬만 옮깁니다. (새로 넣은 씬은 임시 음수 번호라 이력이 없음)
+  update public.ytg_scene_edits e
+     set scene_id = -1000 - o.ord
+    from public.ytg_scenes s
+    join unnest(p_scene_ids) with ordinality as o(id, ord) on o.id = s.id
+   where s.job_id = p_job_id
+     and s.scene_id > 0
+     and e.job_id = p_job_id
+     and e.scene_id = s.scene_id;
+  update public.ytg_scene_edits
+     set scene_id = -1000 - scene_id
+   where job_id = p_job_id and scene_id <= -1000;
+
+  -- 2) 씬 번호: -1000-ord 로 옮긴 뒤 ord(1..N)로 확정
+  update public.ytg_scenes s
+     set scene_id = -1000 - o.ord
+    from unnest(p_scene_ids) with ordinality as o(id, ord)
+   where s.id = o.id and s.job_id = p_job_id;
+  update public.ytg_scenes
+     set scene_id = -1000 - scene_id
+   where job_id = p_job_id;
+
+  return v_total;
+end;
+$$;
+
+revoke execute on function public.ytg_renumber_scenes(uuid, uuid[]) from public, anon, authenticated;
+
+-- p_updates: [{ id, patch: { narration?, on_screen_text?, visual_brief?, mood?, duration_sec?, audio_stale? } }]
+-- p_inserts: [{ id, narration, on_screen_text, visual_brief, mood, duration_sec, audio_stale }] (id는 함수가 미리 만든 uuid)
+-- p_order  : 처리 후 남는 씬의 id를 새 순서대로 (ytg_renumber_scenes에 그대로 전달)
+-- p_edits  : [{ scene_id(새 번호), user_id, source, before, after }]
+create or replace function public.ytg_apply_scene_ops(
+  p_job_id uuid,
+  p_removed_ids uuid[],
+  p_removed_asset_ids uuid[],
+  p_updates jsonb,
+  p_inserts jsonb,
+  p_order uuid[],
+  p_edits jsonb
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_removed_scene_ids int[];
+  v_total int;
+begin
+  -- 1) 없어지는 씬: 에셋 / 수정 이력 / 행 (스토리지 파일은 커밋 후 함수가 지움)
+  select coalesce(array_agg(scene_id), '{}') into v_removed_scene_ids
+    from public.ytg_scenes
+   where job_id = p_job_id and id = any(coalesce(p_removed_ids, '{}'));
+  delete from public.ytg_assets where job_id = p_job_id and id = any(coalesce(p_removed_asset_ids, '{}'));
+  delete from public.ytg_scene_edits where job_id = p_job_id and scene_id = any(v_removed_scene_ids);
+  delete from public.ytg_scenes where job_id = p_job_id and id = any(coalesce(p_removed_ids, '{}'));
+
+  -- 2) 고친 씬 (patch에 있는 필드만)
+  update public.ytg_scenes s
+     set narration = case when u.patch ? 'narration' then u.patch->>'narration' else s.narration end,
+         on_screen_text = case when u.patch ? 'on_screen_text' then u.patch->>'on_screen_text' else s.on_screen_text end,
+         visual_brief = case when u.patch ? 'visual_brief' then u.patch->>'visual_brief' else s.visual_brief end,
+         mood = case when u.patch ? 'mood' then u.patch->>'mood' else s.mood end,
+         duration_sec = case when u.patch ? 'duration_sec' then (u.patch->>'duration_sec')::int else s.duration_sec end,
+         audio_stale = case when u.patch ? 'audio_stale' then coalesce((u.patch->>'audio_stale')::boolean, false) else s.audio_stale end,
+         updated_at = now()
+    from jsonb_to_recordset(coalesce(p_updates, '[]'::jsonb)) as u(id uuid, patch jsonb)
+   where s.id = u.id and s.job_id = p_job_id;
+
+  -- 3) 새 씬: 번호를 매기기 전까지 겹치지 않는 임시 음수 번호
+  insert into public.ytg_scenes (id, job_id, scene_id, narration, on_screen_text, visual_brief, mood, duration_sec, audio_stale, updated_at)
+  select (e.v->>'id')::uuid,
+         p_job_id,
+         -e.ord::int,
+         e.v->>'narration',
+         e.v->>'on_screen_text',
+         e.v->>'visual_brief',
+         e.v->>'mood',
+         (e.v->>'duration_sec')::int,
+         coalesce((e.v->>'audio_stale')::boolean, true),
+         now()
+    from jsonb_array_elements(coalesce(p_inserts, '[]'::jsonb)) with ordinality as e(v, ord);
+
+  -- 4) 에셋 meta.scene_id: 번호를 바꾸기 전(이전 번호가 남아 있을 때) 새 번호로 옮깁니다.
+  update public.ytg_assets a
+     set meta = jsonb_set(a.meta, '{scene_id}', to_jsonb(o.ord::int))
+    from public.ytg_scenes s
+    join unnest(p_order) with ordinality as o(id, ord) on o.id = s.id
+   where s.job_id = p_job_id
+     and s.scene_id > 0
+     and s.scene_id <> o.ord
+     and a.job_id = p_job_id
+     and a.meta->>'scene_id' = s.scene_id::text;
+
+  -- 5) 1..N으로 번호 다시 매기기 (p_order가 모든 씬을 한 번씩 나열하지 않으면 예외 → 전체 롤백)
+  v_total := public.ytg_renumber_scenes(p_job_id, p_order);
+
+  -- 6) 수정 이력 (새 번호 기준)
+  insert into public.ytg_scene_edits (job_id, scene_id, user_id, source, before, after)
+  select p_job_id,
+         (e->>'scene_id')::int,
+         (e->>'user_id')::uuid,
+         coalesce(e->>'source', 'manual'),
+         coalesce(e->'before', '{}'::jsonb),
+         coalesce(e->'after', '{}'::jsonb)
+    from jsonb_array_elements(coalesce(p_edits, '[]'::jsonb)) as e;
+
+  return v_total;
+end;
+$$;
+
+revoke execute on function public.ytg_apply_scene_ops(uuid, uuid[], uuid[], jsonb, jsonb, uuid[], jsonb) from public, anon, authenticated;
@@ -0,0 +1,11 @@
+-- youtube-generator: 씬 이미지 프롬프트 편집 + 제외할 요소(negative) 목록
+-- 실행 위치: Supabase Dashboard -> SQL Editor
+--
+-- - ytg_scenes.image_prompt          : (기존) 마지막으로 성공한 이미지의 프롬프트. 사용자가 고쳐서 생성하면 그 값이 저장됩니다.
+-- - ytg_scenes.image_negative_prompt : 이미지에서 빼고 싶은 요소 목록 (예: "텍스트, 로고, 어두운 배경")
+--                                      생성 시 프롬프트 끝에 "Avoid: ..."로 붙여 보냅니다.
+-- - 프롬프트 이력은 별도 테이블 없이 ytg_assets(type = 'image')의 meta에 남습니다.
+--   (prompt / negative_prompt / prompt_source / user_id → 어떤 프롬프트로 어떤 이미지가 나왔는지 연결)
+
+alter table public.ytg_scenes
+add column if not exists image_negative_prompt text;